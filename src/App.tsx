@@ -23,6 +23,8 @@ import PostDetail from "./pages/PostDetail";
 import Friends from "./pages/Friends";
 import Jobs from "./pages/Jobs";
 import JobDetail from "./pages/JobDetail";
+import Tag from "./pages/Tag";
+import UsernameRedirect from "./pages/UsernameRedirect";
 
 // Admin pages
 import { AdminRoute } from "./components/admin/AdminRoute";
@@ -39,6 +41,7 @@ import AdminBlockedWords from "./pages/admin/AdminBlockedWords";
 import AdminPromotions from "./pages/admin/AdminPromotions";
 import AdminDeletionRequests from "./pages/admin/AdminDeletionRequests";
 import AdminJobs from "./pages/admin/AdminJobs";
+import AdminGeography from "./pages/admin/AdminGeography";
 
 const queryClient = new QueryClient();
 
@@ -55,6 +58,7 @@ const App = () => (
             <Route path="/forgot-password" element={<ForgotPassword />} />
             <Route path="/profile" element={<Profile />} />
             <Route path="/user/:id" element={<Profile />} />
+            <Route path="/u/:username" element={<UsernameRedirect />} />
             <Route path="/explore" element={<Explore />} />
             <Route path="/friends" element={<Friends />} />
             <Route path="/business/:id" element={<BusinessProfile />} />
@@ -67,6 +71,7 @@ const App = () => (
             <Route path="/create" element={<Create />} />
             <Route path="/notifications" element={<Notifications />} />
             <Route path="/post/:id" element={<PostDetail />} />
+            <Route path="/tag/:tag" element={<Tag />} />
             <Route path="/verify-email" element={<VerifyEmail />} />
             <Route path="/jobs" element={<Jobs />} />
             <Route path="/jobs/:id" element={<JobDetail />} />
@@ -84,6 +89,7 @@ const App = () => (
             <Route path="/admin/promotions" element={<AdminRoute><AdminPromotions /></AdminRoute>} />
             <Route path="/admin/jobs" element={<AdminRoute><AdminJobs /></AdminRoute>} />
             <Route path="/admin/categories" element={<AdminRoute requiredRole="category_manager"><AdminCategories /></AdminRoute>} />
+            <Route path="/admin/locations" element={<AdminRoute requiredRole="category_manager"><AdminGeography /></AdminRoute>} />
             <Route path="/admin/chat" element={<AdminRoute requiredRole="content_moderator"><AdminChatModeration /></AdminRoute>} />
             
             <Route path="*" element={<NotFound />} />
@@ -16,7 +16,8 @@ import {
   ShieldAlert,
   Megaphone,
   UserX,
-  Briefcase
+  Briefcase,
+  MapPin
 } from 'lucide-react';
 import { NavLink, useNavigate } from 'react-router-dom';
 import { cn } from '@/lib/utils';
@@ -44,6 +45,7 @@ const sidebarLinks: SidebarLink[] = [
   { title: 'Reports', href: '/admin/reports', icon: Flag, requiredRole: 'content_moderator' },
   { title: 'Word Monitor', href: '/admin/blocked-words', icon: ShieldAlert, requiredRole: 'content_moderator' },
   { title: 'Categories', href: '/admin/categories', icon: Tags, requiredRole: 'category_manager' },
+  { title: 'Locations', href: '/admin/locations', icon: MapPin, requiredRole: 'category_manager' },
   { title: 'Featured', href: '/admin/featured', icon: Star },
   { title: 'Chat Moderation', href: '/admin/chat', icon: MessageCircle, requiredRole: 'content_moderator' },
   { title: 'Notifications', href: '/admin/notifications', icon: Bell, requiredRole: 'super_admin' },
@@ -0,0 +1,115 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+
+interface Revision {
+  id: string;
+  content: string | null;
+  created_at: string;
+  editor: { full_name: string | null; username: string | null } | null;
+}
+
+interface RevisionHistory {
+  current: { content: string | null; created_at: string | null; edited_at: string | null } | null;
+  revisions: Revision[];
+}
+
+interface RevisionHistoryDialogProps {
+  entityType: 'post' | 'comment';
+  entityId: string | null;
+  onClose: () => void;
+}
+
+const getSessionToken = () => {
+  const stored = localStorage.getItem('admin_session');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
+const formatTime = (value: string | null | undefined) =>
+  value ? format(new Date(value), 'dd MMM yyyy, HH:mm') : 'Unknown';
+
+// Every version of an edited post or comment, newest first
+export function RevisionHistoryDialog({ entityType, entityId, onClose }: RevisionHistoryDialogProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['admin-revisions', entityType, entityId],
+    queryFn: async () => {
+      const sessionToken = getSessionToken();
+      if (!sessionToken) throw new Error('No admin session');
+
+      const { data, error } = await supabase.functions.invoke('admin-manage', {
+        body: { action: 'list_revisions', entity_type: entityType, entity_id: entityId },
+        headers: { 'x-session-token': sessionToken },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data.data as RevisionHistory;
+    },
+    enabled: !!entityId,
+  });
+
+  const revisions = data?.revisions || [];
+
+  return (
+    <Dialog open={!!entityId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit History</DialogTitle>
+          <DialogDescription>
+            {revisions.length === 0
+              ? `This ${entityType} has not been edited.`
+              : `Edited ${revisions.length} ${revisions.length === 1 ? 'time' : 'times'}. Earlier versions are only visible to moderators.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <Skeleton className="h-32 w-full" />}
+        {error && <p className="text-sm text-destructive">Failed to load edit history</p>}
+
+        {data && (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <div className="space-y-3">
+              <div className="rounded-lg border p-3">
+                <div className="mb-2 flex items-center gap-2">
+                  <Badge>Current</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {data.current?.edited_at ? `Edited ${formatTime(data.current.edited_at)}` : `Posted ${formatTime(data.current?.created_at)}`}
+                  </span>
+                </div>
+                <p className="whitespace-pre-wrap text-sm">{data.current?.content || '[No text]'}</p>
+              </div>
+
+              {revisions.map((revision, index) => {
+                // A revision holds the text that was live until it was replaced
+                const liveFrom = revisions[index + 1]?.created_at ?? data.current?.created_at;
+                return (
+                  <div key={revision.id} className="rounded-lg border border-dashed p-3">
+                    <div className="mb-2 flex flex-wrap items-center gap-2">
+                      <Badge variant="secondary">
+                        {index === revisions.length - 1 ? 'Original' : `Version ${revisions.length - index}`}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {formatTime(liveFrom)} – replaced {formatTime(revision.created_at)}
+                        {revision.editor && ` by ${revision.editor.full_name || revision.editor.username || 'Unknown'}`}
+                      </span>
+                    </div>
+                    <p className="whitespace-pre-wrap text-sm text-muted-foreground">{revision.content || '[No text]'}</p>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,327 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { compressImage } from '@/lib/imageCompression';
+import {
+  AVAILABILITY_OPTIONS,
+  MAX_ITEM_IMAGES,
+  type CatalogAvailability,
+  type CatalogItem,
+} from '@/lib/catalog';
+import { Image as ImageIcon, Loader2, X } from 'lucide-react';
+
+interface CatalogItemDialogProps {
+  businessId: string;
+  // The item being edited, or null to add one
+  item: CatalogItem | null;
+  // Categories already in use, offered as suggestions
+  categories: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
+export function CatalogItemDialog({ businessId, item, categories, open, onOpenChange, onSaved }: CatalogItemDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const [itemType, setItemType] = useState<'product' | 'service'>('product');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState('');
+  const [priceMin, setPriceMin] = useState('');
+  const [priceMax, setPriceMax] = useState('');
+  const [unit, setUnit] = useState('');
+  const [availability, setAvailability] = useState<CatalogAvailability>('available');
+  const [images, setImages] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setItemType(item?.item_type ?? 'product');
+    setName(item?.name ?? '');
+    setDescription(item?.description ?? '');
+    setCategory(item?.category ?? '');
+    setPriceMin(item?.price_min != null ? String(item.price_min) : '');
+    setPriceMax(item?.price_max != null ? String(item.price_max) : '');
+    setUnit(item?.unit ?? '');
+    setAvailability(item?.availability ?? 'available');
+    setImages(item?.image_urls ?? []);
+  }, [open, item]);
+
+  const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_ITEM_IMAGES - images.length);
+    if (!user || files.length === 0) return;
+
+    setUploading(true);
+    try {
+      const uploaded: string[] = [];
+      for (const file of files) {
+        if (file.size > 5 * 1024 * 1024) {
+          toast({ title: 'Image must be less than 5MB', variant: 'destructive' });
+          continue;
+        }
+        const compressed = await compressImage(file);
+        const fileName = `catalog/${businessId}/${Date.now()}-${uploaded.length}.${compressed.extension}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from('posts')
+          .upload(fileName, compressed.blob, { contentType: compressed.blob.type });
+
+        if (uploadError) throw uploadError;
+
+        const { data: urlData } = supabase.storage.from('posts').getPublicUrl(fileName);
+        uploaded.push(urlData.publicUrl);
+      }
+      setImages((prev) => [...prev, ...uploaded].slice(0, MAX_ITEM_IMAGES));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to upload image';
+      toast({ title: 'Error uploading image', description: message, variant: 'destructive' });
+    } finally {
+      setUploading(false);
+      if (imageInputRef.current) imageInputRef.current.value = '';
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({ title: 'Please enter a name', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const sessionToken = getSessionToken();
+      const response = await supabase.functions.invoke('manage-business-catalog', {
+        body: {
+          action: 'save',
+          business_id: businessId,
+          item_id: item?.id,
+          values: {
+            item_type: itemType,
+            name,
+            description,
+            category,
+            price_min: priceMin,
+            price_max: priceMax,
+            unit,
+            availability,
+            image_urls: images,
+          },
+        },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+      });
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to save item');
+      }
+
+      if (response.data?.error) {
+        throw new Error(response.data.error);
+      }
+
+      toast({ title: item ? 'Item updated' : 'Item added' });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save item';
+      toast({ title: 'Error saving item', description: message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item ? 'Edit Item' : 'Add to Catalog'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 pt-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={itemType} onValueChange={(val) => setItemType(val as 'product' | 'service')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="product">Product</SelectItem>
+                  <SelectItem value="service">Service</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Availability</Label>
+              <Select value={availability} onValueChange={(val) => setAvailability(val as CatalogAvailability)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AVAILABILITY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="catalog-name">Name *</Label>
+            <Input
+              id="catalog-name"
+              placeholder={itemType === 'service' ? 'e.g. Bridal makeup' : 'e.g. Banana chips'}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={120}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="catalog-description">Description</Label>
+            <Textarea
+              id="catalog-description"
+              placeholder="What's included, sizes, ingredients..."
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={2000}
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="catalog-category">Category</Label>
+            <Input
+              id="catalog-category"
+              placeholder="e.g. Snacks"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              maxLength={60}
+              list="catalog-categories"
+            />
+            <datalist id="catalog-categories">
+              {categories.map((existing) => (
+                <option key={existing} value={existing} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Price (₹)</Label>
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step="0.01"
+                placeholder="From"
+                value={priceMin}
+                onChange={(e) => setPriceMin(e.target.value)}
+              />
+              <Input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step="0.01"
+                placeholder="To (optional)"
+                value={priceMax}
+                onChange={(e) => setPriceMax(e.target.value)}
+              />
+              <Input
+                placeholder="Unit, e.g. kg"
+                value={unit}
+                onChange={(e) => setUnit(e.target.value)}
+                maxLength={30}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Leave the price empty to show "Price on request".
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Images</Label>
+            <div className="flex flex-wrap gap-2">
+              {images.map((url) => (
+                <div key={url} className="relative h-16 w-16">
+                  <img src={url} alt="Item" className="h-16 w-16 rounded-lg object-cover" />
+                  <button
+                    type="button"
+                    className="absolute -top-1.5 -right-1.5 rounded-full bg-background shadow p-0.5"
+                    onClick={() => setImages((prev) => prev.filter((image) => image !== url))}
+                    aria-label="Remove image"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {images.length < MAX_ITEM_IMAGES && (
+                <>
+                  <input
+                    ref={imageInputRef}
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    className="hidden"
+                    onChange={handleImageSelect}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="h-16 w-16"
+                    onClick={() => imageInputRef.current?.click()}
+                    disabled={uploading}
+                    aria-label="Add images"
+                  >
+                    {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImageIcon className="h-4 w-4" />}
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || uploading || !name.trim()}
+            className="gradient-primary text-white"
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {item ? 'Save Changes' : 'Add Item'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { getOrCreateConversation } from '@/hooks/useMessaging';
+import {
+  AVAILABILITY_OPTIONS,
+  formatItemPrice,
+  groupByCategory,
+  type CatalogItem,
+  type ItemReference,
+} from '@/lib/catalog';
+import { cn } from '@/lib/utils';
+import { CatalogItemDialog } from './CatalogItemDialog';
+import { Edit, Loader2, MessageCircle, Package, Plus, Trash2 } from 'lucide-react';
+
+interface CatalogTabProps {
+  businessId: string;
+  businessName: string;
+  ownerId: string | null;
+  isOwner: boolean;
+}
+
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
+export function CatalogTab({ businessId, businessName, ownerId, isOwner }: CatalogTabProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [items, setItems] = useState<CatalogItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<CatalogItem | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const fetchItems = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('business_catalog_items')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (!error && data) {
+      setItems(data as CatalogItem[]);
+    }
+    setLoading(false);
+  }, [businessId]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const categories = [...new Set(items.map((item) => item.category).filter(Boolean))] as string[];
+
+  const openDialog = (item: CatalogItem | null) => {
+    setEditingItem(item);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (item: CatalogItem) => {
+    if (!confirm(`Remove "${item.name}" from your catalog?`)) return;
+
+    setPendingId(item.id);
+    try {
+      const sessionToken = getSessionToken();
+      const response = await supabase.functions.invoke('manage-business-catalog', {
+        body: { action: 'delete', business_id: businessId, item_id: item.id },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+      });
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to delete item');
+      }
+
+      if (response.data?.error) {
+        throw new Error(response.data.error);
+      }
+
+      toast({ title: 'Item removed' });
+      fetchItems();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete item';
+      toast({ title: 'Error removing item', description: message, variant: 'destructive' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  // Opens the chat with the owner; Messages attaches the item card to the
+  // first message and pre-fills the question
+  const handleEnquire = async (item: CatalogItem) => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    if (!ownerId) return;
+
+    setPendingId(item.id);
+    try {
+      const { data, error } = await getOrCreateConversation(ownerId);
+      if (error) throw error;
+
+      const enquiry: ItemReference = {
+        type: 'catalog_item',
+        item_id: item.id,
+        business_id: businessId,
+        business_name: businessName,
+        name: item.name,
+        price_min: item.price_min,
+        price_max: item.price_max,
+        unit: item.unit,
+        image_url: item.image_urls[0] ?? null,
+      };
+
+      if (data?.conversation_id) {
+        navigate(`/messages/${data.conversation_id}`, { state: { enquiry } });
+      }
+    } catch (error) {
+      console.error('Error starting enquiry:', error);
+      toast({ title: 'Error starting conversation', variant: 'destructive' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="grid gap-4 sm:grid-cols-2">
+        <Skeleton className="h-40 w-full rounded-xl" />
+        <Skeleton className="h-40 w-full rounded-xl" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {isOwner && (
+        <Button onClick={() => openDialog(null)} className="gradient-primary text-white">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Item
+        </Button>
+      )}
+
+      {items.length > 0 ? (
+        groupByCategory(items).map((group) => (
+          <section key={group.category ?? ''} className="space-y-3">
+            {group.category && (
+              <h3 className="font-semibold text-foreground">{group.category}</h3>
+            )}
+            <div className="grid gap-4 sm:grid-cols-2">
+              {group.items.map((item) => {
+                const availability = AVAILABILITY_OPTIONS.find((option) => option.value === item.availability);
+                const unavailable = item.availability === 'unavailable';
+
+                return (
+                  <Card key={item.id} className="border-0 shadow-soft overflow-hidden">
+                    {item.image_urls.length > 0 && (
+                      <div className="flex gap-1 overflow-x-auto">
+                        {item.image_urls.map((url) => (
+                          <img
+                            key={url}
+                            src={url}
+                            alt={item.name}
+                            loading="lazy"
+                            className={cn(
+                              'h-40 object-cover shrink-0',
+                              item.image_urls.length === 1 ? 'w-full' : 'w-4/5',
+                              unavailable && 'opacity-60'
+                            )}
+                          />
+                        ))}
+                      </div>
+                    )}
+                    <CardContent className="p-4 space-y-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="font-semibold text-foreground">{item.name}</p>
+                          <p className="text-sm font-medium text-primary">{formatItemPrice(item)}</p>
+                        </div>
+                        <div className="flex flex-col items-end gap-1 shrink-0">
+                          <Badge variant="secondary" className="text-xs capitalize">
+                            {item.item_type}
+                          </Badge>
+                          {item.availability !== 'available' && (
+                            <Badge
+                              variant="outline"
+                              className={cn('text-xs', unavailable && 'text-muted-foreground')}
+                            >
+                              {availability?.label}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+
+                      {item.description && (
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-4">
+                          {item.description}
+                        </p>
+                      )}
+
+                      {isOwner ? (
+                        <div className="flex gap-2 pt-1">
+                          <Button variant="outline" size="sm" onClick={() => openDialog(item)}>
+                            <Edit className="h-4 w-4 mr-2" />
+                            Edit
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => handleDelete(item)}
+                            disabled={pendingId === item.id}
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Remove
+                          </Button>
+                        </div>
+                      ) : ownerId && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-full"
+                          onClick={() => handleEnquire(item)}
+                          disabled={pendingId === item.id}
+                        >
+                          {pendingId === item.id ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <MessageCircle className="h-4 w-4 mr-2" />
+                          )}
+                          Enquire
+                        </Button>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          </section>
+        ))
+      ) : (
+        <Card className="border-0 shadow-soft">
+          <CardContent className="py-12 text-center">
+            <Package className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-muted-foreground">No products or services listed yet</p>
+            {isOwner && (
+              <p className="text-sm text-muted-foreground mt-2">
+                Add what you sell so customers can see prices and enquire.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {isOwner && (
+        <CatalogItemDialog
+          businessId={businessId}
+          item={editingItem}
+          categories={categories}
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          onSaved={fetchItems}
+        />
+      )}
+    </div>
+  );
+}
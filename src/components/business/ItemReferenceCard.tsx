@@ -0,0 +1,37 @@
+import { Link } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import { formatItemPrice, type ItemReference } from '@/lib/catalog';
+import { Package } from 'lucide-react';
+
+interface ItemReferenceCardProps {
+  reference: ItemReference;
+  className?: string;
+}
+
+/** The catalog item an enquiry is about, linking back to the business's catalog. */
+export function ItemReferenceCard({ reference, className }: ItemReferenceCardProps) {
+  return (
+    <Link
+      to={`/business/${reference.business_id}?tab=catalog`}
+      className={cn(
+        'flex items-center gap-3 rounded-xl border bg-background p-2 text-foreground hover:bg-muted/60 transition-colors',
+        className
+      )}
+    >
+      {reference.image_url ? (
+        <img src={reference.image_url} alt="" className="h-12 w-12 shrink-0 rounded-lg object-cover" />
+      ) : (
+        <div className="flex h-12 w-12 shrink-0 items-center justify-center rounded-lg bg-muted">
+          <Package className="h-5 w-5 text-muted-foreground" />
+        </div>
+      )}
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{reference.name}</p>
+        <p className="text-xs text-muted-foreground truncate">
+          {formatItemPrice(reference)}
+          {reference.business_name && ` · ${reference.business_name}`}
+        </p>
+      </div>
+    </Link>
+  );
+}
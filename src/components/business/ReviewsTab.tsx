@@ -0,0 +1,627 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { compressImage } from '@/lib/imageCompression';
+import { REPORT_REASONS } from '@/lib/reportReasons';
+import { StarRating } from './StarRating';
+import { Flag, Image as ImageIcon, Loader2, MessageSquareReply, Pencil, Star, Trash2, X } from 'lucide-react';
+
+interface Review {
+  id: string;
+  user_id: string;
+  rating: number;
+  content: string;
+  image_urls: string[];
+  owner_reply: string | null;
+  owner_replied_at: string | null;
+  created_at: string;
+  updated_at: string;
+  profiles: {
+    id: string;
+    full_name: string | null;
+    username: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+interface ReviewsTabProps {
+  businessId: string;
+  businessName: string;
+  isOwner: boolean;
+  ratingAverage: number | null;
+  ratingCount: number;
+  onReviewsChanged: () => void;
+}
+
+const PAGE_SIZE = 10;
+const MAX_PHOTOS = 4;
+
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
+export function ReviewsTab({
+  businessId,
+  businessName,
+  isOwner,
+  ratingAverage,
+  ratingCount,
+  onReviewsChanged,
+}: ReviewsTabProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  // Review form
+  const [formOpen, setFormOpen] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [content, setContent] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Owner replies
+  const [replyingId, setReplyingId] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  // Reports
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [reportReason, setReportReason] = useState('');
+  const [reportDescription, setReportDescription] = useState('');
+  const [isReporting, setIsReporting] = useState(false);
+
+  const fetchReviews = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('business_reviews')
+      .select(`
+        id,
+        user_id,
+        rating,
+        content,
+        image_urls,
+        owner_reply,
+        owner_replied_at,
+        created_at,
+        updated_at,
+        profiles:user_id (id, full_name, username, avatar_url)
+      `)
+      .eq('business_id', businessId)
+      .order('created_at', { ascending: false });
+
+    if (!error && data) {
+      setReviews(data);
+    }
+    setLoading(false);
+  }, [businessId]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const myReview = user ? reviews.find((review) => review.user_id === user.id) : undefined;
+  // The viewer's own review is listed first
+  const ordered = myReview ? [myReview, ...reviews.filter((review) => review.id !== myReview.id)] : reviews;
+  const visible = ordered.slice(0, visibleCount);
+
+  const manageReview = async (body: Record<string, unknown>, fallbackMessage: string) => {
+    const sessionToken = getSessionToken();
+
+    const response = await supabase.functions.invoke('manage-business-reviews', {
+      body,
+      headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+    });
+
+    if (response.error) {
+      throw new Error(response.error.message || fallbackMessage);
+    }
+
+    if (response.data?.error) {
+      throw new Error(response.data.error);
+    }
+  };
+
+  const openForm = () => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    setRating(myReview?.rating ?? 0);
+    setContent(myReview?.content ?? '');
+    setPhotos(myReview?.image_urls ?? []);
+    setFormOpen(true);
+  };
+
+  const handlePhotoSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_PHOTOS - photos.length);
+    if (!user || files.length === 0) return;
+
+    setUploading(true);
+    try {
+      const uploaded: string[] = [];
+      for (const file of files) {
+        if (file.size > 5 * 1024 * 1024) {
+          toast({ title: 'Image must be less than 5MB', variant: 'destructive' });
+          continue;
+        }
+        // Resized and re-encoded so EXIF (including GPS) is dropped
+        const compressed = await compressImage(file);
+        const fileName = `reviews/${businessId}/${user.id}-${Date.now()}-${uploaded.length}.${compressed.extension}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from('posts')
+          .upload(fileName, compressed.blob, { contentType: compressed.blob.type });
+
+        if (uploadError) throw uploadError;
+
+        const { data: urlData } = supabase.storage.from('posts').getPublicUrl(fileName);
+        uploaded.push(urlData.publicUrl);
+      }
+      setPhotos((prev) => [...prev, ...uploaded].slice(0, MAX_PHOTOS));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to upload photo';
+      toast({ title: 'Error uploading photo', description: message, variant: 'destructive' });
+    } finally {
+      setUploading(false);
+      if (photoInputRef.current) photoInputRef.current.value = '';
+    }
+  };
+
+  const handleSave = async () => {
+    if (!rating || !content.trim()) return;
+
+    setSaving(true);
+    try {
+      await manageReview(
+        {
+          action: 'save',
+          business_id: businessId,
+          rating,
+          content: content.trim(),
+          image_urls: photos,
+        },
+        'Failed to save review'
+      );
+      toast({ title: myReview ? 'Review updated' : 'Thanks for your review!' });
+      setFormOpen(false);
+      fetchReviews();
+      onReviewsChanged();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save review';
+      toast({ title: 'Failed to save review', description: message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (review: Review) => {
+    if (!confirm('Delete your review?')) return;
+
+    setPendingId(review.id);
+    try {
+      await manageReview({ action: 'delete', review_id: review.id }, 'Failed to delete review');
+      toast({ title: 'Review deleted' });
+      fetchReviews();
+      onReviewsChanged();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete review';
+      toast({ title: 'Failed to delete review', description: message, variant: 'destructive' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const startReply = (review: Review) => {
+    setReplyingId(review.id);
+    setReplyText(review.owner_reply ?? '');
+  };
+
+  const handleReply = async (reviewId: string, reply: string) => {
+    setPendingId(reviewId);
+    try {
+      await manageReview({ action: 'reply', review_id: reviewId, reply }, 'Failed to save reply');
+      toast({ title: reply ? 'Reply posted' : 'Reply removed' });
+      setReplyingId(null);
+      setReplyText('');
+      fetchReviews();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save reply';
+      toast({ title: 'Failed to save reply', description: message, variant: 'destructive' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const closeReportDialog = () => {
+    setReportingId(null);
+    setReportReason('');
+    setReportDescription('');
+  };
+
+  const handleReport = async () => {
+    if (!reportingId || !reportReason) return;
+
+    setIsReporting(true);
+    try {
+      await manageReview(
+        {
+          action: 'report',
+          review_id: reportingId,
+          reason: reportReason,
+          description: reportDescription || null,
+        },
+        'Failed to report review'
+      );
+      toast({ title: 'Report submitted', description: 'Thank you for helping keep our community safe.' });
+      closeReportDialog();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to report review';
+      if (message.includes('already reported')) {
+        toast({ title: 'Already reported', description: 'You have already reported this review.' });
+        closeReportDialog();
+        return;
+      }
+      toast({ title: 'Failed to report', description: message, variant: 'destructive' });
+    } finally {
+      setIsReporting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-32 w-full rounded-xl" />
+        <Skeleton className="h-24 w-full rounded-xl" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Summary */}
+      <Card className="border-0 shadow-soft">
+        <CardContent className="pt-6 flex flex-col sm:flex-row gap-6">
+          <div className="flex flex-col items-center justify-center sm:w-40">
+            <span className="text-4xl font-bold text-foreground">
+              {ratingCount > 0 && ratingAverage != null ? Number(ratingAverage).toFixed(1) : '–'}
+            </span>
+            <StarRating value={Number(ratingAverage ?? 0)} />
+            <span className="text-sm text-muted-foreground mt-1">
+              {ratingCount} {ratingCount === 1 ? 'review' : 'reviews'}
+            </span>
+          </div>
+
+          <div className="flex-1 space-y-1.5">
+            {[5, 4, 3, 2, 1].map((stars) => {
+              const count = reviews.filter((review) => review.rating === stars).length;
+              return (
+                <div key={stars} className="flex items-center gap-2 text-sm">
+                  <span className="w-3 text-muted-foreground">{stars}</span>
+                  <Star className="h-3.5 w-3.5 fill-amber-400 text-amber-400" />
+                  <Progress value={reviews.length ? (count / reviews.length) * 100 : 0} className="h-2 flex-1" />
+                  <span className="w-6 text-right text-muted-foreground">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+        {!isOwner && (
+          <CardContent className="pt-0">
+            <Button onClick={openForm} className="w-full gradient-primary text-white">
+              {myReview ? (
+                <>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit your review
+                </>
+              ) : (
+                <>
+                  <Star className="h-4 w-4 mr-2" />
+                  Write a review
+                </>
+              )}
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Reviews */}
+      {visible.length > 0 ? (
+        visible.map((review) => {
+          const isMine = review.user_id === user?.id;
+          const edited = new Date(review.updated_at).getTime() - new Date(review.created_at).getTime() > 1000;
+
+          return (
+            <Card key={review.id} className="border-0 shadow-soft">
+              <CardContent className="pt-4 space-y-3">
+                <div className="flex items-start gap-3">
+                  <Link to={`/user/${review.profiles?.id}`}>
+                    <Avatar className="h-10 w-10">
+                      <AvatarImage src={review.profiles?.avatar_url || ''} />
+                      <AvatarFallback className="gradient-primary text-white">
+                        {review.profiles?.full_name?.charAt(0) || 'U'}
+                      </AvatarFallback>
+                    </Avatar>
+                  </Link>
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      to={`/user/${review.profiles?.id}`}
+                      className="font-semibold text-foreground hover:underline"
+                    >
+                      {review.profiles?.full_name || review.profiles?.username || 'User'}
+                    </Link>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <StarRating value={review.rating} size="sm" />
+                      <span>
+                        {formatDistanceToNow(new Date(review.created_at), { addSuffix: true })}
+                        {edited && ' · edited'}
+                      </span>
+                    </div>
+                  </div>
+                  {isMine ? (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground"
+                      onClick={() => handleDelete(review)}
+                      disabled={pendingId === review.id}
+                      aria-label="Delete review"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  ) : user && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground"
+                      onClick={() => setReportingId(review.id)}
+                      aria-label="Report review"
+                    >
+                      <Flag className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+
+                <p className="text-foreground whitespace-pre-wrap break-words">{review.content}</p>
+
+                {review.image_urls.length > 0 && (
+                  <div className="grid grid-cols-4 gap-2">
+                    {review.image_urls.map((url) => (
+                      <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                        <img
+                          src={url}
+                          alt="Review photo"
+                          loading="lazy"
+                          className="aspect-square w-full rounded-lg object-cover"
+                        />
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                {/* Owner reply */}
+                {replyingId === review.id ? (
+                  <div className="space-y-2 rounded-lg bg-muted/50 p-3">
+                    <Textarea
+                      placeholder={`Reply publicly as ${businessName}...`}
+                      value={replyText}
+                      onChange={(e) => setReplyText(e.target.value)}
+                      maxLength={1000}
+                      className="min-h-[80px] resize-none bg-background"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => setReplyingId(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleReply(review.id, replyText.trim())}
+                        disabled={pendingId === review.id || (!replyText.trim() && !review.owner_reply)}
+                      >
+                        {pendingId === review.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {replyText.trim() ? 'Post reply' : 'Remove reply'}
+                      </Button>
+                    </div>
+                  </div>
+                ) : review.owner_reply ? (
+                  <div className="rounded-lg bg-muted/50 p-3 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium text-foreground">
+                        Reply from {businessName}
+                        {review.owner_replied_at && (
+                          <span className="font-normal text-xs text-muted-foreground ml-2">
+                            {formatDistanceToNow(new Date(review.owner_replied_at), { addSuffix: true })}
+                          </span>
+                        )}
+                      </p>
+                      {isOwner && (
+                        <button
+                          className="text-xs text-muted-foreground hover:text-primary"
+                          onClick={() => startReply(review)}
+                        >
+                          Edit
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-muted-foreground mt-1 whitespace-pre-wrap break-words">{review.owner_reply}</p>
+                  </div>
+                ) : isOwner && (
+                  <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => startReply(review)}>
+                    <MessageSquareReply className="h-4 w-4 mr-2" />
+                    Reply
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      ) : (
+        <Card className="border-0 shadow-soft">
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">No reviews yet</p>
+            {!isOwner && (
+              <p className="text-sm text-muted-foreground mt-2">
+                Been here? Be the first to share your experience.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {ordered.length > visibleCount && (
+        <Button variant="outline" className="w-full" onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}>
+          Show more reviews
+        </Button>
+      )}
+
+      {/* Review Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{myReview ? 'Edit your review' : `Review ${businessName}`}</DialogTitle>
+            <DialogDescription>
+              Your review is public and shown with your name.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="flex justify-center">
+              <StarRating value={rating} onChange={setRating} size="lg" />
+            </div>
+            <Textarea
+              placeholder="What was your experience like?"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              maxLength={2000}
+              className="min-h-[120px] resize-none"
+            />
+
+            <div className="flex flex-wrap gap-2">
+              {photos.map((url) => (
+                <div key={url} className="relative h-16 w-16">
+                  <img src={url} alt="Review photo" className="h-16 w-16 rounded-lg object-cover" />
+                  <button
+                    type="button"
+                    className="absolute -top-1.5 -right-1.5 rounded-full bg-background shadow p-0.5"
+                    onClick={() => setPhotos((prev) => prev.filter((photo) => photo !== url))}
+                    aria-label="Remove photo"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_PHOTOS && (
+                <>
+                  <input
+                    ref={photoInputRef}
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    className="hidden"
+                    onChange={handlePhotoSelect}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="h-16 w-16"
+                    onClick={() => photoInputRef.current?.click()}
+                    disabled={uploading}
+                    aria-label="Add photos"
+                  >
+                    {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImageIcon className="h-4 w-4" />}
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!rating || !content.trim() || saving || uploading}
+              className="gradient-primary text-white"
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {myReview ? 'Update review' : 'Post review'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Report Dialog */}
+      <Dialog open={!!reportingId} onOpenChange={(open) => !open && closeReportDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Report Review</DialogTitle>
+            <DialogDescription>
+              Help us understand what's wrong with this review. Your report is anonymous.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Why are you reporting this review?</Label>
+              <RadioGroup value={reportReason} onValueChange={setReportReason}>
+                {REPORT_REASONS.map((reason) => (
+                  <div key={reason.value} className="flex items-center space-x-2">
+                    <RadioGroupItem value={reason.value} id={`review-${reason.value}`} />
+                    <Label htmlFor={`review-${reason.value}`} className="font-normal cursor-pointer">
+                      {reason.label}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="review-report-description">Additional details (optional)</Label>
+              <Textarea
+                id="review-report-description"
+                placeholder="Provide more context about why you're reporting this review..."
+                value={reportDescription}
+                onChange={(e) => setReportDescription(e.target.value)}
+                className="resize-none"
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeReportDialog}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReport}
+              disabled={!reportReason || isReporting}
+              variant="destructive"
+            >
+              {isReporting ? 'Submitting...' : 'Submit Report'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
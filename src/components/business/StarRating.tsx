@@ -0,0 +1,78 @@
+import { cn } from '@/lib/utils';
+import { Star } from 'lucide-react';
+
+const SIZES = {
+  sm: 'h-3.5 w-3.5',
+  md: 'h-4 w-4',
+  lg: 'h-7 w-7',
+};
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: keyof typeof SIZES;
+  className?: string;
+}
+
+/**
+ * Five stars filled up to `value`; fractions fill part of a star. With
+ * onChange the stars become buttons for picking a whole-star rating.
+ */
+export function StarRating({ value, onChange, size = 'md', className }: StarRatingProps) {
+  return (
+    <div
+      className={cn('flex items-center gap-0.5', className)}
+      role={onChange ? 'radiogroup' : 'img'}
+      aria-label={onChange ? 'Rating' : `${value.toFixed(1)} out of 5 stars`}
+    >
+      {[1, 2, 3, 4, 5].map((star) => {
+        const fill = Math.min(1, Math.max(0, value - (star - 1)));
+        const icon = (
+          <span className="relative inline-flex">
+            <Star className={cn(SIZES[size], 'text-muted-foreground/40')} />
+            {fill > 0 && (
+              <span className="absolute inset-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+                <Star className={cn(SIZES[size], 'fill-amber-400 text-amber-400')} />
+              </span>
+            )}
+          </span>
+        );
+
+        if (!onChange) return <span key={star}>{icon}</span>;
+
+        return (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={value === star}
+            aria-label={`${star} star${star === 1 ? '' : 's'}`}
+            onClick={() => onChange(star)}
+            className="rounded-sm transition-transform hover:scale-110 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            {icon}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+interface RatingBadgeProps {
+  average: number | null | undefined;
+  count: number | null | undefined;
+  className?: string;
+}
+
+/** "★ 4.3 (12)" for business cards; nothing until the first review. */
+export function RatingBadge({ average, count, className }: RatingBadgeProps) {
+  if (!count || average == null) return null;
+
+  return (
+    <span className={cn('inline-flex items-center gap-1 text-xs text-muted-foreground', className)}>
+      <Star className="h-3.5 w-3.5 fill-amber-400 text-amber-400" />
+      <span className="font-medium text-foreground">{Number(average).toFixed(1)}</span>
+      ({count})
+    </span>
+  );
+}
@@ -8,6 +8,10 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useViewerPoint } from '@/hooks/useNearby';
+import { useBusinessDistances } from '@/hooks/useNearbyBusinesses';
+import { DistanceBadge } from '@/components/feed/DistanceBadge';
+import { RatingBadge } from '@/components/business/StarRating';
 import { MapPin, Users, UserPlus, UserMinus, Building2, Clock } from 'lucide-react';
 
 interface Business {
@@ -21,6 +25,8 @@ interface Business {
   is_following: boolean;
   owner_id: string | null;
   approval_status: string | null;
+  rating_average: number | null;
+  rating_count: number;
 }
 
 const CATEGORIES: Record<string, { label: string; icon: string }> = {
@@ -42,6 +48,8 @@ export function BusinessFeed() {
   const navigate = useNavigate();
   const [businesses, setBusinesses] = useState<Business[]>([]);
   const [loading, setLoading] = useState(true);
+  const { point } = useViewerPoint();
+  const { data: distances = {} } = useBusinessDistances(point, businesses.map((b) => b.id));
 
   useEffect(() => {
     fetchBusinesses();
@@ -52,7 +60,7 @@ export function BusinessFeed() {
     try {
       const { data, error } = await supabase
         .from('businesses')
-        .select('id, name, description, category, logo_url, location, owner_id, approval_status')
+        .select('id, name, description, category, logo_url, location, owner_id, approval_status, rating_average, rating_count')
         .order('created_at', { ascending: false })
         .limit(20);
 
@@ -237,6 +245,8 @@ export function BusinessFeed() {
                       <Users className="h-3.5 w-3.5" />
                       {business.follower_count} followers
                     </span>
+                    <RatingBadge average={business.rating_average} count={business.rating_count} className="text-sm" />
+                    <DistanceBadge km={distances[business.id]} />
                   </div>
                 </div>
               </div>
@@ -1,37 +1,74 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { formatDistanceToNow } from 'date-fns';
-import { Send } from 'lucide-react';
+import { Heart, Send } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { REPORT_REASONS } from '@/lib/reportReasons';
+import { RichText } from './RichText';
 
 interface Comment {
   id: string;
   content: string;
   created_at: string;
+  edited_at: string | null;
+  parent_id: string | null;
   profiles: {
     id: string;
     full_name: string | null;
     username: string | null;
     avatar_url: string | null;
   } | null;
+  comment_likes: { user_id: string }[];
 }
 
 interface CommentSectionProps {
   postId: string;
-  onCommentAdded: () => void;
+  postOwnerId: string;
+  onCommentsChanged: () => void;
 }
 
-export function CommentSection({ postId, onCommentAdded }: CommentSectionProps) {
+const PAGE_SIZE = 10;
+
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
+export function CommentSection({ postId, postOwnerId, onCommentsChanged }: CommentSectionProps) {
   const { user, profile } = useAuth();
   const { toast } = useToast();
   const [comments, setComments] = useState<Comment[]>([]);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
   const [newComment, setNewComment] = useState('');
   const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyContent, setReplyContent] = useState('');
+  const [sendingReply, setSendingReply] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [reportReason, setReportReason] = useState('');
+  const [reportDescription, setReportDescription] = useState('');
+  const [isReporting, setIsReporting] = useState(false);
 
   useEffect(() => {
     fetchComments();
@@ -44,17 +81,61 @@ export function CommentSection({ postId, onCommentAdded }: CommentSectionProps)
         id,
         content,
         created_at,
-        profiles:user_id (id, full_name, username, avatar_url)
+        edited_at,
+        parent_id,
+        profiles:user_id (id, full_name, username, avatar_url),
+        comment_likes (user_id)
       `)
       .eq('post_id', postId)
-      .order('created_at', { ascending: true })
-      .limit(10);
+      .order('created_at', { ascending: true });
 
     if (!error && data) {
       setComments(data);
     }
   };
 
+  const topLevel = comments.filter((comment) => !comment.parent_id);
+  const repliesFor = (commentId: string) => comments.filter((comment) => comment.parent_id === commentId);
+
+  const createComment = async (content: string, parentId?: string) => {
+    const sessionToken = getSessionToken();
+
+    // Use edge function to bypass RLS (since we use custom auth)
+    const response = await supabase.functions.invoke('create-comment', {
+      body: {
+        post_id: postId,
+        content,
+        parent_id: parentId,
+      },
+      headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+    });
+
+    if (response.error) {
+      throw new Error(response.error.message || 'Failed to create comment');
+    }
+
+    if (response.data?.error) {
+      throw new Error(response.data.error);
+    }
+  };
+
+  const manageComment = async (body: Record<string, unknown>, fallbackMessage: string) => {
+    const sessionToken = getSessionToken();
+
+    const response = await supabase.functions.invoke('manage-comments', {
+      body,
+      headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+    });
+
+    if (response.error) {
+      throw new Error(response.error.message || fallbackMessage);
+    }
+
+    if (response.data?.error) {
+      throw new Error(response.data.error);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) {
@@ -65,33 +146,261 @@ export function CommentSection({ postId, onCommentAdded }: CommentSectionProps)
 
     setLoading(true);
     try {
-      // Use edge function to bypass RLS (since we use custom auth)
-      const response = await supabase.functions.invoke('create-comment', {
+      await createComment(newComment.trim());
+      setNewComment('');
+      fetchComments();
+      onCommentsChanged();
+    } catch (error: any) {
+      toast({ title: 'Error posting comment', description: error.message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startReply = (comment: Comment) => {
+    if (!user) {
+      toast({ title: 'Please sign in to reply', variant: 'destructive' });
+      return;
+    }
+    // Replies stay one level deep, so a reply to a reply joins the same thread
+    setReplyingTo(comment.parent_id || comment.id);
+    const username = comment.profiles?.username;
+    setReplyContent(username && comment.profiles?.id !== user.id ? `@${username} ` : '');
+  };
+
+  const handleReply = async (parentId: string) => {
+    if (!replyContent.trim()) return;
+
+    setSendingReply(true);
+    try {
+      await createComment(replyContent.trim(), parentId);
+      setReplyingTo(null);
+      setReplyContent('');
+      fetchComments();
+      onCommentsChanged();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to post reply';
+      toast({ title: 'Error posting reply', description: message, variant: 'destructive' });
+    } finally {
+      setSendingReply(false);
+    }
+  };
+
+  const handleLike = async (commentId: string) => {
+    if (!user) {
+      toast({ title: 'Please sign in to like comments', variant: 'destructive' });
+      return;
+    }
+
+    setPendingId(commentId);
+    try {
+      await manageComment({ action: 'toggle_like', comment_id: commentId }, 'Failed to toggle like');
+      fetchComments();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to toggle like';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    const replyCount = repliesFor(comment.id).length;
+    const prompt = replyCount > 0
+      ? `Delete this comment and its ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}?`
+      : 'Delete this comment?';
+    if (!confirm(prompt)) return;
+
+    setPendingId(comment.id);
+    try {
+      await manageComment({ action: 'delete', comment_id: comment.id }, 'Failed to delete comment');
+      toast({ title: 'Comment deleted' });
+      fetchComments();
+      onCommentsChanged();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete comment';
+      toast({ title: 'Failed to delete comment', description: message, variant: 'destructive' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const closeReportDialog = () => {
+    setReportingId(null);
+    setReportReason('');
+    setReportDescription('');
+  };
+
+  const handleReport = async () => {
+    if (!reportingId || !reportReason) return;
+
+    setIsReporting(true);
+    try {
+      await manageComment(
+        {
+          action: 'report',
+          comment_id: reportingId,
+          reason: reportReason,
+          description: reportDescription || null,
+        },
+        'Failed to report comment'
+      );
+      toast({ title: 'Report submitted', description: 'Thank you for helping keep our community safe.' });
+      closeReportDialog();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to report comment';
+      if (message.includes('already reported')) {
+        toast({ title: 'Already reported', description: 'You have already reported this comment.' });
+        closeReportDialog();
+        return;
+      }
+      toast({ title: 'Failed to report', description: message, variant: 'destructive' });
+    } finally {
+      setIsReporting(false);
+    }
+  };
+
+  const handleSaveEdit = async (commentId: string) => {
+    if (!editContent.trim()) return;
+
+    setSavingEdit(true);
+    try {
+      const sessionToken = getSessionToken();
+
+      const response = await supabase.functions.invoke('edit-comment', {
         body: {
-          user_id: user.id,
-          post_id: postId,
-          content: newComment.trim(),
+          comment_id: commentId,
+          content: editContent.trim(),
         },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (response.error) {
-        throw new Error(response.error.message || 'Failed to create comment');
+        throw new Error(response.error.message || 'Failed to edit comment');
       }
 
       if (response.data?.error) {
         throw new Error(response.data.error);
       }
 
-      setNewComment('');
+      setEditingId(null);
       fetchComments();
-      onCommentAdded();
-    } catch (error: any) {
-      toast({ title: 'Error posting comment', description: error.message, variant: 'destructive' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to edit comment';
+      toast({ title: 'Error editing comment', description: message, variant: 'destructive' });
     } finally {
-      setLoading(false);
+      setSavingEdit(false);
     }
   };
 
+  const renderComment = (comment: Comment) => {
+    const isOwn = !!user && comment.profiles?.id === user.id;
+    const canDelete = isOwn || (!!user && user.id === postOwnerId);
+    const isLiked = !!user && comment.comment_likes.some((like) => like.user_id === user.id);
+    const likeCount = comment.comment_likes.length;
+    const avatarSize = comment.parent_id ? 'h-6 w-6' : 'h-8 w-8';
+
+    return (
+      <div key={comment.id} className="flex gap-2">
+        <Link to={`/user/${comment.profiles?.id}`}>
+          <Avatar className={avatarSize}>
+            <AvatarImage src={comment.profiles?.avatar_url || ''} />
+            <AvatarFallback className="gradient-secondary text-white text-sm">
+              {comment.profiles?.full_name?.charAt(0) || 'U'}
+            </AvatarFallback>
+          </Avatar>
+        </Link>
+        <div className="flex-1 min-w-0">
+          <div className="bg-muted rounded-xl px-3 py-2">
+            <Link
+              to={`/user/${comment.profiles?.id}`}
+              className="font-semibold text-sm hover:text-primary"
+            >
+              {comment.profiles?.full_name || 'Anonymous'}
+            </Link>
+            {editingId === comment.id ? (
+              <form
+                className="mt-1 flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleSaveEdit(comment.id);
+                }}
+              >
+                <Input
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  className="h-8 flex-1 bg-background text-sm"
+                  autoFocus
+                />
+                <Button type="submit" size="sm" className="h-8" disabled={savingEdit || !editContent.trim()}>
+                  Save
+                </Button>
+                <Button type="button" size="sm" variant="ghost" className="h-8" onClick={() => setEditingId(null)}>
+                  Cancel
+                </Button>
+              </form>
+            ) : (
+              <RichText content={comment.content} className="text-sm text-foreground" />
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-x-3 ml-2 text-xs text-muted-foreground">
+            <span>
+              {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+              {comment.edited_at && ' · edited'}
+            </span>
+            <button
+              type="button"
+              className={cn('flex items-center gap-1 font-medium hover:text-primary', isLiked && 'text-red-500')}
+              onClick={() => handleLike(comment.id)}
+              disabled={pendingId === comment.id}
+            >
+              <Heart className={cn('h-3 w-3', isLiked && 'fill-current')} />
+              {likeCount > 0 && likeCount}
+            </button>
+            <button
+              type="button"
+              className="font-medium hover:text-primary"
+              onClick={() => startReply(comment)}
+            >
+              Reply
+            </button>
+            {isOwn && editingId !== comment.id && (
+              <button
+                type="button"
+                className="font-medium hover:text-primary"
+                onClick={() => {
+                  setEditingId(comment.id);
+                  setEditContent(comment.content);
+                }}
+              >
+                Edit
+              </button>
+            )}
+            {canDelete && (
+              <button
+                type="button"
+                className="font-medium hover:text-destructive"
+                onClick={() => handleDelete(comment)}
+                disabled={pendingId === comment.id}
+              >
+                Delete
+              </button>
+            )}
+            {user && !isOwn && (
+              <button
+                type="button"
+                className="font-medium hover:text-destructive"
+                onClick={() => setReportingId(comment.id)}
+              >
+                Report
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-4">
       {/* Comment Input */}
@@ -124,33 +433,103 @@ export function CommentSection({ postId, onCommentAdded }: CommentSectionProps)
 
       {/* Comments List */}
       <div className="space-y-3">
-        {comments.map((comment) => (
-          <div key={comment.id} className="flex gap-2">
-            <Link to={`/user/${comment.profiles?.id}`}>
-              <Avatar className="h-8 w-8">
-                <AvatarImage src={comment.profiles?.avatar_url || ''} />
-                <AvatarFallback className="gradient-secondary text-white text-sm">
-                  {comment.profiles?.full_name?.charAt(0) || 'U'}
-                </AvatarFallback>
-              </Avatar>
-            </Link>
-            <div className="flex-1">
-              <div className="bg-muted rounded-xl px-3 py-2">
-                <Link 
-                  to={`/user/${comment.profiles?.id}`}
-                  className="font-semibold text-sm hover:text-primary"
-                >
-                  {comment.profiles?.full_name || 'Anonymous'}
-                </Link>
-                <p className="text-sm text-foreground">{comment.content}</p>
+        {topLevel.slice(0, visibleCount).map((comment) => (
+          <div key={comment.id} className="space-y-2">
+            {renderComment(comment)}
+
+            {/* Replies */}
+            {(repliesFor(comment.id).length > 0 || replyingTo === comment.id) && (
+              <div className="ml-10 space-y-2">
+                {repliesFor(comment.id).map(renderComment)}
+
+                {replyingTo === comment.id && (
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleReply(comment.id);
+                    }}
+                  >
+                    <Input
+                      placeholder="Write a reply..."
+                      value={replyContent}
+                      onChange={(e) => setReplyContent(e.target.value)}
+                      className="h-8 flex-1 text-sm"
+                      autoFocus
+                    />
+                    <Button type="submit" size="sm" className="h-8" disabled={sendingReply || !replyContent.trim()}>
+                      Reply
+                    </Button>
+                    <Button type="button" size="sm" variant="ghost" className="h-8" onClick={() => setReplyingTo(null)}>
+                      Cancel
+                    </Button>
+                  </form>
+                )}
               </div>
-              <span className="text-xs text-muted-foreground ml-2">
-                {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
-              </span>
-            </div>
+            )}
           </div>
         ))}
+
+        {topLevel.length > visibleCount && (
+          <button
+            type="button"
+            className="text-sm font-medium text-muted-foreground hover:text-primary"
+            onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+          >
+            View more comments ({topLevel.length - visibleCount})
+          </button>
+        )}
       </div>
+
+      {/* Report Dialog */}
+      <Dialog open={!!reportingId} onOpenChange={(open) => !open && closeReportDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Report Comment</DialogTitle>
+            <DialogDescription>
+              Help us understand what's wrong with this comment. Your report is anonymous.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Why are you reporting this comment?</Label>
+              <RadioGroup value={reportReason} onValueChange={setReportReason}>
+                {REPORT_REASONS.map((reason) => (
+                  <div key={reason.value} className="flex items-center space-x-2">
+                    <RadioGroupItem value={reason.value} id={`comment-${reason.value}`} />
+                    <Label htmlFor={`comment-${reason.value}`} className="font-normal cursor-pointer">
+                      {reason.label}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="comment-report-description">Additional details (optional)</Label>
+              <Textarea
+                id="comment-report-description"
+                placeholder="Provide more context about why you're reporting this comment..."
+                value={reportDescription}
+                onChange={(e) => setReportDescription(e.target.value)}
+                className="resize-none"
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeReportDialog}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReport}
+              disabled={!reportReason || isReporting}
+              variant="destructive"
+            >
+              {isReporting ? 'Submitting...' : 'Submit Report'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -3,11 +3,24 @@ import { Image, Youtube, X, Loader2 } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { compressImage } from '@/lib/imageCompression';
+import { TagMentionTextarea } from './TagMentionTextarea';
+
+const MAX_IMAGES = 10;
+const MAX_ALT_TEXT_LENGTH = 500;
+// Checked before compression, which brings images well below this
+const MAX_SOURCE_IMAGE_SIZE = 20 * 1024 * 1024;
+
+interface DraftImage {
+  key: string;
+  file: File;
+  previewUrl: string;
+  altText: string;
+}
 
 interface CreatePostCardProps {
   onPostCreated: () => void;
@@ -19,8 +32,7 @@ export function CreatePostCard({ onPostCreated }: CreatePostCardProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [content, setContent] = useState('');
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [images, setImages] = useState<DraftImage[]>([]);
   const [youtubeUrl, setYoutubeUrl] = useState('');
   const [showYoutubeInput, setShowYoutubeInput] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -28,41 +40,63 @@ export function CreatePostCard({ onPostCreated }: CreatePostCardProps) {
   if (!user) return null;
 
   const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if (file.size > 5 * 1024 * 1024) {
-        toast({ title: 'Image must be less than 5MB', variant: 'destructive' });
-        return;
-      }
-      setImageFile(file);
-      setImagePreview(URL.createObjectURL(file));
+    const files = Array.from(e.target.files || []);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (files.length === 0) return;
+
+    const room = MAX_IMAGES - images.length;
+    if (files.length > room) {
+      toast({ title: `You can add up to ${MAX_IMAGES} images`, variant: 'destructive' });
     }
+
+    const accepted = files.slice(0, Math.max(room, 0)).filter(file => {
+      if (file.size > MAX_SOURCE_IMAGE_SIZE) {
+        toast({ title: `${file.name} is larger than 20MB`, variant: 'destructive' });
+        return false;
+      }
+      return true;
+    });
+
+    setImages(prev => [
+      ...prev,
+      ...accepted.map(file => ({
+        key: `${file.name}-${file.lastModified}-${Math.random()}`,
+        file,
+        previewUrl: URL.createObjectURL(file),
+        altText: '',
+      })),
+    ]);
   };
 
-  const removeImage = () => {
-    setImageFile(null);
-    setImagePreview(null);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+  const removeImage = (key: string) => {
+    setImages(prev => {
+      const removed = prev.find(image => image.key === key);
+      if (removed) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter(image => image.key !== key);
+    });
+  };
+
+  const setAltText = (key: string, altText: string) => {
+    setImages(prev => prev.map(image => (image.key === key ? { ...image, altText } : image)));
   };
 
   const handleSubmit = async () => {
-    if (!content.trim() && !imageFile && !youtubeUrl) {
+    if (!content.trim() && images.length === 0 && !youtubeUrl) {
       toast({ title: 'Please add some content', variant: 'destructive' });
       return;
     }
 
     setLoading(true);
     try {
-      let imageUrl = null;
+      // Resize, strip metadata and upload in the order shown
+      const uploadedImages = [];
+      for (const [index, image] of images.entries()) {
+        const compressed = await compressImage(image.file);
+        const fileName = `${user.id}/${Date.now()}-${index}.${compressed.extension}`;
 
-      // Upload image if selected
-      if (imageFile) {
-        const fileExt = imageFile.name.split('.').pop();
-        const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-        
         const { error: uploadError } = await supabase.storage
           .from('posts')
-          .upload(fileName, imageFile);
+          .upload(fileName, compressed.blob, { contentType: compressed.blob.type });
 
         if (uploadError) throw uploadError;
 
@@ -70,17 +104,25 @@ export function CreatePostCard({ onPostCreated }: CreatePostCardProps) {
           .from('posts')
           .getPublicUrl(fileName);
 
-        imageUrl = urlData.publicUrl;
+        uploadedImages.push({
+          url: urlData.publicUrl,
+          alt_text: image.altText.trim() || null,
+          width: compressed.width,
+          height: compressed.height,
+        });
       }
 
+      const stored = localStorage.getItem('samrambhak_auth');
+      const sessionToken = stored ? JSON.parse(stored).session_token : null;
+
       // Create post via edge function (bypasses RLS since we use custom auth)
       const response = await supabase.functions.invoke('create-post', {
         body: {
-          user_id: user.id,
           content: content.trim() || null,
-          image_url: imageUrl,
+          images: uploadedImages,
           youtube_url: youtubeUrl || null,
         },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (response.error) {
@@ -93,8 +135,8 @@ export function CreatePostCard({ onPostCreated }: CreatePostCardProps) {
 
       // Reset form
       setContent('');
-      setImageFile(null);
-      setImagePreview(null);
+      images.forEach(image => URL.revokeObjectURL(image.previewUrl));
+      setImages([]);
       setYoutubeUrl('');
       setShowYoutubeInput(false);
       
@@ -119,29 +161,43 @@ export function CreatePostCard({ onPostCreated }: CreatePostCardProps) {
           </Avatar>
 
           <div className="flex-1 space-y-3">
-            <Textarea
+            <TagMentionTextarea
               placeholder="Share your business idea, success story, or thoughts..."
               className="min-h-[100px] resize-none border-0 bg-muted/50 focus-visible:ring-1"
               value={content}
-              onChange={(e) => setContent(e.target.value)}
+              onChange={setContent}
             />
 
-            {/* Image Preview */}
-            {imagePreview && (
-              <div className="relative inline-block">
-                <img
-                  src={imagePreview}
-                  alt="Preview"
-                  className="max-h-48 rounded-xl object-cover"
-                />
-                <Button
-                  variant="secondary"
-                  size="icon"
-                  className="absolute top-2 right-2 h-8 w-8"
-                  onClick={removeImage}
-                >
-                  <X className="h-4 w-4" />
-                </Button>
+            {/* Image Previews */}
+            {images.length > 0 && (
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                {images.map((image, index) => (
+                  <div key={image.key} className="space-y-1">
+                    <div className="relative">
+                      <img
+                        src={image.previewUrl}
+                        alt={image.altText || `Image ${index + 1}`}
+                        className="aspect-square w-full rounded-xl object-cover"
+                      />
+                      <Button
+                        variant="secondary"
+                        size="icon"
+                        className="absolute top-1 right-1 h-7 w-7"
+                        onClick={() => removeImage(image.key)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <Input
+                      placeholder="Alt text"
+                      value={image.altText}
+                      maxLength={MAX_ALT_TEXT_LENGTH}
+                      onChange={(e) => setAltText(image.key, e.target.value)}
+                      className="h-8 text-xs"
+                      aria-label={`Alt text for image ${index + 1}`}
+                    />
+                  </div>
+                ))}
               </div>
             )}
 
@@ -174,6 +230,7 @@ export function CreatePostCard({ onPostCreated }: CreatePostCardProps) {
                   ref={fileInputRef}
                   type="file"
                   accept="image/*"
+                  multiple
                   className="hidden"
                   onChange={handleImageSelect}
                 />
@@ -182,9 +239,12 @@ export function CreatePostCard({ onPostCreated }: CreatePostCardProps) {
                   size="sm"
                   className="gap-2 text-muted-foreground"
                   onClick={() => fileInputRef.current?.click()}
+                  disabled={images.length >= MAX_IMAGES}
                 >
                   <Image className="h-5 w-5" />
-                  <span className="hidden sm:inline">Image</span>
+                  <span className="hidden sm:inline">
+                    {images.length > 0 ? `Images (${images.length}/${MAX_IMAGES})` : 'Image'}
+                  </span>
                 </Button>
                 <Button
                   variant="ghost"
@@ -200,7 +260,7 @@ export function CreatePostCard({ onPostCreated }: CreatePostCardProps) {
               <Button
                 className="gradient-primary text-white"
                 onClick={handleSubmit}
-                disabled={loading || (!content.trim() && !imageFile && !youtubeUrl)}
+                disabled={loading || (!content.trim() && images.length === 0 && !youtubeUrl)}
               >
                 {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Post
@@ -8,6 +8,9 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useNearby } from '@/hooks/useNearby';
+import { fetchNearby, inNearbyRing, rankNearby } from '@/lib/nearby';
+import { NearbyScopeTabs } from '@/components/feed/NearbyScopeTabs';
 import { 
   Building2, 
   Users, 
@@ -72,6 +75,7 @@ export function DiscoverySection() {
   const { user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { area, scope, setScope } = useNearby();
   const [loading, setLoading] = useState(true);
   const [newCommunities, setNewCommunities] = useState<NewCommunity[]>([]);
   const [newBusinesses, setNewBusinesses] = useState<NewBusiness[]>([]);
@@ -80,7 +84,7 @@ export function DiscoverySection() {
 
   useEffect(() => {
     fetchDiscoveryData();
-  }, [user]);
+  }, [user, area.districtId, area.localBodyId, scope]);
 
   const fetchDiscoveryData = async () => {
     setLoading(true);
@@ -99,12 +103,19 @@ export function DiscoverySection() {
   };
 
   const fetchNewCommunities = async () => {
-    const { data } = await supabase
-      .from('communities')
-      .select('id, name, description, created_at')
-      .eq('is_disabled', false)
-      .order('created_at', { ascending: false })
-      .limit(3);
+    const data = await fetchNearby(area, scope, async (ring) => {
+      const { data } = await inNearbyRing(
+        supabase
+          .from('communities')
+          .select('id, name, description, created_at')
+          .eq('is_disabled', false),
+        ring,
+        area
+      )
+        .order('created_at', { ascending: false })
+        .limit(3);
+      return data || [];
+    }, 3);
 
     const enriched = await Promise.all(
       (data || []).map(async (community) => {
@@ -130,12 +141,19 @@ export function DiscoverySection() {
   };
 
   const fetchNewBusinesses = async () => {
-    const { data } = await supabase
-      .from('businesses')
-      .select('id, name, category, logo_url, created_at')
-      .eq('is_disabled', false)
-      .order('created_at', { ascending: false })
-      .limit(3);
+    const data = await fetchNearby(area, scope, async (ring) => {
+      const { data } = await inNearbyRing(
+        supabase
+          .from('businesses')
+          .select('id, name, category, logo_url, created_at')
+          .eq('is_disabled', false),
+        ring,
+        area
+      )
+        .order('created_at', { ascending: false })
+        .limit(3);
+      return data || [];
+    }, 3);
 
     const enriched = await Promise.all(
       (data || []).map(async (business) => {
@@ -173,10 +191,10 @@ export function DiscoverySection() {
       countMap[d.community_id] = (countMap[d.community_id] || 0) + 1;
     });
 
-    // Sort by count and get top 3
+    // Sort by count; the top few are ranked by area below
     const topCommunityIds = Object.entries(countMap)
       .sort(([, a], [, b]) => b - a)
-      .slice(0, 3)
+      .slice(0, 30)
       .map(([id]) => id);
 
     if (topCommunityIds.length === 0) {
@@ -186,12 +204,15 @@ export function DiscoverySection() {
 
     const { data: communities } = await supabase
       .from('communities')
-      .select('id, name')
+      .select('id, name, district_id, local_body_id')
       .in('id', topCommunityIds)
       .eq('is_disabled', false);
 
+    const byCount = (communities || []).sort((a, b) => (countMap[b.id] || 0) - (countMap[a.id] || 0));
+    const nearest = rankNearby(byCount, area, scope).slice(0, 3);
+
     const enriched = await Promise.all(
-      (communities || []).map(async (community) => {
+      nearest.map(async ({ district_id, local_body_id, ...community }) => {
         const { count: memberCount } = await supabase
           .from('community_members')
           .select('*', { count: 'exact', head: true })
@@ -216,8 +237,6 @@ export function DiscoverySection() {
       })
     );
     
-    // Re-sort by discussion count
-    enriched.sort((a, b) => b.discussion_count - a.discussion_count);
     setActiveCommunities(enriched);
   };
 
@@ -235,10 +254,10 @@ export function DiscoverySection() {
       }
     });
 
-    // Sort by count and get top 3
+    // Sort by count; the top few are ranked by area below
     const topBusinessIds = Object.entries(countMap)
       .sort(([, a], [, b]) => b - a)
-      .slice(0, 3)
+      .slice(0, 30)
       .map(([id]) => id);
 
     if (topBusinessIds.length === 0) {
@@ -248,12 +267,15 @@ export function DiscoverySection() {
 
     const { data: businesses } = await supabase
       .from('businesses')
-      .select('id, name, category, logo_url')
+      .select('id, name, category, logo_url, district_id, local_body_id')
       .in('id', topBusinessIds)
       .eq('is_disabled', false);
 
+    const byCount = (businesses || []).sort((a, b) => (countMap[b.id] || 0) - (countMap[a.id] || 0));
+    const nearest = rankNearby(byCount, area, scope).slice(0, 3);
+
     const enriched = await Promise.all(
-      (businesses || []).map(async (business) => {
+      nearest.map(async ({ district_id, local_body_id, ...business }) => {
         let is_following = false;
         if (user) {
           const { data: followCheck } = await supabase
@@ -272,8 +294,6 @@ export function DiscoverySection() {
       })
     );
     
-    // Re-sort by follower count
-    enriched.sort((a, b) => b.follower_count - a.follower_count);
     setPopularBusinesses(enriched);
   };
 
@@ -331,17 +351,34 @@ export function DiscoverySection() {
     }
   };
 
+  const scopeTabs = <NearbyScopeTabs area={area} value={scope} onChange={setScope} />;
+
   if (loading) {
     return (
       <div className="space-y-4">
+        {scopeTabs}
         <Skeleton className="h-48 w-full rounded-xl" />
         <Skeleton className="h-48 w-full rounded-xl" />
       </div>
     );
   }
 
+  const isEmpty =
+    newCommunities.length === 0 &&
+    newBusinesses.length === 0 &&
+    activeCommunities.length === 0 &&
+    popularBusinesses.length === 0;
+
   return (
     <div className="space-y-4">
+      {scopeTabs}
+
+      {isEmpty && scope !== 'state' && (
+        <p className="text-sm text-muted-foreground">
+          No communities or businesses here yet. Try a wider area.
+        </p>
+      )}
+
       {/* New Communities */}
       {newCommunities.length > 0 && (
         <Card className="border-0 shadow-soft overflow-hidden">
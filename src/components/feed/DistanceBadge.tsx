@@ -0,0 +1,20 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { formatDistance } from '@/lib/nearby';
+import { Navigation } from 'lucide-react';
+
+interface DistanceBadgeProps {
+  km: number | null | undefined;
+  className?: string;
+}
+
+export function DistanceBadge({ km, className }: DistanceBadgeProps) {
+  if (km == null) return null;
+
+  return (
+    <Badge variant="outline" className={cn('gap-1 text-xs font-normal', className)}>
+      <Navigation className="h-3 w-3" />
+      {formatDistance(km)}
+    </Badge>
+  );
+}
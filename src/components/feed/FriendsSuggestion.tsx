@@ -7,8 +7,14 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { publicProfiles } from '@/lib/publicProfiles';
 import { useToast } from '@/hooks/use-toast';
 
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
 interface SuggestedFriend {
   id: string;
   full_name: string | null;
@@ -65,8 +71,7 @@ export function FriendsSuggestion() {
         const searchTerm = panchayath || place;
         
         if (searchTerm) {
-          const { data: nearbyData } = await supabase
-            .from('profiles')
+          const { data: nearbyData } = await publicProfiles()
             .select('id, full_name, username, avatar_url, location')
             .neq('id', user.id)
             .ilike('location', `%${searchTerm}%`)
@@ -79,8 +84,7 @@ export function FriendsSuggestion() {
       }
 
       // Fetch other suggested users
-      const { data: otherData } = await supabase
-        .from('profiles')
+      const { data: otherData } = await publicProfiles()
         .select('id, full_name, username, avatar_url, location')
         .neq('id', user.id)
         .limit(10);
@@ -110,11 +114,10 @@ export function FriendsSuggestion() {
 
       const { data, error } = await supabase.functions.invoke('toggle-follow', {
         body: {
-          user_id: user.id,
           following_id: userId,
           action: 'follow',
-          session_token: sessionToken,
         },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (error || data?.error) {
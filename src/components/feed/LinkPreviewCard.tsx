@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useLinkPreview } from '@/hooks/useLinkPreview';
+import { documentEmbed } from '@/lib/embeds';
+import { PostEmbed } from './PostEmbed';
+
+interface LinkPreviewCardProps {
+  url: string;
+}
+
+// A card for a link that no embed provider handles. Links without a title or
+// image render nothing; they are already clickable in the post text.
+export function LinkPreviewCard({ url }: LinkPreviewCardProps) {
+  const { data: preview, isLoading } = useLinkPreview(url);
+  const [imageFailed, setImageFailed] = useState(false);
+
+  if (isLoading) {
+    return <Skeleton className="h-20 w-full rounded-xl" />;
+  }
+
+  if (!preview) return null;
+
+  // A link to a PDF whose address doesn't end in .pdf
+  if (preview.content_type === 'application/pdf') {
+    return <PostEmbed embed={documentEmbed(preview.final_url || url)} />;
+  }
+
+  if (!preview.title && !preview.image_url) return null;
+
+  const href = preview.final_url || url;
+  const host = new URL(href).hostname.replace(/^www\./, '');
+  const showImage = !!preview.image_url && !imageFailed;
+
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="block overflow-hidden rounded-xl border hover:bg-muted/40"
+      onClick={e => e.stopPropagation()}
+    >
+      {showImage && (
+        <img
+          src={preview.image_url!}
+          alt=""
+          className="aspect-[1.91/1] w-full object-cover bg-muted"
+          loading="lazy"
+          onError={() => setImageFailed(true)}
+        />
+      )}
+      <div className="space-y-1 p-3">
+        <p className="truncate text-xs uppercase text-muted-foreground">{preview.site_name || host}</p>
+        {preview.title && <p className="line-clamp-2 text-sm font-semibold">{preview.title}</p>}
+        {preview.description && (
+          <p className="line-clamp-2 text-sm text-muted-foreground">{preview.description}</p>
+        )}
+      </div>
+    </a>
+  );
+}
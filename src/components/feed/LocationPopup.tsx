@@ -11,8 +11,15 @@ import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { rememberDevicePoint } from '@/hooks/useNearby';
 import { MapPin, Loader2 } from 'lucide-react';
 import { PanchayathLocationPicker } from '@/components/settings/PanchayathLocationPicker';
+import { EMPTY_GEO_LOCATION, reverseGeocode, type GeoLocation } from '@/lib/location';
+
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
 
 interface LocationPopupProps {
   open: boolean;
@@ -24,6 +31,7 @@ export function LocationPopup({ open, onOpenChange, onLocationSet }: LocationPop
   const { user, refreshProfile } = useAuth();
   const { toast } = useToast();
   const [location, setLocation] = useState('');
+  const [geo, setGeo] = useState<GeoLocation>(EMPTY_GEO_LOCATION);
   const [fetchingLocation, setFetchingLocation] = useState(false);
   const [saving, setSaving] = useState(false);
 
@@ -42,22 +50,12 @@ export function LocationPopup({ open, onOpenChange, onLocationSet }: LocationPop
     navigator.geolocation.getCurrentPosition(
       async (position) => {
         const { latitude, longitude } = position.coords;
+        rememberDevicePoint({ latitude, longitude });
 
         try {
-          const response = await fetch(
-            `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=10`
-          );
-          const data = await response.json();
-
-          const city =
-            data.address?.city ||
-            data.address?.town ||
-            data.address?.village ||
-            data.address?.state;
-          const country = data.address?.country;
-
-          const locationString = [city, country].filter(Boolean).join(', ');
-          setLocation(locationString || `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`);
+          const detected = await reverseGeocode(latitude, longitude);
+          setLocation(detected.location);
+          setGeo(detected.geo);
         } catch (error) {
           console.error('Error getting location:', error);
           toast({
@@ -99,12 +97,18 @@ export function LocationPopup({ open, onOpenChange, onLocationSet }: LocationPop
 
     setSaving(true);
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ location: location.trim() })
-        .eq('id', user.id);
+      // Through the edge function, which also stores the location IDs
+      const sessionToken = getSessionToken();
+      const { data, error } = await supabase.functions.invoke('update-profile', {
+        body: {
+          location: location.trim(),
+          ...geo,
+        },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+      });
 
       if (error) throw error;
+      if (data?.error) throw new Error(data.error);
 
       await refreshProfile();
       toast({ title: 'Location saved!', description: `Your location: ${location}` });
@@ -140,7 +144,14 @@ export function LocationPopup({ open, onOpenChange, onLocationSet }: LocationPop
           {/* Manual location picker */}
           <div className="space-y-2">
             <Label>Your Location (Panchayath/Municipality)</Label>
-            <PanchayathLocationPicker value={location} onChange={setLocation} />
+            <PanchayathLocationPicker
+              value={location}
+              geo={geo}
+              onChange={(value, nextGeo) => {
+                setLocation(value);
+                setGeo(nextGeo);
+              }}
+            />
           </div>
 
           <div className="flex gap-2 pt-2">
@@ -5,6 +5,13 @@ import { MapPin, X, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { rememberDevicePoint } from '@/hooks/useNearby';
+import { reverseGeocode } from '@/lib/location';
+
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
 
 interface LocationPromptCardProps {
   onLocationSet?: () => void;
@@ -36,32 +43,24 @@ export function LocationPromptCard({ onLocationSet }: LocationPromptCardProps) {
     navigator.geolocation.getCurrentPosition(
       async (position) => {
         const { latitude, longitude } = position.coords;
+        rememberDevicePoint({ latitude, longitude });
 
         try {
-          // Use free reverse geocoding service (Nominatim/OpenStreetMap)
-          const response = await fetch(
-            `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=10`
-          );
-          const data = await response.json();
-
-          // Extract city/town and country from the response
-          const city =
-            data.address?.city ||
-            data.address?.town ||
-            data.address?.village ||
-            data.address?.state;
-          const country = data.address?.country;
+          // Free reverse geocoding (Nominatim/OpenStreetMap), matched to our districts and panchayaths
+          const { location: finalLocation, geo } = await reverseGeocode(latitude, longitude);
 
-          const locationString = [city, country].filter(Boolean).join(', ');
-          const finalLocation = locationString || `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`;
-
-          // Save to profile
-          const { error } = await supabase
-            .from('profiles')
-            .update({ location: finalLocation })
-            .eq('id', user.id);
+          // Save to profile, with the IDs local discovery filters on
+          const sessionToken = getSessionToken();
+          const { data, error } = await supabase.functions.invoke('update-profile', {
+            body: {
+              location: finalLocation,
+              ...geo,
+            },
+            headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+          });
 
           if (error) throw error;
+          if (data?.error) throw new Error(data.error);
 
           await refreshProfile();
           toast({ title: 'Location saved!', description: `Your location: ${finalLocation}` });
@@ -109,7 +108,7 @@ export function LocationPromptCard({ onLocationSet }: LocationPromptCardProps) {
           <div className="flex-1 min-w-0">
             <h3 className="font-semibold text-foreground">Share your location</h3>
             <p className="text-sm text-muted-foreground mt-1">
-              Find nearby friends, communities, and businesses in your area
+              See businesses, jobs, communities and posts from your panchayath first
             </p>
             <div className="flex gap-2 mt-3">
               <Button
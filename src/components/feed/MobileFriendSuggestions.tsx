@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { supabase } from '@/integrations/supabase/client';
+import { publicProfiles } from '@/lib/publicProfiles';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { UserPlus, MapPin, Users, ChevronRight } from 'lucide-react';
@@ -56,8 +57,7 @@ export function MobileFriendSuggestions() {
       if (profile?.location) {
         const locationPart = profile.location.split(',')[0]?.trim();
         if (locationPart) {
-          const { data: nearbyUsers } = await supabase
-            .from('profiles')
+          const { data: nearbyUsers } = await publicProfiles()
             .select('id, full_name, username, avatar_url, location')
             .neq('id', user.id)
             .ilike('location', `%${locationPart}%`)
@@ -74,8 +74,7 @@ export function MobileFriendSuggestions() {
 
       // Fill remaining slots with other users
       if (suggestions.length < 6) {
-        const { data: otherUsers } = await supabase
-          .from('profiles')
+        const { data: otherUsers } = await publicProfiles()
           .select('id, full_name, username, avatar_url, location')
           .neq('id', user.id)
           .limit(10);
@@ -103,10 +102,10 @@ export function MobileFriendSuggestions() {
     }
 
     try {
-      const sessionToken = localStorage.getItem('session_token');
+      const stored = localStorage.getItem('samrambhak_auth');
+      const sessionToken = stored ? JSON.parse(stored).session_token : null;
       const { error } = await supabase.functions.invoke('toggle-follow', {
         body: {
-          user_id: user.id,
           following_id: friendId,
           action: 'follow',
         },
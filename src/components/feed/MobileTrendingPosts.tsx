@@ -1,83 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
-import { supabase } from '@/integrations/supabase/client';
+import { useTrendingPosts, type TrendingScope } from '@/hooks/useTrendingPosts';
+import { TrendingScopeTabs } from './TrendingScopeTabs';
 import { TrendingUp, Heart, MessageCircle } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 
-interface TrendingPost {
-  id: string;
-  content: string | null;
-  image_url: string | null;
-  created_at: string;
-  profiles: {
-    id: string;
-    full_name: string | null;
-    username: string | null;
-    avatar_url: string | null;
-  } | null;
-  businesses: {
-    id: string;
-    name: string;
-    logo_url: string | null;
-  } | null;
-  likes_count: number;
-  comments_count: number;
-}
-
 export function MobileTrendingPosts() {
-  const [posts, setPosts] = useState<TrendingPost[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [scope, setScope] = useState<TrendingScope>('global');
+  const { data: posts = [], isLoading: loading } = useTrendingPosts({ scope });
   const navigate = useNavigate();
 
-  useEffect(() => {
-    fetchTrendingPosts();
-  }, []);
-
-  const fetchTrendingPosts = async () => {
-    try {
-      const { data: postsData, error } = await supabase
-        .from('posts')
-        .select(`
-          id,
-          content,
-          image_url,
-          created_at,
-          user_id,
-          profiles:user_id (id, full_name, username, avatar_url),
-          businesses:business_id (id, name, logo_url),
-          post_likes (id),
-          comments (id)
-        `)
-        .eq('is_hidden', false)
-        .order('created_at', { ascending: false })
-        .limit(30);
-
-      if (error) throw error;
-
-      // Calculate engagement and sort
-      const postsWithEngagement = (postsData || []).map((post) => ({
-        ...post,
-        likes_count: post.post_likes?.length || 0,
-        comments_count: post.comments?.length || 0,
-        engagement: (post.post_likes?.length || 0) * 2 + (post.comments?.length || 0) * 3,
-      }));
-
-      const trending = postsWithEngagement
-        .sort((a, b) => b.engagement - a.engagement)
-        .slice(0, 5);
-
-      setPosts(trending);
-    } catch (error) {
-      console.error('Error fetching trending posts:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   if (loading) {
     return (
       <Card className="border-0 shadow-soft lg:hidden">
@@ -93,7 +29,7 @@ export function MobileTrendingPosts() {
     );
   }
 
-  if (posts.length === 0) return null;
+  if (posts.length === 0 && scope === 'global') return null;
 
   return (
     <Card className="border-0 shadow-soft lg:hidden">
@@ -102,8 +38,12 @@ export function MobileTrendingPosts() {
           <TrendingUp className="h-4 w-4 text-primary" />
           Trending Now
         </CardTitle>
+        <TrendingScopeTabs value={scope} onChange={setScope} className="pt-2" />
       </CardHeader>
       <CardContent className="px-0 pb-4">
+        {posts.length === 0 && (
+          <p className="px-4 text-sm text-muted-foreground">Nothing trending around here yet</p>
+        )}
         <ScrollArea className="w-full whitespace-nowrap">
           <div className="flex gap-3 px-4">
             {posts.map((post, index) => (
@@ -0,0 +1,39 @@
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { MapPin } from 'lucide-react';
+import type { NearbyArea, NearbyScope } from '@/lib/nearby';
+
+interface NearbyScopeTabsProps {
+  area: NearbyArea;
+  value: NearbyScope;
+  onChange: (scope: NearbyScope) => void;
+  className?: string;
+}
+
+// Nearest first; hidden until the viewer has a district on record
+export function NearbyScopeTabs({ area, value, onChange, className }: NearbyScopeTabsProps) {
+  const scopes: { value: NearbyScope; label: string }[] = [
+    ...(area.localBody ? [{ value: 'panchayath' as const, label: area.localBody }] : []),
+    ...(area.district ? [{ value: 'district' as const, label: area.district }] : []),
+    { value: 'state', label: 'All Kerala' },
+  ];
+
+  if (scopes.length === 1) return null;
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-1.5', className)}>
+      <MapPin className="h-3.5 w-3.5 text-muted-foreground" />
+      {scopes.map(scope => (
+        <Button
+          key={scope.value}
+          size="sm"
+          variant={value === scope.value ? 'default' : 'outline'}
+          className={cn('h-7 rounded-full px-3 text-xs', value === scope.value && 'gradient-primary text-white')}
+          onClick={() => onChange(scope.value)}
+        >
+          {scope.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -27,18 +27,25 @@ import { VerificationBadge } from '@/components/ui/verification-badge';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useSavedPosts } from '@/hooks/useSavedPosts';
 import { cn } from '@/lib/utils';
+import { REPORT_REASONS } from '@/lib/reportReasons';
+import { resolveEmbed, type Embed } from '@/lib/embeds';
+import { extractUrls } from '@/lib/richText';
 import { CommentSection } from './CommentSection';
-import { YouTubeEmbed } from './YouTubeEmbed';
+import { SaveToCollectionDialog } from './SaveToCollectionDialog';
+import { RichText } from './RichText';
+import { TagMentionTextarea } from './TagMentionTextarea';
+import { PostImages, type PostImage } from './PostImages';
+import { PostEmbed } from './PostEmbed';
+import { LinkPreviewCard } from './LinkPreviewCard';
 
-const REPORT_REASONS = [
-  { value: 'spam', label: 'Spam or misleading' },
-  { value: 'harassment', label: 'Harassment or bullying' },
-  { value: 'hate_speech', label: 'Hate speech or discrimination' },
-  { value: 'inappropriate', label: 'Inappropriate content' },
-  { value: 'violence', label: 'Violence or dangerous content' },
-  { value: 'other', label: 'Other' },
-];
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
+const MAX_EMBEDS = 3;
 
 interface PostCardProps {
   post: {
@@ -48,6 +55,7 @@ interface PostCardProps {
     youtube_url: string | null;
     instagram_url: string | null;
     created_at: string;
+    edited_at?: string | null;
     user_id: string;
     status?: string | null;
     hidden_reason?: string | null;
@@ -65,6 +73,7 @@ interface PostCardProps {
     } | null;
     post_likes: { user_id: string }[];
     comments: { id: string }[];
+    post_images?: PostImage[];
   };
   onUpdate: () => void;
 }
@@ -74,16 +83,22 @@ export function PostCard({ post, onUpdate }: PostCardProps) {
   const { toast } = useToast();
   const [showComments, setShowComments] = useState(false);
   const [isLiking, setIsLiking] = useState(false);
-  const [isSaved, setIsSaved] = useState(false);
+  const { isSaved: isPostSaved, savePost, unsavePost } = useSavedPosts();
+  const [isSaving, setIsSaving] = useState(false);
+  const [showCollectionDialog, setShowCollectionDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showReportDialog, setShowReportDialog] = useState(false);
   const [reportReason, setReportReason] = useState('');
   const [reportDescription, setReportDescription] = useState('');
   const [isReporting, setIsReporting] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState('');
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
 
   const isLiked = user ? post.post_likes.some(like => like.user_id === user.id) : false;
   const likeCount = post.post_likes.length;
   const commentCount = post.comments.length;
+  const isSaved = isPostSaved(post.id);
 
   const handleLike = async () => {
     if (!user) {
@@ -93,11 +108,14 @@ export function PostCard({ post, onUpdate }: PostCardProps) {
 
     setIsLiking(true);
     try {
+      const stored = localStorage.getItem('samrambhak_auth');
+      const sessionToken = stored ? JSON.parse(stored).session_token : null;
+
       const response = await supabase.functions.invoke('toggle-like', {
         body: {
-          user_id: user.id,
           post_id: post.id,
         },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (response.error) {
@@ -139,9 +157,35 @@ export function PostCard({ post, onUpdate }: PostCardProps) {
     }
   };
 
-  const handleSave = () => {
-    setIsSaved(!isSaved);
-    toast({ title: isSaved ? 'Post removed from saved' : 'Post saved!' });
+  const handleSave = async () => {
+    if (!user) {
+      toast({ title: 'Please sign in to save posts', variant: 'destructive' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (isSaved) {
+        await unsavePost(post.id);
+        toast({ title: 'Post removed from saved' });
+      } else {
+        await savePost(post.id);
+        toast({ title: 'Post saved!' });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update saved posts';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveToCollection = () => {
+    if (!user) {
+      toast({ title: 'Please sign in to save posts', variant: 'destructive' });
+      return;
+    }
+    setShowCollectionDialog(true);
   };
 
   const handleDelete = async () => {
@@ -167,7 +211,7 @@ export function PostCard({ post, onUpdate }: PostCardProps) {
       if (response.error) throw response.error;
       if (response.data?.error) throw new Error(response.data.error);
 
-      toast({ title: 'Post deleted successfully' });
+      toast({ title: 'Post moved to trash', description: 'You can restore it from the Trash tab on your profile for 30 days.' });
       onUpdate();
     } catch (error: any) {
       console.error('Error deleting post:', error);
@@ -190,13 +234,14 @@ export function PostCard({ post, onUpdate }: PostCardProps) {
 
     setIsReporting(true);
     try {
+      const sessionToken = getSessionToken();
       const response = await supabase.functions.invoke('report-post', {
         body: {
-          user_id: user.id,
           post_id: post.id,
           reason: reportReason,
           description: reportDescription || null,
         },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (response.error) {
@@ -237,6 +282,44 @@ export function PostCard({ post, onUpdate }: PostCardProps) {
     }
   };
 
+  const startEditing = () => {
+    setEditContent(post.content || '');
+    setIsEditing(true);
+  };
+
+  const handleSaveEdit = async () => {
+    setIsSavingEdit(true);
+    try {
+      const stored = localStorage.getItem('samrambhak_auth');
+      const sessionToken = stored ? JSON.parse(stored).session_token : null;
+
+      const response = await supabase.functions.invoke('edit-post', {
+        body: {
+          post_id: post.id,
+          content: editContent,
+        },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+      });
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to edit post');
+      }
+
+      if (response.data?.error) {
+        throw new Error(response.data.error);
+      }
+
+      setIsEditing(false);
+      toast({ title: 'Post updated' });
+      onUpdate();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to edit post';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
   const displayName = post.businesses?.name || post.profiles?.full_name || 'Anonymous';
   const displayAvatar = post.businesses?.logo_url || post.profiles?.avatar_url || '';
   const profileLink = post.businesses 
@@ -245,6 +328,11 @@ export function PostCard({ post, onUpdate }: PostCardProps) {
 
   const isHiddenByAdmin = post.status === 'hidden';
 
+  // The video and Instagram columns come first, then links in the text
+  const links = [...new Set([post.youtube_url, post.instagram_url, ...extractUrls(post.content)].filter((link): link is string => !!link))];
+  const embeds = links.map(resolveEmbed).filter((embed): embed is Embed => embed !== null).slice(0, MAX_EMBEDS);
+  const previewUrl = links.find((link) => !resolveEmbed(link));
+
   return (
     <Card className={cn("overflow-hidden card-hover border-0 shadow-soft", isHiddenByAdmin && "border-2 border-destructive/30 bg-destructive/5")}>
       {/* Admin Hidden Notice */}
@@ -273,6 +361,11 @@ export function PostCard({ post, onUpdate }: PostCardProps) {
               </p>
               <p className="text-sm text-muted-foreground">
                 {formatDistanceToNow(new Date(post.created_at), { addSuffix: true })}
+                {post.edited_at && (
+                  <span title={`Edited ${formatDistanceToNow(new Date(post.edited_at), { addSuffix: true })}`}>
+                    {' '}· edited
+                  </span>
+                )}
               </p>
             </div>
           </Link>
@@ -285,9 +378,12 @@ export function PostCard({ post, onUpdate }: PostCardProps) {
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="bg-popover">
               <DropdownMenuItem onClick={handleShare}>Share</DropdownMenuItem>
-              <DropdownMenuItem onClick={handleSave}>
+              <DropdownMenuItem onClick={handleSave} disabled={isSaving}>
                 {isSaved ? 'Unsave' : 'Save'}
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleSaveToCollection}>
+                Save to collection...
+              </DropdownMenuItem>
               {user && user.id !== post.user_id && (
                 <>
                   <DropdownMenuSeparator />
@@ -303,6 +399,9 @@ export function PostCard({ post, onUpdate }: PostCardProps) {
               {user?.id === post.user_id && (
                 <>
                   <DropdownMenuSeparator />
+                  {!isHiddenByAdmin && (
+                    <DropdownMenuItem onClick={startEditing}>Edit</DropdownMenuItem>
+                  )}
                   <DropdownMenuItem 
                     className="text-destructive" 
                     onClick={handleDelete}
@@ -319,40 +418,39 @@ export function PostCard({ post, onUpdate }: PostCardProps) {
 
       <CardContent className="pb-3 space-y-3">
         {/* Text Content */}
-        {post.content && (
-          <p className="text-foreground whitespace-pre-wrap">{post.content}</p>
-        )}
-
-        {/* Image */}
-        {post.image_url && (
-          <div className="rounded-xl overflow-hidden">
-            <img
-              src={post.image_url}
-              alt="Post image"
-              className="w-full h-auto object-cover max-h-[500px]"
+        {isEditing ? (
+          <div className="space-y-2">
+            <TagMentionTextarea
+              value={editContent}
+              onChange={setEditContent}
+              className="min-h-[100px] resize-none"
             />
-          </div>
-        )}
-
-        {/* YouTube Embed */}
-        {post.youtube_url && <YouTubeEmbed url={post.youtube_url} />}
-
-        {/* Instagram Embed Placeholder */}
-        {post.instagram_url && (
-          <div className="rounded-xl bg-muted p-4 text-center">
-            <p className="text-muted-foreground text-sm">
-              Instagram content: {' '}
-              <a 
-                href={post.instagram_url} 
-                target="_blank" 
-                rel="noopener noreferrer"
-                className="text-primary hover:underline"
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)} disabled={isSavingEdit}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="gradient-primary text-white"
+                onClick={handleSaveEdit}
+                disabled={isSavingEdit || (!editContent.trim() && !post.image_url && !post.youtube_url)}
               >
-                View on Instagram
-              </a>
-            </p>
+                {isSavingEdit ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
           </div>
+        ) : post.content && (
+          <RichText content={post.content} className="text-foreground whitespace-pre-wrap" />
         )}
+
+        {/* Images */}
+        <PostImages images={post.post_images} fallbackUrl={post.image_url} />
+
+        {/* Embeds, then a preview card for the first other link */}
+        {embeds.map((embed) => (
+          <PostEmbed key={embed.url} embed={embed} />
+        ))}
+        {previewUrl && <LinkPreviewCard url={previewUrl} />}
       </CardContent>
 
       <CardFooter className="flex-col pt-0 border-t">
@@ -395,6 +493,7 @@ export function PostCard({ post, onUpdate }: PostCardProps) {
             size="sm" 
             className={cn('gap-2', isSaved && 'text-primary')}
             onClick={handleSave}
+            disabled={isSaving}
           >
             <Bookmark className={cn('h-5 w-5', isSaved && 'fill-current')} />
           </Button>
@@ -403,11 +502,19 @@ export function PostCard({ post, onUpdate }: PostCardProps) {
         {/* Comments Section */}
         {showComments && (
           <div className="w-full pt-3 border-t mt-2">
-            <CommentSection postId={post.id} onCommentAdded={onUpdate} />
+            <CommentSection postId={post.id} postOwnerId={post.user_id} onCommentsChanged={onUpdate} />
           </div>
         )}
       </CardFooter>
 
+      {showCollectionDialog && (
+        <SaveToCollectionDialog
+          postId={post.id}
+          open={showCollectionDialog}
+          onOpenChange={setShowCollectionDialog}
+        />
+      )}
+
       {/* Report Dialog */}
       <Dialog open={showReportDialog} onOpenChange={setShowReportDialog}>
         <DialogContent className="sm:max-w-md">
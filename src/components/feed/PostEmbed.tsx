@@ -0,0 +1,57 @@
+import { ExternalLink, FileText } from 'lucide-react';
+import type { Embed } from '@/lib/embeds';
+import { cn } from '@/lib/utils';
+
+interface PostEmbedProps {
+  embed: Embed;
+}
+
+// Embedded players need scripts and their own origin to work, but never
+// top-level navigation of the app; links inside them open in a new tab
+const FRAME_SANDBOX = 'allow-scripts allow-same-origin allow-popups allow-popups-to-escape-sandbox allow-presentation';
+
+// Renders a link matched by the embed registry in src/lib/embeds.ts
+export function PostEmbed({ embed }: PostEmbedProps) {
+  if (embed.kind === 'document') {
+    const host = new URL(embed.src).hostname;
+    return (
+      <a
+        href={embed.src}
+        target="_blank"
+        rel="noopener noreferrer nofollow"
+        className="flex items-center gap-3 rounded-xl border bg-muted/40 p-3 hover:bg-muted"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-destructive/10 text-destructive">
+          <FileText className="h-5 w-5" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-medium">{embed.title}</p>
+          <p className="truncate text-xs text-muted-foreground">PDF · {host}</p>
+        </div>
+        <ExternalLink className="h-4 w-4 shrink-0 text-muted-foreground" />
+      </a>
+    );
+  }
+
+  const aspectRatio = embed.aspectRatio ?? 16 / 9;
+  return (
+    <div className={cn('w-full', aspectRatio < 1 && 'mx-auto max-w-sm')}>
+      <div
+        className="relative w-full rounded-xl overflow-hidden bg-muted"
+        style={{ paddingTop: `${100 / aspectRatio}%` }}
+      >
+        <iframe
+          className="absolute inset-0 w-full h-full"
+          src={embed.src}
+          title={embed.title}
+          allow={embed.allow}
+          sandbox={FRAME_SANDBOX}
+          loading="lazy"
+          referrerPolicy="strict-origin-when-cross-origin"
+          allowFullScreen
+        />
+      </div>
+    </div>
+  );
+}
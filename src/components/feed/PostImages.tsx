@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from '@/components/ui/carousel';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+
+export interface PostImage {
+  image_url: string;
+  alt_text: string | null;
+  position: number;
+  width?: number | null;
+  height?: number | null;
+}
+
+interface PostImagesProps {
+  images?: PostImage[] | null;
+  // Posts from before multi-image support only have posts.image_url
+  fallbackUrl?: string | null;
+}
+
+function useSlideIndex(api: CarouselApi | undefined) {
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setIndex(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  return index;
+}
+
+function SlideCounter({ index, total }: { index: number; total: number }) {
+  return (
+    <span className="absolute right-3 top-3 rounded-full bg-black/60 px-2 py-0.5 text-xs font-medium text-white">
+      {index + 1}/{total}
+    </span>
+  );
+}
+
+export function PostImages({ images, fallbackUrl }: PostImagesProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const index = useSlideIndex(api);
+
+  const slides: PostImage[] = images && images.length > 0
+    ? [...images].sort((a, b) => a.position - b.position)
+    : fallbackUrl
+      ? [{ image_url: fallbackUrl, alt_text: null, position: 0 }]
+      : [];
+
+  if (slides.length === 0) return null;
+
+  return (
+    <>
+      {slides.length === 1 ? (
+        <button
+          type="button"
+          className="block w-full overflow-hidden rounded-xl"
+          onClick={() => setLightboxIndex(0)}
+        >
+          <img
+            src={slides[0].image_url}
+            alt={slides[0].alt_text || 'Post image'}
+            loading="lazy"
+            className="w-full h-auto object-cover max-h-[500px]"
+          />
+        </button>
+      ) : (
+        <Carousel setApi={setApi} className="overflow-hidden rounded-xl bg-muted">
+          <CarouselContent className="ml-0">
+            {slides.map((image, i) => (
+              <CarouselItem key={image.position} className="pl-0">
+                <button
+                  type="button"
+                  className="flex aspect-square w-full items-center justify-center sm:aspect-[4/3]"
+                  onClick={() => setLightboxIndex(i)}
+                >
+                  <img
+                    src={image.image_url}
+                    alt={image.alt_text || `Post image ${i + 1}`}
+                    loading="lazy"
+                    className="h-full w-full object-cover"
+                  />
+                </button>
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          <CarouselPrevious className="left-2 disabled:hidden" />
+          <CarouselNext className="right-2 disabled:hidden" />
+          <SlideCounter index={index} total={slides.length} />
+        </Carousel>
+      )}
+
+      <ImageLightbox
+        images={slides}
+        startIndex={lightboxIndex}
+        onClose={() => setLightboxIndex(null)}
+      />
+    </>
+  );
+}
+
+interface ImageLightboxProps {
+  images: PostImage[];
+  startIndex: number | null;
+  onClose: () => void;
+}
+
+function ImageLightbox({ images, startIndex, onClose }: ImageLightboxProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const index = useSlideIndex(api);
+  const current = images[index];
+
+  return (
+    <Dialog open={startIndex !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="flex h-[100dvh] max-w-none flex-col justify-center gap-0 border-0 bg-black/95 p-0 text-white sm:rounded-none">
+        <DialogTitle className="sr-only">Post images</DialogTitle>
+        <Carousel
+          setApi={setApi}
+          opts={{ startIndex: startIndex ?? 0 }}
+          className="w-full"
+        >
+          <CarouselContent className="ml-0">
+            {images.map((image, i) => (
+              <CarouselItem key={image.position} className="flex items-center justify-center pl-0">
+                <img
+                  src={image.image_url}
+                  alt={image.alt_text || `Post image ${i + 1}`}
+                  className="max-h-[85dvh] w-auto max-w-full object-contain"
+                />
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          {images.length > 1 && (
+            <>
+              <CarouselPrevious className="left-4 disabled:hidden" />
+              <CarouselNext className="right-4 disabled:hidden" />
+            </>
+          )}
+        </Carousel>
+        {(current?.alt_text || images.length > 1) && (
+          <p className="px-6 pt-3 text-center text-sm text-white/80">
+            {images.length > 1 && <span className="mr-2 font-medium">{index + 1}/{images.length}</span>}
+            {current?.alt_text}
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+import { Link } from 'react-router-dom';
+import { parseRichText } from '@/lib/richText';
+
+interface RichTextProps {
+  content: string;
+  className?: string;
+}
+
+// Post and comment text with links, #hashtags and @mentions made clickable
+export function RichText({ content, className }: RichTextProps) {
+  return (
+    <p className={className}>
+      {parseRichText(content).map((segment, index) => {
+        if (segment.type === 'link') {
+          return (
+            <a
+              key={index}
+              href={segment.url}
+              target="_blank"
+              rel="noopener noreferrer nofollow ugc"
+              className="text-primary hover:underline break-all"
+              onClick={e => e.stopPropagation()}
+            >
+              {segment.value}
+            </a>
+          );
+        }
+        if (segment.type === 'hashtag') {
+          return (
+            <Link
+              key={index}
+              to={`/tag/${encodeURIComponent(segment.tag)}`}
+              className="text-primary hover:underline"
+              onClick={e => e.stopPropagation()}
+            >
+              {segment.value}
+            </Link>
+          );
+        }
+        if (segment.type === 'mention') {
+          return (
+            <Link
+              key={index}
+              to={`/u/${segment.username}`}
+              className="font-medium text-primary hover:underline"
+              onClick={e => e.stopPropagation()}
+            >
+              {segment.value}
+            </Link>
+          );
+        }
+        return <span key={index}>{segment.value}</span>;
+      })}
+    </p>
+  );
+}
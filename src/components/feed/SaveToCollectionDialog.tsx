@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import { invokeSavedPosts, useSavedCollections, useSavedPosts } from '@/hooks/useSavedPosts';
+import { Loader2, Plus } from 'lucide-react';
+
+interface SaveToCollectionDialogProps {
+  postId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NO_COLLECTION = 'none';
+
+export function SaveToCollectionDialog({ postId, open, onOpenChange }: SaveToCollectionDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { savePost } = useSavedPosts();
+  const { data, isLoading } = useSavedCollections();
+  const [selected, setSelected] = useState(NO_COLLECTION);
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const collections = data?.collections || [];
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+
+    setCreating(true);
+    try {
+      const result = await invokeSavedPosts({ action: 'create_collection', name: newName });
+      await queryClient.invalidateQueries({ queryKey: ['saved-collections'] });
+      setSelected(result.collection.id);
+      setNewName('');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create collection';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await savePost(postId, selected === NO_COLLECTION ? null : selected);
+      const collection = collections.find(c => c.id === selected);
+      toast({ title: collection ? `Saved to ${collection.name}` : 'Post saved!' });
+      onOpenChange(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save post';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save to Collection</DialogTitle>
+          <DialogDescription>Group saved posts into collections such as suppliers or ideas.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <RadioGroup value={selected} onValueChange={setSelected} className="max-h-60 overflow-y-auto">
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value={NO_COLLECTION} id="collection-none" />
+                <Label htmlFor="collection-none" className="font-normal cursor-pointer">
+                  No collection
+                </Label>
+              </div>
+              {collections.map(collection => (
+                <div key={collection.id} className="flex items-center space-x-2">
+                  <RadioGroupItem value={collection.id} id={`collection-${collection.id}`} />
+                  <Label htmlFor={`collection-${collection.id}`} className="font-normal cursor-pointer">
+                    {collection.name}
+                    <span className="ml-1 text-muted-foreground">({collection.post_count})</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          )}
+
+          <div className="flex gap-2">
+            <Input
+              placeholder="New collection name"
+              value={newName}
+              maxLength={50}
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleCreate()}
+            />
+            <Button variant="outline" onClick={handleCreate} disabled={!newName.trim() || creating}>
+              {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
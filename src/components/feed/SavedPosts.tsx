@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { invokeSavedPosts, useSavedCollections } from '@/hooks/useSavedPosts';
+import { cn } from '@/lib/utils';
+import { Bookmark, EyeOff, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { PostCard } from './PostCard';
+
+type PostCardPost = Parameters<typeof PostCard>[0]['post'];
+
+interface SavedItem {
+  id: string;
+  post_id: string | null;
+  collection_id: string | null;
+  created_at: string;
+  post: PostCardPost | null;
+  unavailable: 'deleted' | 'hidden' | null;
+}
+
+// 'all', 'unsorted' or a collection id
+type Filter = string;
+
+export function SavedPosts() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState<Filter>('all');
+  const [nameDialog, setNameDialog] = useState<'create' | 'rename' | null>(null);
+  const [collectionName, setCollectionName] = useState('');
+  const [savingName, setSavingName] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const { data: collectionData } = useSavedCollections();
+  const collections = collectionData?.collections || [];
+  const activeCollection = collections.find(c => c.id === filter);
+
+  const { data: items = [], isLoading, refetch } = useQuery({
+    queryKey: ['saved-posts', user?.id, filter],
+    queryFn: async () => {
+      const data = await invokeSavedPosts({
+        action: 'list',
+        collection_id: filter === 'all' ? null : filter,
+      });
+      return (data.items || []) as SavedItem[];
+    },
+    enabled: !!user,
+  });
+
+  const refreshAll = () => {
+    queryClient.invalidateQueries({ queryKey: ['saved-posts'] });
+    queryClient.invalidateQueries({ queryKey: ['saved-collections'] });
+    queryClient.invalidateQueries({ queryKey: ['saved-post-ids'] });
+  };
+
+  const openNameDialog = (mode: 'create' | 'rename') => {
+    setCollectionName(mode === 'rename' ? activeCollection?.name || '' : '');
+    setNameDialog(mode);
+  };
+
+  const handleSaveName = async () => {
+    if (!collectionName.trim()) return;
+
+    setSavingName(true);
+    try {
+      const data = await invokeSavedPosts({
+        action: nameDialog === 'create' ? 'create_collection' : 'rename_collection',
+        collection_id: activeCollection?.id,
+        name: collectionName,
+      });
+      queryClient.invalidateQueries({ queryKey: ['saved-collections'] });
+      if (nameDialog === 'create') setFilter(data.collection.id);
+      setNameDialog(null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save collection';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setSavingName(false);
+    }
+  };
+
+  const handleDeleteCollection = async () => {
+    if (!activeCollection) return;
+
+    try {
+      await invokeSavedPosts({ action: 'delete_collection', collection_id: activeCollection.id });
+      toast({ title: 'Collection deleted', description: 'Its posts are still in your saved list.' });
+      setFilter('all');
+      refreshAll();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete collection';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setConfirmDelete(false);
+    }
+  };
+
+  const handleRemove = async (item: SavedItem) => {
+    setRemovingId(item.id);
+    try {
+      await invokeSavedPosts({ action: 'unsave', saved_id: item.id });
+      refreshAll();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to remove saved post';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const filters = [
+    { value: 'all', label: 'All', count: collectionData?.totalCount },
+    { value: 'unsorted', label: 'Unsorted', count: collectionData?.unsortedCount },
+    ...collections.map(c => ({ value: c.id, label: c.name, count: c.post_count })),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {filters.map(f => (
+          <Button
+            key={f.value}
+            size="sm"
+            variant={filter === f.value ? 'default' : 'outline'}
+            className={cn('rounded-full', filter === f.value && 'gradient-primary text-white')}
+            onClick={() => setFilter(f.value)}
+          >
+            {f.label}
+            {f.count !== undefined && <span className="ml-1 opacity-70">{f.count}</span>}
+          </Button>
+        ))}
+        <Button size="sm" variant="ghost" className="rounded-full" onClick={() => openNameDialog('create')}>
+          <Plus className="mr-1 h-4 w-4" />
+          New collection
+        </Button>
+      </div>
+
+      {activeCollection && (
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="ghost" onClick={() => openNameDialog('rename')}>
+            <Pencil className="mr-1 h-4 w-4" />
+            Rename
+          </Button>
+          <Button size="sm" variant="ghost" className="text-destructive" onClick={() => setConfirmDelete(true)}>
+            <Trash2 className="mr-1 h-4 w-4" />
+            Delete collection
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-48 w-full" />
+          <Skeleton className="h-48 w-full" />
+        </div>
+      ) : items.length === 0 ? (
+        <Card className="border-0 shadow-soft">
+          <CardContent className="py-12 text-center">
+            <Bookmark className="h-10 w-10 mx-auto mb-3 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              {filter === 'all' ? 'Posts you save will appear here' : 'No saved posts here yet'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        items.map(item =>
+          item.post ? (
+            <PostCard key={item.id} post={item.post} onUpdate={() => refetch()} />
+          ) : (
+            <Card key={item.id} className="border-0 shadow-soft">
+              <CardContent className="py-6 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3 text-muted-foreground">
+                  {item.unavailable === 'hidden' ? <EyeOff className="h-5 w-5" /> : <Trash2 className="h-5 w-5" />}
+                  <p className="text-sm">
+                    {item.unavailable === 'hidden'
+                      ? 'This post is no longer available.'
+                      : 'This post has been deleted.'}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRemove(item)}
+                  disabled={removingId === item.id}
+                >
+                  {removingId === item.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Remove'}
+                </Button>
+              </CardContent>
+            </Card>
+          )
+        )
+      )}
+
+      <Dialog open={nameDialog !== null} onOpenChange={open => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{nameDialog === 'create' ? 'New Collection' : 'Rename Collection'}</DialogTitle>
+            <DialogDescription>Give the collection a short name, like "Suppliers" or "Ideas".</DialogDescription>
+          </DialogHeader>
+          <Input
+            value={collectionName}
+            maxLength={50}
+            onChange={e => setCollectionName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleSaveName()}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialog(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveName} disabled={!collectionName.trim() || savingName}>
+              {savingName && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {nameDialog === 'create' ? 'Create' : 'Rename'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{activeCollection?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The collection is removed but its posts stay saved under Unsorted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteCollection}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -8,6 +8,11 @@ import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
 interface SuggestedUser {
   id: string;
   full_name: string | null;
@@ -77,8 +82,10 @@ export function SuggestedUsers() {
     const action = isFollowing ? 'unfollow' : 'follow';
 
     try {
+      const sessionToken = getSessionToken();
       const { data, error } = await supabase.functions.invoke('toggle-follow', {
-        body: { user_id: user.id, following_id: userId, action }
+        body: { following_id: userId, action },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (error) {
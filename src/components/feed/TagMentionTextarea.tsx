@@ -0,0 +1,183 @@
+import { useEffect, useRef, useState } from 'react';
+import { Hash } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { publicProfiles } from '@/lib/publicProfiles';
+import { tokenAtCaret } from '@/lib/richText';
+import { cn } from '@/lib/utils';
+
+interface Suggestion {
+  key: string;
+  insert: string;
+  label: string;
+  detail: string | null;
+  avatarUrl?: string | null;
+}
+
+interface TagMentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+type ActiveToken = NonNullable<ReturnType<typeof tokenAtCaret>>;
+
+const SUGGESTION_LIMIT = 6;
+
+// Textarea that suggests people after "@" and popular tags after "#"
+export function TagMentionTextarea({ value, onChange, placeholder, className }: TagMentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [token, setToken] = useState<ActiveToken | null>(null);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const trigger = token?.trigger;
+  const query = token?.query;
+
+  useEffect(() => {
+    if (!trigger || !query) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      let next: Suggestion[] = [];
+
+      if (trigger === '@') {
+        const { data } = await publicProfiles()
+          .select('id, username, full_name, avatar_url')
+          .ilike('username', `${query.replace(/_/g, '\\_')}%`)
+          .limit(SUGGESTION_LIMIT);
+        next = (data || []).map(p => ({
+          key: p.id,
+          insert: `@${p.username}`,
+          label: `@${p.username}`,
+          detail: p.full_name,
+          avatarUrl: p.avatar_url,
+        }));
+      } else {
+        const { data } = await supabase.rpc('search_hashtags', {
+          p_prefix: query,
+          p_limit: SUGGESTION_LIMIT,
+        });
+        next = (data || []).map(t => ({
+          key: t.tag,
+          insert: `#${t.tag}`,
+          label: `#${t.tag}`,
+          detail: `${t.uses} ${t.uses === 1 ? 'post' : 'posts'}`,
+        }));
+      }
+
+      if (!cancelled) {
+        setSuggestions(next);
+        setActiveIndex(0);
+      }
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trigger, query]);
+
+  const updateToken = (text: string, caret: number) => {
+    setToken(tokenAtCaret(text, caret));
+  };
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    if (!token) return;
+    const caret = token.start + 1 + token.query.length;
+    const before = value.slice(0, token.start);
+    const after = value.slice(caret);
+    const inserted = `${suggestion.insert} `;
+    onChange(before + inserted + after.replace(/^ /, ''));
+    setToken(null);
+    setSuggestions([]);
+
+    const position = before.length + inserted.length;
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setToken(null);
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        placeholder={placeholder}
+        className={className}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateToken(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateToken(e.currentTarget.value, e.currentTarget.selectionStart)}
+        onBlur={() => setTimeout(() => setSuggestions([]), 150)}
+        aria-autocomplete="list"
+        aria-expanded={suggestions.length > 0}
+      />
+
+      {suggestions.length > 0 && (
+        <div
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-20 mt-1 overflow-hidden rounded-lg border bg-popover shadow-md"
+        >
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.key}
+              type="button"
+              role="option"
+              aria-selected={index === activeIndex}
+              className={cn(
+                'flex w-full items-center gap-2 px-3 py-2 text-left text-sm',
+                index === activeIndex ? 'bg-muted' : 'hover:bg-muted/60'
+              )}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => applySuggestion(suggestion)}
+            >
+              {token?.trigger === '@' ? (
+                <Avatar className="h-7 w-7">
+                  <AvatarImage src={suggestion.avatarUrl || ''} />
+                  <AvatarFallback className="gradient-primary text-white text-xs">
+                    {suggestion.detail?.charAt(0) || 'U'}
+                  </AvatarFallback>
+                </Avatar>
+              ) : (
+                <div className="flex h-7 w-7 items-center justify-center rounded-full bg-muted">
+                  <Hash className="h-4 w-4 text-muted-foreground" />
+                </div>
+              )}
+              <span className="font-medium text-foreground">{suggestion.label}</span>
+              {suggestion.detail && (
+                <span className="ml-auto truncate text-xs text-muted-foreground">{suggestion.detail}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { differenceInCalendarDays, formatDistanceToNow } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+
+interface TrashedPost {
+  id: string;
+  content: string | null;
+  image_url: string | null;
+  deleted_at: string;
+  purge_at: string;
+  post_images?: { image_url: string; alt_text: string | null; position: number }[];
+}
+
+interface TrashedPostsProps {
+  onRestored?: () => void;
+}
+
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
+async function invokeTrash(body: Record<string, unknown>) {
+  const sessionToken = getSessionToken();
+  const response = await supabase.functions.invoke('manage-post-trash', {
+    body,
+    headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+  });
+
+  if (response.error) throw new Error(response.error.message || 'Request failed');
+  if (response.data?.error) throw new Error(response.data.error);
+  return response.data;
+}
+
+// Posts the user deleted in the last 30 days, restorable until purged
+export function TrashedPosts({ onRestored }: TrashedPostsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [confirmPost, setConfirmPost] = useState<TrashedPost | null>(null);
+
+  const { data: posts = [], isLoading, refetch } = useQuery({
+    queryKey: ['trashed-posts', user?.id],
+    queryFn: async () => {
+      const data = await invokeTrash({ action: 'list' });
+      return (data.posts || []) as TrashedPost[];
+    },
+    enabled: !!user,
+  });
+
+  const handleRestore = async (post: TrashedPost) => {
+    setPendingId(post.id);
+    try {
+      await invokeTrash({ action: 'restore', post_id: post.id });
+      toast({ title: 'Post restored' });
+      refetch();
+      onRestored?.();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to restore post';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDeleteForever = async () => {
+    if (!confirmPost) return;
+
+    const post = confirmPost;
+    setConfirmPost(null);
+    setPendingId(post.id);
+    try {
+      await invokeTrash({ action: 'delete_forever', post_id: post.id });
+      toast({ title: 'Post permanently deleted' });
+      refetch();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete post';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-24 w-full" />
+      </div>
+    );
+  }
+
+  if (posts.length === 0) {
+    return (
+      <Card className="border-0 shadow-soft">
+        <CardContent className="py-12 text-center">
+          <Trash2 className="h-10 w-10 mx-auto mb-3 text-muted-foreground" />
+          <p className="text-muted-foreground">Deleted posts stay here for 30 days</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {posts.map((post) => {
+        const cover = post.post_images?.find((image) => image.position === 0)?.image_url || post.image_url;
+        const daysLeft = Math.max(0, differenceInCalendarDays(new Date(post.purge_at), new Date()));
+
+        return (
+          <Card key={post.id} className="border-0 shadow-soft">
+            <CardContent className="flex gap-3 p-4">
+              {cover && (
+                <img src={cover} alt="" className="h-16 w-16 shrink-0 rounded-lg object-cover" loading="lazy" />
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="line-clamp-2 text-sm">{post.content || 'Post without text'}</p>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Deleted {formatDistanceToNow(new Date(post.deleted_at), { addSuffix: true })} ·{' '}
+                  {daysLeft === 0 ? 'removed permanently today' : `removed permanently in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`}
+                </p>
+                <div className="mt-2 flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRestore(post)}
+                    disabled={pendingId === post.id}
+                  >
+                    {pendingId === post.id ? (
+                      <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="mr-1 h-4 w-4" />
+                    )}
+                    Restore
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive"
+                    onClick={() => setConfirmPost(post)}
+                    disabled={pendingId === post.id}
+                  >
+                    Delete forever
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <AlertDialog open={!!confirmPost} onOpenChange={(open) => !open && setConfirmPost(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this post forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The post, its photos, likes and comments are removed now and can't be restored.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteForever}>Delete forever</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,86 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { supabase } from '@/integrations/supabase/client';
+import { useTrendingPosts, type TrendingScope } from '@/hooks/useTrendingPosts';
+import { TrendingScopeTabs } from './TrendingScopeTabs';
 import { TrendingUp, Heart, MessageCircle } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { formatDistanceToNow } from 'date-fns';
 
-interface TrendingPost {
-  id: string;
-  content: string | null;
-  image_url: string | null;
-  created_at: string;
-  user_id: string;
-  profiles: {
-    id: string;
-    full_name: string | null;
-    username: string | null;
-    avatar_url: string | null;
-  } | null;
-  businesses: {
-    id: string;
-    name: string;
-    logo_url: string | null;
-  } | null;
-  likes_count: number;
-  comments_count: number;
-}
-
 export function TrendingPosts() {
-  const [posts, setPosts] = useState<TrendingPost[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [scope, setScope] = useState<TrendingScope>('global');
+  const { data: posts = [], isLoading: loading } = useTrendingPosts({ scope });
   const navigate = useNavigate();
 
-  useEffect(() => {
-    fetchTrendingPosts();
-  }, []);
-
-  const fetchTrendingPosts = async () => {
-    try {
-      // Fetch posts with like and comment counts
-      const { data: postsData, error } = await supabase
-        .from('posts')
-        .select(`
-          id,
-          content,
-          image_url,
-          created_at,
-          user_id,
-          profiles:user_id (id, full_name, username, avatar_url),
-          businesses:business_id (id, name, logo_url),
-          post_likes (id),
-          comments (id)
-        `)
-        .eq('status', 'active')
-        .order('created_at', { ascending: false })
-        .limit(50);
-
-      if (error) throw error;
-
-      // Calculate engagement and sort by it
-      const postsWithEngagement = (postsData || []).map(post => ({
-        ...post,
-        likes_count: post.post_likes?.length || 0,
-        comments_count: post.comments?.length || 0,
-        engagement: (post.post_likes?.length || 0) * 2 + (post.comments?.length || 0) * 3
-      }));
-
-      // Sort by engagement score and take top 5
-      const trending = postsWithEngagement
-        .sort((a, b) => b.engagement - a.engagement)
-        .slice(0, 5);
-
-      setPosts(trending);
-    } catch (error) {
-      console.error('Error fetching trending posts:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   if (loading) {
     return (
       <Card className="border-0 shadow-soft">
@@ -105,7 +38,7 @@ export function TrendingPosts() {
     );
   }
 
-  if (posts.length === 0) {
+  if (posts.length === 0 && scope === 'global') {
     return null;
   }
 
@@ -116,8 +49,12 @@ export function TrendingPosts() {
           <TrendingUp className="h-5 w-5 text-primary" />
           Trending Posts
         </CardTitle>
+        <TrendingScopeTabs value={scope} onChange={setScope} className="pt-2" />
       </CardHeader>
       <CardContent className="space-y-4">
+        {posts.length === 0 && (
+          <p className="text-sm text-muted-foreground">Nothing trending around here yet</p>
+        )}
         {posts.map((post, index) => (
           <div 
             key={post.id}
@@ -0,0 +1,38 @@
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useTrendingArea, type TrendingScope } from '@/hooks/useTrendingPosts';
+
+interface TrendingScopeTabsProps {
+  value: TrendingScope;
+  onChange: (scope: TrendingScope) => void;
+  className?: string;
+}
+
+// Local scopes only appear when the viewer's location names them
+export function TrendingScopeTabs({ value, onChange, className }: TrendingScopeTabsProps) {
+  const area = useTrendingArea();
+
+  const scopes: { value: TrendingScope; label: string }[] = [
+    { value: 'global', label: 'Everywhere' },
+    ...(area.district ? [{ value: 'district' as const, label: area.district }] : []),
+    ...(area.localBody ? [{ value: 'panchayath' as const, label: area.localBody }] : []),
+  ];
+
+  if (scopes.length === 1) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-1.5', className)}>
+      {scopes.map(scope => (
+        <Button
+          key={scope.value}
+          size="sm"
+          variant={value === scope.value ? 'default' : 'outline'}
+          className={cn('h-7 rounded-full px-3 text-xs', value === scope.value && 'gradient-primary text-white')}
+          onClick={() => onChange(scope.value)}
+        >
+          {scope.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -1,64 +1,14 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { TrendingUp, Building2, ChevronRight } from 'lucide-react';
+import { TrendingUp, Building2, ChevronRight, Heart } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { supabase } from '@/integrations/supabase/client';
-
-interface TrendingBusiness {
-  id: string;
-  name: string;
-  category: string;
-  logo_url: string | null;
-  follower_count: number;
-}
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTrendingPosts, type BusinessCategory } from '@/hooks/useTrendingPosts';
 
 export function TrendingSection() {
-  const [businesses, setBusinesses] = useState<TrendingBusiness[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    fetchTrendingBusinesses();
-  }, []);
-
-  const fetchTrendingBusinesses = async () => {
-    try {
-      // Get featured businesses with follower count
-      const { data, error } = await supabase
-        .from('businesses')
-        .select(`
-          id,
-          name,
-          category,
-          logo_url
-        `)
-        .eq('is_featured', true)
-        .limit(5);
-
-      if (error) throw error;
-
-      // Get follower counts
-      const businessesWithCounts = await Promise.all(
-        (data || []).map(async (business) => {
-          const { count } = await supabase
-            .from('business_follows')
-            .select('*', { count: 'exact', head: true })
-            .eq('business_id', business.id);
-          
-          return {
-            ...business,
-            follower_count: count || 0,
-          };
-        })
-      );
-
-      setBusinesses(businessesWithCounts);
-    } catch (error) {
-      console.error('Error fetching trending:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const [category, setCategory] = useState<BusinessCategory | 'any'>('any');
+  const { data: posts = [], isLoading: loading } = useTrendingPosts({ category });
 
   const categoryLabels: Record<string, string> = {
     food: '🍕 Food',
@@ -80,23 +30,36 @@ export function TrendingSection() {
           <TrendingUp className="h-5 w-5 text-primary" />
           Trending Ideas
         </CardTitle>
+        <Select value={category} onValueChange={(value) => setCategory(value as BusinessCategory | 'any')}>
+          <SelectTrigger className="h-8 text-xs mt-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">All categories</SelectItem>
+            {Object.entries(categoryLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </CardHeader>
       <CardContent className="space-y-4">
         {loading ? (
           <p className="text-muted-foreground text-sm">Loading...</p>
-        ) : businesses.length > 0 ? (
+        ) : posts.length > 0 ? (
           <>
-            {businesses.map((business) => (
+            {posts.map((post) => (
               <Link
-                key={business.id}
-                to={`/business/${business.id}`}
+                key={post.id}
+                to={`/post/${post.id}`}
                 className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted transition-colors"
               >
                 <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center overflow-hidden">
-                  {business.logo_url ? (
+                  {post.businesses?.logo_url ? (
                     <img
-                      src={business.logo_url}
-                      alt={business.name}
+                      src={post.businesses.logo_url}
+                      alt={post.businesses.name}
                       className="w-full h-full object-cover"
                     />
                   ) : (
@@ -104,13 +67,17 @@ export function TrendingSection() {
                   )}
                 </div>
                 <div className="flex-1 min-w-0">
-                  <p className="font-medium text-sm truncate">{business.name}</p>
-                  <Badge variant="secondary" className="text-xs mt-1">
-                    {categoryLabels[business.category] || business.category}
-                  </Badge>
+                  <p className="font-medium text-sm truncate">{post.businesses?.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">{post.content || 'Shared a post'}</p>
+                  {post.businesses && (
+                    <Badge variant="secondary" className="text-xs mt-1">
+                      {categoryLabels[post.businesses.category] || post.businesses.category}
+                    </Badge>
+                  )}
                 </div>
-                <span className="text-xs text-muted-foreground">
-                  {business.follower_count} followers
+                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Heart className="h-3 w-3" />
+                  {post.likes_count}
                 </span>
               </Link>
             ))}
@@ -125,7 +92,7 @@ export function TrendingSection() {
           <div className="text-center py-4">
             <Building2 className="h-8 w-8 mx-auto text-muted-foreground mb-2" />
             <p className="text-sm text-muted-foreground">
-              No featured businesses yet
+              Nothing trending in this category yet
             </p>
             <Link
               to="/create-business"
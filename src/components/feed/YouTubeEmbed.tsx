@@ -1,24 +1,14 @@
+import { resolveEmbed } from '@/lib/embeds';
+import { PostEmbed } from './PostEmbed';
+
 interface YouTubeEmbedProps {
   url: string;
 }
 
 export function YouTubeEmbed({ url }: YouTubeEmbedProps) {
-  const getVideoId = (url: string) => {
-    const patterns = [
-      /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
-      /youtube\.com\/shorts\/([^&\n?#]+)/,
-    ];
-
-    for (const pattern of patterns) {
-      const match = url.match(pattern);
-      if (match) return match[1];
-    }
-    return null;
-  };
-
-  const videoId = getVideoId(url);
+  const embed = resolveEmbed(url);
 
-  if (!videoId) {
+  if (embed?.provider !== 'youtube') {
     return (
       <div className="rounded-xl bg-muted p-4 text-center">
         <p className="text-muted-foreground text-sm">Invalid YouTube URL</p>
@@ -26,15 +16,5 @@ export function YouTubeEmbed({ url }: YouTubeEmbedProps) {
     );
   }
 
-  return (
-    <div className="relative w-full pt-[56.25%] rounded-xl overflow-hidden bg-muted">
-      <iframe
-        className="absolute inset-0 w-full h-full"
-        src={`https://www.youtube.com/embed/${videoId}`}
-        title="YouTube video"
-        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-        allowFullScreen
-      />
-    </div>
-  );
+  return <PostEmbed embed={embed} />;
 }
@@ -15,6 +15,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Plus, Loader2 } from 'lucide-react';
+import { PanchayathLocationPicker } from '@/components/settings/PanchayathLocationPicker';
+import { EMPTY_GEO_LOCATION, type GeoLocation } from '@/lib/location';
 
 interface CreateJobDialogProps {
   onJobCreated?: () => void;
@@ -30,6 +32,7 @@ export function CreateJobDialog({ onJobCreated, trigger }: CreateJobDialogProps)
   const [description, setDescription] = useState('');
   const [conditions, setConditions] = useState('');
   const [location, setLocation] = useState('');
+  const [geo, setGeo] = useState<GeoLocation>(EMPTY_GEO_LOCATION);
   const [useTimeExpiry, setUseTimeExpiry] = useState(false);
   const [useCountExpiry, setUseCountExpiry] = useState(false);
   const [expiryDays, setExpiryDays] = useState('7');
@@ -40,6 +43,7 @@ export function CreateJobDialog({ onJobCreated, trigger }: CreateJobDialogProps)
     setDescription('');
     setConditions('');
     setLocation('');
+    setGeo(EMPTY_GEO_LOCATION);
     setUseTimeExpiry(false);
     setUseCountExpiry(false);
     setExpiryDays('7');
@@ -82,6 +86,7 @@ export function CreateJobDialog({ onJobCreated, trigger }: CreateJobDialogProps)
           description: description.trim(),
           conditions: conditions.trim() || null,
           location: location.trim() || null,
+          ...geo,
           max_applications: useCountExpiry && maxApplications ? parseInt(maxApplications) : null,
           expires_at: expiresAt,
         },
@@ -155,12 +160,13 @@ export function CreateJobDialog({ onJobCreated, trigger }: CreateJobDialogProps)
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="location">Location</Label>
-            <Input
-              id="location"
-              placeholder="e.g., Malappuram, Kerala"
+            <Label>Location</Label>
+            <PanchayathLocationPicker
               value={location}
-              onChange={(e) => setLocation(e.target.value)}
+              onChange={(value, nextGeo) => {
+                setLocation(value);
+                setGeo(nextGeo);
+              }}
             />
           </div>
 
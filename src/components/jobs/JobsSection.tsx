@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -15,6 +15,9 @@ import {
 } from '@/components/ui/dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { useNearby } from '@/hooks/useNearby';
+import { fetchNearby, inNearbyRing } from '@/lib/nearby';
+import { NearbyScopeTabs } from '@/components/feed/NearbyScopeTabs';
 import { 
   Briefcase, 
   ChevronDown, 
@@ -418,8 +421,9 @@ export function JobsSection() {
   const [jobs, setJobs] = useState<JobData[]>([]);
   const [loading, setLoading] = useState(true);
   const [expanded, setExpanded] = useState(false);
+  const { area, scope, setScope } = useNearby();
 
-  const fetchJobs = async () => {
+  const fetchJobs = useCallback(async () => {
     setLoading(true);
     try {
       // Auto-close expired jobs
@@ -430,13 +434,14 @@ export function JobsSection() {
         .lt('expires_at', new Date().toISOString())
         .not('expires_at', 'is', null);
 
-      // Fetch all jobs
-      const { data, error } = await supabase
-        .from('jobs')
-        .select('*')
-        .order('created_at', { ascending: false });
+      // Jobs in the viewer's panchayath first, then the district, then the rest
+      const data = await fetchNearby(area, scope, async (ring) => {
+        const { data, error } = await inNearbyRing(supabase.from('jobs').select('*'), ring, area)
+          .order('created_at', { ascending: false });
 
-      if (error) throw error;
+        if (error) throw error;
+        return data || [];
+      });
 
       // Get application counts
       const jobsWithCounts = await Promise.all(
@@ -464,11 +469,11 @@ export function JobsSection() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [area, scope]);
 
   useEffect(() => {
     fetchJobs();
-  }, []);
+  }, [fetchJobs]);
 
   const displayedJobs = expanded ? jobs : jobs.slice(0, 3);
   const openJobs = jobs.filter(j => j.status === 'open');
@@ -488,6 +493,7 @@ export function JobsSection() {
           </CardTitle>
           <CreateJobDialogInline onJobCreated={fetchJobs} />
         </div>
+        <NearbyScopeTabs area={area} value={scope} onChange={setScope} className="pt-2" />
       </CardHeader>
       <CardContent className="space-y-4">
         {loading ? (
@@ -522,7 +528,9 @@ export function JobsSection() {
         ) : (
           <div className="text-center py-8">
             <Briefcase className="h-12 w-12 mx-auto text-slate-300 mb-3" />
-            <p className="text-slate-500">No jobs posted yet</p>
+            <p className="text-slate-500">
+              {scope === 'state' ? 'No jobs posted yet' : 'No jobs posted in this area yet'}
+            </p>
             <p className="text-sm text-slate-400 mt-1">
               Be the first to post a job!
             </p>
@@ -1,6 +1,7 @@
 import { ReactNode } from 'react';
 import { Navbar } from './Navbar';
 import { BottomNav } from './BottomNav';
+import { SuspensionBanner } from './SuspensionBanner';
 
 interface MainLayoutProps {
   children: ReactNode;
@@ -17,6 +18,7 @@ export function MainLayout({
     <div className="min-h-screen bg-background">
       {showNavbar && <Navbar />}
       <main className={`${showNavbar ? 'pt-16' : ''} ${showBottomNav ? 'pb-20 md:pb-0' : ''}`}>
+        <SuspensionBanner />
         {children}
       </main>
       {showBottomNav && <BottomNav />}
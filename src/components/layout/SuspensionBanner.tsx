@@ -0,0 +1,22 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { describeSuspensionEnd, useAccountStatus } from '@/hooks/useAccountStatus';
+import { Ban } from 'lucide-react';
+
+export function SuspensionBanner() {
+  const { data: suspension } = useAccountStatus();
+
+  if (!suspension) return null;
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 pt-4">
+      <Alert variant="destructive">
+        <Ban className="h-4 w-4" />
+        <AlertTitle>Your account is suspended {describeSuspensionEnd(suspension)}</AlertTitle>
+        <AlertDescription>
+          Reason: {suspension.reason}. You can still browse, but you can't post, comment, message,
+          follow or apply to jobs while the suspension is in place.
+        </AlertDescription>
+      </Alert>
+    </div>
+  );
+}
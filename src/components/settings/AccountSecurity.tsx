@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { z } from 'zod';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { KeyRound, Loader2, Lock, Phone, ShieldCheck } from 'lucide-react';
+
+const phoneSchema = z.string().refine(
+  (val) => /^[0-9]{10}$/.test(val),
+  { message: 'Please enter a valid 10-digit mobile number' }
+);
+const passwordSchema = z.string().min(6, 'Password must be at least 6 characters');
+
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
+// Edge function errors arrive as a non-2xx response; read the JSON body for the message
+async function invokeMobileAuth(body: Record<string, unknown>) {
+  const sessionToken = getSessionToken();
+  const response = await supabase.functions.invoke('mobile-auth', {
+    body,
+    headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+  });
+
+  if (response.error) {
+    let message = response.error.message || 'Request failed';
+    try {
+      const parsed = await (response.error.context as Response)?.json?.();
+      if (parsed?.error) message = parsed.error;
+    } catch {
+      // Ignore parse errors
+    }
+    throw new Error(message);
+  }
+  if (response.data?.error) throw new Error(response.data.error);
+  return response.data;
+}
+
+export function AccountSecurity() {
+  const { user, updateUser, refreshProfile } = useAuth();
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<'password' | 'mobile' | null>(null);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [newMobileNumber, setNewMobileNumber] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const closeDialog = () => {
+    setDialog(null);
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setNewMobileNumber('');
+    setErrors({});
+  };
+
+  const handleChangePassword = async () => {
+    const newErrors: Record<string, string> = {};
+    if (!currentPassword) newErrors.currentPassword = 'Current password is required';
+    const passwordResult = passwordSchema.safeParse(newPassword);
+    if (!passwordResult.success) newErrors.newPassword = passwordResult.error.errors[0].message;
+    if (newPassword !== confirmPassword) newErrors.confirmPassword = 'Passwords do not match';
+
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors);
+      return;
+    }
+
+    setErrors({});
+    setSaving(true);
+    try {
+      const data = await invokeMobileAuth({
+        action: 'change_password',
+        current_password: currentPassword,
+        new_password: newPassword,
+      });
+      toast({ title: 'Password changed', description: data.message });
+      closeDialog();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to change password';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleChangeMobile = async () => {
+    const newErrors: Record<string, string> = {};
+    if (!currentPassword) newErrors.currentPassword = 'Current password is required';
+    const phoneResult = phoneSchema.safeParse(newMobileNumber);
+    if (!phoneResult.success) newErrors.newMobileNumber = phoneResult.error.errors[0].message;
+
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors);
+      return;
+    }
+
+    setErrors({});
+    setSaving(true);
+    try {
+      const data = await invokeMobileAuth({
+        action: 'change_mobile',
+        current_password: currentPassword,
+        new_mobile_number: newMobileNumber,
+      });
+      updateUser({ mobile_number: data.mobile_number });
+      await refreshProfile();
+      toast({ title: 'Mobile number updated', description: 'Use your new number the next time you sign in.' });
+      closeDialog();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to change mobile number';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-soft">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          <CardTitle>Account Security</CardTitle>
+        </div>
+        <CardDescription>Change your password or the mobile number you sign in with</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between gap-3 p-3 rounded-lg border">
+          <div className="flex items-center gap-3">
+            <KeyRound className="h-5 w-5 text-muted-foreground" />
+            <div>
+              <p className="font-medium">Password</p>
+              <p className="text-xs text-muted-foreground">Other devices are signed out when you change it</p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setDialog('password')}>
+            Change
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-3 rounded-lg border">
+          <div className="flex items-center gap-3">
+            <Phone className="h-5 w-5 text-muted-foreground" />
+            <div>
+              <p className="font-medium">Mobile number</p>
+              <p className="text-xs text-muted-foreground">{user?.mobile_number || 'Not set'}</p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setDialog('mobile')}>
+            Change
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialog === 'password' ? 'Change Password' : 'Change Mobile Number'}</DialogTitle>
+            <DialogDescription>
+              {dialog === 'password'
+                ? 'Enter your current password and choose a new one.'
+                : 'Enter your current password and the new number you want to sign in with.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="currentPassword">Current Password</Label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="currentPassword"
+                  type="password"
+                  className="pl-10"
+                  value={currentPassword}
+                  onChange={e => setCurrentPassword(e.target.value)}
+                />
+              </div>
+              {errors.currentPassword && <p className="text-sm text-destructive">{errors.currentPassword}</p>}
+            </div>
+
+            {dialog === 'password' ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="newPassword">New Password</Label>
+                  <Input
+                    id="newPassword"
+                    type="password"
+                    value={newPassword}
+                    onChange={e => setNewPassword(e.target.value)}
+                  />
+                  {errors.newPassword && <p className="text-sm text-destructive">{errors.newPassword}</p>}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirmNewPassword">Confirm New Password</Label>
+                  <Input
+                    id="confirmNewPassword"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={e => setConfirmPassword(e.target.value)}
+                  />
+                  {errors.confirmPassword && <p className="text-sm text-destructive">{errors.confirmPassword}</p>}
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="newMobileNumber">New Mobile Number</Label>
+                <div className="relative">
+                  <Phone className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="newMobileNumber"
+                    type="tel"
+                    inputMode="numeric"
+                    maxLength={10}
+                    placeholder="Enter 10-digit mobile number"
+                    className="pl-10"
+                    value={newMobileNumber}
+                    onChange={e => setNewMobileNumber(e.target.value.replace(/\D/g, ''))}
+                  />
+                </div>
+                {errors.newMobileNumber && <p className="text-sm text-destructive">{errors.newMobileNumber}</p>}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button
+              onClick={dialog === 'password' ? handleChangePassword : handleChangeMobile}
+              disabled={saving}
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {dialog === 'password' ? 'Change Password' : 'Change Number'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow, format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Laptop, Smartphone, Tablet, Loader2, LogOut, MonitorSmartphone } from 'lucide-react';
+
+interface UserSession {
+  id: string;
+  user_agent: string | null;
+  created_at: string;
+  last_refreshed_at: string;
+  is_current: boolean;
+}
+
+type DeviceKind = 'mobile' | 'tablet' | 'desktop';
+
+// Rough "Chrome on Android" style label from a user agent string
+function describeDevice(userAgent: string | null): { label: string; kind: DeviceKind } {
+  if (!userAgent) return { label: 'Unknown device', kind: 'desktop' };
+
+  let os = 'Unknown OS';
+  if (/iPad/.test(userAgent)) os = 'iPad';
+  else if (/iPhone|iPod/.test(userAgent)) os = 'iPhone';
+  else if (/Android/.test(userAgent)) os = 'Android';
+  else if (/Windows/.test(userAgent)) os = 'Windows';
+  else if (/Mac OS X|Macintosh/.test(userAgent)) os = 'macOS';
+  else if (/CrOS/.test(userAgent)) os = 'ChromeOS';
+  else if (/Linux/.test(userAgent)) os = 'Linux';
+
+  let browser = 'Browser';
+  if (/Edg\//.test(userAgent)) browser = 'Edge';
+  else if (/OPR\/|Opera/.test(userAgent)) browser = 'Opera';
+  else if (/SamsungBrowser/.test(userAgent)) browser = 'Samsung Internet';
+  else if (/Firefox|FxiOS/.test(userAgent)) browser = 'Firefox';
+  else if (/Chrome|CriOS/.test(userAgent)) browser = 'Chrome';
+  else if (/Safari/.test(userAgent)) browser = 'Safari';
+
+  let kind: DeviceKind = 'desktop';
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) kind = 'tablet';
+  else if (/Mobi|iPhone|Android/.test(userAgent)) kind = 'mobile';
+
+  return { label: `${browser} on ${os}`, kind };
+}
+
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
+const invokeSessions = async (body: Record<string, unknown>) => {
+  const sessionToken = getSessionToken();
+  const response = await supabase.functions.invoke('manage-sessions', {
+    body,
+    headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+  });
+
+  if (response.error) throw new Error(response.error.message || 'Request failed');
+  if (response.data?.error) throw new Error(response.data.error);
+  return response.data;
+};
+
+export function ActiveSessions() {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [revokingOthers, setRevokingOthers] = useState(false);
+  const { toast } = useToast();
+
+  const fetchSessions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await invokeSessions({ action: 'list' });
+      setSessions(data.sessions || []);
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRevoke = async (sessionId: string) => {
+    setRevokingId(sessionId);
+    try {
+      await invokeSessions({ action: 'revoke', session_id: sessionId });
+      setSessions(prev => prev.filter(s => s.id !== sessionId));
+      toast({ title: 'Signed out', description: 'That session has been signed out.' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to sign out session';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setRevokingOthers(true);
+    try {
+      await invokeSessions({ action: 'revoke_others' });
+      setSessions(prev => prev.filter(s => s.is_current));
+      toast({ title: 'Signed out', description: 'All other sessions have been signed out.' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to sign out other sessions';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setRevokingOthers(false);
+    }
+  };
+
+  const otherSessions = sessions.filter(s => !s.is_current);
+
+  return (
+    <Card className="border-0 shadow-soft">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5 text-primary" />
+          <CardTitle>Devices & Sessions</CardTitle>
+        </div>
+        <CardDescription>Devices that are currently signed in to your account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No active sessions</p>
+        ) : (
+          <>
+            {sessions.map(session => {
+              const device = describeDevice(session.user_agent);
+              const Icon = device.kind === 'mobile' ? Smartphone : device.kind === 'tablet' ? Tablet : Laptop;
+              return (
+                <div key={session.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Icon className="h-5 w-5 text-muted-foreground shrink-0" />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium truncate">{device.label}</p>
+                        {session.is_current && <Badge variant="secondary">This device</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Signed in {format(new Date(session.created_at), 'dd MMM yyyy')}
+                        {' · '}
+                        Active {formatDistanceToNow(new Date(session.last_refreshed_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.is_current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(session.id)}
+                      disabled={revokingId === session.id}
+                    >
+                      {revokingId === session.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        'Sign out'
+                      )}
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+
+            {otherSessions.length > 0 && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleRevokeOthers}
+                disabled={revokingOthers}
+              >
+                {revokingOthers ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <LogOut className="mr-2 h-4 w-4" />
+                )}
+                Sign out all other sessions
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
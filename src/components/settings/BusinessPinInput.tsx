@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Crosshair, Loader2, X } from 'lucide-react';
+import type { GeoPoint } from '@/lib/location';
+
+interface BusinessPinInputProps {
+  value: GeoPoint | null;
+  onChange: (value: GeoPoint | null) => void;
+}
+
+// An exact point for distance search; without one the business sits at its panchayath's centre
+export function BusinessPinInput({ value, onChange }: BusinessPinInputProps) {
+  const { toast } = useToast();
+  const [locating, setLocating] = useState(false);
+  const [latitude, setLatitude] = useState(value ? String(value.latitude) : '');
+  const [longitude, setLongitude] = useState(value ? String(value.longitude) : '');
+
+  const apply = (lat: string, lng: string) => {
+    setLatitude(lat);
+    setLongitude(lng);
+    const nextLat = parseFloat(lat);
+    const nextLng = parseFloat(lng);
+    const valid =
+      Number.isFinite(nextLat) && Number.isFinite(nextLng) && Math.abs(nextLat) <= 90 && Math.abs(nextLng) <= 180;
+    onChange(valid ? { latitude: nextLat, longitude: nextLng } : null);
+  };
+
+  const handleUseCurrent = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: 'Geolocation not supported',
+        description: 'Your browser does not support location services',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocating(false);
+        apply(position.coords.latitude.toFixed(6), position.coords.longitude.toFixed(6));
+      },
+      () => {
+        setLocating(false);
+        toast({ title: 'Location error', description: 'Unable to get your location', variant: 'destructive' });
+      },
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Map Pin</Label>
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          type="number"
+          step="any"
+          placeholder="Latitude"
+          value={latitude}
+          onChange={(e) => apply(e.target.value, longitude)}
+        />
+        <Input
+          type="number"
+          step="any"
+          placeholder="Longitude"
+          value={longitude}
+          onChange={(e) => apply(latitude, e.target.value)}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleUseCurrent} disabled={locating}>
+          {locating ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Crosshair className="mr-1 h-3 w-3" />}
+          Use my current location
+        </Button>
+        {value && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => apply('', '')}>
+            <X className="mr-1 h-3 w-3" />
+            Remove pin
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {value
+          ? 'Customers searching by distance are measured from this point.'
+          : 'Without a pin, distances are measured from the centre of your panchayath.'}
+      </p>
+    </div>
+  );
+}
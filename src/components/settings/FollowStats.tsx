@@ -5,11 +5,17 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
+import { publicProfiles } from '@/lib/publicProfiles';
 import { useToast } from '@/hooks/use-toast';
 import { Users, UserPlus, UserMinus, Loader2, UserCheck } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { VerificationBadge } from '@/components/ui/verification-badge';
 
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
 interface UserProfile {
   id: string;
   full_name: string | null;
@@ -35,16 +41,7 @@ export function FollowStats({ userId }: FollowStatsProps) {
       // Fetch followers (people who follow me)
       const { data: followersData, error: followersError } = await supabase
         .from('follows')
-        .select(`
-          follower_id,
-          profiles!follows_follower_id_fkey (
-            id,
-            full_name,
-            username,
-            avatar_url,
-            is_verified
-          )
-        `)
+        .select('follower_id')
         .eq('following_id', userId);
 
       if (followersError) throw followersError;
@@ -52,28 +49,22 @@ export function FollowStats({ userId }: FollowStatsProps) {
       // Fetch following (people I follow)
       const { data: followingData, error: followingError } = await supabase
         .from('follows')
-        .select(`
-          following_id,
-          profiles!follows_following_id_fkey (
-            id,
-            full_name,
-            username,
-            avatar_url,
-            is_verified
-          )
-        `)
+        .select('following_id')
         .eq('follower_id', userId);
 
       if (followingError) throw followingError;
 
-      // Extract profiles from the nested data
-      const followerProfiles = followersData
-        ?.map(f => f.profiles as unknown as UserProfile)
-        .filter(Boolean) || [];
-      
-      const followingProfiles = followingData
-        ?.map(f => f.profiles as unknown as UserProfile)
-        .filter(Boolean) || [];
+      const followerIds = (followersData || []).map(f => f.follower_id).filter(Boolean) as string[];
+      const followingIds = (followingData || []).map(f => f.following_id).filter(Boolean) as string[];
+
+      const { data: profiles, error: profilesError } = await publicProfiles([...followerIds, ...followingIds])
+        .select('id, full_name, username, avatar_url, is_verified');
+
+      if (profilesError) throw profilesError;
+
+      const profilesById = new Map((profiles || []).map(p => [p.id, p as UserProfile]));
+      const followerProfiles = followerIds.map(id => profilesById.get(id)).filter(Boolean);
+      const followingProfiles = followingIds.map(id => profilesById.get(id)).filter(Boolean);
 
       setFollowers(followerProfiles);
       setFollowing(followingProfiles);
@@ -98,8 +89,10 @@ export function FollowStats({ userId }: FollowStatsProps) {
   const handleUnfollow = async (targetId: string) => {
     setUnfollowingId(targetId);
     try {
+      const sessionToken = getSessionToken();
       const { error } = await supabase.functions.invoke('toggle-follow', {
-        body: { user_id: userId, following_id: targetId, action: 'unfollow' }
+        body: { following_id: targetId, action: 'unfollow' },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (error) throw error;
@@ -120,8 +113,10 @@ export function FollowStats({ userId }: FollowStatsProps) {
   const handleFollowBack = async (targetId: string) => {
     setUnfollowingId(targetId);
     try {
+      const sessionToken = getSessionToken();
       const { error } = await supabase.functions.invoke('toggle-follow', {
-        body: { user_id: userId, following_id: targetId, action: 'follow' }
+        body: { following_id: targetId, action: 'follow' },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (error) throw error;
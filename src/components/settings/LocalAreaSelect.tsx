@@ -0,0 +1,83 @@
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useDistricts, useLocalBodies } from '@/hooks/useGeography';
+import { EMPTY_GEO_LOCATION, LOCAL_BODY_TYPE_LABELS, geoLabel, type GeoLocation } from '@/lib/location';
+
+const ANY = 'any';
+
+interface LocalAreaSelectProps {
+  value: GeoLocation;
+  onChange: (value: GeoLocation) => void;
+}
+
+// District and local body only, for things that belong to an area rather than an address
+export function LocalAreaSelect({ value, onChange }: LocalAreaSelectProps) {
+  const { data: districts = [] } = useDistricts();
+  const { data: localBodies = [] } = useLocalBodies(value.district_id);
+
+  const groups = Object.keys(LOCAL_BODY_TYPE_LABELS)
+    .map((type) => ({ type, items: localBodies.filter((lb) => lb.body_type === type) }))
+    .filter((group) => group.items.length > 0);
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="space-y-2">
+        <Label>District</Label>
+        <Select
+          value={value.district_id ?? ANY}
+          onValueChange={(districtId) =>
+            onChange(districtId === ANY ? EMPTY_GEO_LOCATION : { district_id: districtId, local_body_id: null, ward_id: null })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Any district" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any district</SelectItem>
+            {districts.map((d) => (
+              <SelectItem key={d.id} value={d.id}>
+                {geoLabel(d)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Panchayath / Municipality</Label>
+        <Select
+          value={value.local_body_id ?? ANY}
+          onValueChange={(localBodyId) =>
+            onChange({ ...value, local_body_id: localBodyId === ANY ? null : localBodyId, ward_id: null })
+          }
+          disabled={!value.district_id}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Whole district" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Whole district</SelectItem>
+            {groups.map((group) => (
+              <SelectGroup key={group.type}>
+                <SelectLabel>{LOCAL_BODY_TYPE_LABELS[group.type]}</SelectLabel>
+                {group.items.map((lb) => (
+                  <SelectItem key={lb.id} value={lb.id}>
+                    {geoLabel(lb)}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Bell, Loader2, Moon, Save } from 'lucide-react';
+
+type Channel = 'in_app' | 'push' | 'email';
+type Category = 'likes' | 'comments' | 'mentions' | 'follows' | 'messages' | 'community' | 'jobs' | 'business';
+
+interface Preferences {
+  channels: Partial<Record<Category, Partial<Record<Channel, boolean>>>>;
+  quiet_hours_enabled: boolean;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  timezone: string;
+}
+
+const CATEGORIES: { key: Category; label: string }[] = [
+  { key: 'likes', label: 'Likes' },
+  { key: 'comments', label: 'Comments' },
+  { key: 'mentions', label: 'Mentions' },
+  { key: 'follows', label: 'New followers' },
+  { key: 'messages', label: 'Messages' },
+  { key: 'community', label: 'Communities' },
+  { key: 'jobs', label: 'Jobs' },
+  { key: 'business', label: 'Businesses' },
+];
+
+const CHANNELS: { key: Channel; label: string }[] = [
+  { key: 'in_app', label: 'In-app' },
+  { key: 'push', label: 'Push' },
+  { key: 'email', label: 'Email' },
+];
+
+// Email is opt-in; everything else is on unless turned off
+const channelDefault = (channel: Channel) => channel !== 'email';
+
+const COMMON_TIMEZONES = [
+  'Asia/Kolkata',
+  'Asia/Dubai',
+  'Asia/Riyadh',
+  'Asia/Qatar',
+  'Asia/Kuwait',
+  'Asia/Muscat',
+  'Asia/Bahrain',
+  'Asia/Singapore',
+  'Europe/London',
+  'America/New_York',
+  'Australia/Sydney',
+  'UTC',
+];
+
+const DEFAULT_PREFERENCES: Preferences = {
+  channels: {},
+  quiet_hours_enabled: false,
+  quiet_hours_start: '22:00',
+  quiet_hours_end: '07:00',
+  timezone: 'Asia/Kolkata',
+};
+
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
+async function invokePreferences(body: Record<string, unknown>) {
+  const sessionToken = getSessionToken();
+  const response = await supabase.functions.invoke('manage-notification-preferences', {
+    body,
+    headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+  });
+
+  if (response.error) throw new Error(response.error.message || 'Request failed');
+  if (response.data?.error) throw new Error(response.data.error);
+  return response.data;
+}
+
+export function NotificationPreferences() {
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const timezones = Array.from(new Set([preferences.timezone, browserTimezone, ...COMMON_TIMEZONES].filter(Boolean)));
+
+  useEffect(() => {
+    invokePreferences({ action: 'get' })
+      .then(data => setPreferences({ ...DEFAULT_PREFERENCES, ...data.preferences }))
+      .catch(error => console.error('Error fetching notification preferences:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const isEnabled = (category: Category, channel: Channel) =>
+    preferences.channels[category]?.[channel] ?? channelDefault(channel);
+
+  const setEnabled = (category: Category, channel: Channel, enabled: boolean) => {
+    setPreferences(prev => ({
+      ...prev,
+      channels: {
+        ...prev.channels,
+        [category]: { ...prev.channels[category], [channel]: enabled },
+      },
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await invokePreferences({ action: 'update', preferences });
+      toast({ title: 'Notification preferences saved' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save preferences';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-soft">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Bell className="h-5 w-5 text-primary" />
+          <CardTitle>Notifications</CardTitle>
+        </div>
+        <CardDescription>Choose what you are notified about and how</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-[1fr_repeat(3,3.5rem)] items-center gap-y-3 text-sm">
+              <span />
+              {CHANNELS.map(channel => (
+                <span key={channel.key} className="text-center text-xs font-medium text-muted-foreground">
+                  {channel.label}
+                </span>
+              ))}
+              {CATEGORIES.map(category => (
+                <div key={category.key} className="contents">
+                  <span className="font-medium text-foreground">{category.label}</span>
+                  {CHANNELS.map(channel => (
+                    <div key={channel.key} className="flex justify-center">
+                      <Checkbox
+                        checked={isEnabled(category.key, channel.key)}
+                        onCheckedChange={checked => setEnabled(category.key, channel.key, checked === true)}
+                        aria-label={`${category.label} ${channel.label}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Email is only sent to a verified address.
+            </p>
+
+            <Separator />
+
+            <div className="flex items-center justify-between py-2">
+              <div className="flex items-center gap-3">
+                <Moon className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <p className="font-medium text-foreground">Quiet Hours</p>
+                  <p className="text-sm text-muted-foreground">Hold push notifications until quiet hours end</p>
+                </div>
+              </div>
+              <Switch
+                checked={preferences.quiet_hours_enabled}
+                onCheckedChange={checked => setPreferences(prev => ({ ...prev, quiet_hours_enabled: checked }))}
+              />
+            </div>
+
+            {preferences.quiet_hours_enabled && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="quietStart">From</Label>
+                  <Input
+                    id="quietStart"
+                    type="time"
+                    value={preferences.quiet_hours_start}
+                    onChange={e => setPreferences(prev => ({ ...prev, quiet_hours_start: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="quietEnd">Until</Label>
+                  <Input
+                    id="quietEnd"
+                    type="time"
+                    value={preferences.quiet_hours_end}
+                    onChange={e => setPreferences(prev => ({ ...prev, quiet_hours_end: e.target.value }))}
+                  />
+                </div>
+                <div className="col-span-2 space-y-2">
+                  <Label>Timezone</Label>
+                  <Select
+                    value={preferences.timezone}
+                    onValueChange={value => setPreferences(prev => ({ ...prev, timezone: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timezones.map(timezone => (
+                        <SelectItem key={timezone} value={timezone}>
+                          {timezone.replace(/_/g, ' ')}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            <Button onClick={handleSave} variant="outline" disabled={saving} className="w-full">
+              {saving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Save Notification Preferences
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
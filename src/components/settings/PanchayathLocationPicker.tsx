@@ -1,7 +1,23 @@
 import { useState, useEffect, useRef } from 'react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useDistricts, useLocalBodies, useWards } from '@/hooks/useGeography';
+import {
+  EMPTY_GEO_LOCATION,
+  LOCAL_BODY_TYPE_LABELS,
+  geoLabel,
+  matchesGeoName,
+  type GeoLocation,
+} from '@/lib/location';
 
 // Countries list (common ones first, then alphabetical)
 const COUNTRIES = [
@@ -20,76 +36,47 @@ const COUNTRIES = [
   'Malaysia',
 ];
 
-// Kerala Districts
-const KERALA_DISTRICTS = [
-  'Thiruvananthapuram', 'Kollam', 'Pathanamthitta', 'Alappuzha', 'Kottayam',
-  'Idukki', 'Ernakulam', 'Thrissur', 'Palakkad', 'Malappuram',
-  'Kozhikode', 'Wayanad', 'Kannur', 'Kasaragod'
-];
-
-// Malappuram Panchayaths (complete list with Malayalam names)
-const MALAPPURAM_PANCHAYATHS = [
-  'A.R.Nagar (എ.ആർ.നഗർ)', 'Alamkodu (ആലംകോട്)', 'Aliparambu (ആലിപ്പറമ്പ്)', 'Amarambalam (അമരമ്പലം)',
-  'Anakkayam (ആനക്കയം)', 'Angadipuram (അങ്ങാടിപ്പുറം)', 'Areekkode (അരീക്കോട്)', 'Athavanadu (ആതവനാട്)',
-  'Chaliyar (ചാലിയാർ)', 'Cheekkode (ചീക്കോട്)', 'Chelambra (ചേലമ്പ്ര)', 'Cheriyamundam (ചെറിയമുണ്ടം)',
-  'Cherukavu (ചെറുകാവ്)', 'Chokkadu (ചോക്കാട്)', 'Chunkathara (ചുങ്കത്തറ)', 'Edakkara (എടക്കര)',
-  'Edappal (എടപ്പാൾ)', 'Edappatta (എടപ്പറ്റ)', 'Edarikkode (എടരിക്കോട്)', 'Edavanna (എടവണ്ണ)',
-  'Edayur (എടയൂർ)', 'Elamkulam (ഏലംകുളം)', 'Irimbiliyam (ഇരിമ്പിളിയം)', 'Kaladi (കാലടി)',
-  'Kalikavu (കാളികാവ്)', 'Kalpakanchery (കൽപകഞ്ചേരി)', 'Kannamangalam (കണ്ണമംഗലം)', 'Karulai (കരുളായി)',
-  'Karuvarakkund (കരുവാരക്കുണ്ട്)', 'Kavannoor (കെ അവണ്ണൂർ)', 'Keezhattur (കീഴാറ്റൂർ)', 'Keezhuparambu (കീഴുപറമ്പ്)',
-  'Kodoor (കോഡൂർ)', 'Koottilangadi (കൂട്ടിലങ്ങാടി)', 'Kuruva (കുറുവ)', 'Kuttippuram (കുറ്റിപ്പുറം)',
-  'Kuzhimanna (കുഴിമണ്ണ)', 'Makkaraparambu (മക്കരപറമ്പ്)', 'Mambad (മമ്പാട്)', 'Mangalam (മംഗളം)',
-  'Mankada (മങ്കട)', 'Marakkara (മാറാക്കര)', 'Maranchery (മാറഞ്ചേരി)', 'Melattur (മേലാറ്റൂർ)',
-  'Moonniyur (മൂണ്ണിയൂർ)', 'Moorkkanadu (മൂർക്കനാട്)', 'Morayur (മൊറയൂർ)', 'Muthedam (മുത്തേടം)',
-  'Muthuvallur (മുതുവല്ലൂർ)', 'Nannambra (നന്നമ്പ്ര)', 'Nannamukku (നന്നംമുക്ക്)', 'Niramaruthur (നിറമരുതൂർ)',
-  'Orakam (ഒരകം)', 'Othukkungal (ഒതുക്കുങ്ങൽ)', 'Ozhur (ഒഴൂർ)', 'Pallikkal (പള്ളിക്കൽ)',
-  'Pandikkad (പാണ്ടിക്കാട്)', 'Parappur (പറപ്പൂർ)', 'Perumanna Klari (പെരുമണ്ണ ക്ലാരി)', 'Perumpadappu (പെരുമ്പടപ്പ്)',
-  'Peruvallur (പെരുവള്ളൂർ)', 'Ponmala (പൊന്മള)', 'Ponmundam (പൊന്മുണ്ടം)', 'Porur (പോരൂർ)',
-  'Pothukallu (പോത്തുകല്ല്)', 'Pukkottur (പുക്കോട്ടൂർ)', 'Pulamanthol (പുലാമന്തോൾ)', 'Pulikkal (പുളിക്കൽ)',
-  'Pulpatta (പുൽപ്പറ്റ)', 'Purathur (പുറത്തൂർ)', 'Puzhakkatteeri (പുഴക്കാട്ടീരി)', 'Thalakkadu (തലക്കാട്)',
-  'Thanalur (താനാളൂർ)', 'Thavannur (തവന്നൂർ)', 'Thazhakkode (താഴക്കോട്)', 'Thenhippalam (തേഞ്ഞിപ്പലം)',
-  'Thennala (തെന്നല)', 'Thirunavaya (തിരുനാവായ)', 'Thiruvali (തിരുവാലി)', 'Thrikkalangodu (തൃക്കലങ്ങോട്)',
-  'Thriprangode (തൃപ്രങ്ങോട്)', 'Thuvoor (തുവൂർ)', 'Urgantteeri (ഊർഗന്തീരി)', 'Valavannur (വളവന്നൂർ)',
-  'Vallikkunnu (വള്ളിക്കുന്ന്)', 'Vattakkulam (വട്ടക്കുളം)', 'Vazhakkad (വാഴക്കാട്)', 'Vazhayaur (വാഴയൂർ)',
-  'Vazhikkadavu (വഴിക്കടവ്)', 'Veliyankode (വെളിയങ്കോട്)', 'Vengara (വേങ്ങര)', 'Vettom (വെട്ടം)',
-  'Vettathur (വെട്ടത്തൂർ)', 'Wandoor (വണ്ടൂർ)'
-];
+const NO_WARD = 'none';
 
-// Common panchayaths by district (for autocomplete suggestions)
-const COMMON_PANCHAYATHS: Record<string, string[]> = {
-  'Thiruvananthapuram': ['Nemom', 'Kazhakkoottam', 'Vattiyoorkavu', 'Sreekaryam', 'Pallipuram', 'Venganoor'],
-  'Kollam': ['Chavara', 'Karunagappally', 'Oachira', 'Punalur', 'Kundara', 'Paravur'],
-  'Pathanamthitta': ['Thiruvalla', 'Adoor', 'Pandalam', 'Ranni', 'Kozhencherry'],
-  'Alappuzha': ['Cherthala', 'Kayamkulam', 'Haripad', 'Mavelikara', 'Ambalapuzha'],
-  'Kottayam': ['Changanassery', 'Pala', 'Vaikom', 'Ettumanoor', 'Erattupetta'],
-  'Idukki': ['Thodupuzha', 'Adimali', 'Kattappana', 'Munnar', 'Nedumkandam'],
-  'Ernakulam': ['Aluva', 'Angamaly', 'Perumbavoor', 'Muvattupuzha', 'Kothamangalam', 'Kakkanad'],
-  'Thrissur': ['Kodungallur', 'Chalakudy', 'Irinjalakuda', 'Kunnamkulam', 'Guruvayur'],
-  'Palakkad': ['Ottapalam', 'Chittur', 'Mannarkkad', 'Pattambi', 'Shoranur'],
-  'Malappuram': MALAPPURAM_PANCHAYATHS,
-  'Kozhikode': ['Vatakara', 'Koyilandy', 'Feroke', 'Ramanattukara', 'Mukkom'],
-  'Wayanad': ['Kalpetta', 'Sulthan Bathery', 'Mananthavady', 'Panamaram'],
-  'Kannur': ['Thalassery', 'Kannur', 'Payyanur', 'Taliparamba', 'Iritty'],
-  'Kasaragod': ['Kanhangad', 'Nileshwaram', 'Manjeshwaram', 'Uppala', 'Cheruvathur']
-};
+interface Selection {
+  country: string;
+  districtId: string | null;
+  localBodyId: string | null;
+  wardId: string | null;
+  // Typed by hand when the local body is not in the list
+  customLocalBody: string;
+  place: string;
+}
 
 interface LocationPickerProps {
   value: string;
-  onChange: (value: string) => void;
+  onChange: (value: string, geo: GeoLocation) => void;
+  // Saved IDs; they win over names parsed from value
+  geo?: Partial<GeoLocation> | null;
 }
 
-export function PanchayathLocationPicker({ value, onChange }: LocationPickerProps) {
-  const [country, setCountry] = useState('India');
-  const [district, setDistrict] = useState('Malappuram');
-  const [panchayath, setPanchayath] = useState('');
-  const [place, setPlace] = useState('');
+export function PanchayathLocationPicker({ value, onChange, geo }: LocationPickerProps) {
+  const [selection, setSelection] = useState<Selection>({
+    country: 'India',
+    districtId: null,
+    localBodyId: null,
+    wardId: null,
+    customLocalBody: '',
+    place: '',
+  });
   const [useCustomInput, setUseCustomInput] = useState(false);
+  // Local body name from the saved string, matched once its district's list loads
+  const [pendingLocalBody, setPendingLocalBody] = useState<string | null>(null);
 
-  // Parse existing location value - only run once on mount
+  const { data: districts = [] } = useDistricts();
+  const { data: localBodies = [], isFetched: localBodiesFetched } = useLocalBodies(selection.districtId);
+  const { data: wards = [] } = useWards(selection.localBodyId);
+
+  // Parse existing location value - only run once, when the districts are in
   const hasInitialized = useRef(false);
-  
+
   useEffect(() => {
-    if (!value || hasInitialized.current) return;
+    if (hasInitialized.current || !value || districts.length === 0) return;
     hasInitialized.current = true;
 
     const parts = value
@@ -97,71 +84,95 @@ export function PanchayathLocationPicker({ value, onChange }: LocationPickerProp
       .map((s) => s.trim())
       .filter(Boolean);
 
-    if (parts.length === 0) return;
-
     // Prefer detecting country by matching known countries to avoid "India, India" duplication
     const last = parts[parts.length - 1];
     const hasExplicitCountry = COUNTRIES.includes(last);
-
-    const nextCountry = hasExplicitCountry ? last : 'India';
+    const country = hasExplicitCountry ? last : 'India';
     const remaining = hasExplicitCountry ? parts.slice(0, -1) : parts;
 
-    // Check if any part matches a district to properly identify it
-    const districtIndex = remaining.findIndex(p => KERALA_DISTRICTS.includes(p));
-    
+    const districtIndex = remaining.findIndex((p) => districts.some((d) => matchesGeoName(d, p)));
+    const district = districtIndex !== -1 ? districts.find((d) => matchesGeoName(d, remaining[districtIndex])) : null;
+
+    let place = remaining[0] || '';
+    let localBodyName = remaining[1] || '';
     if (districtIndex !== -1) {
-      // We found a district, parse accordingly
-      setDistrict(remaining[districtIndex]);
-      // Everything before district is place/panchayath
-      if (districtIndex >= 2) {
-        setPlace(remaining[0] || '');
-        const parsedPanchayath = remaining.slice(1, districtIndex).join(', ') || '';
-        setPanchayath(parsedPanchayath);
-        // Check if panchayath is in suggestions list
-        const suggestions = COMMON_PANCHAYATHS[remaining[districtIndex]] || [];
-        if (parsedPanchayath && !suggestions.includes(parsedPanchayath)) {
-          setUseCustomInput(true);
-        }
-      } else if (districtIndex === 1) {
-        setPlace(remaining[0] || '');
-        setPanchayath('');
+      // Everything between the place and the district is the local body
+      place = districtIndex >= 1 ? remaining[0] : '';
+      localBodyName = districtIndex >= 2 ? remaining.slice(1, districtIndex).join(', ') : '';
+    }
+
+    setSelection({
+      country,
+      districtId: geo?.district_id || district?.id || null,
+      localBodyId: geo?.local_body_id || null,
+      wardId: geo?.ward_id || null,
+      customLocalBody: '',
+      place,
+    });
+
+    if (!geo?.local_body_id && localBodyName) {
+      if (country === 'India' && (geo?.district_id || district)) {
+        setPendingLocalBody(localBodyName);
       } else {
-        setPlace('');
-        setPanchayath('');
+        setSelection((current) => ({ ...current, customLocalBody: localBodyName }));
+        setUseCustomInput(true);
       }
-    } else {
-      // No district found, use positional parsing
-      setPlace(remaining[0] || '');
-      setPanchayath(remaining[1] || '');
-      setDistrict(remaining[2] || '');
     }
-    setCountry(nextCountry);
-  }, [value]);
+  }, [value, geo, districts]);
 
-  // Update parent when location changes - use ref to prevent initial call
-  const initialRender = useRef(true);
-  
   useEffect(() => {
-    if (initialRender.current) {
-      initialRender.current = false;
-      return;
+    if (pendingLocalBody === null || !localBodiesFetched) return;
+
+    const match = localBodies.find((lb) => matchesGeoName(lb, pendingLocalBody));
+    if (match) {
+      setSelection((current) => ({ ...current, localBodyId: match.id }));
+    } else {
+      setSelection((current) => ({ ...current, customLocalBody: pendingLocalBody }));
+      setUseCustomInput(true);
     }
-    const locationParts = [place, panchayath, district, country].filter(Boolean);
-    onChange(locationParts.join(', '));
-  }, [country, district, panchayath, place, onChange]);
+    setPendingLocalBody(null);
+  }, [pendingLocalBody, localBodies, localBodiesFetched]);
+
+  const isIndia = selection.country === 'India';
+  const localBody = localBodies.find((lb) => lb.id === selection.localBodyId) || null;
 
-  // Get suggestions for panchayath based on selected district
-  const panchayathSuggestions = district ? COMMON_PANCHAYATHS[district] || [] : [];
-  
-  // Determine if we should show dropdown or input
-  const showDropdown = panchayathSuggestions.length > 0 && !useCustomInput;
+  const describe = (next: Selection) => {
+    const nextDistrict = districts.find((d) => d.id === next.districtId);
+    const nextLocalBody = localBodies.find((lb) => lb.id === next.localBodyId);
+    const localBodyName = nextLocalBody?.name_en || next.customLocalBody.trim();
+    return next.country === 'India'
+      ? [next.place.trim(), localBodyName, nextDistrict?.name_en, next.country]
+      : [next.place.trim(), localBodyName, next.country];
+  };
+
+  // Changes are only reported for user edits, never for the initial parse
+  const update = (patch: Partial<Selection>) => {
+    const next = { ...selection, ...patch };
+    setSelection(next);
+    onChange(
+      describe(next).filter(Boolean).join(', '),
+      next.country === 'India'
+        ? { district_id: next.districtId, local_body_id: next.localBodyId, ward_id: next.wardId }
+        : EMPTY_GEO_LOCATION
+    );
+  };
+
+  const localBodyGroups = Object.keys(LOCAL_BODY_TYPE_LABELS)
+    .map((type) => ({ type, items: localBodies.filter((lb) => lb.body_type === type) }))
+    .filter((group) => group.items.length > 0);
+
+  const showDropdown = isIndia && localBodies.length > 0 && !useCustomInput;
+  const preview = describe(selection).filter(Boolean).join(', ');
 
   return (
     <div className="space-y-4">
       {/* Country */}
       <div className="space-y-2">
         <Label>Country</Label>
-        <Select value={country} onValueChange={setCountry}>
+        <Select
+          value={selection.country}
+          onValueChange={(country) => update({ country, localBodyId: null, wardId: null })}
+        >
           <SelectTrigger>
             <SelectValue placeholder="Select country" />
           </SelectTrigger>
@@ -176,20 +187,24 @@ export function PanchayathLocationPicker({ value, onChange }: LocationPickerProp
       </div>
 
       {/* District - Only show for India */}
-      {country === 'India' && (
+      {isIndia && (
         <div className="space-y-2">
           <Label>District</Label>
-          <Select value={district} onValueChange={(val) => {
-            setDistrict(val);
-            setPanchayath(''); // Reset panchayath when district changes
-          }}>
+          <Select
+            value={selection.districtId ?? undefined}
+            onValueChange={(districtId) => {
+              // Reset the local body and ward when the district changes
+              update({ districtId, localBodyId: null, wardId: null, customLocalBody: '' });
+              setUseCustomInput(false);
+            }}
+          >
             <SelectTrigger>
               <SelectValue placeholder="Select district" />
             </SelectTrigger>
             <SelectContent>
-              {KERALA_DISTRICTS.map((d) => (
-                <SelectItem key={d} value={d}>
-                  {d}
+              {districts.map((d) => (
+                <SelectItem key={d.id} value={d.id}>
+                  {geoLabel(d)}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -197,77 +212,100 @@ export function PanchayathLocationPicker({ value, onChange }: LocationPickerProp
         </div>
       )}
 
-      {/* Panchayath - Show select if suggestions available, otherwise text input */}
+      {/* Panchayath / municipality / corporation - list for the district, or typed by hand */}
       <div className="space-y-2">
         <Label>Panchayath / Municipality</Label>
-        {panchayathSuggestions.length > 0 ? (
-          <div className="space-y-2">
-            {showDropdown ? (
-              <>
-                <Select value={panchayath} onValueChange={setPanchayath}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select panchayath" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {panchayathSuggestions.map((p) => (
-                      <SelectItem key={p} value={p}>
-                        {p}
+        {showDropdown ? (
+          <>
+            <Select
+              value={selection.localBodyId ?? undefined}
+              onValueChange={(localBodyId) => update({ localBodyId, wardId: null })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select panchayath or municipality" />
+              </SelectTrigger>
+              <SelectContent>
+                {localBodyGroups.map((group) => (
+                  <SelectGroup key={group.type}>
+                    <SelectLabel>{LOCAL_BODY_TYPE_LABELS[group.type]}</SelectLabel>
+                    {group.items.map((lb) => (
+                      <SelectItem key={lb.id} value={lb.id}>
+                        {geoLabel(lb)}
                       </SelectItem>
                     ))}
-                  </SelectContent>
-                </Select>
-                <p className="text-xs text-muted-foreground">
-                  Not in list?{' '}
-                  <button
-                    type="button"
-                    className="text-primary hover:underline"
-                    onClick={() => {
-                      setUseCustomInput(true);
-                      setPanchayath('');
-                    }}
-                  >
-                    Type manually
-                  </button>
-                </p>
-              </>
-            ) : (
-              <>
-                <Input
-                  placeholder="Type panchayath name"
-                  value={panchayath}
-                  onChange={(e) => setPanchayath(e.target.value)}
-                />
-                <p className="text-xs text-muted-foreground">
-                  <button
-                    type="button"
-                    className="text-primary hover:underline"
-                    onClick={() => {
-                      setUseCustomInput(false);
-                      setPanchayath('');
-                    }}
-                  >
-                    Select from list
-                  </button>
-                </p>
-              </>
-            )}
-          </div>
+                  </SelectGroup>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Not in list?{' '}
+              <button
+                type="button"
+                className="text-primary hover:underline"
+                onClick={() => {
+                  setUseCustomInput(true);
+                  update({ localBodyId: null, wardId: null, customLocalBody: '' });
+                }}
+              >
+                Type manually
+              </button>
+            </p>
+          </>
         ) : (
-          <Input
-            placeholder="Enter your panchayath / municipality"
-            value={panchayath}
-            onChange={(e) => setPanchayath(e.target.value)}
-          />
+          <>
+            <Input
+              placeholder="Enter your panchayath / municipality"
+              value={selection.customLocalBody}
+              onChange={(e) => update({ customLocalBody: e.target.value })}
+            />
+            {isIndia && localBodies.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                <button
+                  type="button"
+                  className="text-primary hover:underline"
+                  onClick={() => {
+                    setUseCustomInput(false);
+                    update({ customLocalBody: '' });
+                  }}
+                >
+                  Select from list
+                </button>
+              </p>
+            )}
+          </>
         )}
       </div>
 
+      {/* Ward - once the local body has wards on record */}
+      {showDropdown && localBody && wards.length > 0 && (
+        <div className="space-y-2">
+          <Label>Ward</Label>
+          <Select
+            value={selection.wardId ?? NO_WARD}
+            onValueChange={(wardId) => update({ wardId: wardId === NO_WARD ? null : wardId })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select ward" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_WARD}>Not sure</SelectItem>
+              {wards.map((w) => (
+                <SelectItem key={w.id} value={w.id}>
+                  {w.ward_number}. {geoLabel(w)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       {/* Place */}
       <div className="space-y-2">
         <Label>Place / Area</Label>
         <Input
           placeholder="Enter your place or area name"
-          value={place}
-          onChange={(e) => setPlace(e.target.value)}
+          value={selection.place}
+          onChange={(e) => update({ place: e.target.value })}
         />
         <p className="text-xs text-muted-foreground">
           Your specific locality or area name
@@ -275,11 +313,11 @@ export function PanchayathLocationPicker({ value, onChange }: LocationPickerProp
       </div>
 
       {/* Location Preview */}
-      {(place || panchayath || district || country) && (
+      {preview && (
         <div className="p-3 rounded-lg bg-muted/50 border">
           <p className="text-sm font-medium text-foreground">Your Location:</p>
           <p className="text-sm text-muted-foreground">
-            {[place, panchayath, district, country].filter(Boolean).join(', ')}
+            {preview}
           </p>
         </div>
       )}
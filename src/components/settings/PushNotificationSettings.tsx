@@ -0,0 +1,57 @@
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
+import { useToast } from '@/hooks/use-toast';
+import { BellRing, Smartphone } from 'lucide-react';
+
+export function PushNotificationSettings() {
+  const { supported, permission, subscribed, loading, subscribe, unsubscribe } = usePushNotifications();
+  const { toast } = useToast();
+
+  const handleToggle = async (enabled: boolean) => {
+    try {
+      if (enabled) {
+        await subscribe();
+        toast({ title: 'Push notifications on', description: 'This device will now receive notifications.' });
+      } else {
+        await unsubscribe();
+        toast({ title: 'Push notifications off', description: 'This device will no longer receive notifications.' });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update push notifications';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    }
+  };
+
+  let hint = 'Get notified on this device even when the app is closed';
+  if (!supported) hint = 'Push notifications are not available in this browser';
+  else if (permission === 'denied') hint = 'Notifications are blocked. Allow them in your browser settings to turn this on.';
+
+  return (
+    <Card className="border-0 shadow-soft">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-primary" />
+          <CardTitle>Push Notifications</CardTitle>
+        </div>
+        <CardDescription>Receive likes, comments, messages and other updates on this device</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-3 py-2">
+          <div className="flex items-center gap-3">
+            <Smartphone className="h-5 w-5 text-muted-foreground" />
+            <div>
+              <p className="font-medium text-foreground">Notify this device</p>
+              <p className="text-sm text-muted-foreground">{hint}</p>
+            </div>
+          </div>
+          <Switch
+            checked={subscribed}
+            onCheckedChange={handleToggle}
+            disabled={!supported || loading || (permission === 'denied' && !subscribed)}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,8 @@
 import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { publicProfiles } from '@/lib/publicProfiles';
 import { useSessionRefresh } from '@/hooks/useSessionRefresh';
+import type { AccountSuspension } from '@/hooks/useAccountStatus';
 
 interface Profile {
   id: string;
@@ -9,17 +11,20 @@ interface Profile {
   avatar_url: string | null;
   bio: string | null;
   location: string | null;
+  district_id?: string | null;
+  local_body_id?: string | null;
+  ward_id?: string | null;
   role: 'user' | 'admin';
   is_online: boolean;
   is_verified: boolean | null;
   mobile_number: string | null;
   email: string | null;
   email_verified: boolean | null;
-  email_verification_token: string | null;
   email_verification_sent_at: string | null;
   show_email?: boolean;
   show_mobile?: boolean;
   show_location?: boolean;
+  show_date_of_birth?: boolean;
   created_at: string;
 }
 
@@ -34,10 +39,11 @@ interface AuthContextType {
   profile: Profile | null;
   loading: boolean;
   isProfileComplete: boolean;
-  signInWithMobile: (mobileNumber: string, password: string) => Promise<{ error: Error | null }>;
+  signInWithMobile: (mobileNumber: string, password: string) => Promise<{ error: Error | null; retryAfter?: number; suspension?: AccountSuspension }>;
   signUpWithMobile: (mobileNumber: string, password: string, fullName: string, username: string, dateOfBirth?: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
   refreshProfile: () => Promise<void>;
+  updateUser: (updates: Partial<User>) => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -60,10 +66,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [loading, setLoading] = useState(true);
 
   const fetchProfile = async (userId: string) => {
-    const { data, error } = await supabase
-      .from('profiles')
+    // Own profile, so the private fields come back too
+    const { data, error } = await publicProfiles([userId])
       .select('*')
-      .eq('id', userId)
       .single();
 
     if (!error && data) {
@@ -120,12 +125,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         // Try to extract error message from the error context
         const errorMessage = response.error.message || 'Sign in failed';
         // Check if context contains the actual error from JSON response
-        const contextError = (response.error as any)?.context?.body;
-        if (contextError) {
+        const context = (response.error as any)?.context;
+        if (context) {
           try {
-            const parsed = JSON.parse(contextError);
+            const parsed = typeof context.json === 'function'
+              ? await context.json()
+              : JSON.parse(context.body);
             if (parsed.error) {
-              return { error: new Error(parsed.error) };
+              // retry_after is set when the account or IP is temporarily locked out,
+              // suspension when an admin has suspended the account
+              return { error: new Error(parsed.error), retryAfter: parsed.retry_after, suspension: parsed.suspension };
             }
           } catch {
             // Ignore parse errors
@@ -213,6 +222,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Keep the cached user (state and localStorage) in step with account changes
+  const updateUser = (updates: Partial<User>) => {
+    if (!user) return;
+    const updatedUser = { ...user, ...updates };
+    setUser(updatedUser);
+
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...JSON.parse(stored), user: updatedUser }));
+    }
+  };
+
   // Check if profile is complete
   const isProfileComplete = !!(
     profile?.full_name &&
@@ -243,6 +264,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         signUpWithMobile,
         signOut,
         refreshProfile,
+        updateUser,
       }}
     >
       <SessionRefreshManager 
@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface AccountSuspension {
+  reason: string;
+  expires_at: string | null;
+  is_permanent: boolean;
+}
+
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
+export function describeSuspensionEnd(suspension: AccountSuspension): string {
+  return suspension.is_permanent || !suspension.expires_at
+    ? 'until further notice'
+    : `until ${format(new Date(suspension.expires_at), 'dd MMM yyyy, h:mm a')}`;
+}
+
+// Active suspension of the signed-in user, or null
+export function useAccountStatus() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['account-status', user?.id],
+    queryFn: async () => {
+      const sessionToken = getSessionToken();
+      const response = await supabase.functions.invoke('mobile-auth', {
+        body: { action: 'account_status' },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+      });
+
+      if (response.error) throw new Error(response.error.message || 'Failed to load account status');
+      return (response.data?.suspension ?? null) as AccountSuspension | null;
+    },
+    enabled: !!user,
+    staleTime: 1000 * 60,
+    refetchInterval: 1000 * 60 * 5,
+  });
+}
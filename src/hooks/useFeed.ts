@@ -0,0 +1,125 @@
+import { useInfiniteQuery, useQuery, useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { newerThan, nextFeedCursor, notNewerThan, olderThan, type FeedCursor } from '@/lib/feedCursor';
+
+export type FeedMode = 'everyone' | 'following' | 'nearby';
+
+/** The area a 'nearby' feed is limited to; both null means everywhere. */
+export interface FeedArea {
+  district_id: string | null;
+  local_body_id: string | null;
+}
+
+export const FEED_PAGE_SIZE = 20;
+
+const FEED_SELECT = `
+  *,
+  profiles:user_id (id, full_name, username, avatar_url),
+  businesses:business_id (id, name, logo_url),
+  post_likes (user_id),
+  comments (id),
+  post_images (image_url, alt_text, position, width, height)
+`;
+
+export interface FeedPost {
+  id: string;
+  content: string | null;
+  image_url: string | null;
+  youtube_url: string | null;
+  instagram_url: string | null;
+  created_at: string;
+  edited_at: string | null;
+  user_id: string;
+  business_id: string | null;
+  profiles: {
+    id: string;
+    full_name: string | null;
+    username: string | null;
+    avatar_url: string | null;
+  } | null;
+  businesses: {
+    id: string;
+    name: string;
+    logo_url: string | null;
+  } | null;
+  post_likes: { user_id: string }[];
+  comments: { id: string }[];
+  post_images: {
+    image_url: string;
+    alt_text: string | null;
+    position: number;
+    width: number | null;
+    height: number | null;
+  }[];
+}
+
+const feedArgs = (mode: FeedMode, userId: string | undefined, area?: FeedArea) => ({
+  p_following_of: mode === 'following' ? userId : undefined,
+  p_district_id: mode === 'nearby' ? area?.district_id ?? undefined : undefined,
+  p_local_body_id: mode === 'nearby' ? area?.local_body_id ?? undefined : undefined,
+});
+
+/**
+ * Keyset-paginated home feed. The newest post of the first load pins the top
+ * of the list, so refetches after a like or comment never pull newer posts in;
+ * those are counted by useNewPostsCount until showNewPosts() resets the feed.
+ */
+export function useFeed(mode: FeedMode, userId: string | undefined, enabled = true, area?: FeedArea) {
+  const queryClient = useQueryClient();
+  const queryKey = ['feed', mode, userId, mode === 'nearby' ? area : null];
+
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: async ({ pageParam }) => {
+      const pinnedTop = queryClient.getQueryData<InfiniteData<FeedPost[]>>(queryKey)?.pages[0]?.[0];
+
+      let request = supabase.rpc('get_feed_posts', feedArgs(mode, userId, area)).select(FEED_SELECT);
+      if (pageParam) {
+        request = request.or(olderThan(pageParam));
+      } else if (pinnedTop) {
+        request = request.or(notNewerThan(pinnedTop));
+      }
+
+      const { data, error } = await request
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(FEED_PAGE_SIZE);
+
+      if (error) throw error;
+      return (data || []) as unknown as FeedPost[];
+    },
+    initialPageParam: null as FeedCursor | null,
+    getNextPageParam: (lastPage) => nextFeedCursor(lastPage, FEED_PAGE_SIZE),
+    enabled: enabled && (mode !== 'following' || !!userId),
+    refetchOnWindowFocus: false,
+  });
+
+  const posts = query.data?.pages.flat() || [];
+
+  // Drops every loaded page and starts again from the newest post
+  const showNewPosts = () => queryClient.resetQueries({ queryKey });
+
+  return { ...query, posts, showNewPosts };
+}
+
+// Posts newer than the top of the loaded feed, polled while the feed is open
+export function useNewPostsCount(
+  mode: FeedMode,
+  userId: string | undefined,
+  newest: FeedPost | undefined,
+  area?: FeedArea
+) {
+  return useQuery({
+    queryKey: ['feed-new-count', mode, userId, mode === 'nearby' ? area : null, newest?.id],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .rpc('get_feed_posts', feedArgs(mode, userId, area), { head: true, count: 'exact' })
+        .or(newerThan(newest!));
+
+      if (error) throw error;
+      return count || 0;
+    },
+    enabled: !!newest,
+    refetchInterval: 1000 * 30,
+  });
+}
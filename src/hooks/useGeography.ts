@@ -0,0 +1,105 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export type LocalBodyType = 'grama_panchayath' | 'municipality' | 'corporation';
+
+export interface GeoDistrict {
+  id: string;
+  name_en: string;
+  name_ml: string | null;
+}
+
+export interface GeoBlock {
+  id: string;
+  district_id: string;
+  name_en: string;
+  name_ml: string | null;
+}
+
+export interface GeoLocalBody {
+  id: string;
+  district_id: string;
+  block_id: string | null;
+  body_type: LocalBodyType;
+  name_en: string;
+  name_ml: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface GeoWard {
+  id: string;
+  local_body_id: string;
+  ward_number: number;
+  name_en: string;
+  name_ml: string | null;
+}
+
+// The reference tables change a few times a year at most
+const GEO_STALE_TIME = 1000 * 60 * 60;
+
+export function useDistricts() {
+  return useQuery({
+    queryKey: ['geo-districts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('geo_districts')
+        .select('*')
+        .order('name_en');
+      if (error) throw error;
+      return data as GeoDistrict[];
+    },
+    staleTime: GEO_STALE_TIME,
+  });
+}
+
+export function useBlocks(districtId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['geo-blocks', districtId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('geo_blocks')
+        .select('*')
+        .eq('district_id', districtId)
+        .order('name_en');
+      if (error) throw error;
+      return data as GeoBlock[];
+    },
+    enabled: !!districtId,
+    staleTime: GEO_STALE_TIME,
+  });
+}
+
+export function useLocalBodies(districtId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['geo-local-bodies', districtId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('geo_local_bodies')
+        .select('*')
+        .eq('district_id', districtId)
+        .order('name_en');
+      if (error) throw error;
+      return data as GeoLocalBody[];
+    },
+    enabled: !!districtId,
+    staleTime: GEO_STALE_TIME,
+  });
+}
+
+export function useWards(localBodyId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['geo-wards', localBodyId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('geo_wards')
+        .select('*')
+        .eq('local_body_id', localBodyId)
+        .order('ward_number');
+      if (error) throw error;
+      return data as GeoWard[];
+    },
+    enabled: !!localBodyId,
+    staleTime: GEO_STALE_TIME,
+  });
+}
@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface LinkPreview {
+  url: string;
+  final_url: string | null;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+  content_type: string | null;
+}
+
+/**
+ * OpenGraph metadata for a link, fetched and cached by the link-preview edge
+ * function for signed-in users. Resolves to null when the page has nothing to
+ * show.
+ */
+export function useLinkPreview(url: string | null | undefined) {
+  return useQuery({
+    queryKey: ['link-preview', url],
+    queryFn: async () => {
+      const stored = localStorage.getItem('samrambhak_auth');
+      const sessionToken = stored ? JSON.parse(stored).session_token : null;
+
+      const response = await supabase.functions.invoke('link-preview', {
+        body: { url },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+      });
+
+      if (response.error) throw new Error(response.error.message || 'Failed to load preview');
+      if (response.data?.error) throw new Error(response.data.error);
+      return (response.data?.preview ?? null) as LinkPreview | null;
+    },
+    enabled: !!url,
+    staleTime: 1000 * 60 * 60,
+    retry: false,
+  });
+}
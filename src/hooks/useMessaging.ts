@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { ItemReference } from '@/lib/catalog';
 
 const STORAGE_KEY = 'samrambhak_auth';
 
@@ -66,6 +67,7 @@ export interface Message {
   sender_id: string | null;
   created_at: string | null;
   is_read: boolean | null;
+  item_reference?: ItemReference | null;
 }
 
 export async function getConversations() {
@@ -76,8 +78,12 @@ export async function getMessages(conversationId: string) {
   return invokeMessaging<{ messages: Message[] }>('get_messages', { conversation_id: conversationId });
 }
 
-export async function sendMessage(conversationId: string, content: string) {
-  return invokeMessaging<{ message: Message }>('send_message', { conversation_id: conversationId, content });
+export async function sendMessage(conversationId: string, content: string, catalogItemId?: string) {
+  return invokeMessaging<{ message: Message }>('send_message', {
+    conversation_id: conversationId,
+    content,
+    catalog_item_id: catalogItemId,
+  });
 }
 
 export async function getOrCreateConversation(otherUserId: string) {
@@ -0,0 +1,134 @@
+import { useMemo, useState, useSyncExternalStore } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDistricts, useLocalBodies } from '@/hooks/useGeography';
+import type { GeoPoint } from '@/lib/location';
+import type { NearbyArea, NearbyScope } from '@/lib/nearby';
+
+const NEARBY_SCOPE_KEY = 'nearby_scope';
+
+// Every section on a page follows the same switch
+const scopeListeners = new Set<() => void>();
+
+const subscribeScope = (listener: () => void) => {
+  scopeListeners.add(listener);
+  return () => {
+    scopeListeners.delete(listener);
+  };
+};
+
+const readScope = () => (localStorage.getItem(NEARBY_SCOPE_KEY) as NearbyScope) || 'state';
+
+// The device position, once the viewer has shared it this session
+const DEVICE_POINT_KEY = 'device_point';
+const pointListeners = new Set<() => void>();
+
+const subscribePoint = (listener: () => void) => {
+  pointListeners.add(listener);
+  return () => {
+    pointListeners.delete(listener);
+  };
+};
+
+const readPoint = () => sessionStorage.getItem(DEVICE_POINT_KEY);
+
+/** Keeps a device position the viewer shared, e.g. while setting their location. */
+export function rememberDevicePoint(point: GeoPoint) {
+  sessionStorage.setItem(DEVICE_POINT_KEY, JSON.stringify(point));
+  pointListeners.forEach(listener => listener());
+}
+
+/**
+ * The viewer's district and local body, from the IDs saved on their profile.
+ * Older free-text locations were mapped to IDs when the location tables came in.
+ * The object only changes when the area does, so it can be an effect dependency.
+ */
+export function useNearbyArea(): NearbyArea {
+  const { profile } = useAuth();
+  const { data: districts = [] } = useDistricts();
+  const district = districts.find(d => d.id === profile?.district_id);
+
+  const { data: localBodies = [] } = useLocalBodies(district?.id);
+  const localBody = localBodies.find(lb => lb.id === profile?.local_body_id);
+
+  const districtId = district?.id ?? null;
+  const localBodyId = localBody?.id ?? null;
+  const districtName = district?.name_en ?? null;
+  const localBodyName = localBody?.name_en ?? null;
+
+  return useMemo(
+    () => ({ districtId, localBodyId, district: districtName, localBody: localBodyName }),
+    [districtId, localBodyId, districtName, localBodyName]
+  );
+}
+
+/**
+ * The viewer's area and chosen scope, remembered across visits. A scope the
+ * area can't fill (no panchayath saved, say) widens to the next one out.
+ */
+export function useNearby() {
+  const area = useNearbyArea();
+  const chosen = useSyncExternalStore(subscribeScope, readScope);
+
+  const scope: NearbyScope =
+    chosen === 'panchayath' && area.localBodyId ? 'panchayath'
+    : chosen !== 'state' && area.districtId ? 'district'
+    : 'state';
+
+  const setScope = (next: NearbyScope) => {
+    localStorage.setItem(NEARBY_SCOPE_KEY, next);
+    scopeListeners.forEach(listener => listener());
+  };
+
+  return { area, scope, setScope };
+}
+
+/**
+ * Where distances are measured from: the device position if the viewer has
+ * shared it, otherwise the centre of their panchayath. locate() asks the
+ * browser for the device position.
+ */
+export function useViewerPoint() {
+  const area = useNearbyArea();
+  const { data: localBodies = [] } = useLocalBodies(area.districtId);
+  const stored = useSyncExternalStore(subscribePoint, readPoint);
+  const [locating, setLocating] = useState(false);
+
+  const devicePoint = stored ? (JSON.parse(stored) as GeoPoint) : null;
+  const localBody = localBodies.find(lb => lb.id === area.localBodyId);
+  const centre: GeoPoint | null =
+    localBody?.latitude != null && localBody.longitude != null
+      ? { latitude: localBody.latitude, longitude: localBody.longitude }
+      : null;
+
+  const locate = () =>
+    new Promise<void>((resolve, reject) => {
+      if (!navigator.geolocation) {
+        reject(new Error('Your browser does not support location services'));
+        return;
+      }
+      setLocating(true);
+      navigator.geolocation.getCurrentPosition(
+        (position) => {
+          rememberDevicePoint({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+          setLocating(false);
+          resolve();
+        },
+        (error) => {
+          setLocating(false);
+          reject(new Error(
+            error.code === error.PERMISSION_DENIED
+              ? 'Please allow location access in your browser settings'
+              : 'Unable to get your location'
+          ));
+        },
+        { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+      );
+    });
+
+  return {
+    point: devicePoint || centre,
+    source: devicePoint ? ('device' as const) : centre ? ('local_body' as const) : null,
+    locate,
+    locating,
+  };
+}
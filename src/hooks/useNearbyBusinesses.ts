@@ -0,0 +1,81 @@
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { GeoPoint } from '@/lib/location';
+import type { Database } from '@/integrations/supabase/types';
+
+type BusinessCategory = Database['public']['Enums']['business_category'];
+
+export const NEARBY_PAGE_SIZE = 20;
+
+export interface NearbyBusiness {
+  id: string;
+  name: string;
+  description: string | null;
+  category: BusinessCategory;
+  logo_url: string | null;
+  location: string | null;
+  rating_average: number | null;
+  rating_count: number;
+  distance_km: number;
+}
+
+interface NearbySearch {
+  point: GeoPoint | null;
+  radiusKm?: number | null;
+  category?: BusinessCategory | null;
+  query?: string;
+}
+
+const nearbyArgs = (point: GeoPoint, { radiusKm, category, query }: Omit<NearbySearch, 'point'>) => ({
+  p_latitude: point.latitude,
+  p_longitude: point.longitude,
+  p_radius_km: radiusKm ?? undefined,
+  p_category: category ?? undefined,
+  p_query: query?.trim() || undefined,
+});
+
+/**
+ * Businesses nearest the point first, a page at a time. The distances are
+ * worked out by search_businesses_nearby(), so ordering and paging happen in
+ * the database; id breaks ties between businesses on the same centre.
+ */
+export function useNearbyBusinessSearch({ point, radiusKm, category, query }: NearbySearch) {
+  return useInfiniteQuery({
+    queryKey: ['nearby-businesses', point, radiusKm, category, query?.trim()],
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await supabase
+        .rpc('search_businesses_nearby', nearbyArgs(point!, { radiusKm, category, query }))
+        .select('id, name, description, category, logo_url, location, rating_average, rating_count, distance_km')
+        .order('distance_km', { ascending: true })
+        .order('id', { ascending: true })
+        .range(pageParam, pageParam + NEARBY_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return (data || []) as NearbyBusiness[];
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) =>
+      lastPage.length < NEARBY_PAGE_SIZE ? undefined : pages.length * NEARBY_PAGE_SIZE,
+    enabled: !!point,
+  });
+}
+
+/** Distance in km from the point to each of the businesses that has a location. */
+export function useBusinessDistances(point: GeoPoint | null, businessIds: string[]) {
+  const ids = [...new Set(businessIds)].sort();
+
+  return useQuery({
+    queryKey: ['business-distances', point, ids],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .rpc('search_businesses_nearby', nearbyArgs(point!, {}))
+        .select('id, distance_km')
+        .in('id', ids);
+
+      if (error) throw error;
+      return Object.fromEntries((data || []).map(row => [row.id, row.distance_km])) as Record<string, number>;
+    },
+    enabled: !!point && ids.length > 0,
+    staleTime: 1000 * 60 * 5,
+  });
+}
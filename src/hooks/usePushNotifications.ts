@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+const STORAGE_KEY = 'samrambhak_auth';
+const SERVICE_WORKER_URL = '/sw.js';
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+function getSessionToken(): string | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored).session_token || null : null;
+  } catch {
+    return null;
+  }
+}
+
+// PushManager wants the VAPID key as raw bytes, it is configured as base64url
+function urlBase64ToUint8Array(base64Url: string): Uint8Array {
+  const padding = '='.repeat((4 - (base64Url.length % 4)) % 4);
+  const base64 = (base64Url + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  return Uint8Array.from(raw, (c) => c.charCodeAt(0));
+}
+
+async function invokePushSubscriptions(body: Record<string, unknown>) {
+  const sessionToken = getSessionToken();
+  const response = await supabase.functions.invoke('manage-push-subscriptions', {
+    body,
+    headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+  });
+
+  if (response.error) throw new Error(response.error.message || 'Request failed');
+  if (response.data?.error) throw new Error(response.data.error);
+  return response.data;
+}
+
+export function usePushNotifications() {
+  const supported =
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window &&
+    !!VAPID_PUBLIC_KEY;
+
+  const [permission, setPermission] = useState<NotificationPermission>(
+    supported ? Notification.permission : 'default'
+  );
+  const [subscribed, setSubscribed] = useState(false);
+  const [loading, setLoading] = useState(supported);
+
+  useEffect(() => {
+    if (!supported) return;
+
+    let cancelled = false;
+    navigator.serviceWorker
+      .register(SERVICE_WORKER_URL)
+      .then((registration) => registration.pushManager.getSubscription())
+      .then((subscription) => {
+        if (!cancelled) setSubscribed(!!subscription);
+      })
+      .catch((error) => console.error('Service worker registration error:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [supported]);
+
+  const subscribe = useCallback(async () => {
+    if (!supported) throw new Error('Push notifications are not supported on this device');
+
+    setLoading(true);
+    try {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') {
+        throw new Error('Notification permission was not granted');
+      }
+
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      await navigator.serviceWorker.ready;
+
+      const subscription =
+        (await registration.pushManager.getSubscription()) ||
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+        }));
+
+      const { endpoint, keys } = subscription.toJSON();
+      await invokePushSubscriptions({
+        action: 'subscribe',
+        endpoint,
+        p256dh: keys?.p256dh,
+        auth: keys?.auth,
+      });
+      setSubscribed(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [supported]);
+
+  const unsubscribe = useCallback(async () => {
+    if (!supported) return;
+
+    setLoading(true);
+    try {
+      const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+      const subscription = await registration?.pushManager.getSubscription();
+      if (subscription) {
+        await invokePushSubscriptions({ action: 'unsubscribe', endpoint: subscription.endpoint });
+        await subscription.unsubscribe();
+      }
+      setSubscribed(false);
+    } finally {
+      setLoading(false);
+    }
+  }, [supported]);
+
+  return { supported, permission, subscribed, loading, subscribe, unsubscribe };
+}
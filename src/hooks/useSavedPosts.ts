@@ -0,0 +1,98 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface SavedCollection {
+  id: string;
+  name: string;
+  created_at: string;
+  post_count: number;
+}
+
+// Helper to get session token
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
+export async function invokeSavedPosts(body: Record<string, unknown>) {
+  const sessionToken = getSessionToken();
+  const response = await supabase.functions.invoke('manage-saved-posts', {
+    body,
+    headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+  });
+
+  if (response.error) {
+    let message = response.error.message || 'Request failed';
+    try {
+      const parsed = await (response.error.context as Response)?.json?.();
+      if (parsed?.error) message = parsed.error;
+    } catch {
+      // Ignore parse errors
+    }
+    throw new Error(message);
+  }
+  if (response.data?.error) throw new Error(response.data.error);
+  return response.data;
+}
+
+// Saved state for every PostCard on screen comes from one cached request
+export function useSavedPosts() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const idsKey = ['saved-post-ids', user?.id];
+
+  const { data: savedIds = new Set<string>() } = useQuery({
+    queryKey: idsKey,
+    queryFn: async () => {
+      const data = await invokeSavedPosts({ action: 'list_ids' });
+      return new Set<string>(data.post_ids || []);
+    },
+    enabled: !!user,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const refreshSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ['saved-posts'] });
+    queryClient.invalidateQueries({ queryKey: ['saved-collections'] });
+  };
+
+  const savePost = async (postId: string, collectionId?: string | null) => {
+    await invokeSavedPosts({ action: 'save', post_id: postId, collection_id: collectionId || null });
+    queryClient.setQueryData<Set<string>>(idsKey, prev => new Set(prev).add(postId));
+    refreshSaved();
+  };
+
+  const unsavePost = async (postId: string) => {
+    await invokeSavedPosts({ action: 'unsave', post_id: postId });
+    queryClient.setQueryData<Set<string>>(idsKey, prev => {
+      const next = new Set(prev);
+      next.delete(postId);
+      return next;
+    });
+    refreshSaved();
+  };
+
+  return {
+    isSaved: (postId: string) => savedIds.has(postId),
+    savePost,
+    unsavePost,
+  };
+}
+
+export function useSavedCollections() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['saved-collections', user?.id],
+    queryFn: async () => {
+      const data = await invokeSavedPosts({ action: 'list_collections' });
+      return {
+        collections: (data.collections || []) as SavedCollection[],
+        totalCount: (data.total_count || 0) as number,
+        unsortedCount: (data.unsorted_count || 0) as number,
+      };
+    },
+    enabled: !!user,
+  });
+}
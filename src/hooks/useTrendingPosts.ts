@@ -0,0 +1,93 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useNearbyArea } from '@/hooks/useNearby';
+import type { Database } from '@/integrations/supabase/types';
+
+export type TrendingScope = 'global' | 'district' | 'panchayath';
+export type BusinessCategory = Database['public']['Enums']['business_category'];
+
+export interface TrendingPost {
+  id: string;
+  content: string | null;
+  image_url: string | null;
+  created_at: string;
+  user_id: string;
+  profiles: {
+    id: string;
+    full_name: string | null;
+    username: string | null;
+    avatar_url: string | null;
+  } | null;
+  businesses: {
+    id: string;
+    name: string;
+    logo_url: string | null;
+    category: BusinessCategory;
+  } | null;
+  likes_count: number;
+  comments_count: number;
+}
+
+interface TrendingOptions {
+  scope?: TrendingScope;
+  // 'any' limits to business posts of every category
+  category?: BusinessCategory | 'any';
+  limit?: number;
+}
+
+// The viewer's own district/panchayath, used for the local scopes
+export function useTrendingArea() {
+  return useNearbyArea();
+}
+
+/**
+ * Top posts from the trending_posts table, which the database rescores every
+ * 10 minutes. Local scopes fall back to global when the viewer's location has
+ * no district or panchayath.
+ */
+export function useTrendingPosts({ scope = 'global', category, limit = 5 }: TrendingOptions = {}) {
+  const area = useTrendingArea();
+  const areaValue = scope === 'district' ? area.districtId : scope === 'panchayath' ? area.localBodyId : null;
+
+  return useQuery({
+    queryKey: ['trending-posts', scope, areaValue, category, limit],
+    queryFn: async () => {
+      let query = supabase
+        .from('trending_posts')
+        .select(`
+          likes_count,
+          comments_count,
+          posts:post_id!inner (
+            id,
+            content,
+            image_url,
+            created_at,
+            user_id,
+            status,
+            profiles:user_id (id, full_name, username, avatar_url),
+            businesses:business_id (id, name, logo_url, category)
+          )
+        `)
+        // Hidden since the last refresh
+        .eq('posts.status', 'active');
+
+      if (scope === 'district' && areaValue) query = query.eq('district_id', areaValue);
+      if (scope === 'panchayath' && areaValue) query = query.eq('local_body_id', areaValue);
+      if (category === 'any') query = query.not('business_category', 'is', null);
+      else if (category) query = query.eq('business_category', category);
+
+      const { data, error } = await query.order('score', { ascending: false }).limit(limit);
+
+      if (error) throw error;
+
+      return (data || [])
+        .filter(row => row.posts)
+        .map(row => ({
+          ...(row.posts as unknown as Omit<TrendingPost, 'likes_count' | 'comments_count'>),
+          likes_count: row.likes_count,
+          comments_count: row.comments_count,
+        })) as TrendingPost[];
+    },
+    staleTime: 1000 * 60 * 5,
+  });
+}
@@ -74,6 +74,42 @@ export type Database = {
         }
         Relationships: []
       }
+      auth_throttles: {
+        Row: {
+          created_at: string
+          failed_count: number
+          id: string
+          key_type: string
+          key_value: string
+          last_failed_at: string
+          locked_until: string | null
+          scope: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          failed_count?: number
+          id?: string
+          key_type: string
+          key_value: string
+          last_failed_at?: string
+          locked_until?: string | null
+          scope: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          failed_count?: number
+          id?: string
+          key_type?: string
+          key_value?: string
+          last_failed_at?: string
+          locked_until?: string | null
+          scope?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       blocked_words: {
         Row: {
           created_at: string | null
@@ -101,6 +137,65 @@ export type Database = {
         }
         Relationships: []
       }
+      business_catalog_items: {
+        Row: {
+          availability: string
+          business_id: string
+          category: string | null
+          created_at: string
+          description: string | null
+          id: string
+          image_urls: string[]
+          item_type: string
+          name: string
+          position: number
+          price_max: number | null
+          price_min: number | null
+          unit: string | null
+          updated_at: string
+        }
+        Insert: {
+          availability?: string
+          business_id: string
+          category?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          image_urls?: string[]
+          item_type?: string
+          name: string
+          position?: number
+          price_max?: number | null
+          price_min?: number | null
+          unit?: string | null
+          updated_at?: string
+        }
+        Update: {
+          availability?: string
+          business_id?: string
+          category?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          image_urls?: string[]
+          item_type?: string
+          name?: string
+          position?: number
+          price_max?: number | null
+          price_min?: number | null
+          unit?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "business_catalog_items_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       business_follows: {
         Row: {
           business_id: string | null
@@ -169,6 +264,60 @@ export type Database = {
           },
         ]
       }
+      business_reviews: {
+        Row: {
+          business_id: string
+          content: string
+          created_at: string
+          id: string
+          image_urls: string[]
+          owner_replied_at: string | null
+          owner_reply: string | null
+          rating: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          business_id: string
+          content: string
+          created_at?: string
+          id?: string
+          image_urls?: string[]
+          owner_replied_at?: string | null
+          owner_reply?: string | null
+          rating: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          business_id?: string
+          content?: string
+          created_at?: string
+          id?: string
+          image_urls?: string[]
+          owner_replied_at?: string | null
+          owner_reply?: string | null
+          rating?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "business_reviews_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "business_reviews_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       businesses: {
         Row: {
           approval_status: string | null
@@ -177,15 +326,23 @@ export type Database = {
           created_at: string | null
           description: string | null
           disabled_reason: string | null
+          district_id: string | null
+          geo_pinned: boolean
           id: string
           instagram_link: string | null
           is_disabled: boolean | null
           is_featured: boolean | null
+          latitude: number | null
+          local_body_id: string | null
           location: string | null
           logo_url: string | null
+          longitude: number | null
           name: string
           owner_id: string | null
+          rating_average: number | null
+          rating_count: number
           updated_at: string | null
+          ward_id: string | null
           website_url: string | null
           youtube_link: string | null
         }
@@ -196,15 +353,23 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           disabled_reason?: string | null
+          district_id?: string | null
+          geo_pinned?: boolean
           id?: string
           instagram_link?: string | null
           is_disabled?: boolean | null
           is_featured?: boolean | null
+          latitude?: number | null
+          local_body_id?: string | null
           location?: string | null
           logo_url?: string | null
+          longitude?: number | null
           name: string
           owner_id?: string | null
+          rating_average?: number | null
+          rating_count?: number
           updated_at?: string | null
+          ward_id?: string | null
           website_url?: string | null
           youtube_link?: string | null
         }
@@ -215,15 +380,23 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           disabled_reason?: string | null
+          district_id?: string | null
+          geo_pinned?: boolean
           id?: string
           instagram_link?: string | null
           is_disabled?: boolean | null
           is_featured?: boolean | null
+          latitude?: number | null
+          local_body_id?: string | null
           location?: string | null
           logo_url?: string | null
+          longitude?: number | null
           name?: string
           owner_id?: string | null
+          rating_average?: number | null
+          rating_count?: number
           updated_at?: string | null
+          ward_id?: string | null
           website_url?: string | null
           youtube_link?: string | null
         }
@@ -235,13 +408,72 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "businesses_district_id_fkey"
+            columns: ["district_id"]
+            isOneToOne: false
+            referencedRelation: "geo_districts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "businesses_local_body_id_fkey"
+            columns: ["local_body_id"]
+            isOneToOne: false
+            referencedRelation: "geo_local_bodies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "businesses_ward_id_fkey"
+            columns: ["ward_id"]
+            isOneToOne: false
+            referencedRelation: "geo_wards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comment_likes: {
+        Row: {
+          comment_id: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_likes_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comment_likes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       comments: {
         Row: {
           content: string
           created_at: string | null
+          edited_at: string | null
           id: string
+          parent_id: string | null
           post_id: string | null
           updated_at: string | null
           user_id: string | null
@@ -249,7 +481,9 @@ export type Database = {
         Insert: {
           content: string
           created_at?: string | null
+          edited_at?: string | null
           id?: string
+          parent_id?: string | null
           post_id?: string | null
           updated_at?: string | null
           user_id?: string | null
@@ -257,12 +491,21 @@ export type Database = {
         Update: {
           content?: string
           created_at?: string | null
+          edited_at?: string | null
           id?: string
+          parent_id?: string | null
           post_id?: string | null
           updated_at?: string | null
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "comments_post_id_fkey"
             columns: ["post_id"]
@@ -289,10 +532,13 @@ export type Database = {
           description: string | null
           disabled_at: string | null
           disabled_reason: string | null
+          district_id: string | null
           id: string
           is_disabled: boolean | null
+          local_body_id: string | null
           name: string
           updated_at: string | null
+          ward_id: string | null
         }
         Insert: {
           approval_status?: string | null
@@ -303,10 +549,13 @@ export type Database = {
           description?: string | null
           disabled_at?: string | null
           disabled_reason?: string | null
+          district_id?: string | null
           id?: string
           is_disabled?: boolean | null
+          local_body_id?: string | null
           name: string
           updated_at?: string | null
+          ward_id?: string | null
         }
         Update: {
           approval_status?: string | null
@@ -317,10 +566,13 @@ export type Database = {
           description?: string | null
           disabled_at?: string | null
           disabled_reason?: string | null
+          district_id?: string | null
           id?: string
           is_disabled?: boolean | null
+          local_body_id?: string | null
           name?: string
           updated_at?: string | null
+          ward_id?: string | null
         }
         Relationships: [
           {
@@ -337,6 +589,27 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "communities_district_id_fkey"
+            columns: ["district_id"]
+            isOneToOne: false
+            referencedRelation: "geo_districts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "communities_local_body_id_fkey"
+            columns: ["local_body_id"]
+            isOneToOne: false
+            referencedRelation: "geo_local_bodies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "communities_ward_id_fkey"
+            columns: ["ward_id"]
+            isOneToOne: false
+            referencedRelation: "geo_wards"
+            referencedColumns: ["id"]
+          },
         ]
       }
       community_discussions: {
@@ -578,6 +851,55 @@ export type Database = {
           },
         ]
       }
+      content_revisions: {
+        Row: {
+          comment_id: string | null
+          content: string | null
+          created_at: string
+          edited_by: string | null
+          id: string
+          post_id: string | null
+        }
+        Insert: {
+          comment_id?: string | null
+          content?: string | null
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          post_id?: string | null
+        }
+        Update: {
+          comment_id?: string | null
+          content?: string | null
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          post_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_revisions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_revisions_edited_by_fkey"
+            columns: ["edited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_revisions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversations: {
         Row: {
           created_at: string | null
@@ -686,105 +1008,493 @@ export type Database = {
           },
         ]
       }
-      job_applications: {
+      geo_blocks: {
         Row: {
-          applicant_id: string
-          created_at: string | null
+          created_at: string
+          district_id: string
           id: string
-          job_id: string
-          message: string | null
+          name_en: string
+          name_ml: string | null
+          updated_at: string
         }
         Insert: {
-          applicant_id: string
-          created_at?: string | null
+          created_at?: string
+          district_id: string
           id?: string
-          job_id: string
-          message?: string | null
+          name_en: string
+          name_ml?: string | null
+          updated_at?: string
         }
         Update: {
-          applicant_id?: string
-          created_at?: string | null
+          created_at?: string
+          district_id?: string
           id?: string
-          job_id?: string
-          message?: string | null
+          name_en?: string
+          name_ml?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "job_applications_applicant_id_fkey"
-            columns: ["applicant_id"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "job_applications_job_id_fkey"
-            columns: ["job_id"]
+            foreignKeyName: "geo_blocks_district_id_fkey"
+            columns: ["district_id"]
             isOneToOne: false
-            referencedRelation: "jobs"
+            referencedRelation: "geo_districts"
             referencedColumns: ["id"]
           },
         ]
       }
-      jobs: {
+      geo_districts: {
         Row: {
-          approval_status: string | null
-          conditions: string | null
-          created_at: string | null
-          creator_id: string
-          description: string
-          expires_at: string | null
+          created_at: string
           id: string
-          location: string | null
-          max_applications: number | null
-          status: Database["public"]["Enums"]["job_status"] | null
-          title: string
-          updated_at: string | null
+          name_en: string
+          name_ml: string | null
+          updated_at: string
         }
         Insert: {
-          approval_status?: string | null
-          conditions?: string | null
-          created_at?: string | null
-          creator_id: string
-          description: string
-          expires_at?: string | null
+          created_at?: string
           id?: string
-          location?: string | null
-          max_applications?: number | null
-          status?: Database["public"]["Enums"]["job_status"] | null
-          title: string
-          updated_at?: string | null
+          name_en: string
+          name_ml?: string | null
+          updated_at?: string
         }
         Update: {
-          approval_status?: string | null
-          conditions?: string | null
-          created_at?: string | null
-          creator_id?: string
-          description?: string
-          expires_at?: string | null
+          created_at?: string
           id?: string
-          location?: string | null
-          max_applications?: number | null
-          status?: Database["public"]["Enums"]["job_status"] | null
-          title?: string
-          updated_at?: string | null
+          name_en?: string
+          name_ml?: string | null
+          updated_at?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "jobs_creator_id_fkey"
-            columns: ["creator_id"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
-      messages: {
+      geo_local_bodies: {
         Row: {
-          content: string
+          block_id: string | null
+          body_type: string
+          created_at: string
+          district_id: string
+          id: string
+          latitude: number | null
+          longitude: number | null
+          name_en: string
+          name_ml: string | null
+          updated_at: string
+        }
+        Insert: {
+          block_id?: string | null
+          body_type?: string
+          created_at?: string
+          district_id: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          name_en: string
+          name_ml?: string | null
+          updated_at?: string
+        }
+        Update: {
+          block_id?: string | null
+          body_type?: string
+          created_at?: string
+          district_id?: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          name_en?: string
+          name_ml?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "geo_local_bodies_block_id_district_id_fkey"
+            columns: ["block_id", "district_id"]
+            isOneToOne: false
+            referencedRelation: "geo_blocks"
+            referencedColumns: ["id", "district_id"]
+          },
+          {
+            foreignKeyName: "geo_local_bodies_district_id_fkey"
+            columns: ["district_id"]
+            isOneToOne: false
+            referencedRelation: "geo_districts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      geo_wards: {
+        Row: {
+          created_at: string
+          id: string
+          local_body_id: string
+          name_en: string
+          name_ml: string | null
+          updated_at: string
+          ward_number: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          local_body_id: string
+          name_en: string
+          name_ml?: string | null
+          updated_at?: string
+          ward_number: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          local_body_id?: string
+          name_en?: string
+          name_ml?: string | null
+          updated_at?: string
+          ward_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "geo_wards_local_body_id_fkey"
+            columns: ["local_body_id"]
+            isOneToOne: false
+            referencedRelation: "geo_local_bodies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hashtag_uses: {
+        Row: {
+          comment_id: string | null
+          created_at: string
+          discussion_id: string | null
+          id: string
+          post_id: string | null
+          tag: string
+        }
+        Insert: {
+          comment_id?: string | null
+          created_at?: string
+          discussion_id?: string | null
+          id?: string
+          post_id?: string | null
+          tag: string
+        }
+        Update: {
+          comment_id?: string | null
+          created_at?: string
+          discussion_id?: string | null
+          id?: string
+          post_id?: string | null
+          tag?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hashtag_uses_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hashtag_uses_discussion_id_fkey"
+            columns: ["discussion_id"]
+            isOneToOne: false
+            referencedRelation: "community_discussions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hashtag_uses_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      held_push_notifications: {
+        Row: {
+          created_at: string
+          group_key: string | null
+          id: string
+          payload: Json
+          release_at: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          group_key?: string | null
+          id?: string
+          payload: Json
+          release_at: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          group_key?: string | null
+          id?: string
+          payload?: Json
+          release_at?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "held_push_notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_applications: {
+        Row: {
+          applicant_id: string
+          created_at: string | null
+          id: string
+          job_id: string
+          message: string | null
+        }
+        Insert: {
+          applicant_id: string
+          created_at?: string | null
+          id?: string
+          job_id: string
+          message?: string | null
+        }
+        Update: {
+          applicant_id?: string
+          created_at?: string | null
+          id?: string
+          job_id?: string
+          message?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_applications_applicant_id_fkey"
+            columns: ["applicant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_applications_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      jobs: {
+        Row: {
+          approval_status: string | null
+          conditions: string | null
+          created_at: string | null
+          creator_id: string
+          description: string
+          district_id: string | null
+          expires_at: string | null
+          id: string
+          local_body_id: string | null
+          location: string | null
+          max_applications: number | null
+          status: Database["public"]["Enums"]["job_status"] | null
+          title: string
+          updated_at: string | null
+          ward_id: string | null
+        }
+        Insert: {
+          approval_status?: string | null
+          conditions?: string | null
+          created_at?: string | null
+          creator_id: string
+          description: string
+          district_id?: string | null
+          expires_at?: string | null
+          id?: string
+          local_body_id?: string | null
+          location?: string | null
+          max_applications?: number | null
+          status?: Database["public"]["Enums"]["job_status"] | null
+          title: string
+          updated_at?: string | null
+          ward_id?: string | null
+        }
+        Update: {
+          approval_status?: string | null
+          conditions?: string | null
+          created_at?: string | null
+          creator_id?: string
+          description?: string
+          district_id?: string | null
+          expires_at?: string | null
+          id?: string
+          local_body_id?: string | null
+          location?: string | null
+          max_applications?: number | null
+          status?: Database["public"]["Enums"]["job_status"] | null
+          title?: string
+          updated_at?: string | null
+          ward_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "jobs_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_district_id_fkey"
+            columns: ["district_id"]
+            isOneToOne: false
+            referencedRelation: "geo_districts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_local_body_id_fkey"
+            columns: ["local_body_id"]
+            isOneToOne: false
+            referencedRelation: "geo_local_bodies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_ward_id_fkey"
+            columns: ["ward_id"]
+            isOneToOne: false
+            referencedRelation: "geo_wards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      link_previews: {
+        Row: {
+          content_type: string | null
+          description: string | null
+          error: string | null
+          expires_at: string
+          fetched_at: string
+          fetched_by: string | null
+          final_url: string | null
+          image_url: string | null
+          site_name: string | null
+          status: string
+          title: string | null
+          url: string
+        }
+        Insert: {
+          content_type?: string | null
+          description?: string | null
+          error?: string | null
+          expires_at: string
+          fetched_at?: string
+          fetched_by?: string | null
+          final_url?: string | null
+          image_url?: string | null
+          site_name?: string | null
+          status?: string
+          title?: string | null
+          url: string
+        }
+        Update: {
+          content_type?: string | null
+          description?: string | null
+          error?: string | null
+          expires_at?: string
+          fetched_at?: string
+          fetched_by?: string | null
+          final_url?: string | null
+          image_url?: string | null
+          site_name?: string | null
+          status?: string
+          title?: string | null
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "link_previews_fetched_by_fkey"
+            columns: ["fetched_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mentions: {
+        Row: {
+          author_id: string | null
+          comment_id: string | null
+          created_at: string
+          discussion_id: string | null
+          id: string
+          mentioned_user_id: string
+          post_id: string | null
+        }
+        Insert: {
+          author_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          discussion_id?: string | null
+          id?: string
+          mentioned_user_id: string
+          post_id?: string | null
+        }
+        Update: {
+          author_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          discussion_id?: string | null
+          id?: string
+          mentioned_user_id?: string
+          post_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mentions_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_discussion_id_fkey"
+            columns: ["discussion_id"]
+            isOneToOne: false
+            referencedRelation: "community_discussions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_mentioned_user_id_fkey"
+            columns: ["mentioned_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          content: string
           conversation_id: string | null
           created_at: string | null
           id: string
           is_read: boolean | null
+          item_reference: Json | null
           sender_id: string | null
         }
         Insert: {
@@ -793,6 +1503,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           is_read?: boolean | null
+          item_reference?: Json | null
           sender_id?: string | null
         }
         Update: {
@@ -801,6 +1512,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           is_read?: boolean | null
+          item_reference?: Json | null
           sender_id?: string | null
         }
         Relationships: [
@@ -820,11 +1532,54 @@ export type Database = {
           },
         ]
       }
+      notification_preferences: {
+        Row: {
+          channels: Json
+          created_at: string
+          quiet_hours_enabled: boolean
+          quiet_hours_end: string
+          quiet_hours_start: string
+          timezone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channels?: Json
+          created_at?: string
+          quiet_hours_enabled?: boolean
+          quiet_hours_end?: string
+          quiet_hours_start?: string
+          timezone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channels?: Json
+          created_at?: string
+          quiet_hours_enabled?: boolean
+          quiet_hours_end?: string
+          quiet_hours_start?: string
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
+          actor_ids: string[]
           body: string | null
           created_at: string | null
           data: Json | null
+          group_key: string | null
           id: string
           is_read: boolean | null
           title: string
@@ -832,9 +1587,11 @@ export type Database = {
           user_id: string | null
         }
         Insert: {
+          actor_ids?: string[]
           body?: string | null
           created_at?: string | null
           data?: Json | null
+          group_key?: string | null
           id?: string
           is_read?: boolean | null
           title: string
@@ -842,9 +1599,11 @@ export type Database = {
           user_id?: string | null
         }
         Update: {
+          actor_ids?: string[]
           body?: string | null
           created_at?: string | null
           data?: Json | null
+          group_key?: string | null
           id?: string
           is_read?: boolean | null
           title?: string
@@ -863,28 +1622,37 @@ export type Database = {
       }
       password_reset_otps: {
         Row: {
+          attempts: number
           created_at: string
           expires_at: string
           id: string
           is_used: boolean
           mobile_number: string
           otp_code: string
+          reset_token_hash: string | null
+          verified_at: string | null
         }
         Insert: {
+          attempts?: number
           created_at?: string
           expires_at?: string
           id?: string
           is_used?: boolean
           mobile_number: string
           otp_code: string
+          reset_token_hash?: string | null
+          verified_at?: string | null
         }
         Update: {
+          attempts?: number
           created_at?: string
           expires_at?: string
           id?: string
           is_used?: boolean
           mobile_number?: string
           otp_code?: string
+          reset_token_hash?: string | null
+          verified_at?: string | null
         }
         Relationships: []
       }
@@ -910,7 +1678,48 @@ export type Database = {
           updated_by?: string | null
           value?: Json
         }
-        Relationships: []
+        Relationships: []
+      }
+      post_images: {
+        Row: {
+          alt_text: string | null
+          created_at: string
+          height: number | null
+          id: string
+          image_url: string
+          position: number
+          post_id: string
+          width: number | null
+        }
+        Insert: {
+          alt_text?: string | null
+          created_at?: string
+          height?: number | null
+          id?: string
+          image_url: string
+          position: number
+          post_id: string
+          width?: number | null
+        }
+        Update: {
+          alt_text?: string | null
+          created_at?: string
+          height?: number | null
+          id?: string
+          image_url?: string
+          position?: number
+          post_id?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_images_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       post_likes: {
         Row: {
@@ -953,6 +1762,8 @@ export type Database = {
           business_id: string | null
           content: string | null
           created_at: string | null
+          deleted_at: string | null
+          edited_at: string | null
           hidden_at: string | null
           hidden_reason: string | null
           id: string
@@ -970,6 +1781,8 @@ export type Database = {
           business_id?: string | null
           content?: string | null
           created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
           hidden_at?: string | null
           hidden_reason?: string | null
           id?: string
@@ -987,6 +1800,8 @@ export type Database = {
           business_id?: string | null
           content?: string | null
           created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
           hidden_at?: string | null
           hidden_reason?: string | null
           id?: string
@@ -1026,6 +1841,7 @@ export type Database = {
           chat_disabled: boolean | null
           created_at: string | null
           date_of_birth: string | null
+          district_id: string | null
           email: string | null
           email_verification_sent_at: string | null
           email_verification_token: string | null
@@ -1036,14 +1852,17 @@ export type Database = {
           is_online: boolean | null
           is_verified: boolean | null
           last_seen: string | null
+          local_body_id: string | null
           location: string | null
           mobile_number: string | null
           role: Database["public"]["Enums"]["user_role"] | null
+          show_date_of_birth: boolean | null
           show_email: boolean | null
           show_location: boolean | null
           show_mobile: boolean | null
           updated_at: string | null
           username: string | null
+          ward_id: string | null
         }
         Insert: {
           avatar_url?: string | null
@@ -1053,6 +1872,7 @@ export type Database = {
           chat_disabled?: boolean | null
           created_at?: string | null
           date_of_birth?: string | null
+          district_id?: string | null
           email?: string | null
           email_verification_sent_at?: string | null
           email_verification_token?: string | null
@@ -1063,14 +1883,17 @@ export type Database = {
           is_online?: boolean | null
           is_verified?: boolean | null
           last_seen?: string | null
+          local_body_id?: string | null
           location?: string | null
           mobile_number?: string | null
           role?: Database["public"]["Enums"]["user_role"] | null
+          show_date_of_birth?: boolean | null
           show_email?: boolean | null
           show_location?: boolean | null
           show_mobile?: boolean | null
           updated_at?: string | null
           username?: string | null
+          ward_id?: string | null
         }
         Update: {
           avatar_url?: string | null
@@ -1080,6 +1903,7 @@ export type Database = {
           chat_disabled?: boolean | null
           created_at?: string | null
           date_of_birth?: string | null
+          district_id?: string | null
           email?: string | null
           email_verification_sent_at?: string | null
           email_verification_token?: string | null
@@ -1090,16 +1914,41 @@ export type Database = {
           is_online?: boolean | null
           is_verified?: boolean | null
           last_seen?: string | null
+          local_body_id?: string | null
           location?: string | null
           mobile_number?: string | null
           role?: Database["public"]["Enums"]["user_role"] | null
+          show_date_of_birth?: boolean | null
           show_email?: boolean | null
           show_location?: boolean | null
           show_mobile?: boolean | null
           updated_at?: string | null
           username?: string | null
+          ward_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_district_id_fkey"
+            columns: ["district_id"]
+            isOneToOne: false
+            referencedRelation: "geo_districts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_local_body_id_fkey"
+            columns: ["local_body_id"]
+            isOneToOne: false
+            referencedRelation: "geo_local_bodies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_ward_id_fkey"
+            columns: ["ward_id"]
+            isOneToOne: false
+            referencedRelation: "geo_wards"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       promotional_content: {
         Row: {
@@ -1303,6 +2152,84 @@ export type Database = {
           },
         ]
       }
+      saved_collections: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_collections_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_posts: {
+        Row: {
+          collection_id: string | null
+          created_at: string
+          id: string
+          post_id: string | null
+          user_id: string
+        }
+        Insert: {
+          collection_id?: string | null
+          created_at?: string
+          id?: string
+          post_id?: string | null
+          user_id: string
+        }
+        Update: {
+          collection_id?: string | null
+          created_at?: string
+          id?: string
+          post_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_posts_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "saved_collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_posts_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_posts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       submissions: {
         Row: {
           answers: Json | null
@@ -1336,6 +2263,61 @@ export type Database = {
         }
         Relationships: []
       }
+      trending_posts: {
+        Row: {
+          business_category: Database["public"]["Enums"]["business_category"] | null
+          comments_count: number
+          computed_at: string
+          district_id: string | null
+          likes_count: number
+          local_body_id: string | null
+          post_id: string
+          score: number
+        }
+        Insert: {
+          business_category?: Database["public"]["Enums"]["business_category"] | null
+          comments_count?: number
+          computed_at?: string
+          district_id?: string | null
+          likes_count?: number
+          local_body_id?: string | null
+          post_id: string
+          score: number
+        }
+        Update: {
+          business_category?: Database["public"]["Enums"]["business_category"] | null
+          comments_count?: number
+          computed_at?: string
+          district_id?: string | null
+          likes_count?: number
+          local_body_id?: string | null
+          post_id?: string
+          score?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trending_posts_district_id_fkey"
+            columns: ["district_id"]
+            isOneToOne: false
+            referencedRelation: "geo_districts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trending_posts_local_body_id_fkey"
+            columns: ["local_body_id"]
+            isOneToOne: false
+            referencedRelation: "geo_local_bodies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trending_posts_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: true
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_credentials: {
         Row: {
           created_at: string
@@ -1400,6 +2382,7 @@ export type Database = {
           is_active: boolean
           session_token: string
           updated_at: string | null
+          user_agent: string | null
           user_id: string
         }
         Insert: {
@@ -1409,6 +2392,7 @@ export type Database = {
           is_active?: boolean
           session_token: string
           updated_at?: string | null
+          user_agent?: string | null
           user_id: string
         }
         Update: {
@@ -1418,6 +2402,7 @@ export type Database = {
           is_active?: boolean
           session_token?: string
           updated_at?: string | null
+          user_agent?: string | null
           user_id?: string
         }
         Relationships: []
@@ -1489,16 +2474,216 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      public_profiles: {
+        Row: {
+          avatar_url: string | null
+          bio: string | null
+          blocked_at: string | null
+          blocked_by: string | null
+          chat_disabled: boolean | null
+          created_at: string | null
+          date_of_birth: string | null
+          district_id: string | null
+          email: string | null
+          email_verification_sent_at: string | null
+          email_verified: boolean | null
+          full_name: string | null
+          id: string | null
+          is_blocked: boolean | null
+          is_online: boolean | null
+          is_verified: boolean | null
+          last_seen: string | null
+          local_body_id: string | null
+          location: string | null
+          mobile_number: string | null
+          role: Database["public"]["Enums"]["user_role"] | null
+          show_date_of_birth: boolean | null
+          show_email: boolean | null
+          show_location: boolean | null
+          show_mobile: boolean | null
+          updated_at: string | null
+          username: string | null
+          ward_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      change_mobile_number: {
+        Args: { p_new_mobile: string; p_user_id: string }
+        Returns: undefined
+      }
+      check_auth_throttle: {
+        Args: { p_ip: string; p_mobile: string; p_scope: string }
+        Returns: string
+      }
+      claim_otp_attempt: {
+        Args: { p_max_attempts: number; p_otp_id: string }
+        Returns: number
+      }
+      cleanup_auth_throttles: { Args: never; Returns: undefined }
+      cleanup_expired_link_previews: { Args: never; Returns: undefined }
       cleanup_expired_otps: { Args: never; Returns: undefined }
       cleanup_old_messages: { Args: never; Returns: number }
+      clear_auth_failures: {
+        Args: { p_mobile: string; p_scope: string }
+        Returns: undefined
+      }
       contains_blocked_words: { Args: { content: string }; Returns: boolean }
+      create_notification: {
+        Args: {
+          p_action: string
+          p_actor_id: string
+          p_data?: Json
+          p_group_key?: string
+          p_title: string
+          p_type: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      deliver_notification: {
+        Args: {
+          p_body: string
+          p_data: Json
+          p_group_key: string
+          p_title: string
+          p_type: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      distance_km: {
+        Args: {
+          p_lat1: number
+          p_lat2: number
+          p_lng1: number
+          p_lng2: number
+        }
+        Returns: number
+      }
+      edit_comment_content: {
+        Args: { p_comment_id: string; p_content: string; p_editor: string }
+        Returns: {
+          content: string
+          created_at: string | null
+          edited_at: string | null
+          id: string
+          parent_id: string | null
+          post_id: string | null
+          updated_at: string | null
+          user_id: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "comments"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      edit_post_content: {
+        Args: { p_content: string; p_editor: string; p_post_id: string }
+        Returns: {
+          business_id: string | null
+          content: string | null
+          created_at: string | null
+          deleted_at: string | null
+          edited_at: string | null
+          hidden_at: string | null
+          hidden_reason: string | null
+          id: string
+          image_url: string | null
+          instagram_url: string | null
+          is_featured: boolean | null
+          is_hidden: boolean | null
+          report_count: number | null
+          status: string | null
+          updated_at: string | null
+          user_id: string | null
+          youtube_url: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "posts"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      get_feed_posts: {
+        Args: {
+          p_district_id?: string
+          p_following_of?: string
+          p_local_body_id?: string
+        }
+        Returns: {
+          business_id: string | null
+          content: string | null
+          created_at: string | null
+          deleted_at: string | null
+          edited_at: string | null
+          hidden_at: string | null
+          hidden_reason: string | null
+          id: string
+          image_url: string | null
+          instagram_url: string | null
+          is_featured: boolean | null
+          is_hidden: boolean | null
+          report_count: number | null
+          status: string | null
+          updated_at: string | null
+          user_id: string | null
+          youtube_url: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "posts"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
       get_or_create_conversation: {
         Args: { current_user_id?: string; other_user_id: string }
         Returns: string
       }
+      get_public_profiles: {
+        Args: { p_ids?: string[] }
+        Returns: {
+          avatar_url: string | null
+          bio: string | null
+          blocked_at: string | null
+          blocked_by: string | null
+          chat_disabled: boolean | null
+          created_at: string | null
+          date_of_birth: string | null
+          district_id: string | null
+          email: string | null
+          email_verification_sent_at: string | null
+          email_verified: boolean | null
+          full_name: string | null
+          id: string | null
+          is_blocked: boolean | null
+          is_online: boolean | null
+          is_verified: boolean | null
+          last_seen: string | null
+          local_body_id: string | null
+          location: string | null
+          mobile_number: string | null
+          role: Database["public"]["Enums"]["user_role"] | null
+          show_date_of_birth: boolean | null
+          show_email: boolean | null
+          show_location: boolean | null
+          show_mobile: boolean | null
+          updated_at: string | null
+          username: string | null
+          ward_id: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "public_profiles"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
       has_any_admin_role: { Args: { _user_id: string }; Returns: boolean }
       has_community_permission: {
         Args: {
@@ -1515,6 +2700,10 @@ export type Database = {
         }
         Returns: boolean
       }
+      invoke_edge_function: {
+        Args: { p_body: Json; p_function: string }
+        Returns: undefined
+      }
       is_admin: { Args: never; Returns: boolean }
       is_business_owner: { Args: { business_uuid: string }; Returns: boolean }
       is_community_creator: {
@@ -1527,7 +2716,73 @@ export type Database = {
         Returns: boolean
       }
       is_following: { Args: { target_user_id: string }; Returns: boolean }
+      is_mobile_registered: {
+        Args: { p_mobile_number: string }
+        Returns: boolean
+      }
+      lift_expired_suspensions: { Args: never; Returns: undefined }
+      notification_category: { Args: { p_type: string }; Returns: string }
+      notification_channel_enabled: {
+        Args: { p_channel: string; p_type: string; p_user_id: string }
+        Returns: boolean
+      }
+      profile_in_area: {
+        Args: {
+          p_district_id: string
+          p_local_body_id: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      quiet_hours_release_at: { Args: { p_user_id: string }; Returns: string }
+      record_auth_failure: {
+        Args: { p_ip: string; p_mobile: string; p_scope: string }
+        Returns: string
+      }
+      refresh_business_rating: {
+        Args: { p_business_id: string }
+        Returns: undefined
+      }
       refresh_session: { Args: { p_session_token: string }; Returns: boolean }
+      refresh_trending_posts: { Args: never; Returns: undefined }
+      release_held_push_notifications: { Args: never; Returns: undefined }
+      resolve_usernames: {
+        Args: { p_usernames: string[] }
+        Returns: {
+          id: string
+          username: string
+        }[]
+      }
+      search_businesses_nearby: {
+        Args: {
+          p_category?: Database["public"]["Enums"]["business_category"]
+          p_latitude: number
+          p_longitude: number
+          p_query?: string
+          p_radius_km?: number
+        }
+        Returns: {
+          category: Database["public"]["Enums"]["business_category"]
+          description: string
+          distance_km: number
+          geo_pinned: boolean
+          id: string
+          latitude: number
+          location: string
+          logo_url: string
+          longitude: number
+          name: string
+          rating_average: number
+          rating_count: number
+        }[]
+      }
+      search_hashtags: {
+        Args: { p_limit?: number; p_prefix: string }
+        Returns: {
+          tag: string
+          uses: number
+        }[]
+      }
       sync_profile_email_from_jwt: { Args: never; Returns: undefined }
       validate_session: { Args: { p_session_token: string }; Returns: string }
     }
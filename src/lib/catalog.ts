@@ -0,0 +1,62 @@
+export type CatalogAvailability = 'available' | 'unavailable' | 'on_request';
+
+export interface CatalogItem {
+  id: string;
+  business_id: string;
+  item_type: 'product' | 'service';
+  name: string;
+  description: string | null;
+  category: string | null;
+  price_min: number | null;
+  price_max: number | null;
+  unit: string | null;
+  image_urls: string[];
+  availability: CatalogAvailability;
+  position: number;
+}
+
+/**
+ * The item snapshot an enquiry message carries. The messaging function builds
+ * it from the item row, so it reads as the item did when the enquiry was sent.
+ */
+export interface ItemReference {
+  type: 'catalog_item';
+  item_id: string;
+  business_id: string;
+  business_name: string | null;
+  name: string;
+  price_min: number | null;
+  price_max: number | null;
+  unit: string | null;
+  image_url: string | null;
+}
+
+export const MAX_ITEM_IMAGES = 6;
+
+export const AVAILABILITY_OPTIONS: { value: CatalogAvailability; label: string }[] = [
+  { value: 'available', label: 'Available' },
+  { value: 'on_request', label: 'Made to order' },
+  { value: 'unavailable', label: 'Currently unavailable' },
+];
+
+const rupees = (amount: number) =>
+  `₹${Number(amount).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+/** "₹450 / 500 g", "₹300 – ₹1,200 / hour" or "Price on request". */
+export function formatItemPrice({ price_min, price_max, unit }: Pick<CatalogItem, 'price_min' | 'price_max' | 'unit'>) {
+  if (price_min == null) return 'Price on request';
+  const amount = price_max != null ? `${rupees(price_min)} – ${rupees(price_max)}` : rupees(price_min);
+  return unit ? `${amount} / ${unit}` : amount;
+}
+
+/** Items grouped under their categories in first-seen order; uncategorised items come last. */
+export function groupByCategory(items: CatalogItem[]): { category: string | null; items: CatalogItem[] }[] {
+  const groups = new Map<string | null, CatalogItem[]>();
+  for (const item of items) {
+    const key = item.category?.trim() || null;
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === null ? 1 : 0) - (b === null ? 1 : 0))
+    .map(([category, grouped]) => ({ category, items: grouped }));
+}
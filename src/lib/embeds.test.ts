@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { resolveEmbed } from "./embeds";
+
+describe("resolveEmbed", () => {
+  it("embeds YouTube videos and shorts through youtube.com/embed", () => {
+    expect(resolveEmbed("https://youtu.be/dQw4w9WgXcQ?t=1m30s")).toMatchObject({
+      provider: "youtube",
+      src: "https://www.youtube.com/embed/dQw4w9WgXcQ?start=90",
+      aspectRatio: 16 / 9,
+    });
+    expect(resolveEmbed("https://www.youtube.com/shorts/dQw4w9WgXcQ")).toMatchObject({
+      provider: "youtube",
+      aspectRatio: 9 / 16,
+    });
+    expect(resolveEmbed("https://www.youtube.com/watch?v=not-an-id")).toBeNull();
+  });
+
+  it("embeds Instagram posts and reels", () => {
+    expect(resolveEmbed("https://www.instagram.com/reel/C1a2b3c4d5/?igsh=x")).toMatchObject({
+      provider: "instagram",
+      src: "https://www.instagram.com/reel/C1a2b3c4d5/embed",
+    });
+  });
+
+  it("embeds Google Maps links from Google's own hosts", () => {
+    expect(resolveEmbed("https://maps.google.com/?q=Kochi")).toMatchObject({
+      provider: "google-maps",
+      src: "https://maps.google.com/maps?q=Kochi&output=embed",
+    });
+    expect(resolveEmbed("https://www.google.co.in/maps/place/Thrissur+Round/@10.52,76.21,15z")).toMatchObject({
+      provider: "google-maps",
+      src: "https://maps.google.com/maps?q=Thrissur%20Round&z=15&output=embed",
+    });
+    expect(resolveEmbed("https://www.google.com/maps/embed?pb=abc")).toMatchObject({
+      provider: "google-maps",
+      src: "https://www.google.com/maps/embed?pb=abc",
+    });
+  });
+
+  it("does not frame look-alike Google hosts", () => {
+    for (const link of [
+      "https://maps.google.attacker.com/maps/embed?pb=abc",
+      "https://google.evil.com/maps/embed?pb=abc",
+      "https://www.google.evil.com/maps/embed",
+      "https://maps.google.com.evil.net/?q=Kochi",
+      "https://notgoogle.com/maps/embed",
+    ]) {
+      expect(resolveEmbed(link)).toBeNull();
+    }
+  });
+
+  it("only treats /maps paths on google.com as maps", () => {
+    expect(resolveEmbed("https://www.google.com/search?q=Kochi")).toBeNull();
+  });
+
+  it("shows PDFs as a document card", () => {
+    expect(resolveEmbed("https://example.com/files/Menu%20card.PDF")).toMatchObject({
+      provider: "pdf",
+      kind: "document",
+      title: "Menu card.PDF",
+    });
+  });
+
+  it("leaves other links and non-web schemes to the link preview", () => {
+    expect(resolveEmbed("https://example.com/article")).toBeNull();
+    expect(resolveEmbed("javascript:alert(1)")).toBeNull();
+    expect(resolveEmbed("not a url")).toBeNull();
+  });
+});
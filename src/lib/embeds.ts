@@ -0,0 +1,156 @@
+export interface Embed {
+  provider: string;
+  // The link as written in the post
+  url: string;
+  // 'frame' renders src in an iframe; 'document' renders a file card
+  kind: 'frame' | 'document';
+  src: string;
+  title: string;
+  // Width / height of the frame
+  aspectRatio?: number;
+  allow?: string;
+}
+
+export interface EmbedProvider {
+  id: string;
+  match: (url: URL) => Omit<Embed, 'provider' | 'url'> | null;
+}
+
+const hostIs = (url: URL, domain: string) =>
+  url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// "90", "90s" or "1m30s" as seconds
+function parseStartTime(value: string | null): number | null {
+  if (!value) return null;
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/);
+  if (!match) return null;
+  const seconds = Number(match[1] || 0) * 3600 + Number(match[2] || 0) * 60 + Number(match[3] || 0);
+  return seconds > 0 ? seconds : null;
+}
+
+const youtube: EmbedProvider = {
+  id: 'youtube',
+  match: (url) => {
+    let videoId: string | null = null;
+    let isShort = false;
+
+    if (hostIs(url, 'youtu.be')) {
+      videoId = url.pathname.split('/')[1] || null;
+    } else if (hostIs(url, 'youtube.com') || hostIs(url, 'youtube-nocookie.com')) {
+      const [, section, id] = url.pathname.split('/');
+      if (section === 'watch') videoId = url.searchParams.get('v');
+      else if (['embed', 'shorts', 'live', 'v'].includes(section)) videoId = id || null;
+      isShort = section === 'shorts';
+    }
+
+    if (!videoId || !/^[A-Za-z0-9_-]{11}$/.test(videoId)) return null;
+
+    const start = parseStartTime(url.searchParams.get('t') || url.searchParams.get('start'));
+    return {
+      kind: 'frame',
+      src: `https://www.youtube.com/embed/${videoId}${start ? `?start=${start}` : ''}`,
+      title: 'YouTube video',
+      aspectRatio: isShort ? 9 / 16 : 16 / 9,
+      allow: 'accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture',
+    };
+  },
+};
+
+const instagram: EmbedProvider = {
+  id: 'instagram',
+  match: (url) => {
+    if (!hostIs(url, 'instagram.com')) return null;
+    const match = url.pathname.match(/^\/(?:[\w.]+\/)?(p|reel|tv)\/([\w-]+)/);
+    if (!match) return null;
+    return {
+      kind: 'frame',
+      src: `https://www.instagram.com/${match[1]}/${match[2]}/embed`,
+      title: 'Instagram post',
+      aspectRatio: 4 / 5,
+    };
+  },
+};
+
+// Exact hosts only: a pattern like google.<anything> also matches domains
+// anyone can register, whose pages would then be framed in the feed
+const GOOGLE_MAPS_HOSTS = new Set(['maps.google.com', 'maps.google.co.in']);
+const GOOGLE_HOSTS = new Set(['google.com', 'www.google.com', 'google.co.in', 'www.google.co.in']);
+
+const googleMaps: EmbedProvider = {
+  id: 'google-maps',
+  match: (url) => {
+    const isMapsHost = GOOGLE_MAPS_HOSTS.has(url.hostname);
+    const isGoogleHost = GOOGLE_HOSTS.has(url.hostname);
+    if (!isMapsHost && !(isGoogleHost && url.pathname.startsWith('/maps'))) return null;
+
+    if (url.pathname.startsWith('/maps/embed')) {
+      return { kind: 'frame', src: `https://${url.hostname}${url.pathname}${url.search}`, title: 'Google Maps', aspectRatio: 4 / 3 };
+    }
+
+    // ?q=..., /maps/place/<name>/ or /maps/@<lat>,<lng>,<zoom>z
+    const place = url.pathname.match(/\/maps\/(?:place|search)\/([^/]+)/)?.[1];
+    const coordinates = url.pathname.match(/@(-?\d+\.?\d*),(-?\d+\.?\d*)(?:,(\d+(?:\.\d+)?)z)?/);
+    const query = url.searchParams.get('q') || url.searchParams.get('query') ||
+      (place ? safeDecode(place.replace(/\+/g, ' ')) : null) ||
+      (coordinates ? `${coordinates[1]},${coordinates[2]}` : null);
+    if (!query) return null;
+
+    const zoom = coordinates?.[3] ? Math.round(Number(coordinates[3])) : null;
+    return {
+      kind: 'frame',
+      src: `https://maps.google.com/maps?q=${encodeURIComponent(query)}${zoom ? `&z=${zoom}` : ''}&output=embed`,
+      title: 'Google Maps',
+      aspectRatio: 4 / 3,
+    };
+  },
+};
+
+export function documentEmbed(link: string): Embed {
+  const url = new URL(link);
+  const fileName = safeDecode(url.pathname.split('/').pop() || '') || url.hostname;
+  return { provider: 'pdf', url: link, kind: 'document', src: url.href, title: fileName };
+}
+
+const pdf: EmbedProvider = {
+  id: 'pdf',
+  match: (url) => {
+    if (!/\.pdf$/i.test(url.pathname)) return null;
+    const { kind, src, title } = documentEmbed(url.href);
+    return { kind, src, title };
+  },
+};
+
+const providers: EmbedProvider[] = [youtube, instagram, googleMaps, pdf];
+
+// Providers are tried in order; registered ones go first so they can take
+// over links a built-in provider would otherwise handle
+export function registerEmbedProvider(provider: EmbedProvider) {
+  const existing = providers.findIndex((p) => p.id === provider.id);
+  if (existing !== -1) providers.splice(existing, 1);
+  providers.unshift(provider);
+}
+
+// The embed for a link, or null when it should get a link preview instead
+export function resolveEmbed(link: string): Embed | null {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+
+  for (const provider of providers) {
+    const match = provider.match(url);
+    if (match) return { ...match, provider: provider.id, url: link };
+  }
+  return null;
+}
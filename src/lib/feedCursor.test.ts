@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { newerThan, nextFeedCursor, notNewerThan, olderThan, type FeedCursor } from "./feedCursor";
+
+// Evaluates the or() filters the way PostgREST applies them to a row
+function matches(filter: string, row: FeedCursor): boolean {
+  const match = filter.match(
+    /^created_at\.(lt|gt)\."([^"]+)",and\(created_at\.eq\."([^"]+)",id\.(lt|lte|gt)\.([^)]+)\)$/
+  );
+  if (!match) throw new Error(`Unexpected filter: ${filter}`);
+  const [, timeOp, time, tieTime, idOp, id] = match;
+  const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+  const ops: Record<string, (c: number) => boolean> = {
+    lt: (c) => c < 0,
+    lte: (c) => c <= 0,
+    gt: (c) => c > 0,
+  };
+  return (
+    ops[timeOp](compare(row.created_at, time)) ||
+    (row.created_at === tieTime && ops[idOp](compare(row.id, id)))
+  );
+}
+
+const byFeedOrder = (a: FeedCursor, b: FeedCursor) =>
+  a.created_at === b.created_at ? (a.id < b.id ? 1 : -1) : a.created_at < b.created_at ? 1 : -1;
+
+function fetchPage(rows: FeedCursor[], filter: string | null, pageSize: number) {
+  return rows.filter((row) => !filter || matches(filter, row)).sort(byFeedOrder).slice(0, pageSize);
+}
+
+const T1 = "2026-01-25T10:00:00.123456+00:00";
+const T2 = "2026-01-25T09:59:59.5+00:00";
+
+// Five posts share T1, so page boundaries fall inside the tie
+const rows: FeedCursor[] = [
+  { created_at: T1, id: "00000000-0000-0000-0000-00000000000a" },
+  { created_at: T1, id: "00000000-0000-0000-0000-00000000000e" },
+  { created_at: T1, id: "00000000-0000-0000-0000-00000000000c" },
+  { created_at: T1, id: "00000000-0000-0000-0000-00000000000b" },
+  { created_at: T1, id: "00000000-0000-0000-0000-00000000000d" },
+  { created_at: T2, id: "00000000-0000-0000-0000-000000000001" },
+  { created_at: T2, id: "00000000-0000-0000-0000-000000000002" },
+];
+
+describe("feed cursor filters", () => {
+  it("quotes timestamps so PostgREST accepts them inside or()", () => {
+    expect(olderThan({ created_at: T1, id: "x" })).toBe(
+      `created_at.lt."${T1}",and(created_at.eq."${T1}",id.lt.x)`
+    );
+  });
+
+  it("olderThan skips the cursor post and later ids with the same timestamp", () => {
+    const cursor = { created_at: T1, id: "00000000-0000-0000-0000-00000000000c" };
+    expect(fetchPage(rows, olderThan(cursor), 10).map((r) => r.id.slice(-1))).toEqual(["b", "a", "2", "1"]);
+  });
+
+  it("notNewerThan keeps the cursor post itself", () => {
+    const cursor = { created_at: T1, id: "00000000-0000-0000-0000-00000000000c" };
+    expect(fetchPage(rows, notNewerThan(cursor), 10).map((r) => r.id.slice(-1))).toEqual(["c", "b", "a", "2", "1"]);
+  });
+
+  it("newerThan counts only posts that sort above the cursor", () => {
+    const cursor = { created_at: T1, id: "00000000-0000-0000-0000-00000000000c" };
+    expect(rows.filter((row) => matches(newerThan(cursor), row)).map((r) => r.id.slice(-1)).sort()).toEqual(["d", "e"]);
+  });
+});
+
+describe("paging through the feed", () => {
+  it.each([1, 2, 3, 4, 7])("returns every post exactly once with %i per page", (pageSize) => {
+    const seen: FeedCursor[] = [];
+    let cursor: FeedCursor | undefined;
+    let pages = 0;
+    do {
+      const page = fetchPage(rows, cursor ? olderThan(cursor) : null, pageSize);
+      seen.push(...page);
+      cursor = nextFeedCursor(page, pageSize);
+      pages++;
+    } while (cursor && pages < 20);
+
+    expect(seen).toEqual([...rows].sort(byFeedOrder));
+  });
+
+  it("stops when a page comes back short", () => {
+    expect(nextFeedCursor(rows.slice(0, 3), 4)).toBeUndefined();
+  });
+
+  it("continues from the last post of a full page", () => {
+    const page = [...rows].sort(byFeedOrder).slice(0, 3);
+    expect(nextFeedCursor(page, 3)).toEqual({ created_at: T1, id: "00000000-0000-0000-0000-00000000000c" });
+  });
+
+  it("asks for one more, empty page when the posts divide evenly into pages", () => {
+    const page = fetchPage(rows, null, 7);
+    const cursor = nextFeedCursor(page, 7);
+    expect(cursor).toBeDefined();
+    expect(fetchPage(rows, olderThan(cursor!), 7)).toEqual([]);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Keyset cursor for the home feed, ordered by (created_at DESC, id DESC).
+ * The id breaks ties between posts created in the same instant, so a page
+ * boundary that falls inside a run of equal timestamps neither repeats nor
+ * skips a post.
+ */
+export interface FeedCursor {
+  created_at: string;
+  id: string;
+}
+
+// Timestamps contain '.' and ':', which PostgREST only accepts quoted inside or()
+
+/** Filter for the page after the cursor: strictly older in feed order. */
+export const olderThan = (c: FeedCursor) =>
+  `created_at.lt."${c.created_at}",and(created_at.eq."${c.created_at}",id.lt.${c.id})`;
+
+/** Filter that keeps the cursor post itself and everything older. */
+export const notNewerThan = (c: FeedCursor) =>
+  `created_at.lt."${c.created_at}",and(created_at.eq."${c.created_at}",id.lte.${c.id})`;
+
+/** Filter for posts that would sort above the cursor. */
+export const newerThan = (c: FeedCursor) =>
+  `created_at.gt."${c.created_at}",and(created_at.eq."${c.created_at}",id.gt.${c.id})`;
+
+/** The cursor for the page after lastPage, or undefined when it was the last one. */
+export function nextFeedCursor(lastPage: FeedCursor[], pageSize: number): FeedCursor | undefined {
+  if (lastPage.length < pageSize) return undefined;
+  const last = lastPage[lastPage.length - 1];
+  return { created_at: last.created_at, id: last.id };
+}
@@ -0,0 +1,52 @@
+export interface CompressedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  extension: string;
+}
+
+interface CompressOptions {
+  maxDimension?: number;
+  quality?: number;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+
+/**
+ * Scales an image down to fit maxDimension and re-encodes it through a
+ * canvas. Re-encoding drops all metadata, so EXIF (including GPS position)
+ * never leaves the device; orientation is applied to the pixels first.
+ * WebP is used where the browser can encode it, JPEG otherwise.
+ */
+export async function compressImage(
+  file: File,
+  { maxDimension = 2048, quality = 0.82 }: CompressOptions = {}
+): Promise<CompressedImage> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not process image');
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    // Browsers without a WebP encoder silently fall back to PNG
+    const webp = await canvasToBlob(canvas, 'image/webp', quality);
+    if (webp && webp.type === 'image/webp') {
+      return { blob: webp, width, height, extension: 'webp' };
+    }
+
+    const jpeg = await canvasToBlob(canvas, 'image/jpeg', quality);
+    if (!jpeg) throw new Error('Could not process image');
+    return { blob: jpeg, width, height, extension: 'jpg' };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,93 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/** Structured location stored next to the free-text location string. */
+export interface GeoLocation {
+  district_id: string | null;
+  local_body_id: string | null;
+  ward_id: string | null;
+}
+
+export const EMPTY_GEO_LOCATION: GeoLocation = { district_id: null, local_body_id: null, ward_id: null };
+
+/** A point on the map, in degrees. */
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export const LOCAL_BODY_TYPE_LABELS: Record<string, string> = {
+  grama_panchayath: 'Grama Panchayath',
+  municipality: 'Municipality',
+  corporation: 'Corporation',
+};
+
+interface GeoName {
+  name_en: string;
+  name_ml: string | null;
+}
+
+/** "English (Malayalam)", or just the English name when there is no Malayalam one. */
+export function geoLabel(row: GeoName): string {
+  return row.name_ml ? `${row.name_en} (${row.name_ml})` : row.name_en;
+}
+
+/** Whether typed or saved text names this row, in either of the forms geoLabel() gives. */
+export function matchesGeoName(row: GeoName, text: string): boolean {
+  const value = text.trim().toLowerCase();
+  return value === row.name_en.toLowerCase() || value === geoLabel(row).toLowerCase();
+}
+
+export interface DetectedLocation {
+  location: string;
+  geo: GeoLocation;
+}
+
+// Nominatim fields that can carry a panchayath or municipality name, most specific last
+const LOCAL_BODY_FIELDS = ['municipality', 'city', 'town', 'village'];
+
+/**
+ * Location text and IDs for a device position. Nominatim's district and
+ * village/town names are matched against the location tables; anything it
+ * can't place is kept as "Place, Country" without IDs.
+ */
+export async function reverseGeocode(latitude: number, longitude: number): Promise<DetectedLocation> {
+  const response = await fetch(
+    `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=14`
+  );
+  const data = await response.json();
+  const address = data.address || {};
+
+  const place = address.village || address.suburb || address.town || address.city || address.state;
+  const country = address.country;
+  const fallback: DetectedLocation = {
+    location: [place, country].filter(Boolean).join(', ') || `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`,
+    geo: EMPTY_GEO_LOCATION,
+  };
+
+  const districtName = String(address.state_district || '').replace(/\s+district$/i, '');
+  if (!districtName) return fallback;
+
+  const { data: district } = await supabase
+    .from('geo_districts')
+    .select('id, name_en, name_ml')
+    .ilike('name_en', districtName)
+    .maybeSingle();
+  if (!district) return fallback;
+
+  const { data: localBodies } = await supabase
+    .from('geo_local_bodies')
+    .select('id, name_en, name_ml')
+    .eq('district_id', district.id);
+
+  const localBody = LOCAL_BODY_FIELDS
+    .map(field => address[field])
+    .filter(Boolean)
+    .map(name => (localBodies || []).find(lb => matchesGeoName(lb, name)))
+    .find(Boolean);
+
+  // Positional, so the place stays even when it shares the local body's name
+  return {
+    location: [place, localBody?.name_en, district.name_en, country].filter(Boolean).join(', '),
+    geo: { district_id: district.id, local_body_id: localBody?.id ?? null, ward_id: null },
+  };
+}
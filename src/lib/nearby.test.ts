@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { fetchNearby, inNearbyRing, nearbyRings, rankNearby, type NearbyArea } from "./nearby";
+
+const AREA: NearbyArea = {
+  districtId: "ekm",
+  localBodyId: "kochi",
+  district: "Ernakulam",
+  localBody: "Kochi",
+};
+const DISTRICT_ONLY: NearbyArea = { ...AREA, localBodyId: null, localBody: null };
+
+const rows = [
+  { id: "elsewhere", district_id: "tvm", local_body_id: "tvm-corp" },
+  { id: "district-1", district_id: "ekm", local_body_id: "aluva" },
+  { id: "local-1", district_id: "ekm", local_body_id: "kochi" },
+  { id: "unplaced", district_id: null, local_body_id: null },
+  { id: "district-2", district_id: "ekm", local_body_id: null },
+  { id: "local-2", district_id: "ekm", local_body_id: "kochi" },
+];
+
+const ids = (list: { id: string }[]) => list.map((row) => row.id);
+
+// Records the filters inNearbyRing adds to a PostgREST builder
+function recordingQuery() {
+  const calls: string[] = [];
+  const query = {
+    calls,
+    eq(column: string, value: string) {
+      calls.push(`eq ${column} ${value}`);
+      return query;
+    },
+    or(filters: string) {
+      calls.push(`or ${filters}`);
+      return query;
+    },
+  };
+  return query;
+}
+
+describe("rankNearby", () => {
+  it("puts the local body first, then the district, then everywhere else", () => {
+    expect(ids(rankNearby(rows, AREA, "state"))).toEqual([
+      "local-1",
+      "local-2",
+      "district-1",
+      "district-2",
+      "elsewhere",
+      "unplaced",
+    ]);
+  });
+
+  it("drops rows outside the scope", () => {
+    expect(ids(rankNearby(rows, AREA, "district"))).toEqual(["local-1", "local-2", "district-1", "district-2"]);
+    expect(ids(rankNearby(rows, AREA, "panchayath"))).toEqual(["local-1", "local-2"]);
+  });
+
+  it("ranks by district alone when no local body is saved", () => {
+    expect(ids(rankNearby(rows, DISTRICT_ONLY, "district"))).toEqual([
+      "district-1",
+      "local-1",
+      "district-2",
+      "local-2",
+    ]);
+    expect(rankNearby(rows, DISTRICT_ONLY, "panchayath")).toEqual([]);
+  });
+
+  it("keeps the original order without an area", () => {
+    const none: NearbyArea = { districtId: null, localBodyId: null, district: null, localBody: null };
+    expect(ids(rankNearby(rows, none, "state"))).toEqual(ids(rows));
+  });
+});
+
+describe("inNearbyRing", () => {
+  it("limits the panchayath ring to the local body", () => {
+    const query = recordingQuery();
+    expect(inNearbyRing(query, "panchayath", AREA)).toBe(query);
+    expect(query.calls).toEqual(["eq local_body_id kochi"]);
+  });
+
+  it("limits the district ring to the district outside the local body", () => {
+    const query = recordingQuery();
+    inNearbyRing(query, "district", AREA);
+    expect(query.calls).toEqual([
+      "eq district_id ekm",
+      "or local_body_id.is.null,local_body_id.neq.kochi",
+    ]);
+  });
+
+  it("takes the whole district when no local body is saved", () => {
+    const query = recordingQuery();
+    inNearbyRing(query, "district", DISTRICT_ONLY);
+    expect(query.calls).toEqual(["eq district_id ekm"]);
+  });
+
+  it("limits the state ring to rows outside the district", () => {
+    const query = recordingQuery();
+    inNearbyRing(query, "state", AREA);
+    expect(query.calls).toEqual(["or district_id.is.null,district_id.neq.ekm"]);
+  });
+
+  it("leaves the state ring unfiltered without an area", () => {
+    const query = recordingQuery();
+    inNearbyRing(query, "state", { districtId: null, localBodyId: null, district: null, localBody: null });
+    expect(query.calls).toEqual([]);
+  });
+
+  it("splits rows into rings that match rankNearby", () => {
+    const matches = (row: (typeof rows)[number], calls: string[]) =>
+      calls.every((call) => {
+        const [kind, rest] = [call.slice(0, call.indexOf(" ")), call.slice(call.indexOf(" ") + 1)];
+        if (kind === "eq") {
+          const [column, value] = rest.split(" ");
+          return row[column as "district_id" | "local_body_id"] === value;
+        }
+        return rest.split(",").some((filter) => {
+          const [column, op, value] = filter.split(".");
+          const actual = row[column as "district_id" | "local_body_id"];
+          return op === "is" ? actual === null : actual !== null && actual !== value;
+        });
+      });
+
+    const byRing = nearbyRings(AREA, "state").flatMap((ring) => {
+      const query = recordingQuery();
+      inNearbyRing(query, ring, AREA);
+      return rows.filter((row) => matches(row, query.calls));
+    });
+    expect(ids(byRing)).toEqual(ids(rankNearby(rows, AREA, "state")));
+  });
+});
+
+describe("fetchNearby", () => {
+  it("stops asking for further rings once the limit is reached", async () => {
+    const asked: string[] = [];
+    const result = await fetchNearby(AREA, "state", async (ring) => {
+      asked.push(ring);
+      return ring === "panchayath" ? ["a", "b"] : ["c", "d"];
+    }, 3);
+    expect(asked).toEqual(["panchayath", "district"]);
+    expect(result).toEqual(["a", "b", "c"]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * How far local discovery reaches: the viewer's panchayath (or municipality),
+ * their district, or the whole state with nearer results first.
+ */
+export type NearbyScope = 'panchayath' | 'district' | 'state';
+
+/** The viewer's area, as IDs for filtering and names for labels. */
+export interface NearbyArea {
+  districtId: string | null;
+  localBodyId: string | null;
+  district: string | null;
+  localBody: string | null;
+}
+
+export const NO_NEARBY_AREA: NearbyArea = { districtId: null, localBodyId: null, district: null, localBody: null };
+
+interface Located {
+  district_id?: string | null;
+  local_body_id?: string | null;
+}
+
+/** The rings a scope covers, nearest first. Rings the area can't name are skipped. */
+export function nearbyRings(area: NearbyArea, scope: NearbyScope): NearbyScope[] {
+  const rings: NearbyScope[] = [];
+  if (area.localBodyId) rings.push('panchayath');
+  if (scope !== 'panchayath' && area.districtId) rings.push('district');
+  if (scope === 'state') rings.push('state');
+  return rings;
+}
+
+/** 0 for the viewer's local body, 1 for the rest of their district, 2 for anywhere else. */
+export function nearbyRing(row: Located, area: NearbyArea): number {
+  if (area.localBodyId && row.local_body_id === area.localBodyId) return 0;
+  if (area.districtId && row.district_id === area.districtId) return 1;
+  return 2;
+}
+
+/**
+ * Drops rows outside the scope and moves nearer ones to the front, keeping
+ * the existing order within each ring.
+ */
+export function rankNearby<T extends Located>(rows: T[], area: NearbyArea, scope: NearbyScope): T[] {
+  const maxRing = scope === 'panchayath' ? 0 : scope === 'district' ? 1 : 2;
+  return rows
+    .map((row, index) => ({ row, index, ring: nearbyRing(row, area) }))
+    .filter(entry => entry.ring <= maxRing)
+    .sort((a, b) => a.ring - b.ring || a.index - b.index)
+    .map(entry => entry.row);
+}
+
+interface FilterableQuery {
+  eq(column: string, value: string): FilterableQuery;
+  or(filters: string): FilterableQuery;
+}
+
+/** Limits a query on a table with district_id/local_body_id columns to one ring. */
+export function inNearbyRing<Q>(query: Q, ring: NearbyScope, area: NearbyArea): Q {
+  // PostgREST filters add to the builder in place. Typing Q against
+  // FilterableQuery directly sends tsc into the builder's deep generics.
+  const filterable = query as unknown as FilterableQuery;
+  if (ring === 'panchayath') {
+    filterable.eq('local_body_id', area.localBodyId!);
+  } else if (ring === 'district') {
+    filterable.eq('district_id', area.districtId!);
+    if (area.localBodyId) filterable.or(`local_body_id.is.null,local_body_id.neq.${area.localBodyId}`);
+  } else if (area.districtId) {
+    filterable.or(`district_id.is.null,district_id.neq.${area.districtId}`);
+  }
+  return query;
+}
+
+/**
+ * Fetches ring by ring, nearest first, until `limit` rows are in. Each call
+ * to fetchRing keeps its own ordering, so a list sorted by date stays sorted
+ * within the panchayath, then within the district, then statewide.
+ */
+export async function fetchNearby<T>(
+  area: NearbyArea,
+  scope: NearbyScope,
+  fetchRing: (ring: NearbyScope) => Promise<T[]>,
+  limit?: number
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (const ring of nearbyRings(area, scope)) {
+    if (limit !== undefined && rows.length >= limit) break;
+    rows.push(...(await fetchRing(ring)));
+  }
+  return limit !== undefined ? rows.slice(0, limit) : rows;
+}
+
+/** "350 m", "2.4 km" or "18 km". */
+export function formatDistance(km: number): string {
+  if (km < 1) return `${Math.max(50, Math.round((km * 1000) / 50) * 50)} m`;
+  return km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km)} km`;
+}
@@ -0,0 +1,21 @@
+import { supabase } from '@/integrations/supabase/client';
+
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
+/**
+ * Profiles as the current viewer may see them. email, mobile_number, location
+ * and date_of_birth come back null unless the owner chose to show them, or the
+ * viewer is the owner or an admin. The private columns cannot be selected from
+ * the profiles table directly. The viewer is identified by the x-session-token
+ * header, so the database can apply filters and limits before the privacy
+ * projection instead of reading every profile.
+ *
+ * Returns a query builder, so callers chain .select(), filters and .limit() as usual.
+ */
+export function publicProfiles(ids?: string[] | null, sessionToken: string | null = getSessionToken()) {
+  const query = supabase.rpc('get_public_profiles', { p_ids: ids ?? undefined });
+  return sessionToken ? query.setHeader('x-session-token', sessionToken) : query;
+}
@@ -0,0 +1,9 @@
+// Reasons offered when reporting a post, comment or business review
+export const REPORT_REASONS = [
+  { value: 'spam', label: 'Spam or misleading' },
+  { value: 'harassment', label: 'Harassment or bullying' },
+  { value: 'hate_speech', label: 'Hate speech or discrimination' },
+  { value: 'inappropriate', label: 'Inappropriate content' },
+  { value: 'violence', label: 'Violence or dangerous content' },
+  { value: 'other', label: 'Other' },
+];
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { extractUrls, parseRichText, tokenAtCaret } from "./richText";
+
+const hashtagsOf = (content: string) =>
+  parseRichText(content).flatMap((s) => (s.type === "hashtag" ? [s.tag] : []));
+const mentionsOf = (content: string) =>
+  parseRichText(content).flatMap((s) => (s.type === "mention" ? [s.username.toLowerCase()] : []));
+
+describe("parseRichText", () => {
+  it("returns plain text as a single segment", () => {
+    expect(parseRichText("Good morning")).toEqual([{ type: "text", value: "Good morning" }]);
+    expect(parseRichText("")).toEqual([]);
+  });
+
+  it("splits out mentions and keeps the surrounding text", () => {
+    expect(parseRichText("Thanks @anu_k!")).toEqual([
+      { type: "text", value: "Thanks " },
+      { type: "mention", value: "@anu_k", username: "anu_k" },
+      { type: "text", value: "!" },
+    ]);
+  });
+
+  it("skips email addresses and usernames outside 3-30 characters", () => {
+    expect(mentionsOf("mail me at anu@example.com")).toEqual([]);
+    expect(mentionsOf("@ab is too short")).toEqual([]);
+    expect(mentionsOf(`@${"a".repeat(31)}`)).toEqual([]);
+    expect(mentionsOf(`@${"a".repeat(30)}`)).toEqual(["a".repeat(30)]);
+  });
+
+  it("lowercases hashtags and accepts Malayalam", () => {
+    expect(parseRichText("#Onam at home")[0]).toEqual({ type: "hashtag", value: "#Onam", tag: "onam" });
+    expect(hashtagsOf("ഓണം #കേരളം")).toEqual(["കേരളം"]);
+  });
+
+  it("leaves numeric-only tags and HTML entities as plain text", () => {
+    expect(parseRichText("We are #1 in town")).toEqual([{ type: "text", value: "We are #1 in town" }]);
+    expect(hashtagsOf("Tom&#39;s")).toEqual([]);
+  });
+
+  it("drops trailing punctuation from links", () => {
+    expect(parseRichText("see https://example.com/a.")).toEqual([
+      { type: "text", value: "see " },
+      { type: "link", value: "https://example.com/a", url: "https://example.com/a" },
+      { type: "text", value: "." },
+    ]);
+    expect(parseRichText("(https://example.com)")[1]).toMatchObject({ url: "https://example.com" });
+  });
+
+  it("keeps an @ or # inside a link as part of the link", () => {
+    const segments = parseRichText("https://medium.com/@writer#intro by @writer");
+    expect(segments[0]).toEqual({
+      type: "link",
+      value: "https://medium.com/@writer#intro",
+      url: "https://medium.com/@writer#intro",
+    });
+    expect(mentionsOf("https://medium.com/@writer#intro by @writer")).toEqual(["writer"]);
+    expect(hashtagsOf("https://example.com/page#section")).toEqual([]);
+  });
+});
+
+describe("extractUrls", () => {
+  it("returns distinct links in order", () => {
+    expect(extractUrls("https://b.com then https://a.com and https://b.com")).toEqual([
+      "https://b.com",
+      "https://a.com",
+    ]);
+    expect(extractUrls(null)).toEqual([]);
+  });
+});
+
+describe("tokenAtCaret", () => {
+  it("finds the hashtag or mention being typed", () => {
+    expect(tokenAtCaret("Happy #ona", 10)).toEqual({ trigger: "#", query: "ona", start: 6 });
+    expect(tokenAtCaret("cc @an", 6)).toEqual({ trigger: "@", query: "an", start: 3 });
+  });
+
+  it("starts suggesting right after the trigger character", () => {
+    expect(tokenAtCaret("@", 1)).toEqual({ trigger: "@", query: "", start: 0 });
+    expect(tokenAtCaret("hi #", 4)).toEqual({ trigger: "#", query: "", start: 3 });
+  });
+
+  it("only looks at the text before the caret", () => {
+    expect(tokenAtCaret("#onam later", 3)).toEqual({ trigger: "#", query: "on", start: 0 });
+    expect(tokenAtCaret("#onam later", 11)).toBeNull();
+  });
+
+  it("ignores triggers that are not at the start of a word", () => {
+    expect(tokenAtCaret("anu@exa", 7)).toBeNull();
+    expect(tokenAtCaret("page#sec", 8)).toBeNull();
+    expect(tokenAtCaret("", 0)).toBeNull();
+  });
+
+  it("accepts Malayalam hashtags but not Malayalam usernames", () => {
+    expect(tokenAtCaret("#കേര", 4)).toEqual({ trigger: "#", query: "കേര", start: 0 });
+    expect(tokenAtCaret("@കേര", 4)).toBeNull();
+  });
+});
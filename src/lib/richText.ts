@@ -0,0 +1,75 @@
+export type RichTextSegment =
+  | { type: 'text'; value: string }
+  | { type: 'link'; value: string; url: string }
+  | { type: 'hashtag'; value: string; tag: string }
+  | { type: 'mention'; value: string; username: string };
+
+// http(s) links, leaving out trailing punctuation so "see https://x.com." works.
+// Mirrored by supabase/functions/_shared/tags.ts, which skips links when indexing.
+const URL_SOURCE = String.raw`https?:\/\/[^\s<>"']*[^\s<>"'.,;:!?)\]}]`;
+const URL_PATTERN = new RegExp(URL_SOURCE, 'g');
+
+// Same token rules as supabase/functions/_shared/tags.ts, which indexes them.
+// Links are matched first so an @ or # inside one stays part of the link.
+const TOKEN_PATTERN = new RegExp(
+  `(${URL_SOURCE})` +
+    String.raw`|(^|[^\p{L}\p{M}\p{N}_&/])#([\p{L}\p{M}\p{N}_]{1,50})(?![\p{L}\p{M}\p{N}_])` +
+    String.raw`|(^|[^A-Za-z0-9_.@])@([A-Za-z0-9_]{3,30})(?![A-Za-z0-9_])`,
+  'gu'
+);
+
+/**
+ * Splits post or comment text into plain text, link, #hashtag and @mention
+ * segments. Numeric-only tags like "#1" stay plain text.
+ */
+export function parseRichText(content: string): RichTextSegment[] {
+  const segments: RichTextSegment[] = [];
+  let last = 0;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const previous = segments[segments.length - 1];
+    if (previous?.type === 'text') previous.value += value;
+    else segments.push({ type: 'text', value });
+  };
+
+  for (const match of content.matchAll(TOKEN_PATTERN)) {
+    const [, link, tagLead, tag, mentionLead, username] = match;
+    const lead = tagLead ?? mentionLead ?? '';
+    const start = match.index! + lead.length;
+
+    pushText(content.slice(last, start));
+    if (link !== undefined) {
+      segments.push({ type: 'link', value: link, url: link });
+    } else if (tag !== undefined) {
+      if (/\p{L}/u.test(tag)) {
+        segments.push({ type: 'hashtag', value: `#${tag}`, tag: tag.toLowerCase() });
+      } else {
+        pushText(`#${tag}`);
+      }
+    } else {
+      segments.push({ type: 'mention', value: `@${username}`, username });
+    }
+    last = match.index! + match[0].length;
+  }
+
+  pushText(content.slice(last));
+  return segments;
+}
+
+// Distinct links in the order they appear
+export function extractUrls(content: string | null | undefined): string[] {
+  return [...new Set((content || '').match(URL_PATTERN) || [])];
+}
+
+// The token being typed right before the caret, for composer autocomplete
+export function tokenAtCaret(
+  text: string,
+  caret: number
+): { trigger: '#' | '@'; query: string; start: number } | null {
+  const match = text.slice(0, caret).match(/(?:^|\s)([#@])([\p{L}\p{M}\p{N}_]{0,50})$/u);
+  if (!match) return null;
+  const trigger = match[1] as '#' | '@';
+  if (trigger === '@' && !/^[A-Za-z0-9_]*$/.test(match[2])) return null;
+  return { trigger, query: match[2], start: caret - match[2].length - 1 };
+}
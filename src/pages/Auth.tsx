@@ -9,13 +9,15 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { Eye, EyeOff, Phone, Lock, User, ArrowLeft, AtSign, Check, X, Loader2, CalendarIcon, Pencil } from 'lucide-react';
+import { Eye, EyeOff, Phone, Lock, User, ArrowLeft, AtSign, Check, X, Loader2, CalendarIcon, Pencil, ShieldAlert, Ban } from 'lucide-react';
 import { z } from 'zod';
 import { Checkbox } from '@/components/ui/checkbox';
 import { supabase } from '@/integrations/supabase/client';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { describeSuspensionEnd, type AccountSuspension } from '@/hooks/useAccountStatus';
 
 const phoneSchema = z.string().min(1, 'Mobile number is required').refine(
   (val) => /^[0-9]{10}$/.test(val),
@@ -48,6 +50,9 @@ export default function Auth() {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isOver18, setIsOver18] = useState(false);
   const [dateOfBirth, setDateOfBirth] = useState<Date | undefined>(undefined);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [suspension, setSuspension] = useState<AccountSuspension | null>(null);
+  const [now, setNow] = useState(Date.now());
   
   const { user, signUpWithMobile, signInWithMobile } = useAuth();
   const navigate = useNavigate();
@@ -59,12 +64,27 @@ export default function Auth() {
     }
   }, [user, navigate]);
 
+  // Tick while locked out so the remaining time stays current
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) setLockedUntil(null);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  // Lockouts are per number, so a different number gets a fresh check from the server
+  useEffect(() => {
+    setLockedUntil(null);
+    setSuspension(null);
+  }, [mobileNumber]);
+
+  const lockoutMinutes = lockedUntil ? Math.max(1, Math.ceil((lockedUntil - now) / 60000)) : 0;
+
   const checkMobileExists = async (mobile: string): Promise<boolean> => {
     const { data, error } = await supabase
-      .from('profiles')
-      .select('id')
-      .eq('mobile_number', mobile)
-      .maybeSingle();
+      .rpc('is_mobile_registered', { p_mobile_number: mobile });
     
     return !!data && !error;
   };
@@ -228,8 +248,13 @@ export default function Auth() {
       }
 
       if (mode === 'signin') {
-        const { error } = await signInWithMobile(mobileNumber, password);
-        if (error) {
+        const { error, retryAfter, suspension: accountSuspension } = await signInWithMobile(mobileNumber, password);
+        if (error && retryAfter) {
+          setNow(Date.now());
+          setLockedUntil(Date.now() + retryAfter * 1000);
+        } else if (error && accountSuspension) {
+          setSuspension(accountSuspension);
+        } else if (error) {
           toast({
             title: 'Sign in failed',
             description: error.message,
@@ -572,10 +597,27 @@ export default function Auth() {
                   </>
                 )}
 
+                {mode === 'signin' && lockedUntil && (
+                  <Alert variant="destructive">
+                    <ShieldAlert className="h-4 w-4" />
+                    <AlertDescription>
+                      Too many failed sign-in attempts. Try again in {lockoutMinutes} minute{lockoutMinutes === 1 ? '' : 's'}.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {mode === 'signin' && suspension && (
+                  <Alert variant="destructive">
+                    <Ban className="h-4 w-4" />
+                    <AlertTitle>Account suspended {describeSuspensionEnd(suspension)}</AlertTitle>
+                    <AlertDescription>Reason: {suspension.reason}</AlertDescription>
+                  </Alert>
+                )}
+
                 <Button 
                   type="submit" 
                   className="w-full h-12 gradient-primary text-white font-semibold" 
-                  disabled={loading || (mode === 'signup' && !isOver18)}
+                  disabled={loading || (mode === 'signup' && !isOver18) || (mode === 'signin' && !!lockedUntil)}
                 >
                   {loading ? 'Please wait...' : mode === 'signin' ? 'Sign In' : 'Create Account'}
                 </Button>
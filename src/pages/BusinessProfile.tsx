@@ -1,7 +1,10 @@
 import { useState, useEffect, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { PostCard } from '@/components/feed/PostCard';
+import { ReviewsTab } from '@/components/business/ReviewsTab';
+import { CatalogTab } from '@/components/business/CatalogTab';
+import { RatingBadge } from '@/components/business/StarRating';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -13,6 +16,7 @@ import { Input } from '@/components/ui/input';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { compressImage } from '@/lib/imageCompression';
 import { 
   MapPin, 
   Globe,
@@ -26,7 +30,9 @@ import {
   Plus,
   X,
   Loader2,
-  Upload
+  Upload,
+  Star,
+  Package
 } from 'lucide-react';
 
 interface BusinessData {
@@ -42,6 +48,8 @@ interface BusinessData {
   youtube_link: string | null;
   owner_id: string | null;
   created_at: string | null;
+  rating_average: number | null;
+  rating_count: number;
 }
 
 interface BusinessImage {
@@ -90,6 +98,7 @@ const CATEGORY_INFO: Record<string, { label: string; icon: string }> = {
 export default function BusinessProfile() {
   const { id } = useParams();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { user, profile } = useAuth();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -145,7 +154,8 @@ export default function BusinessProfile() {
           profiles:user_id (id, full_name, username, avatar_url),
           businesses:business_id (id, name, logo_url),
           post_likes (user_id),
-          comments (id)
+          comments (id),
+          post_images (image_url, alt_text, position, width, height)
         `)
         .eq('business_id', id)
         .order('created_at', { ascending: false });
@@ -188,6 +198,20 @@ export default function BusinessProfile() {
     }
   };
 
+  // The review triggers keep the summary on the business row
+  const refreshRating = async () => {
+    if (!id) return;
+    const { data } = await supabase
+      .from('businesses')
+      .select('rating_average, rating_count')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (data) {
+      setBusiness(prev => prev && { ...prev, ...data });
+    }
+  };
+
   const handleFollow = async () => {
     if (!user || !id) {
       navigate('/auth');
@@ -254,16 +278,16 @@ export default function BusinessProfile() {
 
     setPostLoading(true);
     try {
-      let imageUrl = null;
+      const images = [];
 
-      // Upload image if selected
+      // Upload image if selected, resized and without EXIF
       if (postImageFile) {
-        const fileExt = postImageFile.name.split('.').pop();
-        const fileName = `${id}/${Date.now()}.${fileExt}`;
+        const compressed = await compressImage(postImageFile);
+        const fileName = `${user.id}/${Date.now()}.${compressed.extension}`;
         
         const { error: uploadError } = await supabase.storage
           .from('posts')
-          .upload(fileName, postImageFile);
+          .upload(fileName, compressed.blob, { contentType: compressed.blob.type });
 
         if (uploadError) throw uploadError;
 
@@ -271,18 +295,21 @@ export default function BusinessProfile() {
           .from('posts')
           .getPublicUrl(fileName);
 
-        imageUrl = urlData.publicUrl;
+        images.push({ url: urlData.publicUrl, width: compressed.width, height: compressed.height });
       }
 
+      const stored = localStorage.getItem('samrambhak_auth');
+      const sessionToken = stored ? JSON.parse(stored).session_token : null;
+
       // Create post via edge function
       const response = await supabase.functions.invoke('create-post', {
         body: {
-          user_id: user.id,
           content: postContent.trim() || null,
-          image_url: imageUrl,
+          images,
           youtube_url: postYoutubeUrl || null,
           business_id: id,
         },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (response.error) {
@@ -402,9 +429,16 @@ export default function BusinessProfile() {
                 <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
                   <div>
                     <h1 className="text-2xl font-bold text-foreground">{business.name}</h1>
-                    <Badge variant="secondary" className="mt-1">
-                      {categoryInfo.icon} {categoryInfo.label}
-                    </Badge>
+                    <div className="flex flex-wrap items-center gap-2 mt-1">
+                      <Badge variant="secondary">
+                        {categoryInfo.icon} {categoryInfo.label}
+                      </Badge>
+                      <RatingBadge
+                        average={business.rating_average}
+                        count={business.rating_count}
+                        className="text-sm"
+                      />
+                    </div>
                   </div>
                   
                   <div className="flex gap-2">
@@ -498,9 +532,17 @@ export default function BusinessProfile() {
         </Card>
 
         {/* Tabs */}
-        <Tabs defaultValue="posts" className="w-full">
-          <TabsList className="w-full grid grid-cols-2">
+        <Tabs defaultValue={searchParams.get('tab') || 'posts'} className="w-full">
+          <TabsList className="w-full grid grid-cols-4">
             <TabsTrigger value="posts">Posts</TabsTrigger>
+            <TabsTrigger value="catalog">
+              <Package className="h-4 w-4 mr-1" />
+              Catalog
+            </TabsTrigger>
+            <TabsTrigger value="reviews">
+              <Star className="h-4 w-4 mr-1" />
+              Reviews{business.rating_count > 0 && ` (${business.rating_count})`}
+            </TabsTrigger>
             <TabsTrigger value="gallery">
               <ImageIcon className="h-4 w-4 mr-1" />
               Gallery
@@ -623,6 +665,26 @@ export default function BusinessProfile() {
             )}
           </TabsContent>
 
+          <TabsContent value="catalog" className="mt-4">
+            <CatalogTab
+              businessId={business.id}
+              businessName={business.name}
+              ownerId={business.owner_id}
+              isOwner={isOwner}
+            />
+          </TabsContent>
+
+          <TabsContent value="reviews" className="mt-4">
+            <ReviewsTab
+              businessId={business.id}
+              businessName={business.name}
+              isOwner={isOwner}
+              ratingAverage={business.rating_average}
+              ratingCount={business.rating_count}
+              onReviewsChanged={refreshRating}
+            />
+          </TabsContent>
+
           <TabsContent value="gallery" className="mt-4">
             {/* Upload Button for Owners */}
             {isOwner && (
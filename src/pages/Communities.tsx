@@ -21,6 +21,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Plus, Users, UserPlus, UserMinus, Crown, Edit, Trash2, Clock } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { LocalAreaSelect } from '@/components/settings/LocalAreaSelect';
+import { EMPTY_GEO_LOCATION, type GeoLocation } from '@/lib/location';
 
 interface Community {
   id: string;
@@ -29,6 +31,8 @@ interface Community {
   cover_image_url: string | null;
   created_by: string | null;
   approval_status: string | null;
+  district_id?: string | null;
+  local_body_id?: string | null;
   member_count: number;
   is_member: boolean;
   is_creator: boolean;
@@ -50,6 +54,7 @@ export default function Communities() {
   // Form state
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [area, setArea] = useState<GeoLocation>(EMPTY_GEO_LOCATION);
 
   useEffect(() => {
     fetchCommunities();
@@ -132,6 +137,7 @@ export default function Communities() {
           action: 'create',
           name: name.trim(),
           description: description.trim() || null,
+          ...area,
         },
         headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
@@ -143,6 +149,7 @@ export default function Communities() {
       setDialogOpen(false);
       setName('');
       setDescription('');
+      setArea(EMPTY_GEO_LOCATION);
       fetchCommunities();
     } catch (error: any) {
       toast({ title: 'Error creating community', description: error.message, variant: 'destructive' });
@@ -206,6 +213,11 @@ export default function Communities() {
     setEditingCommunity(community);
     setName(community.name);
     setDescription(community.description || '');
+    setArea({
+      district_id: community.district_id ?? null,
+      local_body_id: community.local_body_id ?? null,
+      ward_id: null,
+    });
     setEditDialogOpen(true);
   };
 
@@ -225,6 +237,7 @@ export default function Communities() {
           community_id: editingCommunity.id,
           name: name.trim(),
           description: description.trim() || null,
+          ...area,
         },
         headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
@@ -326,6 +339,8 @@ export default function Communities() {
                     rows={3}
                   />
                 </div>
+
+                <LocalAreaSelect value={area} onChange={setArea} />
                 
                 <Button 
                   onClick={handleCreateCommunity} 
@@ -419,6 +434,7 @@ export default function Communities() {
             setEditingCommunity(null);
             setName('');
             setDescription('');
+            setArea(EMPTY_GEO_LOCATION);
           }
         }}>
           <DialogContent className="sm:max-w-md">
@@ -446,6 +462,8 @@ export default function Communities() {
                   rows={3}
                 />
               </div>
+
+              <LocalAreaSelect value={area} onChange={setArea} />
               
               <Button 
                 onClick={handleUpdateCommunity} 
@@ -27,6 +27,7 @@ import {
   Settings2
 } from 'lucide-react';
 import { PollsTab } from '@/components/community/PollsTab';
+import { RichText } from '@/components/feed/RichText';
 import { formatDistanceToNow } from 'date-fns';
 
 interface Community {
@@ -185,16 +186,21 @@ export default function CommunityDetail() {
 
     setSending(true);
     try {
-      const { error } = await supabase
-        .from('community_discussions')
-        .insert({
+      const stored = localStorage.getItem('samrambhak_auth');
+      const sessionToken = stored ? JSON.parse(stored).session_token : null;
+
+      const { data, error } = await supabase.functions.invoke('manage-community', {
+        body: {
+          action: 'post_discussion',
           community_id: id,
-          user_id: user.id,
           content: newMessage.trim(),
-        });
+        },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+      });
 
       if (error) throw error;
-      
+      if (data?.error) throw new Error(data.error);
+
       setNewMessage('');
       toast({ title: 'Message posted!' });
       fetchCommunityData();
@@ -583,9 +589,10 @@ export default function CommunityDetail() {
                               </Button>
                             )}
                           </div>
-                          <p className="text-foreground whitespace-pre-wrap break-words">
-                            {discussion.content}
-                          </p>
+                          <RichText
+                            content={discussion.content}
+                            className="text-foreground whitespace-pre-wrap break-words"
+                          />
                         </div>
                       </div>
                     </CardContent>
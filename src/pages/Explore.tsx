@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { Input } from '@/components/ui/input';
@@ -8,17 +8,38 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
+import { publicProfiles } from '@/lib/publicProfiles';
 import { useAuth } from '@/contexts/AuthContext';
+import { useNearby, useViewerPoint } from '@/hooks/useNearby';
+import { useBusinessDistances, useNearbyBusinessSearch } from '@/hooks/useNearbyBusinesses';
+import { useToast } from '@/hooks/use-toast';
+import { fetchNearby, inNearbyRing } from '@/lib/nearby';
+import { NearbyScopeTabs } from '@/components/feed/NearbyScopeTabs';
+import { DistanceBadge } from '@/components/feed/DistanceBadge';
+import { RatingBadge } from '@/components/business/StarRating';
+import type { Database } from '@/integrations/supabase/types';
 import { 
   Search, 
   Users, 
   Building2, 
   Hash,
   MapPin,
-  TrendingUp
+  TrendingUp,
+  Navigation,
+  Crosshair,
+  Loader2
 } from 'lucide-react';
 
+type BusinessCategory = Database['public']['Enums']['business_category'];
+
 interface UserResult {
   id: string;
   full_name: string | null;
@@ -35,6 +56,8 @@ interface BusinessResult {
   logo_url: string | null;
   category: string;
   location: string | null;
+  rating_average?: number | null;
+  rating_count?: number;
 }
 
 interface CommunityResult {
@@ -70,22 +93,18 @@ export default function Explore() {
   const [communities, setCommunities] = useState<CommunityResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [trendingBusinesses, setTrendingBusinesses] = useState<BusinessResult[]>([]);
+  const [localBusinesses, setLocalBusinesses] = useState<BusinessResult[]>([]);
+  const { area, scope, setScope } = useNearby();
+  const { point } = useViewerPoint();
+  const { data: distances = {} } = useBusinessDistances(
+    point,
+    [...trendingBusinesses, ...localBusinesses, ...businesses].map((b) => b.id)
+  );
 
   useEffect(() => {
     fetchTrendingBusinesses();
-    if (searchParams.get('q')) {
-      handleSearch();
-    }
   }, []);
 
-  useEffect(() => {
-    const query = searchParams.get('q');
-    if (query) {
-      setSearchQuery(query);
-      handleSearch();
-    }
-  }, [searchParams]);
-
   const fetchTrendingBusinesses = async () => {
     const { data } = await supabase
       .from('businesses')
@@ -96,44 +115,101 @@ export default function Explore() {
     setTrendingBusinesses(data || []);
   };
 
-  const handleSearch = async () => {
-    if (!searchQuery.trim()) return;
-    
+  const fetchLocalBusinesses = useCallback(async () => {
+    if (!area.districtId) {
+      setLocalBusinesses([]);
+      return;
+    }
+
+    const data = await fetchNearby(area, scope, async (ring) => {
+      const { data } = await inNearbyRing(
+        supabase
+          .from('businesses')
+          .select('id, name, description, logo_url, category, location, rating_average, rating_count')
+          .eq('is_disabled', false),
+        ring,
+        area
+      )
+        .order('created_at', { ascending: false })
+        .limit(6);
+      return data || [];
+    }, 6);
+
+    setLocalBusinesses(data);
+  }, [area, scope]);
+
+  // Local businesses follow the area switch
+  useEffect(() => {
+    fetchLocalBusinesses();
+  }, [fetchLocalBusinesses]);
+
+  const runSearch = useCallback(async (query: string) => {
     setLoading(true);
-    setSearchParams({ q: searchQuery });
 
     try {
       // Search users
-      const { data: usersData } = await supabase
-        .from('profiles')
+      const { data: usersData } = await publicProfiles()
         .select('id, full_name, username, avatar_url, bio, location')
-        .or(`full_name.ilike.%${searchQuery}%,username.ilike.%${searchQuery}%,bio.ilike.%${searchQuery}%`)
+        .or(`full_name.ilike.%${query}%,username.ilike.%${query}%,bio.ilike.%${query}%`)
         .limit(20);
 
       setUsers(usersData || []);
 
-      // Search businesses
-      const { data: businessesData } = await supabase
-        .from('businesses')
-        .select('id, name, description, logo_url, category, location')
-        .or(`name.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%`)
-        .limit(20);
-
-      setBusinesses(businessesData || []);
-
-      // Search communities
-      const { data: communitiesData } = await supabase
-        .from('communities')
-        .select('id, name, description, cover_image_url')
-        .or(`name.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%`)
-        .limit(20);
-
-      setCommunities(communitiesData || []);
+      // Search businesses, nearest first
+      const businessesData = await fetchNearby(area, scope, async (ring) => {
+        const { data } = await inNearbyRing(
+          supabase
+            .from('businesses')
+            .select('id, name, description, logo_url, category, location, rating_average, rating_count')
+            .or(`name.ilike.%${query}%,description.ilike.%${query}%`),
+          ring,
+          area
+        ).limit(20);
+        return data || [];
+      }, 20);
+
+      setBusinesses(businessesData);
+
+      // Search communities, nearest first
+      const communitiesData = await fetchNearby(area, scope, async (ring) => {
+        const { data } = await inNearbyRing(
+          supabase
+            .from('communities')
+            .select('id, name, description, cover_image_url')
+            .or(`name.ilike.%${query}%,description.ilike.%${query}%`),
+          ring,
+          area
+        ).limit(20);
+        return data || [];
+      }, 20);
+
+      setCommunities(communitiesData);
     } catch (error) {
       console.error('Search error:', error);
     } finally {
       setLoading(false);
     }
+  }, [area, scope]);
+
+  // The ?q= in the address drives the search, so results follow links, back
+  // and forward, and the area switch
+  useEffect(() => {
+    const query = searchParams.get('q');
+    if (query) {
+      setSearchQuery(query);
+      runSearch(query);
+    }
+  }, [searchParams, runSearch]);
+
+  const handleSearch = () => {
+    const query = searchQuery.trim();
+    if (!query) return;
+
+    if (searchParams.get('q') === query) {
+      runSearch(query);
+    } else {
+      setSearchParams({ q: query });
+    }
   };
 
   const handleCategoryClick = async (category: string) => {
@@ -141,13 +217,19 @@ export default function Explore() {
     setActiveTab('businesses');
     
     try {
-      const { data } = await supabase
-        .from('businesses')
-        .select('id, name, description, logo_url, category, location')
-        .eq('category', category as any)
-        .limit(20);
-
-      setBusinesses(data || []);
+      const data = await fetchNearby(area, scope, async (ring) => {
+        const { data } = await inNearbyRing(
+          supabase
+            .from('businesses')
+            .select('id, name, description, logo_url, category, location, rating_average, rating_count')
+            .eq('category', category as any),
+          ring,
+          area
+        ).limit(20);
+        return data || [];
+      }, 20);
+
+      setBusinesses(data);
       setSearchQuery(`Category: ${category}`);
     } catch (error) {
       console.error('Error fetching category:', error);
@@ -180,8 +262,25 @@ export default function Explore() {
               Search
             </Button>
           </form>
+
+          <NearbyScopeTabs area={area} value={scope} onChange={setScope} />
         </div>
 
+        {/* Businesses near the viewer */}
+        {!searchParams.get('q') && localBusinesses.length > 0 && (
+          <div className="space-y-4">
+            <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+              <Navigation className="h-5 w-5" />
+              Businesses Near You
+            </h2>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {localBusinesses.map((business) => (
+                <BusinessCard key={business.id} business={business} distanceKm={distances[business.id]} />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Categories Grid */}
         {!searchParams.get('q') && (
           <div className="space-y-4">
@@ -215,12 +314,15 @@ export default function Explore() {
             </h2>
             <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
               {trendingBusinesses.map((business) => (
-                <BusinessCard key={business.id} business={business} />
+                <BusinessCard key={business.id} business={business} distanceKm={distances[business.id]} />
               ))}
             </div>
           </div>
         )}
 
+        {/* Distance search */}
+        {!searchParams.get('q') && <DistanceSearch />}
+
         {/* Search Results */}
         {searchParams.get('q') && (
           <div className="space-y-4">
@@ -274,7 +376,7 @@ export default function Explore() {
                         <h3 className="font-semibold text-foreground">Businesses</h3>
                         <div className="grid gap-3 sm:grid-cols-2">
                           {businesses.slice(0, 4).map((business) => (
-                            <BusinessCard key={business.id} business={business} />
+                            <BusinessCard key={business.id} business={business} distanceKm={distances[business.id]} />
                           ))}
                         </div>
                         {businesses.length > 4 && (
@@ -316,7 +418,7 @@ export default function Explore() {
                   <TabsContent value="businesses" className="mt-4">
                     <div className="grid gap-3 sm:grid-cols-2">
                       {businesses.map((business) => (
-                        <BusinessCard key={business.id} business={business} />
+                        <BusinessCard key={business.id} business={business} distanceKm={distances[business.id]} />
                       ))}
                     </div>
                   </TabsContent>
@@ -374,7 +476,118 @@ function UserCard({ user }: { user: UserResult }) {
   );
 }
 
-function BusinessCard({ business }: { business: BusinessResult }) {
+const RADIUS_OPTIONS = ['5', '10', '25', '50'];
+const ANY = 'any';
+
+// "Handmade within 10 km": nearest first, paged by the database
+function DistanceSearch() {
+  const { toast } = useToast();
+  const { point, source, locate, locating } = useViewerPoint();
+  const [category, setCategory] = useState<string>(ANY);
+  const [radius, setRadius] = useState('10');
+  const {
+    data,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useNearbyBusinessSearch({
+    point,
+    radiusKm: radius === ANY ? null : Number(radius),
+    category: category === ANY ? null : (category as BusinessCategory),
+  });
+  const results = data?.pages.flat() || [];
+
+  const handleLocate = async () => {
+    try {
+      await locate();
+    } catch (error) {
+      toast({ title: 'Location error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+        <MapPin className="h-5 w-5" />
+        Find by Distance
+      </h2>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All categories</SelectItem>
+            {BUSINESS_CATEGORIES.map((c) => (
+              <SelectItem key={c.value} value={c.value}>
+                {c.icon} {c.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={radius} onValueChange={setRadius}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RADIUS_OPTIONS.map((km) => (
+              <SelectItem key={km} value={km}>
+                Within {km} km
+              </SelectItem>
+            ))}
+            <SelectItem value={ANY}>Any distance</SelectItem>
+          </SelectContent>
+        </Select>
+        {source !== 'device' && (
+          <Button variant="outline" size="sm" onClick={handleLocate} disabled={locating}>
+            {locating ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Crosshair className="mr-1 h-4 w-4" />}
+            Use my exact location
+          </Button>
+        )}
+      </div>
+
+      {source === 'local_body' && (
+        <p className="text-xs text-muted-foreground">Measured from the centre of your panchayath.</p>
+      )}
+
+      {!point ? (
+        <p className="text-sm text-muted-foreground">
+          Share your location to see businesses sorted by distance.
+        </p>
+      ) : isLoading ? (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {Array(3).fill(0).map((_, i) => (
+            <Skeleton key={i} className="h-24 w-full rounded-xl" />
+          ))}
+        </div>
+      ) : results.length > 0 ? (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {results.map((business) => (
+              <BusinessCard key={business.id} business={business} distanceKm={business.distance_km} />
+            ))}
+          </div>
+          {hasNextPage && (
+            <Button
+              variant="ghost"
+              className="w-full"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? 'Loading...' : 'Show more'}
+            </Button>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">No businesses found in this range.</p>
+      )}
+    </div>
+  );
+}
+
+function BusinessCard({ business, distanceKm }: { business: BusinessResult; distanceKm?: number }) {
   const navigate = useNavigate();
   const category = BUSINESS_CATEGORIES.find(c => c.value === business.category);
   
@@ -399,6 +612,8 @@ function BusinessCard({ business }: { business: BusinessResult }) {
               <Badge variant="secondary" className="text-xs">
                 {category?.icon} {category?.label || business.category}
               </Badge>
+              <RatingBadge average={business.rating_average} count={business.rating_count} />
+              <DistanceBadge km={distanceKm} />
             </div>
             {business.location && (
               <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
@@ -1,5 +1,4 @@
-import { useState } from 'react';
-import { format } from 'date-fns';
+import { useState, useEffect } from 'react';
 import logoImg from '@/assets/logo.jpg';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
@@ -7,12 +6,10 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { Eye, EyeOff, Phone, Lock, ArrowLeft, Check, X, KeyRound, Loader2, CalendarIcon } from 'lucide-react';
+import { Eye, EyeOff, Phone, Lock, ArrowLeft, Check, X, KeyRound, Loader2, MessageSquare } from 'lucide-react';
 import { z } from 'zod';
 import { supabase } from '@/integrations/supabase/client';
-import { Calendar } from '@/components/ui/calendar';
-import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { cn } from '@/lib/utils';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 
 const phoneSchema = z.string().min(1, 'Mobile number is required').refine(
   (val) => /^[0-9]{10}$/.test(val),
@@ -20,12 +17,14 @@ const phoneSchema = z.string().min(1, 'Mobile number is required').refine(
 );
 const passwordSchema = z.string().min(6, 'Password must be at least 6 characters');
 
-type Step = 'verify' | 'password' | 'success';
+type Step = 'request' | 'verify' | 'password' | 'success';
 
 export default function ForgotPassword() {
-  const [step, setStep] = useState<Step>('verify');
+  const [step, setStep] = useState<Step>('request');
   const [mobileNumber, setMobileNumber] = useState('');
-  const [dateOfBirth, setDateOfBirth] = useState<Date | undefined>(undefined);
+  const [otpCode, setOtpCode] = useState('');
+  const [resetToken, setResetToken] = useState('');
+  const [resendIn, setResendIn] = useState(0);
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -66,23 +65,69 @@ export default function ForgotPassword() {
 
   const passwordStrength = getPasswordStrength(newPassword);
 
-  const handleVerifyIdentity = async () => {
-    const newErrors: Record<string, string> = {};
-    
+  // Count down the resend cooldown
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  // Edge function errors arrive as a non-2xx response; read the JSON body for the message
+  const getFunctionError = async (error: { message?: string; context?: Response }, fallback: string) => {
+    try {
+      const body = await error?.context?.json?.();
+      if (body?.error) return body.error as string;
+    } catch {
+      // Ignore parse errors
+    }
+    return error?.message || fallback;
+  };
+
+  const handleRequestOtp = async () => {
     const phoneResult = phoneSchema.safeParse(mobileNumber);
     if (!phoneResult.success) {
-      newErrors.mobileNumber = phoneResult.error.errors[0].message;
+      setErrors({ mobileNumber: phoneResult.error.errors[0].message });
+      return;
     }
-    
-    if (!dateOfBirth) {
-      newErrors.dateOfBirth = 'Date of birth is required';
+
+    setErrors({});
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('password-reset', {
+        body: {
+          action: 'request_otp',
+          mobile_number: mobileNumber,
+        }
+      });
+
+      if (error) throw new Error(await getFunctionError(error, 'Failed to send code'));
+      if (data.error) throw new Error(data.error);
+
+      toast({
+        title: 'Code Sent',
+        description: data.message || 'Enter the 6-digit code sent to your mobile number.',
+      });
+      setOtpCode('');
+      setResendIn(data.resend_after ?? 60);
+      setStep('verify');
+    } catch (error) {
+      toast({
+        title: 'Could Not Send Code',
+        description: error instanceof Error && error.message ? error.message : 'Failed to send code',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
     }
-    
-    if (Object.keys(newErrors).length > 0) {
-      setErrors(newErrors);
+  };
+
+  const handleVerifyIdentity = async () => {
+    if (!/^[0-9]{6}$/.test(otpCode)) {
+      setErrors({ otpCode: 'Please enter the 6-digit code' });
       return;
     }
-    
+
     setErrors({});
     setLoading(true);
 
@@ -91,22 +136,24 @@ export default function ForgotPassword() {
         body: { 
           action: 'verify_identity', 
           mobile_number: mobileNumber,
-          date_of_birth: format(dateOfBirth!, 'yyyy-MM-dd')
+          otp_code: otpCode,
         }
       });
 
-      if (error) throw error;
+      if (error) throw new Error(await getFunctionError(error, 'Incorrect code'));
       if (data.error) throw new Error(data.error);
 
+      setResetToken(data.reset_token);
       toast({
         title: 'Identity Verified',
         description: 'Please set your new password.',
       });
       setStep('password');
-    } catch (error: any) {
+    } catch (error) {
+      setOtpCode('');
       toast({
         title: 'Verification Failed',
-        description: error.message || 'Mobile number and date of birth do not match',
+        description: error instanceof Error && error.message ? error.message : 'Incorrect code',
         variant: 'destructive'
       });
     } finally {
@@ -137,12 +184,12 @@ export default function ForgotPassword() {
         body: { 
           action: 'reset_password', 
           mobile_number: mobileNumber, 
-          date_of_birth: format(dateOfBirth!, 'yyyy-MM-dd'),
+          reset_token: resetToken,
           new_password: newPassword 
         }
       });
 
-      if (error) throw error;
+      if (error) throw new Error(await getFunctionError(error, 'Failed to reset password'));
       if (data.error) throw new Error(data.error);
 
       toast({
@@ -150,10 +197,10 @@ export default function ForgotPassword() {
         description: 'You can now sign in with your new password.',
       });
       setStep('success');
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: 'Reset Failed',
-        description: error.message || 'Failed to reset password',
+        description: error instanceof Error && error.message ? error.message : 'Failed to reset password',
         variant: 'destructive'
       });
     } finally {
@@ -163,13 +210,13 @@ export default function ForgotPassword() {
 
   const renderStepContent = () => {
     switch (step) {
-      case 'verify':
+      case 'request':
         return (
           <>
             <CardHeader className="space-y-1 pb-4">
               <CardTitle className="text-2xl text-center">Forgot Password</CardTitle>
               <CardDescription className="text-center">
-                Enter your registered mobile number and date of birth to verify your identity
+                Enter your registered mobile number and we'll send you a verification code
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -192,44 +239,55 @@ export default function ForgotPassword() {
                 {errors.mobileNumber && <p className="text-sm text-destructive">{errors.mobileNumber}</p>}
               </div>
               
-              <div className="space-y-2">
-                <Label>Date of Birth</Label>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button
-                      variant="outline"
-                      className={cn(
-                        "w-full justify-start text-left font-normal",
-                        !dateOfBirth && "text-muted-foreground"
-                      )}
-                    >
-                      <CalendarIcon className="mr-2 h-4 w-4" />
-                      {dateOfBirth ? format(dateOfBirth, "PPP") : <span>Select your date of birth</span>}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <Calendar
-                      mode="single"
-                      selected={dateOfBirth}
-                      onSelect={setDateOfBirth}
-                      disabled={(date) =>
-                        date > new Date() || date < new Date("1900-01-01")
-                      }
-                      initialFocus
-                      className={cn("p-3 pointer-events-auto")}
-                      captionLayout="dropdown-buttons"
-                      fromYear={1920}
-                      toYear={new Date().getFullYear()}
-                    />
-                  </PopoverContent>
-                </Popover>
-                {errors.dateOfBirth && <p className="text-sm text-destructive">{errors.dateOfBirth}</p>}
+              <Button 
+                onClick={handleRequestOtp}
+                className="w-full h-12 gradient-primary text-white font-semibold" 
+                disabled={loading || !mobileNumber}
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sending Code...
+                  </>
+                ) : (
+                  'Send Verification Code'
+                )}
+              </Button>
+            </CardContent>
+          </>
+        );
+
+      case 'verify':
+        return (
+          <>
+            <CardHeader className="space-y-1 pb-4">
+              <div className="mx-auto w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center mb-2">
+                <MessageSquare className="h-6 w-6 text-primary" />
+              </div>
+              <CardTitle className="text-2xl text-center">Enter Code</CardTitle>
+              <CardDescription className="text-center">
+                Enter the 6-digit code sent to {mobileNumber}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-col items-center space-y-2">
+                <InputOTP maxLength={6} value={otpCode} onChange={setOtpCode}>
+                  <InputOTPGroup>
+                    <InputOTPSlot index={0} />
+                    <InputOTPSlot index={1} />
+                    <InputOTPSlot index={2} />
+                    <InputOTPSlot index={3} />
+                    <InputOTPSlot index={4} />
+                    <InputOTPSlot index={5} />
+                  </InputOTPGroup>
+                </InputOTP>
+                {errors.otpCode && <p className="text-sm text-destructive">{errors.otpCode}</p>}
               </div>
               
               <Button 
                 onClick={handleVerifyIdentity}
                 className="w-full h-12 gradient-primary text-white font-semibold" 
-                disabled={loading || !mobileNumber || !dateOfBirth}
+                disabled={loading || otpCode.length !== 6}
               >
                 {loading ? (
                   <>
@@ -237,9 +295,27 @@ export default function ForgotPassword() {
                     Verifying...
                   </>
                 ) : (
-                  'Verify Identity'
+                  'Verify Code'
                 )}
               </Button>
+
+              <div className="flex items-center justify-between text-sm">
+                <Button 
+                  variant="ghost" 
+                  size="sm"
+                  onClick={() => { setStep('request'); setOtpCode(''); }}
+                >
+                  Change number
+                </Button>
+                <Button 
+                  variant="ghost" 
+                  size="sm"
+                  onClick={handleRequestOtp}
+                  disabled={loading || resendIn > 0}
+                >
+                  {resendIn > 0 ? `Resend code in ${resendIn}s` : 'Resend code'}
+                </Button>
+              </div>
             </CardContent>
           </>
         );
@@ -365,7 +441,7 @@ export default function ForgotPassword() {
               
               <Button 
                 variant="ghost" 
-                onClick={() => { setStep('verify'); setNewPassword(''); setConfirmPassword(''); }}
+                onClick={() => { setStep('request'); setResetToken(''); setNewPassword(''); setConfirmPassword(''); }}
                 className="w-full"
               >
                 Go Back
@@ -9,6 +9,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { supabase } from '@/integrations/supabase/client';
+import { publicProfiles } from '@/lib/publicProfiles';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { VerificationBadge } from '@/components/ui/verification-badge';
@@ -22,6 +23,11 @@ import {
   Compass
 } from 'lucide-react';
 
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
 interface Friend {
   id: string;
   full_name: string | null;
@@ -82,10 +88,8 @@ export default function Friends() {
 
       // Fetch profiles of people I follow
       if (followingIds.length > 0) {
-        const { data: friendsProfiles } = await supabase
-          .from('profiles')
-          .select('id, full_name, username, avatar_url, bio, location, is_verified')
-          .in('id', followingIds);
+        const { data: friendsProfiles } = await publicProfiles(followingIds)
+          .select('id, full_name, username, avatar_url, bio, location, is_verified');
 
         const enrichedFriends = (friendsProfiles || []).map(friend => ({
           ...friend,
@@ -109,8 +113,7 @@ export default function Friends() {
         const locationParts = profile.location.split(',').map(p => p.trim());
         const searchLocation = locationParts[0]; // Use first part (usually city)
 
-        const { data: nearbyProfiles } = await supabase
-          .from('profiles')
+        const { data: nearbyProfiles } = await publicProfiles()
           .select('id, full_name, username, avatar_url, bio, location, is_verified')
           .neq('id', user.id)
           .ilike('location', `%${searchLocation}%`)
@@ -138,8 +141,7 @@ export default function Friends() {
     }
 
     try {
-      const { data } = await supabase
-        .from('profiles')
+      const { data } = await publicProfiles()
         .select('id, full_name, username, avatar_url, bio, location, is_verified, mobile_number')
         .or(`full_name.ilike.%${searchQuery}%,username.ilike.%${searchQuery}%,mobile_number.ilike.%${searchQuery}%`)
         .neq('id', user?.id || '')
@@ -167,8 +169,10 @@ export default function Friends() {
     const action = isFollowing ? 'unfollow' : 'follow';
 
     try {
+      const sessionToken = getSessionToken();
       const { data, error } = await supabase.functions.invoke('toggle-follow', {
-        body: { user_id: user.id, following_id: userId, action }
+        body: { following_id: userId, action },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (error) {
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { PostCard } from '@/components/feed/PostCard';
@@ -14,45 +14,29 @@ import { MobileFriendSuggestions } from '@/components/feed/MobileFriendSuggestio
 import { MobileTrendingPosts } from '@/components/feed/MobileTrendingPosts';
 import { LocationPopup } from '@/components/feed/LocationPopup';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import { NearbyScopeTabs } from '@/components/feed/NearbyScopeTabs';
+import { useFeed, useNewPostsCount, type FeedArea, type FeedMode } from '@/hooks/useFeed';
+import { useNearby } from '@/hooks/useNearby';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Building2, Users, FileText, Plus, MapPin, Briefcase } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Building2, Users, FileText, Plus, MapPin, Briefcase, Globe, UserCheck, ArrowUp } from 'lucide-react';
 
-interface Post {
-  id: string;
-  content: string | null;
-  image_url: string | null;
-  youtube_url: string | null;
-  instagram_url: string | null;
-  created_at: string;
-  user_id: string;
-  business_id: string | null;
-  profiles: {
-    id: string;
-    full_name: string | null;
-    username: string | null;
-    avatar_url: string | null;
-  } | null;
-  businesses: {
-    id: string;
-    name: string;
-    logo_url: string | null;
-  } | null;
-  post_likes: { user_id: string }[];
-  comments: { id: string }[];
-}
+const FEED_MODE_KEY = 'feed_mode';
 
 export default function Home() {
   const { user, profile, loading: authLoading } = useAuth();
   const navigate = useNavigate();
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [feedMode, setFeedMode] = useState<FeedMode>(
+    () => (localStorage.getItem(FEED_MODE_KEY) as FeedMode) || 'everyone'
+  );
   const [activeTab, setActiveTab] = useState('posts');
   const [locationPopupOpen, setLocationPopupOpen] = useState(false);
   const [hasCheckedLocation, setHasCheckedLocation] = useState(false);
+  // Set when Near me opened the location popup, so saving lands on that feed
+  const [nearbyAfterLocation, setNearbyAfterLocation] = useState(false);
 
   // Auto-show location popup on login if location is not set
   useEffect(() => {
@@ -64,39 +48,60 @@ export default function Home() {
     }
   }, [authLoading, user, profile, hasCheckedLocation]);
 
+  // Following needs a signed-in user; fall back to everyone otherwise
+  const mode: FeedMode = user ? feedMode : 'everyone';
+  const { area, scope, setScope } = useNearby();
+  const feedArea: FeedArea = {
+    district_id: scope === 'district' ? area.districtId : null,
+    local_body_id: scope === 'panchayath' ? area.localBodyId : null,
+  };
+  const {
+    posts,
+    isLoading: loading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    refetch,
+    showNewPosts,
+  } = useFeed(mode, user?.id, !authLoading && activeTab === 'posts', feedArea);
+  const { data: newPostsCount = 0 } = useNewPostsCount(mode, user?.id, posts[0], feedArea);
+
+  // Infinite scroll: load the next page when the sentinel below the list comes into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
-    if (!authLoading && activeTab === 'posts') {
-      fetchPosts();
-    }
-  }, [activeTab, user, authLoading]);
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-  const fetchPosts = async () => {
-    setLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from('posts')
-        .select(`
-          *,
-          profiles:user_id (id, full_name, username, avatar_url),
-          businesses:business_id (id, name, logo_url),
-          post_likes (user_id),
-          comments (id)
-        `)
-        .eq('status', 'active')
-        .order('created_at', { ascending: false })
-        .limit(20);
-      
-      if (error) throw error;
-      setPosts(data || []);
-    } catch (error) {
-      console.error('Error fetching posts:', error);
-    } finally {
-      setLoading(false);
+  const handleFeedModeChange = (next: FeedMode) => {
+    // Near me needs an area to go on; ask for it first
+    if (next === 'nearby' && !area.districtId) {
+      setNearbyAfterLocation(true);
+      setLocationPopupOpen(true);
+      return;
     }
+    setFeedMode(next);
+    localStorage.setItem(FEED_MODE_KEY, next);
+  };
+
+  const handleShowNewPosts = () => {
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    showNewPosts();
   };
 
   const handlePostCreated = () => {
-    fetchPosts();
+    showNewPosts();
   };
 
   // Show loading state while auth is loading
@@ -206,7 +211,15 @@ export default function Home() {
             {/* Location Popup Dialog */}
             <LocationPopup
               open={locationPopupOpen}
-              onOpenChange={setLocationPopupOpen}
+              onOpenChange={(open) => {
+                setLocationPopupOpen(open);
+                if (!open) setNearbyAfterLocation(false);
+              }}
+              onLocationSet={() => {
+                if (!nearbyAfterLocation) return;
+                setFeedMode('nearby');
+                localStorage.setItem(FEED_MODE_KEY, 'nearby');
+              }}
             />
 
             <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
@@ -231,19 +244,81 @@ export default function Home() {
                 {/* Discovery Section - New/Active Communities & Businesses */}
                 <DiscoverySection />
                 
+                {user && (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant={mode === 'everyone' ? 'default' : 'outline'}
+                      className={cn('rounded-full', mode === 'everyone' && 'gradient-primary text-white')}
+                      onClick={() => handleFeedModeChange('everyone')}
+                    >
+                      <Globe className="mr-1 h-4 w-4" />
+                      Everyone
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={mode === 'following' ? 'default' : 'outline'}
+                      className={cn('rounded-full', mode === 'following' && 'gradient-primary text-white')}
+                      onClick={() => handleFeedModeChange('following')}
+                    >
+                      <UserCheck className="mr-1 h-4 w-4" />
+                      Following
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={mode === 'nearby' ? 'default' : 'outline'}
+                      className={cn('rounded-full', mode === 'nearby' && 'gradient-primary text-white')}
+                      onClick={() => handleFeedModeChange('nearby')}
+                    >
+                      <MapPin className="mr-1 h-4 w-4" />
+                      Near me
+                    </Button>
+                  </div>
+                )}
+
+                {mode === 'nearby' && (
+                  <NearbyScopeTabs area={area} value={scope} onChange={setScope} />
+                )}
+
+                {newPostsCount > 0 && (
+                  <div className="sticky top-20 z-30 flex justify-center">
+                    <Button
+                      size="sm"
+                      className="rounded-full shadow-lg gradient-primary text-white"
+                      onClick={handleShowNewPosts}
+                    >
+                      <ArrowUp className="mr-1 h-4 w-4" />
+                      {newPostsCount} new {newPostsCount === 1 ? 'post' : 'posts'}
+                    </Button>
+                  </div>
+                )}
+
                 {loading ? (
                   Array(3).fill(0).map((_, i) => (
                     <Skeleton key={i} className="h-96 w-full rounded-xl" />
                   ))
                 ) : posts.length > 0 ? (
-                  posts.map((post) => (
-                    <PostCard key={post.id} post={post} onUpdate={fetchPosts} />
-                  ))
+                  <>
+                    {posts.map((post) => (
+                      <PostCard key={post.id} post={post} onUpdate={() => refetch()} />
+                    ))}
+                    <div ref={loadMoreRef} />
+                    {isFetchingNextPage && <Skeleton className="h-96 w-full rounded-xl" />}
+                    {!hasNextPage && (
+                      <p className="py-4 text-center text-sm text-muted-foreground">You're all caught up</p>
+                    )}
+                  </>
                 ) : (
                   <Card className="border-0 shadow-soft">
                     <CardContent className="py-12 text-center">
                       <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-                      <p className="text-muted-foreground">No posts yet. Be the first to share!</p>
+                      <p className="text-muted-foreground">
+                        {mode === 'following'
+                          ? 'No posts from people or businesses you follow yet.'
+                          : mode === 'nearby' && scope !== 'state'
+                            ? 'No posts from your area yet. Try a wider area.'
+                            : 'No posts yet. Be the first to share!'}
+                      </p>
                     </CardContent>
                   </Card>
                 )}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardTitle } from '@/components/ui/card';
@@ -33,6 +33,9 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { publicProfiles } from '@/lib/publicProfiles';
+import type { ItemReference } from '@/lib/catalog';
+import { ItemReferenceCard } from '@/components/business/ItemReferenceCard';
 import { useToast } from '@/hooks/use-toast';
 import { 
   getConversations, 
@@ -45,7 +48,7 @@ import {
   type Conversation,
   type Message
 } from '@/hooks/useMessaging';
-import { Send, MessageCircle, ArrowLeft, Circle, Plus, Search, UserPlus, MoreVertical, Trash2 } from 'lucide-react';
+import { Send, MessageCircle, ArrowLeft, Circle, Plus, Search, UserPlus, MoreVertical, Trash2, X } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
 
@@ -60,6 +63,7 @@ interface FollowedUser {
 export default function Messages() {
   const { conversationId } = useParams();
   const navigate = useNavigate();
+  const location = useLocation();
   const { user, signOut } = useAuth();
   const { toast } = useToast();
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -68,6 +72,8 @@ export default function Messages() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
   const [newMessage, setNewMessage] = useState('');
+  // A catalog item the next message asks about, set by Enquire on a business page
+  const [enquiry, setEnquiry] = useState<ItemReference | null>(null);
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
 
@@ -110,6 +116,16 @@ export default function Messages() {
     }
   }, [conversationId, conversations]);
 
+  useEffect(() => {
+    const pending = (location.state as { enquiry?: ItemReference } | null)?.enquiry;
+    if (!pending) return;
+
+    setEnquiry(pending);
+    setNewMessage(`Hi! I'm interested in ${pending.name}. Is it available?`);
+    // Drop the state so a reload doesn't attach the item again
+    navigate(location.pathname, { replace: true, state: null });
+  }, [location.state, location.pathname, navigate]);
+
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
@@ -222,10 +238,8 @@ export default function Messages() {
 
       const followingIds = followData.map(f => f.following_id).filter(Boolean) as string[];
 
-      const { data: profiles, error: profileError } = await supabase
-        .from('profiles')
-        .select('id, full_name, username, avatar_url, is_online')
-        .in('id', followingIds);
+      const { data: profiles, error: profileError } = await publicProfiles(followingIds)
+        .select('id, full_name, username, avatar_url, is_online');
 
       if (profileError) throw profileError;
 
@@ -297,7 +311,7 @@ export default function Messages() {
 
     setSending(true);
     try {
-      const { data, error } = await sendMessage(selectedConversation.id, newMessage.trim());
+      const { data, error } = await sendMessage(selectedConversation.id, newMessage.trim(), enquiry?.item_id);
 
       if (error) throw error;
 
@@ -307,6 +321,7 @@ export default function Messages() {
       }
 
       setNewMessage('');
+      setEnquiry(null);
     } catch (error: unknown) {
       if (isSessionError(error)) {
         await handleSessionExpired();
@@ -325,6 +340,7 @@ export default function Messages() {
 
   const selectConversation = (conv: Conversation) => {
     setSelectedConversation(conv);
+    setEnquiry(null);
     navigate(`/messages/${conv.id}`);
   };
 
@@ -685,6 +701,9 @@ export default function Messages() {
                                     : "bg-muted text-foreground rounded-bl-md"
                                 )}
                               >
+                                {msg.item_reference && (
+                                  <ItemReferenceCard reference={msg.item_reference} className="mb-2 min-w-[12rem]" />
+                                )}
                                 <p>{msg.content}</p>
                                 <p className={cn(
                                   "text-xs mt-1",
@@ -703,6 +722,20 @@ export default function Messages() {
 
                   {/* Input */}
                   <div className="p-4 border-t">
+                    {enquiry && (
+                      <div className="flex items-center gap-2 mb-2">
+                        <ItemReferenceCard reference={enquiry} className="flex-1 min-w-0" />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 shrink-0"
+                          onClick={() => setEnquiry(null)}
+                          aria-label="Remove item"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
                     <form 
                       onSubmit={(e) => { e.preventDefault(); handleSend(); }}
                       className="flex gap-2"
@@ -26,9 +26,18 @@ import {
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Building2, MapPin, Users, Edit, Trash2 } from 'lucide-react';
+import { PanchayathLocationPicker } from '@/components/settings/PanchayathLocationPicker';
+import { BusinessPinInput } from '@/components/settings/BusinessPinInput';
+import { CatalogTab } from '@/components/business/CatalogTab';
+import { EMPTY_GEO_LOCATION, type GeoLocation, type GeoPoint } from '@/lib/location';
+import { Plus, Building2, MapPin, Users, Edit, Trash2, Package } from 'lucide-react';
 import type { Database } from '@/integrations/supabase/types';
 
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
 type BusinessCategory = Database['public']['Enums']['business_category'];
 
 interface Business {
@@ -38,6 +47,12 @@ interface Business {
   category: BusinessCategory;
   logo_url: string | null;
   location: string | null;
+  district_id: string | null;
+  local_body_id: string | null;
+  ward_id: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  geo_pinned: boolean;
   approval_status: string | null;
   follower_count?: number;
 }
@@ -65,6 +80,7 @@ export default function MyBusinesses() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingBusiness, setEditingBusiness] = useState<Business | null>(null);
+  const [catalogBusiness, setCatalogBusiness] = useState<Business | null>(null);
   const [saving, setSaving] = useState(false);
   
   // Form state
@@ -72,6 +88,8 @@ export default function MyBusinesses() {
   const [description, setDescription] = useState('');
   const [category, setCategory] = useState<BusinessCategory>('other');
   const [location, setLocation] = useState('');
+  const [geo, setGeo] = useState<GeoLocation>(EMPTY_GEO_LOCATION);
+  const [pin, setPin] = useState<GeoPoint | null>(null);
 
   useEffect(() => {
     if (!user) {
@@ -87,11 +105,12 @@ export default function MyBusinesses() {
     setLoading(true);
     try {
       // Use edge function to bypass RLS and get all businesses including pending ones
+      const sessionToken = getSessionToken();
       const response = await supabase.functions.invoke('manage-business', {
         body: {
           action: 'list',
-          user_id: user.id,
         },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (response.error) {
@@ -124,14 +143,17 @@ export default function MyBusinesses() {
     setSaving(true);
     try {
       // Use edge function to bypass RLS (since we use custom auth)
+      const sessionToken = getSessionToken();
       const response = await supabase.functions.invoke('create-business', {
         body: {
-          user_id: user.id,
           name: name.trim(),
           description: description.trim() || null,
           category,
           location: location.trim() || null,
+          ...geo,
+          ...pin,
         },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (response.error) {
@@ -158,12 +180,13 @@ export default function MyBusinesses() {
 
     try {
       // Use edge function to bypass RLS
+      const sessionToken = getSessionToken();
       const response = await supabase.functions.invoke('manage-business', {
         body: {
           action: 'delete',
-          user_id: user?.id,
           business_id: businessId,
         },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (response.error) {
@@ -187,6 +210,15 @@ export default function MyBusinesses() {
     setDescription(business.description || '');
     setCategory(business.category);
     setLocation(business.location || '');
+    setGeo({
+      district_id: business.district_id,
+      local_body_id: business.local_body_id,
+      ward_id: business.ward_id,
+    });
+    // Unpinned businesses carry their panchayath's centre, which isn't the owner's to edit
+    setPin(business.geo_pinned && business.latitude != null && business.longitude != null
+      ? { latitude: business.latitude, longitude: business.longitude }
+      : null);
     setEditDialogOpen(true);
   };
 
@@ -199,16 +231,21 @@ export default function MyBusinesses() {
     setSaving(true);
     try {
       // Use edge function to bypass RLS
+      const sessionToken = getSessionToken();
       const response = await supabase.functions.invoke('manage-business', {
         body: {
           action: 'update',
-          user_id: user.id,
           business_id: editingBusiness.id,
           name: name.trim(),
           description: description.trim() || null,
           category,
           location: location.trim() || null,
+          ...geo,
+          // null clears the pin
+          latitude: pin?.latitude ?? null,
+          longitude: pin?.longitude ?? null,
         },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (response.error) {
@@ -236,6 +273,8 @@ export default function MyBusinesses() {
     setDescription('');
     setCategory('other');
     setLocation('');
+    setGeo(EMPTY_GEO_LOCATION);
+    setPin(null);
   };
 
   const getCategoryInfo = (cat: string) => {
@@ -274,7 +313,7 @@ export default function MyBusinesses() {
                 New Business
               </Button>
             </DialogTrigger>
-            <DialogContent className="sm:max-w-md">
+            <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Create New Business</DialogTitle>
               </DialogHeader>
@@ -317,14 +356,17 @@ export default function MyBusinesses() {
                 </div>
                 
                 <div className="space-y-2">
-                  <Label htmlFor="location">Location</Label>
-                  <Input
-                    id="location"
-                    placeholder="e.g., Kerala, India"
+                  <Label>Location</Label>
+                  <PanchayathLocationPicker
                     value={location}
-                    onChange={(e) => setLocation(e.target.value)}
+                    onChange={(value, nextGeo) => {
+                      setLocation(value);
+                      setGeo(nextGeo);
+                    }}
                   />
                 </div>
+
+                <BusinessPinInput value={pin} onChange={setPin} />
                 
                 <Button 
                   onClick={handleCreateBusiness} 
@@ -395,6 +437,17 @@ export default function MyBusinesses() {
                     
                     {/* Action buttons */}
                     <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition-opacity flex gap-2">
+                      <Button
+                        size="icon"
+                        variant="secondary"
+                        title="Catalog"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setCatalogBusiness(business);
+                        }}
+                      >
+                        <Package className="h-4 w-4" />
+                      </Button>
                       <Button
                         size="icon"
                         variant="secondary"
@@ -448,7 +501,7 @@ export default function MyBusinesses() {
             resetForm();
           }
         }}>
-          <DialogContent className="sm:max-w-md">
+          <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Edit Business</DialogTitle>
             </DialogHeader>
@@ -491,14 +544,18 @@ export default function MyBusinesses() {
               </div>
               
               <div className="space-y-2">
-                <Label htmlFor="edit-location">Location</Label>
-                <Input
-                  id="edit-location"
-                  placeholder="e.g., Kerala, India"
+                <Label>Location</Label>
+                <PanchayathLocationPicker
                   value={location}
-                  onChange={(e) => setLocation(e.target.value)}
+                  geo={geo}
+                  onChange={(value, nextGeo) => {
+                    setLocation(value);
+                    setGeo(nextGeo);
+                  }}
                 />
               </div>
+
+              <BusinessPinInput value={pin} onChange={setPin} />
               
               <Button 
                 onClick={handleUpdateBusiness} 
@@ -511,6 +568,23 @@ export default function MyBusinesses() {
           </DialogContent>
         </Dialog>
 
+        {/* Catalog Dialog */}
+        <Dialog open={!!catalogBusiness} onOpenChange={(open) => !open && setCatalogBusiness(null)}>
+          <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{catalogBusiness?.name} Catalog</DialogTitle>
+            </DialogHeader>
+            {catalogBusiness && (
+              <CatalogTab
+                businessId={catalogBusiness.id}
+                businessName={catalogBusiness.name}
+                ownerId={user?.id ?? null}
+                isOwner
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
       </div>
     </MainLayout>
   );
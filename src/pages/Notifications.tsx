@@ -4,7 +4,7 @@ import { formatDistanceToNow } from "date-fns";
 import { 
   Bell, RefreshCw, Heart, MessageCircle, UserPlus, 
   Users, FileText, Mail, CheckCheck, Trash2, Wifi, WifiOff,
-  Building2, Megaphone
+  Building2, Megaphone, Briefcase, BarChart3, ShieldAlert, AtSign, Star
 } from "lucide-react";
 
 import { MainLayout } from "@/components/layout/MainLayout";
@@ -41,6 +41,11 @@ type NotificationData = {
   message_id?: string;
   sender_id?: string;
   business_id?: string;
+  poll_id?: string;
+  job_id?: string;
+  application_id?: string;
+  applicant_id?: string;
+  mentioner_id?: string;
 };
 
 type NotificationRow = {
@@ -57,6 +62,7 @@ type NotificationRow = {
 const notificationIcons: Record<string, React.ReactNode> = {
   like: <Heart className="h-5 w-5 text-red-500" />,
   comment: <MessageCircle className="h-5 w-5 text-blue-500" />,
+  mention: <AtSign className="h-5 w-5 text-sky-500" />,
   follow: <UserPlus className="h-5 w-5 text-green-500" />,
   community_discussion: <Users className="h-5 w-5 text-purple-500" />,
   community_update: <Users className="h-5 w-5 text-purple-500" />,
@@ -66,11 +72,17 @@ const notificationIcons: Record<string, React.ReactNode> = {
   business_update: <Building2 className="h-5 w-5 text-amber-500" />,
   business_follow: <Building2 className="h-5 w-5 text-amber-500" />,
   business_post: <Megaphone className="h-5 w-5 text-amber-500" />,
+  business_review: <Star className="h-5 w-5 text-amber-500" />,
+  business_review_reply: <Star className="h-5 w-5 text-amber-500" />,
+  community_poll: <BarChart3 className="h-5 w-5 text-purple-500" />,
+  job_application: <Briefcase className="h-5 w-5 text-teal-500" />,
+  admin_action: <ShieldAlert className="h-5 w-5 text-destructive" />,
 };
 
 const notificationBgColors: Record<string, string> = {
   like: "bg-red-100 dark:bg-red-900/30",
   comment: "bg-blue-100 dark:bg-blue-900/30",
+  mention: "bg-sky-100 dark:bg-sky-900/30",
   follow: "bg-green-100 dark:bg-green-900/30",
   community_discussion: "bg-purple-100 dark:bg-purple-900/30",
   community_update: "bg-purple-100 dark:bg-purple-900/30",
@@ -80,6 +92,11 @@ const notificationBgColors: Record<string, string> = {
   business_update: "bg-amber-100 dark:bg-amber-900/30",
   business_follow: "bg-amber-100 dark:bg-amber-900/30",
   business_post: "bg-amber-100 dark:bg-amber-900/30",
+  business_review: "bg-amber-100 dark:bg-amber-900/30",
+  business_review_reply: "bg-amber-100 dark:bg-amber-900/30",
+  community_poll: "bg-purple-100 dark:bg-purple-900/30",
+  job_application: "bg-teal-100 dark:bg-teal-900/30",
+  admin_action: "bg-destructive/10",
 };
 
 export default function Notifications() {
@@ -163,8 +180,11 @@ export default function Notifications() {
         },
         (payload) => {
           const updatedNotification = payload.new as NotificationRow;
+          // Collapsed notifications come back as updates with a fresh created_at
           setItems((prev) =>
-            prev.map((n) => (n.id === updatedNotification.id ? updatedNotification : n))
+            prev
+              .map((n) => (n.id === updatedNotification.id ? updatedNotification : n))
+              .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
           );
         }
       )
@@ -232,9 +252,13 @@ export default function Notifications() {
       case "comment":
       case "new_post":
         if (data.post_id) {
-          navigate(`/?post=${data.post_id}`);
+          navigate(`/post/${data.post_id}`);
         }
         break;
+      case "mention":
+        if (data.post_id) navigate(`/post/${data.post_id}`);
+        else if (data.community_id) navigate(`/communities/${data.community_id}`);
+        break;
       case "follow":
         if (data.follower_id) {
           navigate(`/user/${data.follower_id}`);
@@ -243,15 +267,27 @@ export default function Notifications() {
       case "community_discussion":
       case "community_update":
       case "community_join":
+      case "community_poll":
         if (data.community_id) {
-          navigate(`/community/${data.community_id}`);
+          navigate(`/communities/${data.community_id}`);
         }
         break;
       case "message":
         if (data.conversation_id) {
-          navigate(`/messages?conversation=${data.conversation_id}`);
+          navigate(`/messages/${data.conversation_id}`);
+        }
+        break;
+      case "job_application":
+        if (data.job_id) {
+          navigate(`/jobs/${data.job_id}`);
         }
         break;
+      case "admin_action":
+        if (data.post_id) navigate(`/post/${data.post_id}`);
+        else if (data.business_id) navigate(`/business/${data.business_id}`);
+        else if (data.community_id) navigate(`/communities/${data.community_id}`);
+        else if (data.job_id) navigate(`/jobs/${data.job_id}`);
+        break;
       case "business_update":
       case "business_follow":
       case "business_post":
@@ -259,6 +295,12 @@ export default function Notifications() {
           navigate(`/business/${data.business_id}`);
         }
         break;
+      case "business_review":
+      case "business_review_reply":
+        if (data.business_id) {
+          navigate(`/business/${data.business_id}?tab=reviews`);
+        }
+        break;
     }
   };
 
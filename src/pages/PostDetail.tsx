@@ -23,7 +23,8 @@ export default function PostDetail() {
           profiles (id, full_name, username, avatar_url, is_verified),
           businesses (id, name, logo_url),
           post_likes (user_id),
-          comments (id)
+          comments (id),
+          post_images (image_url, alt_text, position, width, height)
         `)
         .eq('id', id)
         .maybeSingle();
@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { PostCard } from '@/components/feed/PostCard';
+import { SavedPosts } from '@/components/feed/SavedPosts';
+import { TrashedPosts } from '@/components/feed/TrashedPosts';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -11,6 +13,7 @@ import { Badge } from '@/components/ui/badge';
 import { VerificationBadge } from '@/components/ui/verification-badge';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { publicProfiles } from '@/lib/publicProfiles';
 import { useToast } from '@/hooks/use-toast';
 import { getOrCreateConversation } from '@/hooks/useMessaging';
 import { 
@@ -100,10 +103,8 @@ export default function Profile() {
     setLoading(true);
     try {
       // Fetch profile
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
+      const { data: profile, error: profileError } = await publicProfiles([profileId])
         .select('*')
-        .eq('id', profileId)
         .single();
 
       if (profileError) throw profileError;
@@ -117,7 +118,8 @@ export default function Profile() {
           profiles:user_id (id, full_name, username, avatar_url),
           businesses:business_id (id, name, logo_url),
           post_likes (user_id),
-          comments (id)
+          comments (id),
+          post_images (image_url, alt_text, position, width, height)
         `)
         .eq('user_id', profileId)
         .order('created_at', { ascending: false });
@@ -138,10 +140,8 @@ export default function Profile() {
 
       if (followersData && followersData.length > 0) {
         const followerIds = followersData.map(f => f.follower_id).filter(Boolean) as string[];
-        const { data: followerProfiles } = await supabase
-          .from('profiles')
-          .select('id, full_name, username, avatar_url, bio, location, created_at, is_online, mobile_number, show_mobile, show_location')
-          .in('id', followerIds);
+        const { data: followerProfiles } = await publicProfiles(followerIds)
+          .select('id, full_name, username, avatar_url, bio, location, created_at, is_online, mobile_number, show_mobile, show_location');
         setFollowers(followerProfiles || []);
       } else {
         setFollowers([]);
@@ -155,10 +155,8 @@ export default function Profile() {
 
       if (followingData && followingData.length > 0) {
         const followingIds = followingData.map(f => f.following_id).filter(Boolean) as string[];
-        const { data: followingProfiles } = await supabase
-          .from('profiles')
-          .select('id, full_name, username, avatar_url, bio, location, created_at, is_online, mobile_number, show_mobile, show_location')
-          .in('id', followingIds);
+        const { data: followingProfiles } = await publicProfiles(followingIds)
+          .select('id, full_name, username, avatar_url, bio, location, created_at, is_online, mobile_number, show_mobile, show_location');
         setFollowing(followingProfiles || []);
       } else {
         setFollowing([]);
@@ -393,10 +391,12 @@ export default function Profile() {
 
         {/* Tabs */}
         <Tabs defaultValue="posts" className="w-full">
-          <TabsList className="w-full grid grid-cols-3">
+          <TabsList className={`w-full grid ${isOwnProfile ? 'grid-cols-5' : 'grid-cols-3'}`}>
             <TabsTrigger value="posts">Posts</TabsTrigger>
             <TabsTrigger value="followers">Followers</TabsTrigger>
             <TabsTrigger value="following">Following</TabsTrigger>
+            {isOwnProfile && <TabsTrigger value="saved">Saved</TabsTrigger>}
+            {isOwnProfile && <TabsTrigger value="trash">Trash</TabsTrigger>}
           </TabsList>
 
           <TabsContent value="posts" className="mt-4 space-y-4">
@@ -444,6 +444,19 @@ export default function Profile() {
               )}
             </div>
           </TabsContent>
+
+          {/* Saved posts are private, so only on your own profile */}
+          {isOwnProfile && (
+            <TabsContent value="saved" className="mt-4">
+              <SavedPosts />
+            </TabsContent>
+          )}
+
+          {isOwnProfile && (
+            <TabsContent value="trash" className="mt-4">
+              <TrashedPosts onRestored={fetchProfileData} />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </MainLayout>
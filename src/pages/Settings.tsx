@@ -13,9 +13,14 @@ import { Switch } from '@/components/ui/switch';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Camera, Save, LogOut, Phone, CheckCircle, AlertTriangle, Circle, Mail, Eye, EyeOff, Shield, BadgeCheck, Loader2, Send, MapPin, Trash2, XCircle } from 'lucide-react';
+import { Camera, Save, LogOut, Phone, Cake, CheckCircle, AlertTriangle, Circle, Mail, Eye, EyeOff, Shield, BadgeCheck, Loader2, Send, MapPin, Trash2, XCircle } from 'lucide-react';
 import { PanchayathLocationPicker } from '@/components/settings/PanchayathLocationPicker';
+import { EMPTY_GEO_LOCATION, type GeoLocation } from '@/lib/location';
 import { FollowStats } from '@/components/settings/FollowStats';
+import { ActiveSessions } from '@/components/settings/ActiveSessions';
+import { AccountSecurity } from '@/components/settings/AccountSecurity';
+import { PushNotificationSettings } from '@/components/settings/PushNotificationSettings';
+import { NotificationPreferences } from '@/components/settings/NotificationPreferences';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
 import {
@@ -30,6 +35,11 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 
+const getSessionToken = () => {
+  const stored = localStorage.getItem('samrambhak_auth');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
 // Field completion indicator component
 const FieldStatus = ({ completed }: { completed: boolean }) => (
   completed ? (
@@ -49,6 +59,7 @@ export default function Settings() {
   const [username, setUsername] = useState(profile?.username || '');
   const [bio, setBio] = useState(profile?.bio || '');
   const [location, setLocation] = useState(profile?.location || '');
+  const [geo, setGeo] = useState<GeoLocation>(EMPTY_GEO_LOCATION);
   const [saving, setSaving] = useState(false);
   const [uploadingAvatar, setUploadingAvatar] = useState(false);
 
@@ -61,6 +72,7 @@ export default function Settings() {
   const [showEmail, setShowEmail] = useState(profile?.show_email ?? false);
   const [showMobile, setShowMobile] = useState(profile?.show_mobile ?? false);
   const [showLocation, setShowLocation] = useState(profile?.show_location ?? true);
+  const [showDateOfBirth, setShowDateOfBirth] = useState(profile?.show_date_of_birth ?? false);
   const [savingPrivacy, setSavingPrivacy] = useState(false);
 
   // Account deletion state
@@ -78,7 +90,10 @@ export default function Settings() {
     fullName !== (profile.full_name || '') ||
     username !== (profile.username || '') ||
     bio !== (profile.bio || '') ||
-    location !== (profile.location || '')
+    location !== (profile.location || '') ||
+    geo.district_id !== (profile.district_id ?? null) ||
+    geo.local_body_id !== (profile.local_body_id ?? null) ||
+    geo.ward_id !== (profile.ward_id ?? null)
   );
 
   useEffect(() => {
@@ -87,10 +102,16 @@ export default function Settings() {
       setUsername(profile.username || '');
       setBio(profile.bio || '');
       setLocation(profile.location || '');
+      setGeo({
+        district_id: profile.district_id ?? null,
+        local_body_id: profile.local_body_id ?? null,
+        ward_id: profile.ward_id ?? null,
+      });
       setEmail(profile.email || '');
       setShowEmail(profile.show_email ?? false);
       setShowMobile(profile.show_mobile ?? false);
       setShowLocation(profile.show_location ?? true);
+      setShowDateOfBirth(profile.show_date_of_birth ?? false);
     }
   }, [profile]);
 
@@ -139,10 +160,11 @@ export default function Settings() {
       // Use edge function to upload avatar (bypasses RLS for custom auth)
       const formData = new FormData();
       formData.append('file', file);
-      formData.append('user_id', user.id);
 
+      const sessionToken = getSessionToken();
       const { data, error } = await supabase.functions.invoke('upload-avatar', {
         body: formData,
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (error) throw error;
@@ -175,11 +197,13 @@ export default function Settings() {
       });
 
       // Use edge function to update profile (bypasses RLS for custom auth)
+      const sessionToken = getSessionToken();
       const { data, error } = await supabase.functions.invoke('update-profile', {
         body: {
-          user_id: user.id,
           ...updatePayload,
+          ...geo,
         },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (error) throw error;
@@ -209,8 +233,10 @@ export default function Settings() {
 
     setSendingVerification(true);
     try {
+      const sessionToken = getSessionToken();
       const { data, error } = await supabase.functions.invoke('send-verification-email', {
-        body: { user_id: user.id, email: email.trim() }
+        body: { email: email.trim() },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (error || data?.error) {
@@ -250,20 +276,23 @@ export default function Settings() {
         show_email: z.boolean(),
         show_mobile: z.boolean(),
         show_location: z.boolean(),
+        show_date_of_birth: z.boolean(),
       });
 
       const privacyPayload = privacySchema.parse({
         show_email: showEmail,
         show_mobile: showMobile,
         show_location: showLocation,
+        show_date_of_birth: showDateOfBirth,
       });
 
       // Use edge function to update profile (bypasses RLS for custom auth)
+      const sessionToken = getSessionToken();
       const { data, error } = await supabase.functions.invoke('update-profile', {
         body: {
-          user_id: user.id,
           ...privacyPayload,
         },
+        headers: sessionToken ? { 'x-session-token': sessionToken } : {},
       });
 
       if (error) throw error;
@@ -497,6 +526,22 @@ export default function Settings() {
 
             <Separator />
 
+            <div className="flex items-center justify-between py-2">
+              <div className="flex items-center gap-3">
+                <Phone className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <p className="font-medium text-foreground">Show Mobile Number</p>
+                  <p className="text-sm text-muted-foreground">Display your mobile number on your public profile</p>
+                </div>
+              </div>
+              <Switch 
+                checked={showMobile} 
+                onCheckedChange={setShowMobile}
+              />
+            </div>
+
+            <Separator />
+
             <div className="flex items-center justify-between py-2">
               <div className="flex items-center gap-3">
                 <MapPin className="h-5 w-5 text-muted-foreground" />
@@ -511,6 +556,22 @@ export default function Settings() {
               />
             </div>
 
+            <Separator />
+
+            <div className="flex items-center justify-between py-2">
+              <div className="flex items-center gap-3">
+                <Cake className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <p className="font-medium text-foreground">Show Date of Birth</p>
+                  <p className="text-sm text-muted-foreground">Display your date of birth on your public profile</p>
+                </div>
+              </div>
+              <Switch 
+                checked={showDateOfBirth} 
+                onCheckedChange={setShowDateOfBirth}
+              />
+            </div>
+
             <Button 
               onClick={handleSavePrivacy} 
               variant="outline"
@@ -628,7 +689,11 @@ export default function Settings() {
                 </div>
                 <PanchayathLocationPicker 
                   value={location} 
-                  onChange={setLocation} 
+                  geo={geo}
+                  onChange={(value, nextGeo) => {
+                    setLocation(value);
+                    setGeo(nextGeo);
+                  }}
                 />
               </div>
             </div>
@@ -650,6 +715,18 @@ export default function Settings() {
         {/* Following & Followers */}
         <FollowStats userId={user.id} />
 
+        {/* Notification Preferences */}
+        <NotificationPreferences />
+
+        {/* Push Notifications */}
+        <PushNotificationSettings />
+
+        {/* Password & Mobile Number */}
+        <AccountSecurity />
+
+        {/* Devices & Sessions */}
+        <ActiveSessions />
+
         {/* Account Settings */}
         <Card className="border-0 shadow-soft">
           <CardHeader>
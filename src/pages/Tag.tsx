@@ -0,0 +1,94 @@
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, Hash } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { PostCard } from '@/components/feed/PostCard';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+
+const TAG_PAGE_LIMIT = 50;
+
+export default function Tag() {
+  const { tag: rawTag } = useParams<{ tag: string }>();
+  const navigate = useNavigate();
+  const tag = (rawTag || '').replace(/^#/, '').toLowerCase();
+
+  const { data: posts, isLoading, error, refetch } = useQuery({
+    queryKey: ['tag-posts', tag],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('posts')
+        .select(`
+          *,
+          profiles:user_id (id, full_name, username, avatar_url),
+          businesses:business_id (id, name, logo_url),
+          post_likes (user_id),
+          comments (id),
+          post_images (image_url, alt_text, position, width, height),
+          hashtag_uses!inner (tag)
+        `)
+        .eq('hashtag_uses.tag', tag)
+        .eq('status', 'active')
+        .order('created_at', { ascending: false })
+        .limit(TAG_PAGE_LIMIT);
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!tag,
+  });
+
+  return (
+    <MainLayout>
+      <div className="max-w-2xl mx-auto px-4 py-6">
+        <Button
+          variant="ghost"
+          className="mb-4 gap-2"
+          onClick={() => navigate(-1)}
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Button>
+
+        <div className="flex items-center gap-3 mb-6">
+          <div className="h-12 w-12 rounded-full gradient-primary flex items-center justify-center">
+            <Hash className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">#{tag}</h1>
+            {posts && (
+              <p className="text-sm text-muted-foreground">
+                {posts.length === TAG_PAGE_LIMIT ? `${TAG_PAGE_LIMIT}+` : posts.length}{' '}
+                {posts.length === 1 ? 'post' : 'posts'}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {isLoading && (
+          <div className="space-y-4">
+            <Skeleton className="h-48 w-full" />
+            <Skeleton className="h-48 w-full" />
+          </div>
+        )}
+
+        {error && (
+          <p className="text-center text-destructive py-12">Failed to load posts</p>
+        )}
+
+        {posts && posts.length === 0 && (
+          <p className="text-center text-muted-foreground py-12">
+            No posts with #{tag} yet
+          </p>
+        )}
+
+        <div className="space-y-4">
+          {posts?.map(post => (
+            <PostCard key={post.id} post={post} onUpdate={() => refetch()} />
+          ))}
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,44 @@
+import { useParams, useNavigate, Navigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { publicProfiles } from '@/lib/publicProfiles';
+
+// Target of @mention links: looks the username up and opens the profile
+export default function UsernameRedirect() {
+  const { username } = useParams<{ username: string }>();
+  const navigate = useNavigate();
+
+  const { data: profileId, isLoading } = useQuery({
+    queryKey: ['username', username?.toLowerCase()],
+    queryFn: async () => {
+      const { data, error } = await publicProfiles()
+        .select('id')
+        // Usernames are [A-Za-z0-9_], so only "_" needs escaping for ilike
+        .ilike('username', username!.replace(/_/g, '\\_'))
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data?.id as string | undefined) ?? null;
+    },
+    enabled: !!username,
+  });
+
+  if (profileId) return <Navigate to={`/user/${profileId}`} replace />;
+
+  return (
+    <MainLayout>
+      <div className="max-w-2xl mx-auto px-4 py-12 text-center">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <>
+            <p className="text-lg text-muted-foreground mb-4">No one goes by @{username}</p>
+            <Button onClick={() => navigate('/')}>Go Home</Button>
+          </>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { publicProfiles } from '@/lib/publicProfiles';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -39,6 +40,11 @@ interface DeletionRequest {
   } | null;
 }
 
+const getSessionToken = () => {
+  const stored = localStorage.getItem('admin_session');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
 export default function AdminDeletionRequests() {
   const { user: currentUser } = useAuth();
   const queryClient = useQueryClient();
@@ -103,8 +109,7 @@ export default function AdminDeletionRequests() {
     setFoundUser(null);
     
     try {
-      const { data, error } = await supabase
-        .from('profiles')
+      const { data, error } = await publicProfiles(null, getSessionToken())
         .select('id, full_name, username, avatar_url, email, mobile_number, created_at')
         .eq('mobile_number', searchMobile.trim())
         .maybeSingle();
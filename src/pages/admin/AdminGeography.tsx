@@ -0,0 +1,509 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { DataTable } from '@/components/admin/DataTable';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Edit2, MapPin, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAdminAuthSupabase } from '@/hooks/useAdminAuthSupabase';
+import {
+  useBlocks,
+  useDistricts,
+  useLocalBodies,
+  useWards,
+  type GeoBlock,
+  type GeoLocalBody,
+  type GeoWard,
+} from '@/hooks/useGeography';
+import { LOCAL_BODY_TYPE_LABELS } from '@/lib/location';
+
+type GeoEntity = 'districts' | 'blocks' | 'local_bodies' | 'wards';
+
+const ENTITY_LABELS: Record<GeoEntity, string> = {
+  districts: 'District',
+  blocks: 'Block',
+  local_bodies: 'Local Body',
+  wards: 'Ward',
+};
+
+const NO_BLOCK = 'none';
+
+interface GeoForm {
+  entity: GeoEntity;
+  id: string | null;
+  name_en: string;
+  name_ml: string;
+  body_type: string;
+  block_id: string | null;
+  ward_number: string;
+  latitude: string;
+  longitude: string;
+}
+
+interface PendingDelete {
+  entity: GeoEntity;
+  id: string;
+  name: string;
+}
+
+export default function AdminGeography() {
+  const queryClient = useQueryClient();
+  const { sessionToken } = useAdminAuthSupabase();
+  const [districtId, setDistrictId] = useState<string | null>(null);
+  const [localBodyId, setLocalBodyId] = useState<string | null>(null);
+  const [form, setForm] = useState<GeoForm | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+
+  const { data: districts = [] } = useDistricts();
+  const { data: blocks = [], isLoading: blocksLoading } = useBlocks(districtId);
+  const { data: localBodies = [], isLoading: localBodiesLoading } = useLocalBodies(districtId);
+  const { data: wards = [], isLoading: wardsLoading } = useWards(localBodyId);
+
+  const district = districts.find((d) => d.id === districtId) || null;
+  const blockNames = Object.fromEntries(blocks.map((b) => [b.id, b.name_en]));
+
+  const invokeGeography = async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('manage-geography', {
+      body,
+      headers: sessionToken ? { 'x-session-token': sessionToken } : {},
+    });
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data;
+  };
+
+  const refreshGeography = () => {
+    queryClient.invalidateQueries({ queryKey: ['geo-districts'] });
+    queryClient.invalidateQueries({ queryKey: ['geo-blocks'] });
+    queryClient.invalidateQueries({ queryKey: ['geo-local-bodies'] });
+    queryClient.invalidateQueries({ queryKey: ['geo-wards'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: GeoForm) => {
+      await invokeGeography({
+        action: 'save',
+        entity: values.entity,
+        id: values.id,
+        values: {
+          name_en: values.name_en,
+          name_ml: values.name_ml,
+          district_id: districtId,
+          local_body_id: localBodyId,
+          body_type: values.body_type,
+          block_id: values.block_id,
+          ward_number: values.ward_number,
+          latitude: values.latitude,
+          longitude: values.longitude,
+        },
+      });
+    },
+    onSuccess: (_, values) => {
+      refreshGeography();
+      toast.success(`${ENTITY_LABELS[values.entity]} saved`);
+      setForm(null);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to save');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (target: PendingDelete) => {
+      await invokeGeography({ action: 'delete', entity: target.entity, id: target.id });
+    },
+    onSuccess: (_, target) => {
+      if (target.id === localBodyId) setLocalBodyId(null);
+      refreshGeography();
+      toast.success(`${ENTITY_LABELS[target.entity]} deleted`);
+      setPendingDelete(null);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to delete');
+    },
+  });
+
+  const openForm = (entity: GeoEntity, row?: { id: string; name_en: string; name_ml: string | null } & Partial<GeoLocalBody & GeoWard>) => {
+    setForm({
+      entity,
+      id: row?.id ?? null,
+      name_en: row?.name_en ?? '',
+      name_ml: row?.name_ml ?? '',
+      body_type: row?.body_type ?? 'grama_panchayath',
+      block_id: row?.block_id ?? null,
+      ward_number: row?.ward_number ? String(row.ward_number) : String(wards.length + 1),
+      latitude: row?.latitude != null ? String(row.latitude) : '',
+      longitude: row?.longitude != null ? String(row.longitude) : '',
+    });
+  };
+
+  const rowActions = (entity: GeoEntity, row: GeoBlock | GeoLocalBody | GeoWard) => (
+    <div className="flex items-center gap-2">
+      <Button variant="ghost" size="icon" onClick={() => openForm(entity, row)}>
+        <Edit2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="text-destructive hover:text-destructive"
+        onClick={() => setPendingDelete({ entity, id: row.id, name: row.name_en })}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  const nameColumns = <T extends { name_en: string; name_ml: string | null }>() => [
+    {
+      key: 'name_en',
+      header: 'English',
+      render: (row: T) => <span className="font-medium">{row.name_en}</span>,
+    },
+    {
+      key: 'name_ml',
+      header: 'Malayalam',
+      render: (row: T) => row.name_ml || <span className="text-muted-foreground">—</span>,
+    },
+  ];
+
+  const localBodyColumns = [
+    ...nameColumns<GeoLocalBody>(),
+    {
+      key: 'body_type',
+      header: 'Type',
+      render: (row: GeoLocalBody) => <Badge variant="secondary">{LOCAL_BODY_TYPE_LABELS[row.body_type]}</Badge>,
+    },
+    {
+      key: 'block_id',
+      header: 'Block',
+      render: (row: GeoLocalBody) =>
+        row.block_id ? blockNames[row.block_id] : <span className="text-muted-foreground">—</span>,
+    },
+    {
+      key: 'latitude',
+      header: 'Centre',
+      render: (row: GeoLocalBody) =>
+        row.latitude != null ? (
+          `${row.latitude.toFixed(4)}, ${row.longitude?.toFixed(4)}`
+        ) : (
+          <span className="text-muted-foreground">—</span>
+        ),
+    },
+    {
+      key: 'id',
+      header: 'Actions',
+      render: (row: GeoLocalBody) => rowActions('local_bodies', row),
+    },
+  ];
+
+  const blockColumns = [
+    ...nameColumns<GeoBlock>(),
+    {
+      key: 'panchayaths',
+      header: 'Panchayaths',
+      render: (row: GeoBlock) => localBodies.filter((lb) => lb.block_id === row.id).length,
+    },
+    {
+      key: 'id',
+      header: 'Actions',
+      render: (row: GeoBlock) => rowActions('blocks', row),
+    },
+  ];
+
+  const wardColumns = [
+    {
+      key: 'ward_number',
+      header: 'No.',
+      render: (row: GeoWard) => row.ward_number,
+    },
+    ...nameColumns<GeoWard>(),
+    {
+      key: 'id',
+      header: 'Actions',
+      render: (row: GeoWard) => rowActions('wards', row),
+    },
+  ];
+
+  return (
+    <AdminLayout
+      title="Locations"
+      description="Districts, blocks, panchayaths, municipalities, corporations and wards"
+    >
+      <Card className="mb-6">
+        <CardContent className="flex flex-wrap items-end gap-4 pt-6">
+          <div className="space-y-2 w-64">
+            <Label>District</Label>
+            <Select
+              value={districtId ?? undefined}
+              onValueChange={(value) => {
+                setDistrictId(value);
+                setLocalBodyId(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a district" />
+              </SelectTrigger>
+              <SelectContent>
+                {districts.map((d) => (
+                  <SelectItem key={d.id} value={d.id}>
+                    {d.name_en}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {district && (
+            <>
+              <div className="pb-2 text-sm text-muted-foreground">{district.name_ml || 'No Malayalam name yet'}</div>
+              <Button variant="outline" size="sm" className="gap-2" onClick={() => openForm('districts', district)}>
+                <Edit2 className="h-4 w-4" />
+                Rename
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {!district ? (
+        <div className="py-12 text-center text-muted-foreground">
+          <MapPin className="h-10 w-10 mx-auto mb-3" />
+          Select a district to manage its blocks, local bodies and wards
+        </div>
+      ) : (
+        <Tabs defaultValue="local_bodies">
+          <TabsList>
+            <TabsTrigger value="local_bodies">Local Bodies ({localBodies.length})</TabsTrigger>
+            <TabsTrigger value="blocks">Blocks ({blocks.length})</TabsTrigger>
+            <TabsTrigger value="wards">Wards</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="local_bodies" className="space-y-4">
+            <Button className="gap-2" onClick={() => openForm('local_bodies')}>
+              <Plus className="h-4 w-4" />
+              Add Local Body
+            </Button>
+            <DataTable
+              columns={localBodyColumns}
+              data={localBodies}
+              searchKey="name_en"
+              searchPlaceholder="Search local bodies..."
+              isLoading={localBodiesLoading}
+              pageSize={15}
+            />
+          </TabsContent>
+
+          <TabsContent value="blocks" className="space-y-4">
+            <Button className="gap-2" onClick={() => openForm('blocks')}>
+              <Plus className="h-4 w-4" />
+              Add Block
+            </Button>
+            <DataTable
+              columns={blockColumns}
+              data={blocks}
+              searchKey="name_en"
+              searchPlaceholder="Search blocks..."
+              isLoading={blocksLoading}
+              pageSize={15}
+            />
+          </TabsContent>
+
+          <TabsContent value="wards" className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2 w-72">
+                <Label>Local body</Label>
+                <Select value={localBodyId ?? undefined} onValueChange={setLocalBodyId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a local body" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {localBodies.map((lb) => (
+                      <SelectItem key={lb.id} value={lb.id}>
+                        {lb.name_en} · {LOCAL_BODY_TYPE_LABELS[lb.body_type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button className="gap-2" onClick={() => openForm('wards')} disabled={!localBodyId}>
+                <Plus className="h-4 w-4" />
+                Add Ward
+              </Button>
+            </div>
+            {localBodyId && (
+              <DataTable
+                columns={wardColumns}
+                data={wards}
+                searchKey="name_en"
+                searchPlaceholder="Search wards..."
+                isLoading={wardsLoading}
+                pageSize={25}
+              />
+            )}
+          </TabsContent>
+        </Tabs>
+      )}
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {form?.id ? 'Edit' : 'Add'} {form ? ENTITY_LABELS[form.entity] : ''}
+            </DialogTitle>
+            <DialogDescription>{district?.name_en}</DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              {form.entity === 'wards' && (
+                <div className="space-y-2">
+                  <Label>Ward number</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={form.ward_number}
+                    onChange={(e) => setForm({ ...form, ward_number: e.target.value })}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>English name</Label>
+                <Input value={form.name_en} onChange={(e) => setForm({ ...form, name_en: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Malayalam name</Label>
+                <Input value={form.name_ml} onChange={(e) => setForm({ ...form, name_ml: e.target.value })} />
+              </div>
+              {form.entity === 'local_bodies' && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Type</Label>
+                    <Select value={form.body_type} onValueChange={(body_type) => setForm({ ...form, body_type })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(LOCAL_BODY_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {form.body_type === 'grama_panchayath' && (
+                    <div className="space-y-2">
+                      <Label>Block</Label>
+                      <Select
+                        value={form.block_id ?? NO_BLOCK}
+                        onValueChange={(value) => setForm({ ...form, block_id: value === NO_BLOCK ? null : value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_BLOCK}>No block</SelectItem>
+                          {blocks.map((b) => (
+                            <SelectItem key={b.id} value={b.id}>
+                              {b.name_en}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label>Centre (latitude, longitude)</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        type="number"
+                        step="any"
+                        placeholder="11.0510"
+                        value={form.latitude}
+                        onChange={(e) => setForm({ ...form, latitude: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        step="any"
+                        placeholder="76.0711"
+                        value={form.longitude}
+                        onChange={(e) => setForm({ ...form, longitude: e.target.value })}
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Businesses here without a map pin are placed at this point.
+                    </p>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => form && saveMutation.mutate(form)}
+              disabled={saveMutation.isPending || !form?.name_en.trim()}
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete ? ENTITY_LABELS[pendingDelete.entity].toLowerCase() : ''}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{pendingDelete?.name}"? Profiles, businesses, communities and jobs that use it keep
+              their location text but lose the link.
+              {pendingDelete?.entity === 'local_bodies' && ' Its wards are deleted too.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete)}
+            >
+              {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+}
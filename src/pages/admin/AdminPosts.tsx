@@ -23,9 +23,10 @@ import {
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { toast } from 'sonner';
-import { MoreHorizontal, Eye, EyeOff, Trash2, Star, Heart, MessageSquare } from 'lucide-react';
+import { MoreHorizontal, Eye, EyeOff, Trash2, Star, Heart, MessageSquare, History } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { useAdminAuthSupabase } from '@/hooks/useAdminAuthSupabase';
+import { RevisionHistoryDialog } from '@/components/admin/RevisionHistoryDialog';
 
 interface Post {
   id: string;
@@ -37,6 +38,7 @@ interface Post {
   status: string | null;
   hidden_reason: string | null;
   created_at: string | null;
+  edited_at: string | null;
   user_id: string | null;
   business_id: string | null;
   author?: {
@@ -53,6 +55,7 @@ export default function AdminPosts() {
   const [selectedPost, setSelectedPost] = useState<Post | null>(null);
   const [actionDialog, setActionDialog] = useState<'hide' | 'delete' | null>(null);
   const [actionReason, setActionReason] = useState('');
+  const [historyPostId, setHistoryPostId] = useState<string | null>(null);
 
   const { data: posts = [], isLoading } = useQuery({
     queryKey: ['admin-posts'],
@@ -236,6 +239,9 @@ export default function AdminPosts() {
               Featured
             </Badge>
           )}
+          {post.edited_at && (
+            <Badge variant="outline">Edited</Badge>
+          )}
         </div>
       ),
     },
@@ -270,6 +276,12 @@ export default function AdminPosts() {
               <Star className="h-4 w-4 mr-2" />
               {post.is_featured ? 'Unfeature' : 'Feature'}
             </DropdownMenuItem>
+            {post.edited_at && (
+              <DropdownMenuItem onClick={() => setHistoryPostId(post.id)}>
+                <History className="h-4 w-4 mr-2" />
+                Edit History
+              </DropdownMenuItem>
+            )}
             <DropdownMenuSeparator />
             <DropdownMenuItem
               onClick={() => {
@@ -428,6 +440,12 @@ export default function AdminPosts() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RevisionHistoryDialog
+        entityType="post"
+        entityId={historyPostId}
+        onClose={() => setHistoryPostId(null)}
+      />
     </AdminLayout>
   );
 }
@@ -24,9 +24,10 @@ import {
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { toast } from 'sonner';
-import { MoreHorizontal, CheckCircle, XCircle, Eye, Clock, ExternalLink, EyeOff, Trash2 } from 'lucide-react';
+import { MoreHorizontal, CheckCircle, XCircle, Eye, Clock, ExternalLink, EyeOff, Trash2, History } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext';
+import { RevisionHistoryDialog } from '@/components/admin/RevisionHistoryDialog';
 
 interface Report {
   id: string;
@@ -43,12 +44,18 @@ interface Report {
   };
 }
 
+const getSessionToken = () => {
+  const stored = localStorage.getItem('admin_session');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
 export default function AdminReports() {
   const { user: currentUser } = useAuth();
   const queryClient = useQueryClient();
   const [selectedReport, setSelectedReport] = useState<Report | null>(null);
   const [actionDialog, setActionDialog] = useState<'resolve' | 'dismiss' | null>(null);
   const [actionTaken, setActionTaken] = useState('');
+  const [historyReport, setHistoryReport] = useState<Report | null>(null);
 
   const { data: reports = [], isLoading } = useQuery({
     queryKey: ['admin-reports'],
@@ -157,6 +164,52 @@ export default function AdminReports() {
     },
   });
 
+  const deleteCommentMutation = useMutation({
+    mutationFn: async (commentId: string) => {
+      const sessionToken = getSessionToken();
+      const { data, error } = await supabase.functions.invoke('admin-manage', {
+        body: {
+          action: 'delete_comment',
+          entity_id: commentId,
+        },
+        headers: { 'x-session-token': sessionToken },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+    },
+    onSuccess: () => {
+      toast.success('Comment deleted successfully');
+      queryClient.invalidateQueries({ queryKey: ['admin-reports'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to delete comment: ' + error.message);
+    },
+  });
+
+  const deleteReviewMutation = useMutation({
+    mutationFn: async (reviewId: string) => {
+      const sessionToken = getSessionToken();
+      const { data, error } = await supabase.functions.invoke('admin-manage', {
+        body: {
+          action: 'delete_business_review',
+          entity_id: reviewId,
+        },
+        headers: { 'x-session-token': sessionToken },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+    },
+    onSuccess: () => {
+      toast.success('Review deleted successfully');
+      queryClient.invalidateQueries({ queryKey: ['admin-reports'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to delete review: ' + error.message);
+    },
+  });
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'pending':
@@ -178,7 +231,7 @@ export default function AdminReports() {
       header: 'Type',
       render: (report) => (
         <Badge variant="secondary" className="capitalize">
-          {report.reported_type}
+          {report.reported_type.replace('_', ' ')}
         </Badge>
       ),
     },
@@ -242,6 +295,12 @@ export default function AdminReports() {
                 </Link>
               </DropdownMenuItem>
             )}
+            {(report.reported_type === 'post' || report.reported_type === 'comment') && (
+              <DropdownMenuItem onClick={() => setHistoryReport(report)}>
+                <History className="h-4 w-4 mr-2" />
+                Edit History
+              </DropdownMenuItem>
+            )}
             {report.status === 'pending' && (
               <>
                 <DropdownMenuSeparator />
@@ -303,6 +362,38 @@ export default function AdminReports() {
                 </DropdownMenuItem>
               </>
             )}
+            {report.reported_type === 'comment' && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => {
+                    if (confirm('Delete this comment and its replies?')) {
+                      deleteCommentMutation.mutate(report.reported_id);
+                    }
+                  }}
+                  className="text-destructive"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Comment
+                </DropdownMenuItem>
+              </>
+            )}
+            {report.reported_type === 'business_review' && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => {
+                    if (confirm('Delete this review? The business rating will be recalculated.')) {
+                      deleteReviewMutation.mutate(report.reported_id);
+                    }
+                  }}
+                  className="text-destructive"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Review
+                </DropdownMenuItem>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       ),
@@ -330,6 +421,7 @@ export default function AdminReports() {
               { value: 'business', label: 'Business' },
               { value: 'community', label: 'Community' },
               { value: 'comment', label: 'Comment' },
+              { value: 'business_review', label: 'Business Review' },
             ],
           },
           {
@@ -357,7 +449,7 @@ export default function AdminReports() {
           <div className="space-y-4">
             <div>
               <Label>Report Type</Label>
-              <p className="text-sm text-muted-foreground capitalize">{selectedReport?.reported_type}</p>
+              <p className="text-sm text-muted-foreground capitalize">{selectedReport?.reported_type.replace('_', ' ')}</p>
             </div>
             <div>
               <Label>Reason</Label>
@@ -403,7 +495,7 @@ export default function AdminReports() {
           <div className="space-y-4">
             <div>
               <Label>Report Type</Label>
-              <p className="text-sm text-muted-foreground capitalize">{selectedReport?.reported_type}</p>
+              <p className="text-sm text-muted-foreground capitalize">{selectedReport?.reported_type.replace('_', ' ')}</p>
             </div>
             <div>
               <Label>Reason</Label>
@@ -448,7 +540,7 @@ export default function AdminReports() {
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <Label>Type</Label>
-                <p className="text-sm text-muted-foreground capitalize">{selectedReport?.reported_type}</p>
+                <p className="text-sm text-muted-foreground capitalize">{selectedReport?.reported_type.replace('_', ' ')}</p>
               </div>
               <div>
                 <Label>Status</Label>
@@ -485,6 +577,12 @@ export default function AdminReports() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RevisionHistoryDialog
+        entityType={historyReport?.reported_type === 'comment' ? 'comment' : 'post'}
+        entityId={historyReport?.reported_id ?? null}
+        onClose={() => setHistoryReport(null)}
+      />
     </AdminLayout>
   );
 }
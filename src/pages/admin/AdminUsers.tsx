@@ -1,11 +1,13 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { publicProfiles } from '@/lib/publicProfiles';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { DataTable, Column } from '@/components/admin/DataTable';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -25,7 +27,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { toast } from 'sonner';
-import { MoreHorizontal, Ban, UserCheck, MessageCircleOff, Clock, Trash2, Eye, Cake } from 'lucide-react';
+import { MoreHorizontal, Ban, UserCheck, MessageCircleOff, Clock, Trash2, Eye, Cake, ShieldAlert, LockOpen } from 'lucide-react';
 import { formatDistanceToNow, format, differenceInYears } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext';
 
@@ -42,8 +44,25 @@ interface User {
   created_at: string | null;
   last_seen: string | null;
   date_of_birth: string | null;
+  mobile_number: string | null;
 }
 
+interface Lockout {
+  id: string;
+  scope: 'signin' | 'password_reset';
+  key_type: 'mobile' | 'ip';
+  key_value: string;
+  failed_count: number;
+  last_failed_at: string;
+  locked_until: string;
+  user: { id: string; full_name: string | null; username: string | null } | null;
+}
+
+const getSessionToken = () => {
+  const stored = localStorage.getItem('admin_session');
+  return stored ? JSON.parse(stored).session_token : null;
+};
+
 export default function AdminUsers() {
   const { user: currentUser } = useAuth();
   const queryClient = useQueryClient();
@@ -55,8 +74,7 @@ export default function AdminUsers() {
   const { data: users = [], isLoading } = useQuery({
     queryKey: ['admin-users'],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from('profiles')
+      const { data, error } = await publicProfiles(null, getSessionToken())
         .select('*')
         .order('created_at', { ascending: false });
 
@@ -65,6 +83,47 @@ export default function AdminUsers() {
     },
   });
 
+  const { data: lockouts = [] } = useQuery({
+    queryKey: ['admin-lockouts'],
+    queryFn: async () => {
+      const sessionToken = getSessionToken();
+      if (!sessionToken) throw new Error('No admin session');
+
+      const { data, error } = await supabase.functions.invoke('admin-manage', {
+        body: { action: 'list', entity_type: 'lockouts' },
+        headers: { 'x-session-token': sessionToken },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data.data as Lockout[];
+    },
+    refetchInterval: 60000,
+  });
+
+  const clearLockoutMutation = useMutation({
+    mutationFn: async (lockoutId: string) => {
+      const sessionToken = getSessionToken();
+      const { data, error } = await supabase.functions.invoke('admin-manage', {
+        body: { action: 'clear_lockout', entity_id: lockoutId },
+        headers: { 'x-session-token': sessionToken },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-lockouts'] });
+      toast.success('Lockout cleared');
+    },
+    onError: (error) => {
+      toast.error('Failed to clear lockout: ' + error.message);
+    },
+  });
+
+  const getUserLockouts = (user: User) =>
+    lockouts.filter((l) => l.key_type === 'mobile' && l.key_value === user.mobile_number);
+
   const blockMutation = useMutation({
     mutationFn: async ({ userId, block }: { userId: string; block: boolean }) => {
       const { error } = await supabase
@@ -203,6 +262,11 @@ export default function AdminUsers() {
               Chat Disabled
             </Badge>
           )}
+          {getUserLockouts(user).length > 0 && (
+            <Badge variant="outline" className="text-destructive border-destructive">
+              Locked Out
+            </Badge>
+          )}
         </div>
       ),
     },
@@ -272,6 +336,14 @@ export default function AdminUsers() {
               <MessageCircleOff className="h-4 w-4 mr-2" />
               {user.chat_disabled ? 'Enable Chat' : 'Disable Chat'}
             </DropdownMenuItem>
+            {getUserLockouts(user).length > 0 && (
+              <DropdownMenuItem
+                onClick={() => getUserLockouts(user).forEach((l) => clearLockoutMutation.mutate(l.id))}
+              >
+                <LockOpen className="h-4 w-4 mr-2" />
+                Clear Lockout
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem
               onClick={() => {
                 setSelectedUser(user);
@@ -312,6 +384,55 @@ export default function AdminUsers() {
       title="User Management" 
       description="Manage platform users, block accounts, and handle suspensions"
     >
+      {/* Active sign-in / password reset lockouts */}
+      {lockouts.length > 0 && (
+        <Card className="mb-6 border-destructive/50">
+          <CardHeader className="pb-3">
+            <div className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-destructive" />
+              <CardTitle className="text-lg">Active Lockouts</CardTitle>
+            </div>
+            <CardDescription>
+              Mobile numbers and IP addresses temporarily locked after repeated failed attempts
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {lockouts.map((lockout) => (
+              <div
+                key={lockout.id}
+                className="flex items-center justify-between gap-4 p-3 rounded-lg border bg-background"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {lockout.user
+                      ? `${lockout.user.full_name || 'Unknown'} (@${lockout.user.username || 'no-username'})`
+                      : lockout.key_value}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {lockout.key_type === 'ip' ? 'IP address' : 'Mobile number'}
+                    {' · '}
+                    {lockout.scope === 'signin' ? 'Sign in' : 'Password reset'}
+                    {' · '}
+                    {lockout.failed_count} failed attempts
+                    {' · '}
+                    unlocks {formatDistanceToNow(new Date(lockout.locked_until), { addSuffix: true })}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => clearLockoutMutation.mutate(lockout.id)}
+                  disabled={clearLockoutMutation.isPending}
+                >
+                  <LockOpen className="h-4 w-4 mr-2" />
+                  Clear
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <DataTable
         columns={columns}
         data={users}
@@ -0,0 +1,137 @@
+// Catalog item columns from an owner's form, and the snapshot of an item that
+// an enquiry message carries.
+export const MAX_ITEM_IMAGES = 6;
+
+const ITEM_TYPES = ["product", "service"];
+const AVAILABILITY = ["available", "unavailable", "on_request"];
+
+export interface CatalogItemFields {
+  item_type: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  price_min: number | null;
+  price_max: number | null;
+  unit: string | null;
+  image_urls: string[];
+  availability: string;
+}
+
+export type CatalogItemResult = { fields: CatalogItemFields } | { error: string };
+
+const text = (value: unknown, max: number): string | null | undefined => {
+  if (value == null) return null;
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  if (trimmed.length > max) return undefined;
+  return trimmed || null;
+};
+
+// "" and null mean no price; anything else must be a non-negative amount
+const price = (value: unknown): number | null | undefined => {
+  if (value == null || value === "") return null;
+  const amount = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+  if (!Number.isFinite(amount) || amount < 0 || amount >= 1e10) return undefined;
+  return Math.round(amount * 100) / 100;
+};
+
+// True for a URL under the prefix that can't climb out of it with ".."
+const inFolder = (url: unknown, prefix: string): boolean => {
+  if (typeof url !== "string" || !url.startsWith(prefix)) return false;
+  try {
+    return !decodeURIComponent(url.slice(prefix.length).split("?")[0]).split("/").includes("..");
+  } catch {
+    return false;
+  }
+};
+
+// imagePrefix is the public URL of the business's own catalog folder
+export function catalogItemFields(values: Record<string, unknown>, imagePrefix: string): CatalogItemResult {
+  const name = text(values.name, 120);
+  if (!name) return { error: name === undefined ? "Name must be 120 characters or less" : "Name is required" };
+
+  const description = text(values.description, 2000);
+  if (description === undefined) return { error: "Description must be 2000 characters or less" };
+
+  const category = text(values.category, 60);
+  if (category === undefined) return { error: "Category must be 60 characters or less" };
+
+  const unit = text(values.unit, 30);
+  if (unit === undefined) return { error: "Unit must be 30 characters or less" };
+
+  const itemType = values.item_type ?? "product";
+  if (typeof itemType !== "string" || !ITEM_TYPES.includes(itemType)) return { error: "Invalid item type" };
+
+  const availability = values.availability ?? "available";
+  if (typeof availability !== "string" || !AVAILABILITY.includes(availability)) {
+    return { error: "Invalid availability" };
+  }
+
+  const priceMin = price(values.price_min);
+  const priceMax = price(values.price_max);
+  if (priceMin === undefined || priceMax === undefined) return { error: "Invalid price" };
+  if (priceMax !== null && (priceMin === null || priceMax < priceMin)) {
+    return { error: "The highest price must be at least the lowest price" };
+  }
+
+  const images = values.image_urls ?? [];
+  if (!Array.isArray(images) || images.length > MAX_ITEM_IMAGES) {
+    return { error: `An item can have at most ${MAX_ITEM_IMAGES} images` };
+  }
+  // Images must already be uploaded to the business's catalog folder
+  if (!images.every((url) => inFolder(url, imagePrefix))) {
+    return { error: "Images must be uploaded to this business's catalog" };
+  }
+
+  return {
+    fields: {
+      item_type: itemType,
+      name,
+      description,
+      category,
+      // A range with equal ends is a single price
+      price_min: priceMin,
+      price_max: priceMax !== null && priceMax === priceMin ? null : priceMax,
+      unit,
+      image_urls: images as string[],
+      availability,
+    },
+  };
+}
+
+export interface ItemReference {
+  type: "catalog_item";
+  item_id: string;
+  business_id: string;
+  business_name: string | null;
+  name: string;
+  price_min: number | null;
+  price_max: number | null;
+  unit: string | null;
+  image_url: string | null;
+}
+
+export function itemReference(
+  item: {
+    id: string;
+    business_id: string;
+    name: string;
+    price_min: number | null;
+    price_max: number | null;
+    unit: string | null;
+    image_urls: string[] | null;
+  },
+  businessName: string | null
+): ItemReference {
+  return {
+    type: "catalog_item",
+    item_id: item.id,
+    business_id: item.business_id,
+    business_name: businessName,
+    name: item.name,
+    price_min: item.price_min,
+    price_max: item.price_max,
+    unit: item.unit,
+    image_url: item.image_urls?.[0] ?? null,
+  };
+}
@@ -0,0 +1,89 @@
+// Run with: deno test supabase/functions/_shared/catalog_test.ts
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { catalogItemFields, itemReference } from "./catalog.ts";
+
+const BUCKET = "https://example.supabase.co/storage/v1/object/public/posts/";
+const PREFIX = `${BUCKET}catalog/biz-1/`;
+
+Deno.test("catalogItemFields fills defaults and trims text", () => {
+  assertEquals(catalogItemFields({ name: "  Banana chips ", unit: " 250 g ", description: "" }, PREFIX), {
+    fields: {
+      item_type: "product",
+      name: "Banana chips",
+      description: null,
+      category: null,
+      price_min: null,
+      price_max: null,
+      unit: "250 g",
+      image_urls: [],
+      availability: "available",
+    },
+  });
+});
+
+Deno.test("catalogItemFields accepts a price range and numeric strings", () => {
+  const result = catalogItemFields({ name: "Tailoring", item_type: "service", price_min: "300", price_max: 1200.456 }, PREFIX);
+  assertEquals("fields" in result && [result.fields.price_min, result.fields.price_max], [300, 1200.46]);
+});
+
+Deno.test("catalogItemFields collapses a range with equal ends to one price", () => {
+  const result = catalogItemFields({ name: "Honey", price_min: 450, price_max: 450 }, PREFIX);
+  assertEquals("fields" in result && [result.fields.price_min, result.fields.price_max], [450, null]);
+});
+
+Deno.test("catalogItemFields rejects bad prices and ranges", () => {
+  for (const prices of [{ price_min: -1 }, { price_min: "abc" }, { price_max: 100 }, { price_min: 500, price_max: 100 }]) {
+    assertEquals("error" in catalogItemFields({ name: "Honey", ...prices }, PREFIX), true);
+  }
+});
+
+Deno.test("catalogItemFields requires a name and known options", () => {
+  assertEquals(catalogItemFields({ name: "  " }, PREFIX), { error: "Name is required" });
+  assertEquals(catalogItemFields({ name: "Honey", item_type: "rental" }, PREFIX), { error: "Invalid item type" });
+  assertEquals(catalogItemFields({ name: "Honey", availability: "soon" }, PREFIX), { error: "Invalid availability" });
+});
+
+Deno.test("catalogItemFields only takes images from the business's catalog folder", () => {
+  const error = { error: "Images must be uploaded to this business's catalog" };
+  assertEquals(catalogItemFields({ name: "Honey", image_urls: ["https://elsewhere.test/a.webp"] }, PREFIX), error);
+  assertEquals(catalogItemFields({ name: "Honey", image_urls: [`${BUCKET}catalog/biz-2/a.webp`] }, PREFIX), error);
+  assertEquals(catalogItemFields({ name: "Honey", image_urls: [`${BUCKET}user-1/a.webp`] }, PREFIX), error);
+  assertEquals(catalogItemFields({ name: "Honey", image_urls: [`${PREFIX}../biz-2/a.webp`] }, PREFIX), error);
+  assertEquals(catalogItemFields({ name: "Honey", image_urls: [`${PREFIX}%2E%2E/biz-2/a.webp`] }, PREFIX), error);
+
+  const result = catalogItemFields({ name: "Honey", image_urls: [`${PREFIX}a.webp`] }, PREFIX);
+  assertEquals("fields" in result && result.fields.image_urls, [`${PREFIX}a.webp`]);
+});
+
+Deno.test("catalogItemFields caps the number of images", () => {
+  const images = Array.from({ length: 7 }, (_, n) => `${PREFIX}${n}.webp`);
+  assertEquals(catalogItemFields({ name: "Honey", image_urls: images }, PREFIX), { error: "An item can have at most 6 images" });
+});
+
+Deno.test("itemReference keeps the first image and the business name", () => {
+  assertEquals(
+    itemReference(
+      {
+        id: "item-1",
+        business_id: "biz-1",
+        name: "Honey",
+        price_min: 450,
+        price_max: null,
+        unit: "500 g",
+        image_urls: ["a.webp", "b.webp"],
+      },
+      "Hill Apiary"
+    ),
+    {
+      type: "catalog_item",
+      item_id: "item-1",
+      business_id: "biz-1",
+      business_name: "Hill Apiary",
+      name: "Honey",
+      price_min: 450,
+      price_max: null,
+      unit: "500 g",
+      image_url: "a.webp",
+    }
+  );
+});
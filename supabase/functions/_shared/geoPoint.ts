@@ -0,0 +1,24 @@
+// Business columns for a map pin sent by its owner. Both coordinates null
+// clears the pin, so the point goes back to the local body's centre (see
+// sync_business_point()); both undefined leaves the point as it is.
+export type PinResult =
+  | { fields: { latitude?: number | null; longitude?: number | null; geo_pinned?: boolean } }
+  | { error: string };
+
+export function pinFields(latitude: unknown, longitude: unknown): PinResult {
+  if (latitude === undefined && longitude === undefined) return { fields: {} };
+
+  if (latitude === null && longitude === null) {
+    return { fields: { latitude: null, longitude: null, geo_pinned: false } };
+  }
+
+  if (
+    typeof latitude !== "number" || typeof longitude !== "number" ||
+    !Number.isFinite(latitude) || !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 || Math.abs(longitude) > 180
+  ) {
+    return { error: "Invalid map pin" };
+  }
+
+  return { fields: { latitude, longitude, geo_pinned: true } };
+}
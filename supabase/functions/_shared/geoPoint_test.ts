@@ -0,0 +1,25 @@
+// Run with: deno test supabase/functions/_shared/geoPoint_test.ts
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { pinFields } from "./geoPoint.ts";
+
+Deno.test("pinFields leaves the point alone when no coordinates are sent", () => {
+  assertEquals(pinFields(undefined, undefined), { fields: {} });
+});
+
+Deno.test("pinFields pins valid coordinates", () => {
+  assertEquals(pinFields(11.051, 76.0711), {
+    fields: { latitude: 11.051, longitude: 76.0711, geo_pinned: true },
+  });
+});
+
+Deno.test("pinFields clears the pin when both coordinates are null", () => {
+  assertEquals(pinFields(null, null), {
+    fields: { latitude: null, longitude: null, geo_pinned: false },
+  });
+});
+
+Deno.test("pinFields rejects half a pin, strings and out of range values", () => {
+  for (const [lat, lng] of [[11, undefined], [null, 76], ["11", "76"], [91, 76], [11, -181], [NaN, 76]]) {
+    assertEquals(pinFields(lat, lng), { error: "Invalid map pin" });
+  }
+});
@@ -0,0 +1,512 @@
+// OpenGraph / Twitter card metadata for link previews. Every request made on
+// behalf of a user URL, redirects included, is checked so it can't reach
+// private or reserved addresses (SSRF).
+
+export interface LinkPreview {
+  url: string;
+  final_url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+  content_type: string | null;
+}
+
+export type LinkPreviewErrorCode =
+  | "invalid_url"
+  | "blocked"
+  | "timeout"
+  | "too_many_redirects"
+  | "http_error"
+  | "fetch_failed";
+
+export class LinkPreviewError extends Error {
+  code: LinkPreviewErrorCode;
+
+  constructor(code: LinkPreviewErrorCode, message: string) {
+    super(message);
+    this.name = "LinkPreviewError";
+    this.code = code;
+  }
+}
+
+export interface LinkPreviewOptions {
+  // Covers the whole fetch, redirects included
+  timeoutMs?: number;
+  // Only the start of a page is read; the metadata lives in <head>
+  maxBytes?: number;
+  maxRedirects?: number;
+  // host:port pairs exempt from the address check, for tests against a
+  // local fixture server
+  allowedHosts?: string[];
+  resolveHost?: (hostname: string) => Promise<string[]>;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_MAX_BYTES = 512 * 1024;
+const DEFAULT_MAX_REDIRECTS = 3;
+const MAX_URL_LENGTH = 2048;
+const HTML_TYPES = ["text/html", "application/xhtml+xml"];
+const BLOCKED_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".home.arpa"];
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+// True for loopback, private, link-local, carrier-grade NAT, multicast and
+// other non-public ranges. Anything that doesn't parse as an IP counts as
+// private.
+export function isPrivateAddress(address: string): boolean {
+  const v4 = parseIPv4(address);
+  if (v4) {
+    const [a, b, c] = v4;
+    return a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 0 && c === 0) ||
+      (a === 192 && b === 0 && c === 2) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      (a === 198 && b === 51 && c === 100) ||
+      (a === 203 && b === 0 && c === 113) ||
+      a >= 224;
+  }
+
+  const v6 = address.toLowerCase().replace(/^\[|\]$/g, "");
+  if (!v6.includes(":")) return true;
+  if (v6 === "::" || v6 === "::1") return true;
+
+  // IPv4-mapped and -translated addresses take the IPv4 rules
+  const embedded = v6.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) return isPrivateAddress(embedded[1]);
+  if (v6.startsWith("::ffff:") || v6.startsWith("64:ff9b:")) return true;
+
+  const first = parseInt(v6.split(":")[0] || "0", 16);
+  return (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xff00) === 0xff00 || // multicast
+    v6.startsWith("2001:db8:") ||
+    first === 0;
+}
+
+async function resolveWithDns(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, "A"),
+    Deno.resolveDns(hostname, "AAAA"),
+  ]);
+  return lookups.flatMap((lookup) => (lookup.status === "fulfilled" ? lookup.value : []));
+}
+
+export function parsePreviewUrl(value: unknown): URL {
+  if (typeof value !== "string" || !value.trim() || value.length > MAX_URL_LENGTH) {
+    throw new LinkPreviewError("invalid_url", "A valid URL is required");
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new LinkPreviewError("invalid_url", "A valid URL is required");
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new LinkPreviewError("invalid_url", "Only http and https links can be previewed");
+  }
+  if (url.username || url.password) {
+    throw new LinkPreviewError("invalid_url", "Links with credentials can't be previewed");
+  }
+
+  url.hash = "";
+  return url;
+}
+
+// Throws unless the URL points at a public address on a standard port, and
+// returns the address to connect to. The request must go to that address
+// rather than resolving the name again, or a DNS answer that changes between
+// the two lookups would slip past the check.
+export async function assertPublicUrl(url: URL, options: LinkPreviewOptions = {}): Promise<string> {
+  const allowed = options.allowedHosts?.includes(url.host) ?? false;
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, "");
+
+  if (!allowed) {
+    if (url.port && url.port !== "80" && url.port !== "443") {
+      throw new LinkPreviewError("blocked", "Only standard ports can be previewed");
+    }
+    if (hostname === "localhost" || BLOCKED_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix))) {
+      throw new LinkPreviewError("blocked", "This address can't be previewed");
+    }
+  }
+
+  const isLiteral = parseIPv4(hostname) !== null || hostname.startsWith("[");
+  const addresses = isLiteral
+    ? [hostname.replace(/^\[|\]$/g, "")]
+    : await (options.resolveHost ?? resolveWithDns)(hostname);
+
+  if (addresses.length === 0) {
+    throw new LinkPreviewError("fetch_failed", "The host could not be resolved");
+  }
+  if (!allowed && addresses.some(isPrivateAddress)) {
+    throw new LinkPreviewError("blocked", "This address can't be previewed");
+  }
+  return addresses[0];
+}
+
+interface PinnedResponse {
+  status: number;
+  headers: Headers;
+  body: ReadableStream<Uint8Array>;
+}
+
+const MAX_HEAD_BYTES = 32 * 1024;
+const READ_CHUNK_BYTES = 16 * 1024;
+const NO_BODY_STATUSES = [204, 304];
+
+// Buffered reads off a raw connection, enough to parse an HTTP/1.1 response
+class ConnectionReader {
+  private buffer = new Uint8Array(0);
+
+  constructor(private conn: Deno.Conn) {}
+
+  // False once the peer has closed the connection
+  private async fill(): Promise<boolean> {
+    const chunk = new Uint8Array(READ_CHUNK_BYTES);
+    const read = await this.conn.read(chunk);
+    if (read === null) return false;
+    const next = new Uint8Array(this.buffer.length + read);
+    next.set(this.buffer);
+    next.set(chunk.subarray(0, read), this.buffer.length);
+    this.buffer = next;
+    return true;
+  }
+
+  async readLine(): Promise<string> {
+    for (;;) {
+      const end = this.buffer.indexOf(10);
+      if (end !== -1) {
+        const line = new TextDecoder("latin1").decode(this.buffer.subarray(0, end));
+        this.buffer = this.buffer.subarray(end + 1);
+        return line.replace(/\r$/, "");
+      }
+      if (this.buffer.length > MAX_HEAD_BYTES) throw new Error("Response line too long");
+      if (!(await this.fill())) throw new Error("Connection closed early");
+    }
+  }
+
+  // Up to maxBytes of whatever is available, or null at the end of the stream
+  async read(maxBytes: number): Promise<Uint8Array | null> {
+    if (this.buffer.length === 0 && !(await this.fill())) return null;
+    const bytes = this.buffer.subarray(0, maxBytes);
+    this.buffer = this.buffer.subarray(bytes.length);
+    return bytes;
+  }
+}
+
+function responseBody(reader: ConnectionReader, status: number, headers: Headers, close: () => void): ReadableStream<Uint8Array> {
+  const chunked = /\bchunked\b/i.test(headers.get("transfer-encoding") ?? "");
+  const contentLength = headers.has("content-length") ? Number(headers.get("content-length")) : NaN;
+
+  // Bytes left in the body, or in the current chunk of a chunked body
+  let remaining = chunked ? 0 : Number.isInteger(contentLength) && contentLength >= 0 ? contentLength : Infinity;
+  let finished = NO_BODY_STATUSES.includes(status) || (!chunked && remaining === 0);
+  let chunks = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(stream) {
+      try {
+        if (chunked && remaining === 0 && !finished) {
+          // Each chunk after the first is preceded by the previous one's CRLF
+          if (chunks++ > 0) await reader.readLine();
+          remaining = parseInt(await reader.readLine(), 16);
+          if (Number.isNaN(remaining)) throw new Error("Malformed chunked body");
+          if (remaining === 0) finished = true;
+        }
+        if (finished) {
+          close();
+          stream.close();
+          return;
+        }
+
+        const bytes = await reader.read(Math.min(remaining, READ_CHUNK_BYTES));
+        if (!bytes) {
+          if (remaining !== Infinity) throw new Error("Connection closed early");
+          close();
+          stream.close();
+          return;
+        }
+        remaining -= bytes.length;
+        if (!chunked && remaining === 0) finished = true;
+        stream.enqueue(bytes);
+      } catch (error) {
+        close();
+        stream.error(error);
+      }
+    },
+    cancel() {
+      close();
+    },
+  });
+}
+
+// A GET over a connection to the vetted address. The URL's own name goes in
+// the Host header and, for https, is what the certificate is checked against.
+async function requestPinned(url: URL, address: string, signal: AbortSignal): Promise<PinnedResponse> {
+  const aborted = new Promise<never>((_, reject) => {
+    if (signal.aborted) reject(signal.reason);
+    signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+  });
+  aborted.catch(() => {});
+
+  const port = Number(url.port) || (url.protocol === "https:" ? 443 : 80);
+  const connecting = Deno.connect({ hostname: address, port });
+  let conn: Deno.Conn;
+  try {
+    conn = await Promise.race([connecting, aborted]);
+  } catch (error) {
+    connecting.then((late) => late.close(), () => {});
+    throw error;
+  }
+
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    try {
+      conn.close();
+    } catch {
+      // Already closed by the peer
+    }
+  };
+  signal.addEventListener("abort", close, { once: true });
+
+  try {
+    if (url.protocol === "https:") {
+      conn = await Deno.startTls(conn as Deno.TcpConn, { hostname: url.hostname });
+    }
+
+    const request = new TextEncoder().encode(
+      `GET ${url.pathname}${url.search} HTTP/1.1\r\n` +
+        `Host: ${url.host}\r\n` +
+        "User-Agent: SamrambhakLinkPreview/1.0 (+https://samrambhak.com)\r\n" +
+        "Accept: text/html,application/xhtml+xml;q=0.9,*/*;q=0.5\r\n" +
+        "Accept-Encoding: identity\r\n" +
+        "Connection: close\r\n\r\n"
+    );
+    for (let written = 0; written < request.length;) {
+      written += await conn.write(request.subarray(written));
+    }
+
+    const reader = new ConnectionReader(conn);
+    for (;;) {
+      const statusLine = await reader.readLine();
+      const match = statusLine.match(/^HTTP\/1\.[01] (\d{3})/);
+      if (!match) throw new Error("Malformed response");
+      const status = Number(match[1]);
+
+      const headers = new Headers();
+      let headBytes = statusLine.length;
+      for (let line = await reader.readLine(); line; line = await reader.readLine()) {
+        headBytes += line.length;
+        if (headBytes > MAX_HEAD_BYTES) throw new Error("Response headers too large");
+        const colon = line.indexOf(":");
+        if (colon <= 0) continue;
+        try {
+          headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+        } catch {
+          // Skip headers the Headers class won't accept
+        }
+      }
+
+      // Interim 1xx responses come before the real one
+      if (status < 200) continue;
+
+      let body = responseBody(reader, status, headers, close);
+      const encoding = headers.get("content-encoding")?.trim().toLowerCase();
+      if (encoding === "gzip" || encoding === "deflate") {
+        body = body.pipeThrough(new DecompressionStream(encoding));
+      }
+      return { status, headers, body };
+    }
+  } catch (error) {
+    close();
+    throw error;
+  }
+}
+
+async function readLimited(body: ReadableStream<Uint8Array> | null, maxBytes: number): Promise<Uint8Array> {
+  if (!body) return new Uint8Array();
+
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  try {
+    while (size < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const take = value.subarray(0, maxBytes - size);
+      chunks.push(take);
+      size += take.length;
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+function decodeHtml(bytes: Uint8Array, contentTypeHeader: string): string {
+  const declared = contentTypeHeader.match(/charset=["']?([\w-]+)/i)?.[1];
+  // Fall back to a <meta charset> near the top of the page
+  const sniffed = declared ?? new TextDecoder("latin1").decode(bytes.subarray(0, 2048))
+    .match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+
+  try {
+    return new TextDecoder(sniffed || "utf-8").decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function clean(value: string | undefined, maxLength: number): string | null {
+  if (!value) return null;
+  const text = decodeEntities(value).replace(/\s+/g, " ").trim();
+  if (!text) return null;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function absoluteHttpUrl(value: string | undefined, base: URL): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(decodeEntities(value.trim()), base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// Pulls preview fields out of a page's <head>. OpenGraph wins over Twitter
+// card tags, which win over <title> and the description meta tag.
+export function parseMetadata(html: string, baseUrl: URL): Pick<LinkPreview, "title" | "description" | "image_url" | "site_name"> {
+  const headEnd = html.search(/<\/head>/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+
+  const meta = new Map<string, string>();
+  for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = new Map<string, string>();
+    for (const match of tag.matchAll(/([a-zA-Z_:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+      attributes.set(match[1].toLowerCase(), match[2] ?? match[3] ?? match[4] ?? "");
+    }
+    const key = (attributes.get("property") || attributes.get("name"))?.toLowerCase();
+    const content = attributes.get("content");
+    // The first occurrence wins, like the crawlers that read these tags
+    if (key && content !== undefined && !meta.has(key)) meta.set(key, content);
+  }
+
+  const titleTag = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  return {
+    title: clean(meta.get("og:title") ?? meta.get("twitter:title") ?? titleTag, 300),
+    description: clean(meta.get("og:description") ?? meta.get("twitter:description") ?? meta.get("description"), 500),
+    image_url: absoluteHttpUrl(
+      meta.get("og:image:secure_url") ?? meta.get("og:image") ?? meta.get("og:image:url") ??
+        meta.get("twitter:image") ?? meta.get("twitter:image:src"),
+      baseUrl
+    ),
+    site_name: clean(meta.get("og:site_name") ?? meta.get("application-name"), 100),
+  };
+}
+
+export async function fetchLinkPreview(rawUrl: string, options: LinkPreviewOptions = {}): Promise<LinkPreview> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+
+  const requested = parsePreviewUrl(rawUrl);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    let current = requested;
+    for (let redirects = 0; ; redirects++) {
+      const address = await assertPublicUrl(current, options);
+
+      // Redirects are followed by hand so each hop goes through the check above
+      const response = await requestPinned(current, address, controller.signal);
+
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body.cancel();
+        if (redirects >= maxRedirects) {
+          throw new LinkPreviewError("too_many_redirects", "Too many redirects");
+        }
+        current = parsePreviewUrl(new URL(location, current).href);
+        continue;
+      }
+
+      if (response.status < 200 || response.status >= 300) {
+        await response.body.cancel();
+        throw new LinkPreviewError("http_error", `The page responded with ${response.status}`);
+      }
+
+      const contentTypeHeader = response.headers.get("content-type") ?? "";
+      const contentType = contentTypeHeader.split(";")[0].trim().toLowerCase() || null;
+      const preview: LinkPreview = {
+        url: requested.href,
+        final_url: current.href,
+        title: null,
+        description: null,
+        image_url: null,
+        site_name: null,
+        content_type: contentType,
+      };
+
+      // PDFs, images and the like are described by their type alone
+      if (!contentType || !HTML_TYPES.includes(contentType)) {
+        await response.body.cancel();
+        return preview;
+      }
+
+      const html = decodeHtml(await readLimited(response.body, maxBytes), contentTypeHeader);
+      return { ...preview, ...parseMetadata(html, current) };
+    }
+  } catch (error) {
+    if (error instanceof LinkPreviewError) throw error;
+    if (controller.signal.aborted) {
+      throw new LinkPreviewError("timeout", "The page took too long to respond");
+    }
+    throw new LinkPreviewError("fetch_failed", error instanceof Error ? error.message : "Fetch failed");
+  } finally {
+    clearTimeout(timer);
+  }
+}
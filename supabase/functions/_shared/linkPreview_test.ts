@@ -0,0 +1,182 @@
+// Run with: deno test --allow-net supabase/functions/_shared/linkPreview_test.ts
+// Fetches from a local fixture server, which is let through with allowedHosts.
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  assertPublicUrl,
+  fetchLinkPreview,
+  isPrivateAddress,
+  LinkPreviewError,
+  parseMetadata,
+} from "./linkPreview.ts";
+
+const ARTICLE = `<!doctype html>
+<html><head>
+  <meta charset="utf-8">
+  <title>Fallback title</title>
+  <meta name="description" content="Plain description">
+  <meta property="og:title" content="Kerala Spice Co. &amp; Sons">
+  <meta property="og:description" content="Cardamom   and pepper,
+    direct from Idukki">
+  <meta property="og:image" content="/images/cover.jpg">
+  <meta property="og:site_name" content="Spice Co">
+  <meta name="twitter:title" content="Twitter title">
+</head><body>Hello</body></html>`;
+
+// Resolves when the test is done, so slow handlers don't outlive it
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+async function withFixtureServer(run: (base: string, options: { allowedHosts: string[] }) => Promise<void>) {
+  const release = deferred();
+  const controller = new AbortController();
+  const server = Deno.serve({ port: 0, hostname: "127.0.0.1", signal: controller.signal, onListen: () => {} }, async (req) => {
+    const { pathname } = new URL(req.url);
+    switch (pathname) {
+      case "/article":
+        return new Response(ARTICLE, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+      case "/moved":
+        return new Response(null, { status: 301, headers: { Location: "/article" } });
+      case "/loop":
+        return new Response(null, { status: 302, headers: { Location: "/loop" } });
+      case "/to-metadata":
+        return new Response(null, { status: 302, headers: { Location: "http://169.254.169.254/latest/meta-data/" } });
+      case "/brochure.pdf":
+        return new Response("%PDF-1.7", { headers: { "Content-Type": "application/pdf" } });
+      case "/endless": {
+        // A page that never ends; the og tag sits past the read limit
+        const encoder = new TextEncoder();
+        let sent = 0;
+        const body = new ReadableStream<Uint8Array>({
+          pull(stream) {
+            stream.enqueue(encoder.encode(sent++ === 0 ? "<html><head>" : " ".repeat(16 * 1024)));
+          },
+        });
+        return new Response(body, { headers: { "Content-Type": "text/html" } });
+      }
+      case "/slow":
+        await release.promise;
+        return new Response(ARTICLE, { headers: { "Content-Type": "text/html" } });
+      default:
+        return new Response("Not found", { status: 404 });
+    }
+  });
+
+  try {
+    const host = `127.0.0.1:${server.addr.port}`;
+    await run(`http://${host}`, { allowedHosts: [host] });
+  } finally {
+    release.resolve();
+    controller.abort();
+    await server.finished;
+  }
+}
+
+Deno.test("parseMetadata prefers OpenGraph and resolves relative images", () => {
+  const meta = parseMetadata(ARTICLE, new URL("https://spice.example/products/1"));
+  assertEquals(meta, {
+    title: "Kerala Spice Co. & Sons",
+    description: "Cardamom and pepper, direct from Idukki",
+    image_url: "https://spice.example/images/cover.jpg",
+    site_name: "Spice Co",
+  });
+});
+
+Deno.test("parseMetadata falls back to <title> and the description tag", () => {
+  const html = `<head><title>Just a title</title><meta content='Only this' name='description'></head>`;
+  const meta = parseMetadata(html, new URL("https://example.com/"));
+  assertEquals(meta.title, "Just a title");
+  assertEquals(meta.description, "Only this");
+  assertEquals(meta.image_url, null);
+});
+
+Deno.test("isPrivateAddress covers private, loopback and link-local ranges", () => {
+  for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "[fd00::1]", "fe80::1", "::ffff:127.0.0.1", "not-an-ip"]) {
+    assert(isPrivateAddress(address), address);
+  }
+  for (const address of ["93.184.216.34", "8.8.8.8", "172.32.0.1", "2606:4700::6810:84e5"]) {
+    assert(!isPrivateAddress(address), address);
+  }
+});
+
+Deno.test("assertPublicUrl rejects local hosts, odd ports and private DNS answers", async () => {
+  const publicDns = () => Promise.resolve(["93.184.216.34"]);
+  const privateDns = () => Promise.resolve(["93.184.216.34", "10.0.0.5"]);
+
+  await assertRejects(() => assertPublicUrl(new URL("http://localhost/"), { resolveHost: publicDns }), LinkPreviewError);
+  await assertRejects(() => assertPublicUrl(new URL("http://printer.local/"), { resolveHost: publicDns }), LinkPreviewError);
+  await assertRejects(() => assertPublicUrl(new URL("http://2130706433/"), { resolveHost: publicDns }), LinkPreviewError);
+  await assertRejects(() => assertPublicUrl(new URL("http://[::1]/"), { resolveHost: publicDns }), LinkPreviewError);
+  await assertRejects(() => assertPublicUrl(new URL("http://example.com:8080/"), { resolveHost: publicDns }), LinkPreviewError);
+  await assertRejects(() => assertPublicUrl(new URL("https://rebind.example/"), { resolveHost: privateDns }), LinkPreviewError);
+  assertEquals(await assertPublicUrl(new URL("https://example.com/"), { resolveHost: publicDns }), "93.184.216.34");
+});
+
+Deno.test("fetchLinkPreview refuses non-http URLs and the fixture server without an allowance", async () => {
+  await assertRejects(() => fetchLinkPreview("file:///etc/passwd"), LinkPreviewError, "Only http and https");
+  await withFixtureServer(async (base) => {
+    const error = await assertRejects(() => fetchLinkPreview(`${base}/article`), LinkPreviewError);
+    assertEquals(error.code, "blocked");
+  });
+});
+
+Deno.test("fetchLinkPreview reads metadata through redirects", async () => {
+  await withFixtureServer(async (base, options) => {
+    const preview = await fetchLinkPreview(`${base}/moved`, options);
+    assertEquals(preview.url, `${base}/moved`);
+    assertEquals(preview.final_url, `${base}/article`);
+    assertEquals(preview.title, "Kerala Spice Co. & Sons");
+    assertEquals(preview.image_url, `${base}/images/cover.jpg`);
+    assertEquals(preview.content_type, "text/html");
+  });
+});
+
+Deno.test("fetchLinkPreview connects to the address it checked", async () => {
+  await withFixtureServer(async (base) => {
+    // The name only resolves through resolveHost, so the request can't have
+    // looked it up again
+    const host = `preview-fixture.invalid:${new URL(base).port}`;
+    const preview = await fetchLinkPreview(`http://${host}/article`, {
+      allowedHosts: [host],
+      resolveHost: () => Promise.resolve(["127.0.0.1"]),
+    });
+    assertEquals(preview.title, "Kerala Spice Co. & Sons");
+  });
+});
+
+Deno.test("fetchLinkPreview checks every redirect hop", async () => {
+  await withFixtureServer(async (base, options) => {
+    const blocked = await assertRejects(() => fetchLinkPreview(`${base}/to-metadata`, options), LinkPreviewError);
+    assertEquals(blocked.code, "blocked");
+
+    const looping = await assertRejects(() => fetchLinkPreview(`${base}/loop`, options), LinkPreviewError);
+    assertEquals(looping.code, "too_many_redirects");
+  });
+});
+
+Deno.test("fetchLinkPreview stops reading at the size limit", async () => {
+  await withFixtureServer(async (base, options) => {
+    const preview = await fetchLinkPreview(`${base}/endless`, { ...options, maxBytes: 64 * 1024 });
+    assertEquals(preview.title, null);
+  });
+});
+
+Deno.test("fetchLinkPreview gives up after the timeout", async () => {
+  await withFixtureServer(async (base, options) => {
+    const error = await assertRejects(() => fetchLinkPreview(`${base}/slow`, { ...options, timeoutMs: 200 }), LinkPreviewError);
+    assertEquals(error.code, "timeout");
+  });
+});
+
+Deno.test("fetchLinkPreview describes non-HTML files by type only", async () => {
+  await withFixtureServer(async (base, options) => {
+    const preview = await fetchLinkPreview(`${base}/brochure.pdf`, options);
+    assertEquals(preview.content_type, "application/pdf");
+    assertEquals(preview.title, null);
+
+    const missing = await assertRejects(() => fetchLinkPreview(`${base}/nope`, options), LinkPreviewError);
+    assertEquals(missing.code, "http_error");
+  });
+});
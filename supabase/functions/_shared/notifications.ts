@@ -0,0 +1,46 @@
+// App path a notification links to; mirrors the routing in Notifications.tsx
+export function notificationUrl(type: string, data: Record<string, string | undefined>): string {
+  switch (type) {
+    case "like":
+    case "comment":
+    case "new_post":
+      return data.post_id ? `/post/${data.post_id}` : "/notifications";
+    case "mention":
+      if (data.post_id) return `/post/${data.post_id}`;
+      return data.community_id ? `/communities/${data.community_id}` : "/notifications";
+    case "follow":
+      return data.follower_id ? `/user/${data.follower_id}` : "/notifications";
+    case "community_discussion":
+    case "community_update":
+    case "community_join":
+    case "community_poll":
+      return data.community_id ? `/communities/${data.community_id}` : "/notifications";
+    case "message":
+      return data.conversation_id ? `/messages/${data.conversation_id}` : "/messages";
+    case "business_update":
+    case "business_follow":
+    case "business_post":
+      return data.business_id ? `/business/${data.business_id}` : "/notifications";
+    case "business_review":
+    case "business_review_reply":
+      return data.business_id ? `/business/${data.business_id}?tab=reviews` : "/notifications";
+    case "job_application":
+      return data.job_id ? `/jobs/${data.job_id}` : "/notifications";
+    default:
+      return "/notifications";
+  }
+}
+
+// Preference categories; must match notification_category() in the database
+export const NOTIFICATION_CATEGORIES = [
+  "likes",
+  "comments",
+  "mentions",
+  "follows",
+  "messages",
+  "community",
+  "jobs",
+  "business",
+] as const;
+
+export const NOTIFICATION_CHANNELS = ["in_app", "push", "email"] as const;
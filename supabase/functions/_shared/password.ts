@@ -0,0 +1,89 @@
+// Password hashing shared by mobile-auth and password-reset.
+//
+// Stored format: pbkdf2_sha256$<iterations>$<base64 salt>$<base64 hash>
+// Legacy format: 64 hex chars of unsalted SHA-256 (upgraded on next sign-in)
+
+const ALGORITHM = "pbkdf2_sha256";
+const ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
+const encoder = new TextEncoder();
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+// Compare without short-circuiting so timing does not leak the match length
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    KEY_BITS
+  );
+  return new Uint8Array(bits);
+}
+
+async function legacySha256(password: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", encoder.encode(password));
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = new Uint8Array(SALT_BYTES);
+  crypto.getRandomValues(salt);
+  const hash = await derive(password, salt, ITERATIONS);
+  return `${ALGORITHM}$${ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+}
+
+export interface PasswordCheck {
+  valid: boolean;
+  // True when the stored hash uses an old format or cost and should be replaced
+  needsRehash: boolean;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<PasswordCheck> {
+  if (!stored) return { valid: false, needsRehash: false };
+
+  const parts = stored.split("$");
+  if (parts.length === 4 && parts[0] === ALGORITHM) {
+    const iterations = Number(parts[1]);
+    if (!Number.isInteger(iterations) || iterations <= 0) {
+      return { valid: false, needsRehash: false };
+    }
+    const expected = fromBase64(parts[3]);
+    const actual = await derive(password, fromBase64(parts[2]), iterations);
+    const valid = timingSafeEqual(actual, expected);
+    return { valid, needsRehash: valid && iterations < ITERATIONS };
+  }
+
+  if (/^[0-9a-f]{64}$/.test(stored)) {
+    const legacy = await legacySha256(password);
+    const valid = timingSafeEqual(encoder.encode(legacy), encoder.encode(stored));
+    return { valid, needsRehash: valid };
+  }
+
+  return { valid: false, needsRehash: false };
+}
@@ -0,0 +1,74 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// How long a deleted post stays restorable
+export const TRASH_RETENTION_DAYS = 30;
+
+export function purgeDate(deletedAt: string): string {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// Object path inside the posts bucket for one of its public URLs, or null for
+// anything stored elsewhere
+export function postsBucketPath(supabaseUrl: string, url: string | null | undefined): string | null {
+  if (!url) return null;
+  const prefix = `${supabaseUrl}/storage/v1/object/public/posts/`;
+  if (!url.startsWith(prefix)) return null;
+  try {
+    return decodeURIComponent(url.slice(prefix.length).split("?")[0]);
+  } catch {
+    return null;
+  }
+}
+
+// Object path of a posts bucket URL inside the given user's own folder, or
+// null for files anywhere else
+export function ownPostsBucketPath(supabaseUrl: string, url: string | null | undefined, userId: string | null): string | null {
+  const path = postsBucketPath(supabaseUrl, url);
+  if (!path || !userId || !path.startsWith(`${userId}/`) || path.split("/").includes("..")) return null;
+  return path;
+}
+
+// Permanently deletes posts and their files in the posts bucket. Only files in
+// the author's own folder are removed; a URL pointing anywhere else may be
+// shared with or owned by someone else and is left alone. Rows are only
+// removed once their files are, so a failed storage call is retried on the
+// next run. Returns the number of posts deleted.
+export async function purgePosts(
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  postIds: string[]
+): Promise<number> {
+  if (postIds.length === 0) return 0;
+
+  const { data: posts, error } = await supabase
+    .from("posts")
+    .select("id, user_id, image_url, post_images (image_url)")
+    .in("id", postIds);
+
+  if (error) throw error;
+  if (!posts || posts.length === 0) return 0;
+
+  const paths = new Set<string>();
+  for (const post of posts) {
+    const urls = [post.image_url, ...(post.post_images || []).map((image: { image_url: string }) => image.image_url)];
+    for (const url of urls) {
+      const path = ownPostsBucketPath(supabaseUrl, url, post.user_id);
+      if (path) paths.add(path);
+    }
+  }
+
+  if (paths.size > 0) {
+    const { error: storageError } = await supabase.storage.from("posts").remove([...paths]);
+    if (storageError) throw storageError;
+  }
+
+  // Likes, comments, images, tags and revisions cascade; saved entries are kept
+  // as "deleted" placeholders
+  const { error: deleteError } = await supabase
+    .from("posts")
+    .delete()
+    .in("id", posts.map((post) => post.id));
+
+  if (deleteError) throw deleteError;
+  return posts.length;
+}
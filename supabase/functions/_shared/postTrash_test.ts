@@ -0,0 +1,30 @@
+// Run with: deno test supabase/functions/_shared/postTrash_test.ts
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { ownPostsBucketPath, postsBucketPath, purgeDate } from "./postTrash.ts";
+
+const SUPABASE_URL = "https://example.supabase.co";
+const PREFIX = `${SUPABASE_URL}/storage/v1/object/public/posts/`;
+const USER_ID = "5d0c1f5e-8a43-4e4b-9a8f-3f2a1c7b6d10";
+
+Deno.test("purgeDate is thirty days after deletion", () => {
+  assertEquals(purgeDate("2026-01-01T00:00:00.000Z"), "2026-01-31T00:00:00.000Z");
+});
+
+Deno.test("postsBucketPath decodes paths and drops query strings", () => {
+  assertEquals(postsBucketPath(SUPABASE_URL, `${PREFIX}${USER_ID}/my%20photo.jpg?t=1`), `${USER_ID}/my photo.jpg`);
+  assertEquals(postsBucketPath(SUPABASE_URL, "https://elsewhere.example/posts/a.jpg"), null);
+  assertEquals(postsBucketPath(SUPABASE_URL, null), null);
+});
+
+Deno.test("ownPostsBucketPath only returns files in the user's folder", () => {
+  assertEquals(ownPostsBucketPath(SUPABASE_URL, `${PREFIX}${USER_ID}/1.webp`, USER_ID), `${USER_ID}/1.webp`);
+  assertEquals(ownPostsBucketPath(SUPABASE_URL, `${PREFIX}other-user/1.webp`, USER_ID), null);
+  assertEquals(ownPostsBucketPath(SUPABASE_URL, `${PREFIX}catalog/biz/1.webp`, USER_ID), null);
+  assertEquals(ownPostsBucketPath(SUPABASE_URL, `${PREFIX}${USER_ID}-copy/1.webp`, USER_ID), null);
+  assertEquals(ownPostsBucketPath(SUPABASE_URL, `${PREFIX}${USER_ID}/1.webp`, null), null);
+});
+
+Deno.test("ownPostsBucketPath rejects paths that climb out of the folder", () => {
+  assertEquals(ownPostsBucketPath(SUPABASE_URL, `${PREFIX}${USER_ID}/../other-user/1.webp`, USER_ID), null);
+  assertEquals(ownPostsBucketPath(SUPABASE_URL, `${PREFIX}${USER_ID}/%2E%2E/other-user/1.webp`, USER_ID), null);
+});
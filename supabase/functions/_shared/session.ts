@@ -0,0 +1,176 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface Suspension {
+  reason: string;
+  expires_at: string | null;
+  is_permanent: boolean;
+}
+
+export type SessionResult =
+  | { userId: string; suspension: Suspension | null; error?: undefined; status?: undefined }
+  | { userId?: undefined; suspension?: Suspension; error: string; status: number };
+
+// Returns the user's active suspension, if any. Suspensions whose expiry has
+// passed are lifted on the way (lifted_at set, lifted_by left empty).
+export async function getActiveSuspension(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ suspension: Suspension | null; error: unknown }> {
+  const { data: suspensions, error } = await supabase
+    .from("user_suspensions")
+    .select("id, reason, is_permanent, expires_at")
+    .eq("user_id", userId)
+    .is("lifted_at", null);
+
+  if (error) {
+    return { suspension: null, error };
+  }
+
+  const now = Date.now();
+  const expired = (suspensions || []).filter((s) =>
+    !s.is_permanent && s.expires_at && new Date(s.expires_at).getTime() <= now
+  );
+  const active = (suspensions || []).filter((s) => !expired.includes(s));
+
+  if (expired.length > 0) {
+    const { error: liftError } = await supabase
+      .from("user_suspensions")
+      .update({ lifted_at: new Date().toISOString() })
+      .in("id", expired.map((s) => s.id));
+
+    if (liftError) {
+      console.error("Suspension auto-lift error:", liftError);
+    }
+  }
+
+  if (active.length === 0) {
+    return { suspension: null, error: null };
+  }
+
+  // Report the one that lasts longest; no expiry counts as permanent
+  const longest = active.reduce((a, b) => {
+    const aEnd = a.is_permanent || !a.expires_at ? Infinity : new Date(a.expires_at).getTime();
+    const bEnd = b.is_permanent || !b.expires_at ? Infinity : new Date(b.expires_at).getTime();
+    return bEnd > aEnd ? b : a;
+  });
+  const isPermanent = !!longest.is_permanent || !longest.expires_at;
+
+  return {
+    suspension: {
+      reason: longest.reason,
+      expires_at: isPermanent ? null : longest.expires_at,
+      is_permanent: isPermanent,
+    },
+    error: null,
+  };
+}
+
+export function suspendedMessage(suspension: Suspension): string {
+  const until = suspension.is_permanent || !suspension.expires_at
+    ? "Your account has been suspended"
+    : `Your account is suspended until ${new Date(suspension.expires_at).toUTCString()}`;
+  return `${until}. Reason: ${suspension.reason}`;
+}
+
+// Error body for a write attempted by a suspended user
+export function suspendedErrorBody(suspension: Suspension) {
+  return { error: suspendedMessage(suspension), suspension };
+}
+
+// For functions that identify the user themselves: returns the response to
+// send when the user is suspended (or the lookup fails), otherwise null
+export async function rejectIfSuspended(
+  supabase: SupabaseClient,
+  userId: string,
+  corsHeaders: Record<string, string>
+): Promise<Response | null> {
+  const { suspension, error } = await getActiveSuspension(supabase, userId);
+
+  if (error) {
+    console.error("Suspension lookup error:", error);
+    return new Response(
+      JSON.stringify({ error: "Failed to verify account status" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  if (suspension) {
+    return new Response(
+      JSON.stringify(suspendedErrorBody(suspension)),
+      { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return null;
+}
+
+// Resolve the caller from the x-session-token header.
+// Rejects missing/expired sessions and blocked accounts, so write paths never
+// have to trust a user_id sent in the request body. Suspended accounts are
+// rejected too unless allowSuspended is set, in which case the suspension is
+// returned for the caller to decide per action.
+export async function resolveSessionUser(
+  supabase: SupabaseClient,
+  req: Request,
+  options: { allowSuspended?: boolean } = {}
+): Promise<SessionResult> {
+  const sessionToken = req.headers.get("x-session-token");
+  if (!sessionToken) {
+    return { error: "Session token required", status: 401 };
+  }
+
+  const { data: userId, error: sessionError } = await supabase
+    .rpc("validate_session", { p_session_token: sessionToken });
+
+  if (sessionError) {
+    console.error("validate_session error:", sessionError);
+    return { error: "Session validation failed", status: 500 };
+  }
+
+  if (!userId) {
+    return { error: "Invalid or expired session", status: 401 };
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("is_blocked")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (profile?.is_blocked) {
+    return { error: "Your account has been blocked", status: 403 };
+  }
+
+  const { suspension, error: suspensionError } = await getActiveSuspension(supabase, String(userId));
+
+  if (suspensionError) {
+    console.error("Suspension lookup error:", suspensionError);
+    return { error: "Session validation failed", status: 500 };
+  }
+
+  if (suspension && !options.allowSuspended) {
+    return { error: suspendedMessage(suspension), status: 403, suspension };
+  }
+
+  return { userId: String(userId), suspension };
+}
+
+// Deactivate a user's sessions, optionally keeping the one making the request
+export async function revokeSessions(
+  supabase: SupabaseClient,
+  userId: string,
+  exceptToken?: string | null
+): Promise<{ error: unknown }> {
+  let query = supabase
+    .from("user_sessions")
+    .update({ is_active: false })
+    .eq("user_id", userId)
+    .eq("is_active", true);
+
+  if (exceptToken) {
+    query = query.neq("session_token", exceptToken);
+  }
+
+  const { error } = await query;
+  return { error };
+}
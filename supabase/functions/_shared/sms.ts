@@ -0,0 +1,58 @@
+// Pluggable SMS delivery.
+// SMS_PROVIDER selects the sender: "console" (default, logs only) or "webhook".
+// The webhook sender POSTs { to, message } to SMS_WEBHOOK_URL so any gateway
+// can be wired in without changing the functions that send messages.
+
+export interface SmsSender {
+  readonly name: string;
+  send(to: string, message: string): Promise<void>;
+}
+
+class ConsoleSmsSender implements SmsSender {
+  readonly name = "console";
+
+  async send(to: string, message: string): Promise<void> {
+    console.log(`[sms:console] to=${to} message=${message}`);
+  }
+}
+
+class WebhookSmsSender implements SmsSender {
+  readonly name = "webhook";
+
+  constructor(private url: string, private apiKey: string | undefined) {}
+
+  async send(to: string, message: string): Promise<void> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers["Authorization"] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ to, message }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMS webhook responded with ${response.status}`);
+    }
+  }
+}
+
+export function getSmsSender(): SmsSender {
+  const provider = Deno.env.get("SMS_PROVIDER") ?? "console";
+
+  if (provider === "console") {
+    return new ConsoleSmsSender();
+  }
+
+  if (provider === "webhook") {
+    const url = Deno.env.get("SMS_WEBHOOK_URL");
+    if (!url) {
+      throw new Error("SMS_WEBHOOK_URL is required for the webhook SMS provider");
+    }
+    return new WebhookSmsSender(url, Deno.env.get("SMS_WEBHOOK_API_KEY"));
+  }
+
+  throw new Error(`Unknown SMS_PROVIDER: ${provider}`);
+}
@@ -0,0 +1,110 @@
+// #hashtag and @mention indexing for posts, comments and community
+// discussions. The patterns are mirrored by src/lib/richText.ts, which turns
+// the same tokens into links on the client.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type TagSource =
+  | { post_id: string }
+  | { comment_id: string }
+  | { discussion_id: string };
+
+// Tags may use any script (Malayalam included) but need at least one letter,
+// so "#1" or "#2024" are not treated as tags
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{M}\p{N}_&/])#([\p{L}\p{M}\p{N}_]{1,50})(?![\p{L}\p{M}\p{N}_])/gu;
+// Same rules as usernames; the preceding character check skips email addresses
+const MENTION_PATTERN = /(^|[^A-Za-z0-9_.@])@([A-Za-z0-9_]{3,30})(?![A-Za-z0-9_])/g;
+// An @ or # inside a link (medium.com/@name, page#section) is not a token
+const URL_PATTERN = /https?:\/\/[^\s<>"']*[^\s<>"'.,;:!?)\]}]/g;
+
+const MAX_TAGS = 30;
+const MAX_MENTIONS = 20;
+
+export function extractHashtags(content: string | null | undefined): string[] {
+  const tags = new Set<string>();
+  for (const match of (content || "").replace(URL_PATTERN, " ").matchAll(HASHTAG_PATTERN)) {
+    const tag = match[2].toLowerCase();
+    if (/\p{L}/u.test(tag)) tags.add(tag);
+    if (tags.size >= MAX_TAGS) break;
+  }
+  return [...tags];
+}
+
+export function extractMentions(content: string | null | undefined): string[] {
+  const usernames = new Set<string>();
+  for (const match of (content || "").replace(URL_PATTERN, " ").matchAll(MENTION_PATTERN)) {
+    usernames.add(match[2].toLowerCase());
+    if (usernames.size >= MAX_MENTIONS) break;
+  }
+  return [...usernames];
+}
+
+function sourceColumn(source: TagSource): [string, string] {
+  if ("post_id" in source) return ["post_id", source.post_id];
+  if ("comment_id" in source) return ["comment_id", source.comment_id];
+  return ["discussion_id", source.discussion_id];
+}
+
+/**
+ * Brings hashtag_uses and mentions in line with the content. Hashtags are
+ * replaced outright; mentions are diffed so only newly mentioned users get a
+ * row, and with it a notification. Failures are logged rather than thrown:
+ * the post itself has already been saved.
+ */
+export async function indexTagsAndMentions(
+  supabase: SupabaseClient,
+  source: TagSource,
+  authorId: string,
+  content: string | null | undefined
+): Promise<void> {
+  const [column, id] = sourceColumn(source);
+
+  try {
+    const tags = extractHashtags(content);
+    const { error: clearError } = await supabase.from("hashtag_uses").delete().eq(column, id);
+    if (clearError) throw clearError;
+
+    if (tags.length > 0) {
+      const { error: tagError } = await supabase
+        .from("hashtag_uses")
+        .insert(tags.map((tag) => ({ tag, [column]: id })));
+      if (tagError) throw tagError;
+    }
+
+    const usernames = extractMentions(content);
+    let mentionedIds: string[] = [];
+    if (usernames.length > 0) {
+      const { data: users, error: resolveError } = await supabase
+        .rpc("resolve_usernames", { p_usernames: usernames });
+      if (resolveError) throw resolveError;
+      mentionedIds = ((users || []) as { id: string }[]).map((u) => u.id);
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from("mentions")
+      .select("mentioned_user_id")
+      .eq(column, id);
+    if (existingError) throw existingError;
+
+    const existingIds = ((existing || []) as { mentioned_user_id: string }[]).map((m) => m.mentioned_user_id);
+    const removed = existingIds.filter((userId) => !mentionedIds.includes(userId));
+    const added = mentionedIds.filter((userId) => !existingIds.includes(userId));
+
+    if (removed.length > 0) {
+      const { error: removeError } = await supabase
+        .from("mentions")
+        .delete()
+        .eq(column, id)
+        .in("mentioned_user_id", removed);
+      if (removeError) throw removeError;
+    }
+
+    if (added.length > 0) {
+      const { error: mentionError } = await supabase
+        .from("mentions")
+        .insert(added.map((userId) => ({ mentioned_user_id: userId, author_id: authorId, [column]: id })));
+      if (mentionError) throw mentionError;
+    }
+  } catch (error) {
+    console.error(`Tag indexing error for ${column} ${id}:`, error);
+  }
+}
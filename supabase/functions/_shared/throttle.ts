@@ -0,0 +1,91 @@
+// Brute-force limiter shared by mobile-auth signin and password-reset.
+// Attempt counts and lockouts live in public.auth_throttles; the backoff
+// policy is implemented by record_auth_failure() in the database.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type ThrottleScope = "signin" | "password_reset";
+
+export interface ThrottleStatus {
+  locked: boolean;
+  lockedUntil: string | null;
+  // Seconds until the lock expires, 0 when not locked
+  retryAfter: number;
+}
+
+function toStatus(lockedUntil: string | null): ThrottleStatus {
+  if (!lockedUntil) return { locked: false, lockedUntil: null, retryAfter: 0 };
+  const retryAfter = Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 1000);
+  if (retryAfter <= 0) return { locked: false, lockedUntil: null, retryAfter: 0 };
+  return { locked: true, lockedUntil, retryAfter };
+}
+
+// Prefer headers the edge proxy sets itself. The leftmost X-Forwarded-For
+// entry is whatever the client sent, so only the last hop (appended by the
+// proxy) is trusted; otherwise rotating the header would dodge IP lockouts.
+export function getClientIp(req: Request): string | null {
+  const direct = req.headers.get("cf-connecting-ip") ?? req.headers.get("x-real-ip");
+  if (direct) return direct.trim();
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (!forwarded) return null;
+  const hops = forwarded.split(",").map((hop) => hop.trim()).filter(Boolean);
+  return hops.length > 0 ? hops[hops.length - 1] : null;
+}
+
+export async function checkThrottle(
+  supabase: SupabaseClient,
+  scope: ThrottleScope,
+  mobileNumber: string,
+  ip: string | null
+): Promise<ThrottleStatus> {
+  const { data, error } = await supabase.rpc("check_auth_throttle", {
+    p_scope: scope,
+    p_mobile: mobileNumber,
+    p_ip: ip,
+  });
+
+  if (error) {
+    // Fail open: a limiter outage should not lock everyone out
+    console.error("Throttle check error:", error);
+    return toStatus(null);
+  }
+  return toStatus(data as string | null);
+}
+
+export async function recordFailure(
+  supabase: SupabaseClient,
+  scope: ThrottleScope,
+  mobileNumber: string,
+  ip: string | null
+): Promise<ThrottleStatus> {
+  const { data, error } = await supabase.rpc("record_auth_failure", {
+    p_scope: scope,
+    p_mobile: mobileNumber,
+    p_ip: ip,
+  });
+
+  if (error) {
+    console.error("Throttle record error:", error);
+    return toStatus(null);
+  }
+  return toStatus(data as string | null);
+}
+
+export async function clearFailures(
+  supabase: SupabaseClient,
+  scope: ThrottleScope,
+  mobileNumber: string
+): Promise<void> {
+  const { error } = await supabase.rpc("clear_auth_failures", {
+    p_scope: scope,
+    p_mobile: mobileNumber,
+  });
+
+  if (error) {
+    console.error("Throttle clear error:", error);
+  }
+}
+
+export function lockedMessage(status: ThrottleStatus): string {
+  const minutes = Math.max(1, Math.ceil(status.retryAfter / 60));
+  return `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+}
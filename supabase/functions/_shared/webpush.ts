@@ -0,0 +1,139 @@
+// Minimal Web Push sender: VAPID authentication (RFC 8292) and aes128gcm
+// payload encryption (RFC 8291), implemented with WebCrypto only.
+
+export interface PushTarget {
+  endpoint: string;
+  // Subscriber's P-256 public key and auth secret, base64url as sent by the browser
+  p256dh: string;
+  auth: string;
+}
+
+export interface VapidKeys {
+  // Uncompressed P-256 public key (65 bytes) and private scalar (32 bytes), base64url
+  publicKey: string;
+  privateKey: string;
+  // mailto: or https: contact for the push service operator
+  subject: string;
+}
+
+export interface PushOptions {
+  ttl?: number;
+  urgency?: "very-low" | "low" | "normal" | "high";
+  topic?: string;
+}
+
+const encoder = new TextEncoder();
+const RECORD_SIZE = 4096;
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", ikm, "HKDF", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "HKDF", hash: "SHA-256", salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+async function createVapidAuthorization(endpoint: string, vapid: VapidKeys): Promise<string> {
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  const jwk: JsonWebKey = {
+    kty: "EC",
+    crv: "P-256",
+    x: base64UrlEncode(publicKey.slice(1, 33)),
+    y: base64UrlEncode(publicKey.slice(33, 65)),
+    d: vapid.privateKey,
+    ext: true,
+  };
+  const signingKey = await crypto.subtle.importKey("jwk", jwk, { name: "ECDSA", namedCurve: "P-256" }, false, ["sign"]);
+
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ typ: "JWT", alg: "ES256" })));
+  const claims = base64UrlEncode(encoder.encode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: vapid.subject,
+  })));
+  const unsigned = `${header}.${claims}`;
+
+  // WebCrypto returns the raw r||s signature that JWS expects
+  const signature = new Uint8Array(
+    await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, signingKey, encoder.encode(unsigned))
+  );
+
+  return `vapid t=${unsigned}.${base64UrlEncode(signature)}, k=${vapid.publicKey}`;
+}
+
+// Encrypts a payload for one subscriber as a single aes128gcm record
+export async function encryptPayload(target: PushTarget, payload: Uint8Array): Promise<Uint8Array> {
+  const uaPublic = base64UrlDecode(target.p256dh);
+  const authSecret = base64UrlDecode(target.auth);
+
+  const asKeys = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"]) as CryptoKeyPair;
+  const asPublic = new Uint8Array(await crypto.subtle.exportKey("raw", asKeys.publicKey));
+  const uaKey = await crypto.subtle.importKey("raw", uaPublic, { name: "ECDH", namedCurve: "P-256" }, false, []);
+  const ecdhSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: "ECDH", public: uaKey }, asKeys.privateKey, 256)
+  );
+
+  const keyInfo = concat(encoder.encode("WebPush: info\0"), uaPublic, asPublic);
+  const ikm = await hkdf(authSecret, ecdhSecret, keyInfo, 32);
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const cek = await hkdf(salt, ikm, encoder.encode("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode("Content-Encoding: nonce\0"), 12);
+
+  // 0x02 marks the last (and only) record
+  const padded = concat(payload, new Uint8Array([2]));
+  const aesKey = await crypto.subtle.importKey("raw", cek, "AES-GCM", false, ["encrypt"]);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce }, aesKey, padded));
+
+  const recordSize = new Uint8Array(4);
+  new DataView(recordSize.buffer).setUint32(0, RECORD_SIZE);
+
+  return concat(salt, recordSize, new Uint8Array([asPublic.length]), asPublic, ciphertext);
+}
+
+export async function sendWebPush(
+  target: PushTarget,
+  payload: string,
+  vapid: VapidKeys,
+  options: PushOptions = {}
+): Promise<Response> {
+  const body = await encryptPayload(target, encoder.encode(payload));
+
+  const headers: Record<string, string> = {
+    "Authorization": await createVapidAuthorization(target.endpoint, vapid),
+    "Content-Encoding": "aes128gcm",
+    "Content-Type": "application/octet-stream",
+    "TTL": String(options.ttl ?? 24 * 60 * 60),
+    "Urgency": options.urgency ?? "normal",
+  };
+  if (options.topic) {
+    headers["Topic"] = options.topic;
+  }
+
+  return await fetch(target.endpoint, { method: "POST", headers, body });
+}
+
+// Push services answer 404/410 once a subscription has expired or been revoked
+export function isGoneStatus(status: number): boolean {
+  return status === 404 || status === 410;
+}
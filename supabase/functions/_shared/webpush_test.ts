@@ -0,0 +1,98 @@
+// Run with: deno test --allow-net supabase/functions/_shared/webpush_test.ts
+// Sends through a local mock push endpoint and decrypts what it received.
+import { assertEquals, assert } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { base64UrlDecode, base64UrlEncode, isGoneStatus, sendWebPush, type VapidKeys } from "./webpush.ts";
+
+const encoder = new TextEncoder();
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", ikm, "HKDF", false, ["deriveBits"]);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: "HKDF", hash: "SHA-256", salt, info }, key, length * 8));
+}
+
+async function generateKeyPair() {
+  const keys = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"]) as CryptoKeyPair;
+  const publicRaw = new Uint8Array(await crypto.subtle.exportKey("raw", keys.publicKey));
+  const jwk = await crypto.subtle.exportKey("jwk", keys.privateKey);
+  return { keys, publicRaw, d: jwk.d! };
+}
+
+// What a browser does on receipt (RFC 8291 section 3)
+async function decrypt(body: Uint8Array, uaKeys: CryptoKeyPair, uaPublic: Uint8Array, authSecret: Uint8Array) {
+  const salt = body.slice(0, 16);
+  const idLength = body[20];
+  const asPublic = body.slice(21, 21 + idLength);
+  const ciphertext = body.slice(21 + idLength);
+
+  const asKey = await crypto.subtle.importKey("raw", asPublic, { name: "ECDH", namedCurve: "P-256" }, false, []);
+  const ecdhSecret = new Uint8Array(await crypto.subtle.deriveBits({ name: "ECDH", public: asKey }, uaKeys.privateKey, 256));
+  const keyInfo = new Uint8Array([...encoder.encode("WebPush: info\0"), ...uaPublic, ...asPublic]);
+  const ikm = await hkdf(authSecret, ecdhSecret, keyInfo, 32);
+  const cek = await hkdf(salt, ikm, encoder.encode("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode("Content-Encoding: nonce\0"), 12);
+
+  const aesKey = await crypto.subtle.importKey("raw", cek, "AES-GCM", false, ["decrypt"]);
+  const padded = new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv: nonce }, aesKey, ciphertext));
+  assertEquals(padded[padded.length - 1], 2);
+  return new TextDecoder().decode(padded.slice(0, -1));
+}
+
+Deno.test("sendWebPush delivers an encrypted, VAPID-signed payload", async () => {
+  const vapidPair = await generateKeyPair();
+  const vapid: VapidKeys = {
+    publicKey: base64UrlEncode(vapidPair.publicRaw),
+    privateKey: vapidPair.d,
+    subject: "mailto:test@example.com",
+  };
+  const subscriber = await generateKeyPair();
+  const authSecret = crypto.getRandomValues(new Uint8Array(16));
+
+  let received: { headers: Headers; body: Uint8Array } | null = null;
+  const controller = new AbortController();
+  const server = Deno.serve({ port: 0, signal: controller.signal, onListen: () => {} }, async (req) => {
+    received = { headers: req.headers, body: new Uint8Array(await req.arrayBuffer()) };
+    return new Response(null, { status: 201 });
+  });
+
+  try {
+    const endpoint = `http://localhost:${server.addr.port}/push/abc`;
+    const response = await sendWebPush(
+      { endpoint, p256dh: base64UrlEncode(subscriber.publicRaw), auth: base64UrlEncode(authSecret) },
+      JSON.stringify({ title: "Hello", body: "World" }),
+      vapid
+    );
+    await response.body?.cancel();
+
+    assertEquals(response.status, 201);
+    assert(received);
+    const { headers, body } = received as { headers: Headers; body: Uint8Array };
+    assertEquals(headers.get("content-encoding"), "aes128gcm");
+
+    // Verify the VAPID JWT signature with the public key
+    const auth = headers.get("authorization")!;
+    const [, token, key] = auth.match(/^vapid t=([^,]+), k=(.+)$/)!;
+    assertEquals(key, vapid.publicKey);
+    const [header, claims, signature] = token.split(".");
+    const verifyKey = await crypto.subtle.importKey("raw", vapidPair.publicRaw, { name: "ECDSA", namedCurve: "P-256" }, false, ["verify"]);
+    assert(await crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      verifyKey,
+      base64UrlDecode(signature),
+      encoder.encode(`${header}.${claims}`)
+    ));
+    assertEquals(JSON.parse(new TextDecoder().decode(base64UrlDecode(claims))).aud, `http://localhost:${server.addr.port}`);
+
+    const payload = await decrypt(body, subscriber.keys, subscriber.publicRaw, authSecret);
+    assertEquals(JSON.parse(payload), { title: "Hello", body: "World" });
+  } finally {
+    controller.abort();
+    await server.finished;
+  }
+});
+
+Deno.test("isGoneStatus flags expired subscriptions", () => {
+  assert(isGoneStatus(404));
+  assert(isGoneStatus(410));
+  assert(!isGoneStatus(201));
+  assert(!isGoneStatus(429));
+});
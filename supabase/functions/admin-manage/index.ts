@@ -160,6 +160,38 @@ serve(async (req) => {
           }));
 
           result = { data: jobs };
+        } else if (entity_type === "lockouts") {
+          const { data, error } = await supabaseAdmin
+            .from("auth_throttles")
+            .select("id, scope, key_type, key_value, failed_count, last_failed_at, locked_until")
+            .gt("locked_until", new Date().toISOString())
+            .order("locked_until", { ascending: false });
+
+          if (error) {
+            console.error("Error fetching lockouts:", error);
+            throw error;
+          }
+
+          // Attach the account for mobile-number lockouts
+          const mobiles = (data || []).filter(l => l.key_type === "mobile").map(l => l.key_value);
+          const { data: profiles } = mobiles.length > 0
+            ? await supabaseAdmin
+                .from("profiles")
+                .select("id, full_name, username, mobile_number")
+                .in("mobile_number", mobiles)
+            : { data: [] };
+
+          const profileMap: Record<string, { id: string; full_name: string | null; username: string | null }> = {};
+          (profiles || []).forEach(p => {
+            if (p.mobile_number) profileMap[p.mobile_number] = p;
+          });
+
+          const lockouts = (data || []).map(l => ({
+            ...l,
+            user: l.key_type === "mobile" ? profileMap[l.key_value] || null : null,
+          }));
+
+          result = { data: lockouts };
         } else {
           throw new Error("Unknown entity type: " + entity_type);
         }
@@ -177,16 +209,59 @@ serve(async (req) => {
         else if (entity_type === "jobs") tableName = "jobs";
         else throw new Error("Unknown entity type: " + entity_type);
 
-        const { error } = await supabaseAdmin
+        const { data: updated, error } = await supabaseAdmin
           .from(tableName)
           .update(updates)
-          .eq("id", entity_id);
+          .eq("id", entity_id)
+          .select("*")
+          .maybeSingle();
 
         if (error) {
           console.error("Error updating:", error);
           throw error;
         }
 
+        // Tell the owner about approval and disable decisions on their content
+        const ownerColumn: Record<string, string> = {
+          communities: "created_by",
+          businesses: "owner_id",
+          jobs: "creator_id",
+        };
+        const label: Record<string, string> = {
+          communities: "community",
+          businesses: "business",
+          jobs: "job",
+        };
+        const ownerId = updated?.[ownerColumn[entity_type]];
+        const itemName = updated?.name || updated?.title || `your ${label[entity_type]}`;
+
+        let notice: string | null = null;
+        if (updates.approval_status === "approved") {
+          notice = `Your ${label[entity_type]} "${itemName}" has been approved.`;
+        } else if (updates.approval_status === "rejected") {
+          notice = `Your ${label[entity_type]} "${itemName}" was not approved.`;
+        } else if (updates.is_disabled === true) {
+          notice = `Your ${label[entity_type]} "${itemName}" was disabled by a moderator.`;
+        } else if (updates.is_disabled === false) {
+          notice = `Your ${label[entity_type]} "${itemName}" has been re-enabled.`;
+        }
+
+        if (notice && updates.disabled_reason) {
+          notice += ` Reason: ${updates.disabled_reason}`;
+        }
+
+        if (notice && ownerId) {
+          const { error: notifyError } = await supabaseAdmin.rpc("create_notification", {
+            p_user_id: ownerId,
+            p_actor_id: null,
+            p_type: "admin_action",
+            p_title: "Moderation update",
+            p_action: notice,
+            p_data: { [`${label[entity_type]}_id`]: entity_id },
+          });
+          if (notifyError) console.error("Notification error:", notifyError);
+        }
+
         // Log activity
         await supabaseAdmin.from("admin_activity_logs").insert({
           admin_id: session.user_id,
@@ -199,6 +274,149 @@ serve(async (req) => {
         break;
       }
 
+      case "list_revisions": {
+        // Earlier versions of an edited post or comment, newest first
+        if (!entity_id || (entity_type !== "post" && entity_type !== "comment")) {
+          throw new Error("Missing entity_id or invalid entity_type");
+        }
+
+        const table = entity_type === "post" ? "posts" : "comments";
+        const { data: current, error: currentError } = await supabaseAdmin
+          .from(table)
+          .select("content, created_at, edited_at")
+          .eq("id", entity_id)
+          .maybeSingle();
+
+        if (currentError) throw currentError;
+
+        const { data, error } = await supabaseAdmin
+          .from("content_revisions")
+          .select("id, content, created_at, editor:profiles!content_revisions_edited_by_fkey(full_name, username)")
+          .eq(entity_type === "post" ? "post_id" : "comment_id", entity_id)
+          .order("created_at", { ascending: false });
+
+        if (error) {
+          console.error("Error fetching revisions:", error);
+          throw error;
+        }
+
+        result = { data: { current, revisions: data || [] } };
+        break;
+      }
+
+      case "delete_comment": {
+        if (!entity_id) {
+          throw new Error("Missing entity_id");
+        }
+
+        // Replies cascade with the comment
+        const { data: comment, error } = await supabaseAdmin
+          .from("comments")
+          .delete()
+          .eq("id", entity_id)
+          .select("user_id, post_id, content")
+          .maybeSingle();
+
+        if (error) {
+          console.error("Error deleting comment:", error);
+          throw error;
+        }
+
+        if (comment?.user_id) {
+          const { error: notifyError } = await supabaseAdmin.rpc("create_notification", {
+            p_user_id: comment.user_id,
+            p_actor_id: null,
+            p_type: "admin_action",
+            p_title: "Moderation update",
+            p_action: "Your comment was removed by a moderator",
+            p_data: { post_id: comment.post_id },
+          });
+          if (notifyError) console.error("Notification error:", notifyError);
+        }
+
+        await supabaseAdmin.from("admin_activity_logs").insert({
+          admin_id: session.user_id,
+          action: "Deleted comment",
+          target_type: "comment",
+          target_id: entity_id,
+          details: comment,
+        });
+
+        result = { success: true };
+        break;
+      }
+
+      case "delete_business_review": {
+        if (!entity_id) {
+          throw new Error("Missing entity_id");
+        }
+
+        // The business's rating is recounted by trigger
+        const { data: review, error } = await supabaseAdmin
+          .from("business_reviews")
+          .delete()
+          .eq("id", entity_id)
+          .select("user_id, business_id, rating, content")
+          .maybeSingle();
+
+        if (error) {
+          console.error("Error deleting review:", error);
+          throw error;
+        }
+
+        if (review?.user_id) {
+          const { error: notifyError } = await supabaseAdmin.rpc("create_notification", {
+            p_user_id: review.user_id,
+            p_actor_id: null,
+            p_type: "admin_action",
+            p_title: "Moderation update",
+            p_action: "Your business review was removed by a moderator",
+            p_data: { business_id: review.business_id },
+          });
+          if (notifyError) console.error("Notification error:", notifyError);
+        }
+
+        await supabaseAdmin.from("admin_activity_logs").insert({
+          admin_id: session.user_id,
+          action: "Deleted business review",
+          target_type: "business_review",
+          target_id: entity_id,
+          details: review,
+        });
+
+        result = { success: true };
+        break;
+      }
+
+      case "clear_lockout": {
+        if (!entity_id) {
+          throw new Error("Missing entity_id");
+        }
+
+        const { data: lockout, error } = await supabaseAdmin
+          .from("auth_throttles")
+          .delete()
+          .eq("id", entity_id)
+          .select("scope, key_type, key_value")
+          .maybeSingle();
+
+        if (error) {
+          console.error("Error clearing lockout:", error);
+          throw error;
+        }
+
+        await supabaseAdmin.from("admin_activity_logs").insert({
+          admin_id: session.user_id,
+          action: "Cleared sign-in lockout",
+          target_type: "lockout",
+          target_id: entity_id,
+          details: lockout,
+        });
+
+        result = { success: true };
+        break;
+      }
+
       default:
         throw new Error("Unknown action: " + action);
     }
@@ -52,9 +52,23 @@ serve(async (req) => {
       );
     }
 
+    // Let the author know what happened to their post
+    const notifyAuthor = async (authorId: string | null | undefined, actionText: string) => {
+      if (!authorId) return;
+      const { error } = await supabase.rpc("create_notification", {
+        p_user_id: authorId,
+        p_actor_id: null,
+        p_type: "admin_action",
+        p_title: "Moderation update",
+        p_action: actionText,
+        p_data: { post_id },
+      });
+      if (error) console.error("Notification error:", error);
+    };
+
     // Perform the requested action
     if (action === "hide") {
-      const { error: updateError } = await supabase
+      const { data: hiddenPost, error: updateError } = await supabase
         .from("posts")
         .update({
           is_hidden: true,
@@ -62,7 +76,9 @@ serve(async (req) => {
           hidden_reason: reason || "Hidden by admin",
           status: "hidden",
         })
-        .eq("id", post_id);
+        .eq("id", post_id)
+        .select("user_id")
+        .maybeSingle();
 
       if (updateError) {
         console.error("Hide post error:", updateError);
@@ -81,11 +97,22 @@ serve(async (req) => {
         details: { reason: reason || "Hidden by admin" },
       });
 
+      await notifyAuthor(
+        hiddenPost?.user_id,
+        `Your post was hidden by a moderator. Reason: ${reason || "Hidden by admin"}`
+      );
+
       return new Response(
         JSON.stringify({ success: true, message: "Post hidden successfully" }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     } else if (action === "delete") {
+      const { data: deletedPost } = await supabase
+        .from("posts")
+        .select("user_id")
+        .eq("id", post_id)
+        .maybeSingle();
+
       // Cleanup related rows first to avoid FK constraint errors
       const { error: likesError } = await supabase
         .from("post_likes")
@@ -149,12 +176,17 @@ serve(async (req) => {
         details: { reason: reason || "Deleted by admin" },
       });
 
+      await notifyAuthor(
+        deletedPost?.user_id,
+        `Your post was removed by a moderator. Reason: ${reason || "Deleted by admin"}`
+      );
+
       return new Response(
         JSON.stringify({ success: true, message: "Post deleted successfully" }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     } else if (action === "unhide") {
-      const { error: updateError } = await supabase
+      const { data: restoredPost, error: updateError } = await supabase
         .from("posts")
         .update({
           is_hidden: false,
@@ -162,7 +194,9 @@ serve(async (req) => {
           hidden_reason: null,
           status: "active",
         })
-        .eq("id", post_id);
+        .eq("id", post_id)
+        .select("user_id")
+        .maybeSingle();
 
       if (updateError) {
         console.error("Unhide post error:", updateError);
@@ -181,6 +215,8 @@ serve(async (req) => {
         details: {},
       });
 
+      await notifyAuthor(restoredPost?.user_id, "Your post has been restored and is visible again.");
+
       return new Response(
         JSON.stringify({ success: true, message: "Post unhidden successfully" }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -1,9 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser } from "../_shared/session.ts";
+import { pinFields } from "../_shared/geoPoint.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
 };
 
 serve(async (req) => {
@@ -18,20 +20,31 @@ serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
     
-    const { user_id, name, description, category, location, logo_url, cover_image_url, website_url, instagram_link, youtube_link } = await req.json();
+    // Resolve the caller from the session instead of trusting the request body
+    const session = await resolveSessionUser(supabase, req);
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const user_id = session.userId;
+
+    const { name, description, category, location, district_id, local_body_id, ward_id, latitude, longitude, logo_url, cover_image_url, website_url, instagram_link, youtube_link } = await req.json();
 
     console.log("Creating business for user:", user_id);
 
-    if (!user_id) {
+    if (!name) {
       return new Response(
-        JSON.stringify({ error: "User ID is required" }),
+        JSON.stringify({ error: "Business name is required" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    if (!name) {
+    const pin = pinFields(latitude, longitude);
+    if ("error" in pin) {
       return new Response(
-        JSON.stringify({ error: "Business name is required" }),
+        JSON.stringify({ error: pin.error }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -60,6 +73,10 @@ serve(async (req) => {
         description: description || null,
         category: category || 'other',
         location: location || null,
+        district_id: district_id || null,
+        local_body_id: local_body_id || null,
+        ward_id: ward_id || null,
+        ...pin.fields,
         logo_url: logo_url || null,
         cover_image_url: cover_image_url || null,
         website_url: website_url || null,
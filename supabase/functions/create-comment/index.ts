@@ -1,9 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser } from "../_shared/session.ts";
+import { indexTagsAndMentions } from "../_shared/tags.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
 };
 
 serve(async (req) => {
@@ -18,17 +20,42 @@ serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
     
-    const { user_id, post_id, content } = await req.json();
+    // Resolve the commenter from the session instead of trusting the request body
+    const session = await resolveSessionUser(supabase, req);
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const user_id = session.userId;
+
+    const { post_id, content, parent_id } = await req.json();
 
     console.log("Creating comment - user:", user_id, "post:", post_id);
 
-    if (!user_id || !post_id || !content) {
+    if (!post_id || !content) {
       return new Response(
-        JSON.stringify({ error: "User ID, Post ID, and content are required" }),
+        JSON.stringify({ error: "Post ID and content are required" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
+    // Posts in the trash can't be commented on
+    const { data: post } = await supabase
+      .from("posts")
+      .select("id")
+      .eq("id", post_id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (!post) {
+      return new Response(
+        JSON.stringify({ error: "Post not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Check for blocked words in content
     const { data: containsBlockedWords } = await supabase
       .rpc('contains_blocked_words', { content });
@@ -40,6 +67,8 @@ serve(async (req) => {
         user_id,
         post_id,
         content,
+        // Replies to a reply are re-parented to the top-level comment by a trigger
+        parent_id: parent_id || null,
       })
       .select(`
         *,
@@ -49,12 +78,20 @@ serve(async (req) => {
 
     if (commentError) {
       console.error("Comment creation error:", commentError);
+      if (parent_id && commentError.message?.includes("Parent comment not found")) {
+        return new Response(
+          JSON.stringify({ error: "The comment you replied to no longer exists" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
       return new Response(
         JSON.stringify({ error: "Failed to create comment" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
+    await indexTagsAndMentions(supabase, { comment_id: comment.id }, user_id, content);
+
     // Auto-report if blocked words detected
     if (containsBlockedWords === true) {
       console.log("Blocked words detected in comment:", comment.id);
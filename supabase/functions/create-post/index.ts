@@ -1,11 +1,65 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser } from "../_shared/session.ts";
+import { indexTagsAndMentions } from "../_shared/tags.ts";
+import { ownPostsBucketPath } from "../_shared/postTrash.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
 };
 
+const MAX_IMAGES = 10;
+const MAX_ALT_TEXT_LENGTH = 500;
+
+interface PostImageInput {
+  url: string;
+  path: string;
+  alt_text?: string | null;
+  width?: number | null;
+  height?: number | null;
+}
+
+// Images must already be uploaded to the author's folder in the public posts
+// bucket, so a post can never claim (and later purge) someone else's file
+function validateImages(
+  images: unknown,
+  supabaseUrl: string,
+  userId: string
+): { images: PostImageInput[]; error?: string } {
+  if (images == null) return { images: [] };
+  if (!Array.isArray(images)) return { images: [], error: "Images must be a list" };
+  if (images.length > MAX_IMAGES) return { images: [], error: `A post can have at most ${MAX_IMAGES} images` };
+
+  const valid: PostImageInput[] = [];
+  for (const image of images) {
+    const path = typeof image?.url === "string" ? ownPostsBucketPath(supabaseUrl, image.url, userId) : null;
+    if (!path) {
+      return { images: [], error: "Invalid image" };
+    }
+    const altText = typeof image.alt_text === "string" ? image.alt_text.trim() : "";
+    if (altText.length > MAX_ALT_TEXT_LENGTH) {
+      return { images: [], error: `Alt text must be ${MAX_ALT_TEXT_LENGTH} characters or less` };
+    }
+    valid.push({
+      url: image.url,
+      path,
+      alt_text: altText || null,
+      width: Number.isInteger(image.width) ? image.width : null,
+      height: Number.isInteger(image.height) ? image.height : null,
+    });
+  }
+  return { images: valid };
+}
+
+// Drops the uploads of a post that was not created, so they are not left
+// orphaned in the bucket
+async function discardImages(supabase: SupabaseClient, images: PostImageInput[]) {
+  if (images.length === 0) return;
+  const { error } = await supabase.storage.from("posts").remove(images.map((image) => image.path));
+  if (error) console.error("Discard post images error:", error);
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -18,14 +72,27 @@ serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
     
-    const { user_id, content, image_url, youtube_url, business_id } = await req.json();
+    // Resolve the author from the session instead of trusting the request body
+    const session = await resolveSessionUser(supabase, req);
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const user_id = session.userId;
 
-    if (!user_id) {
+    const { content, images: rawImages, youtube_url, business_id } = await req.json();
+
+    const { images, error: imagesError } = validateImages(rawImages, supabaseUrl, user_id);
+    if (imagesError) {
       return new Response(
-        JSON.stringify({ error: "User ID is required" }),
+        JSON.stringify({ error: imagesError }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+    // The first image doubles as the legacy single image
+    const coverImageUrl = images[0]?.url || null;
 
     // Verify user exists
     const { data: userProfile, error: userError } = await supabase
@@ -42,6 +109,7 @@ serve(async (req) => {
       
       if (createProfileError) {
         console.error("Profile creation error:", createProfileError);
+        await discardImages(supabase, images);
         return new Response(
           JSON.stringify({ error: "Please complete your profile setup first" }),
           { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -58,6 +126,7 @@ serve(async (req) => {
         .maybeSingle();
 
       if (businessError || !businessData) {
+        await discardImages(supabase, images);
         return new Response(
           JSON.stringify({ error: "Business not found" }),
           { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -65,6 +134,7 @@ serve(async (req) => {
       }
 
       if (businessData.owner_id !== user_id) {
+        await discardImages(supabase, images);
         return new Response(
           JSON.stringify({ error: "You don't have permission to post for this business" }),
           { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -73,7 +143,7 @@ serve(async (req) => {
     }
 
     // Validate content
-    if (!content && !image_url && !youtube_url) {
+    if (!content && !coverImageUrl && !youtube_url) {
       return new Response(
         JSON.stringify({ error: "Post must have content, image, or video" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -94,7 +164,7 @@ serve(async (req) => {
       .insert({
         user_id,
         content: content || null,
-        image_url: image_url || null,
+        image_url: coverImageUrl,
         youtube_url: youtube_url || null,
         business_id: business_id || null,
       })
@@ -103,12 +173,40 @@ serve(async (req) => {
 
     if (postError) {
       console.error("Post creation error:", postError);
+      await discardImages(supabase, images);
       return new Response(
         JSON.stringify({ error: "Failed to create post" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
+    if (images.length > 0) {
+      const { error: imagesInsertError } = await supabase
+        .from("post_images")
+        .insert(images.map((image, position) => ({
+          post_id: post.id,
+          image_url: image.url,
+          alt_text: image.alt_text,
+          width: image.width,
+          height: image.height,
+          position,
+        })));
+
+      if (imagesInsertError) {
+        console.error("Post images error:", imagesInsertError);
+        await supabase.from("posts").delete().eq("id", post.id);
+        await discardImages(supabase, images);
+        return new Response(
+          JSON.stringify({ error: "Failed to create post" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    if (content) {
+      await indexTagsAndMentions(supabase, { post_id: post.id }, user_id, content);
+    }
+
     // Auto-report if blocked words detected
     if (containsBlockedWords) {
       console.log("Blocked words detected in post:", post.id);
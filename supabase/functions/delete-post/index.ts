@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { rejectIfSuspended } from "../_shared/session.ts";
+import { purgeDate } from "../_shared/postTrash.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -37,10 +39,13 @@ serve(async (req) => {
       );
     }
 
+    const suspended = await rejectIfSuspended(supabase, userId, corsHeaders);
+    if (suspended) return suspended;
+
     // Fetch the post to verify ownership
     const { data: post, error: fetchError } = await supabase
       .from("posts")
-      .select("id, user_id")
+      .select("id, user_id, deleted_at")
       .eq("id", post_id)
       .maybeSingle();
 
@@ -59,26 +64,26 @@ serve(async (req) => {
       );
     }
 
-    // Delete related records first
-    await supabase.from("post_likes").delete().eq("post_id", post_id);
-    await supabase.from("comments").delete().eq("post_id", post_id);
-
-    // Delete the post
-    const { error: deleteError } = await supabase
-      .from("posts")
-      .delete()
-      .eq("id", post_id);
+    // Move the post to the author's trash; purge-trashed-posts removes it for
+    // good once the retention period is over
+    const deletedAt = post.deleted_at || new Date().toISOString();
+    if (!post.deleted_at) {
+      const { error: trashError } = await supabase
+        .from("posts")
+        .update({ deleted_at: deletedAt })
+        .eq("id", post_id);
 
-    if (deleteError) {
-      console.error("Delete post error:", deleteError);
-      return new Response(
-        JSON.stringify({ error: deleteError.message }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      if (trashError) {
+        console.error("Delete post error:", trashError);
+        return new Response(
+          JSON.stringify({ error: trashError.message }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
     }
 
     return new Response(
-      JSON.stringify({ success: true }),
+      JSON.stringify({ success: true, purge_at: purgeDate(deletedAt) }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
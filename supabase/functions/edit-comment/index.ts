@@ -0,0 +1,126 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser } from "../_shared/session.ts";
+import { indexTagsAndMentions } from "../_shared/tags.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+};
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const session = await resolveSessionUser(supabase, req);
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const user_id = session.userId;
+
+    const { comment_id, content: rawContent } = await req.json();
+    const content = typeof rawContent === "string" ? rawContent.trim() : "";
+
+    if (!comment_id || !content) {
+      return new Response(
+        JSON.stringify({ error: "Comment ID and content are required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: comment, error: fetchError } = await supabase
+      .from("comments")
+      .select("id, user_id, content")
+      .eq("id", comment_id)
+      .maybeSingle();
+
+    if (fetchError || !comment) {
+      return new Response(
+        JSON.stringify({ error: "Comment not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (comment.user_id !== user_id) {
+      return new Response(
+        JSON.stringify({ error: "You can only edit your own comments" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (content === comment.content) {
+      return new Response(
+        JSON.stringify({ success: true, comment }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Check for blocked words in the new content
+    const { data: containsBlockedWords } = await supabase
+      .rpc('contains_blocked_words', { content });
+
+    // Keeps the text being replaced as a revision in the same transaction
+    const { data: updated, error: updateError } = await supabase
+      .rpc("edit_comment_content", {
+        p_comment_id: comment_id,
+        p_editor: user_id,
+        p_content: content,
+      })
+      .select(`
+        *,
+        profiles:user_id (id, full_name, username, avatar_url)
+      `)
+      .single();
+
+    if (updateError) {
+      console.error("Comment edit error:", updateError);
+      return new Response(
+        JSON.stringify({ error: "Failed to edit comment" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    await indexTagsAndMentions(supabase, { comment_id }, user_id, content);
+
+    // Auto-report if blocked words were edited in
+    if (containsBlockedWords === true) {
+      console.log("Blocked words detected in edited comment:", comment_id);
+      const { error: reportError } = await supabase
+        .from("reports")
+        .insert({
+          reporter_id: null, // System-generated report
+          reported_id: comment_id,
+          reported_type: "comment",
+          reason: "Blocked words detected",
+          description: "This comment was automatically flagged for containing blocked/monitored words after an edit.",
+          status: "pending",
+        });
+
+      if (reportError) {
+        console.error("Auto-report creation error:", reportError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, comment: updated }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Edit comment error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
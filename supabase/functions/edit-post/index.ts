@@ -0,0 +1,142 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser } from "../_shared/session.ts";
+import { indexTagsAndMentions } from "../_shared/tags.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+};
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const session = await resolveSessionUser(supabase, req);
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const user_id = session.userId;
+
+    const { post_id, content: rawContent } = await req.json();
+    const content = typeof rawContent === "string" ? rawContent.trim() : "";
+
+    if (!post_id) {
+      return new Response(
+        JSON.stringify({ error: "Post ID is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: post, error: fetchError } = await supabase
+      .from("posts")
+      .select("id, user_id, content, image_url, youtube_url, status")
+      .eq("id", post_id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (fetchError || !post) {
+      return new Response(
+        JSON.stringify({ error: "Post not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (post.user_id !== user_id) {
+      return new Response(
+        JSON.stringify({ error: "You can only edit your own posts" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A hidden post stays as the moderator reviewed it
+    if (post.status === "hidden") {
+      return new Response(
+        JSON.stringify({ error: "This post was hidden by a moderator and can't be edited" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!content && !post.image_url && !post.youtube_url) {
+      return new Response(
+        JSON.stringify({ error: "Post must have content, image, or video" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (content === (post.content || "")) {
+      return new Response(
+        JSON.stringify({ success: true, post }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Check for blocked words in the new content
+    let containsBlockedWords = false;
+    if (content) {
+      const { data: blockedResult } = await supabase
+        .rpc('contains_blocked_words', { content });
+      containsBlockedWords = blockedResult === true;
+    }
+
+    // Keeps the text being replaced as a revision in the same transaction
+    const { data: updated, error: updateError } = await supabase
+      .rpc("edit_post_content", {
+        p_post_id: post_id,
+        p_editor: user_id,
+        p_content: content || null,
+      })
+      .single();
+
+    if (updateError) {
+      console.error("Post edit error:", updateError);
+      return new Response(
+        JSON.stringify({ error: "Failed to edit post" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    await indexTagsAndMentions(supabase, { post_id }, user_id, content);
+
+    // Auto-report if blocked words were edited in
+    if (containsBlockedWords) {
+      console.log("Blocked words detected in edited post:", post_id);
+      const { error: reportError } = await supabase
+        .from("reports")
+        .insert({
+          reporter_id: null, // System-generated report
+          reported_id: post_id,
+          reported_type: "post",
+          reason: "Blocked words detected",
+          description: "This post was automatically flagged for containing blocked/monitored words after an edit.",
+          status: "pending",
+        });
+
+      if (reportError) {
+        console.error("Auto-report creation error:", reportError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, post: updated }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Edit post error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,148 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { fetchLinkPreview, LinkPreviewError, parsePreviewUrl } from "../_shared/linkPreview.ts";
+import { resolveSessionUser } from "../_shared/session.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+};
+
+const PREVIEW_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Failures are retried sooner, in case the site was only briefly down
+const ERROR_TTL_MS = 60 * 60 * 1000;
+
+// Cached previews are free; each user may make the function fetch this many
+// uncached links per window
+const FETCH_LIMIT = 60;
+const FETCH_WINDOW_MS = 10 * 60 * 1000;
+
+const CACHE_COLUMNS = "url, final_url, title, description, image_url, site_name, content_type, status";
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Only signed-in users may make the server fetch pages; suspended users
+    // still see previews in their feed
+    const session = await resolveSessionUser(supabase, req, { allowSuspended: true });
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const user_id = session.userId;
+
+    const { url: rawUrl } = await req.json();
+
+    let url: string;
+    try {
+      url = parsePreviewUrl(rawUrl).href;
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : "A valid URL is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: cached } = await supabase
+      .from("link_previews")
+      .select(CACHE_COLUMNS)
+      .eq("url", url)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+
+    if (cached) {
+      const { status, ...preview } = cached;
+      return new Response(
+        JSON.stringify({ success: true, preview: status === "ok" ? preview : null, cached: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { count: recentFetches, error: countError } = await supabase
+      .from("link_previews")
+      .select("url", { count: "exact", head: true })
+      .eq("fetched_by", user_id)
+      .gte("fetched_at", new Date(Date.now() - FETCH_WINDOW_MS).toISOString());
+
+    if (countError) {
+      console.error("Link preview throttle error:", countError);
+    } else if ((recentFetches || 0) >= FETCH_LIMIT) {
+      return new Response(
+        JSON.stringify({ error: "Too many link previews requested. Please try again later." }),
+        { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    try {
+      const preview = await fetchLinkPreview(url);
+
+      const { error: cacheError } = await supabase
+        .from("link_previews")
+        .upsert({
+          ...preview,
+          status: "ok",
+          error: null,
+          fetched_at: new Date().toISOString(),
+          fetched_by: user_id,
+          expires_at: new Date(Date.now() + PREVIEW_TTL_MS).toISOString(),
+        });
+      if (cacheError) console.error("Link preview cache error:", cacheError);
+
+      return new Response(
+        JSON.stringify({ success: true, preview, cached: false }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    } catch (error) {
+      if (!(error instanceof LinkPreviewError)) throw error;
+
+      // Private and reserved addresses are refused outright
+      if (error.code === "blocked" || error.code === "invalid_url") {
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      console.log("Link preview failed:", url, error.code, error.message);
+      const { error: cacheError } = await supabase
+        .from("link_previews")
+        .upsert({
+          url,
+          final_url: null,
+          title: null,
+          description: null,
+          image_url: null,
+          site_name: null,
+          content_type: null,
+          status: "error",
+          error: `${error.code}: ${error.message}`,
+          fetched_at: new Date().toISOString(),
+          fetched_by: user_id,
+          expires_at: new Date(Date.now() + ERROR_TTL_MS).toISOString(),
+        });
+      if (cacheError) console.error("Link preview cache error:", cacheError);
+
+      return new Response(
+        JSON.stringify({ success: true, preview: null, cached: false }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+  } catch (error) {
+    console.error("Link preview error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
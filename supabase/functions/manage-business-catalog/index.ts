@@ -0,0 +1,161 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser } from "../_shared/session.ts";
+import { catalogItemFields } from "../_shared/catalog.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+};
+
+const MAX_ITEMS_PER_BUSINESS = 200;
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const session = await resolveSessionUser(supabase, req);
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const userId = session.userId;
+
+    const { action, business_id, item_id, values = {} } = await req.json();
+
+    if (!business_id) {
+      return new Response(
+        JSON.stringify({ error: "Business ID is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: business } = await supabase
+      .from("businesses")
+      .select("id, owner_id")
+      .eq("id", business_id)
+      .maybeSingle();
+
+    if (!business) {
+      return new Response(
+        JSON.stringify({ error: "Business not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (business.owner_id !== userId) {
+      return new Response(
+        JSON.stringify({ error: "Only the business owner can manage its catalog" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // SAVE: insert when there is no item_id, update otherwise
+    if (action === "save") {
+      const result = catalogItemFields(values, `${supabaseUrl}/storage/v1/object/public/posts/catalog/${business_id}/`);
+      if ("error" in result) {
+        return new Response(
+          JSON.stringify({ error: result.error }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      let query;
+      if (item_id) {
+        query = supabase
+          .from("business_catalog_items")
+          .update(result.fields)
+          .eq("id", item_id)
+          .eq("business_id", business_id);
+      } else {
+        // New items go to the end of the list
+        const { count } = await supabase
+          .from("business_catalog_items")
+          .select("id", { count: "exact", head: true })
+          .eq("business_id", business_id);
+
+        if ((count || 0) >= MAX_ITEMS_PER_BUSINESS) {
+          return new Response(
+            JSON.stringify({ error: `A catalog can have at most ${MAX_ITEMS_PER_BUSINESS} items` }),
+            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        query = supabase
+          .from("business_catalog_items")
+          .insert({ ...result.fields, business_id, position: count || 0 });
+      }
+
+      const { data: item, error: saveError } = await query.select("*").maybeSingle();
+
+      if (saveError) {
+        console.error("Save catalog item error:", saveError);
+        return new Response(
+          JSON.stringify({ error: "Failed to save item" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!item) {
+        return new Response(
+          JSON.stringify({ error: "Item not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, item }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // DELETE: enquiries already sent keep their snapshot of the item
+    if (action === "delete") {
+      if (!item_id) {
+        return new Response(
+          JSON.stringify({ error: "Item ID is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error: deleteError } = await supabase
+        .from("business_catalog_items")
+        .delete()
+        .eq("id", item_id)
+        .eq("business_id", business_id);
+
+      if (deleteError) {
+        console.error("Delete catalog item error:", deleteError);
+        return new Response(
+          JSON.stringify({ error: "Failed to delete item" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Invalid action" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Manage business catalog error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { rejectIfSuspended } from '../_shared/session.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -44,6 +45,9 @@ Deno.serve(async (req) => {
       );
     }
 
+    const suspended = await rejectIfSuspended(supabase, userId, corsHeaders);
+    if (suspended) return suspended;
+
     const { action, business_id } = await req.json();
 
     if (!business_id) {
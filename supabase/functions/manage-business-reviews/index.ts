@@ -0,0 +1,332 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { postsBucketPath } from "../_shared/postTrash.ts";
+import { resolveSessionUser } from "../_shared/session.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+};
+
+const MAX_REVIEW_LENGTH = 2000;
+const MAX_REPLY_LENGTH = 1000;
+const MAX_REVIEW_IMAGES = 4;
+
+async function containsBlockedWords(supabase: SupabaseClient, content: string): Promise<boolean> {
+  const { data } = await supabase.rpc("contains_blocked_words", { content });
+  return data === true;
+}
+
+// System-generated report, so moderators see flagged reviews and replies
+async function autoReport(supabase: SupabaseClient, reviewId: string, description: string) {
+  console.log("Blocked words detected in review:", reviewId);
+  const { error } = await supabase
+    .from("reports")
+    .insert({
+      reporter_id: null,
+      reported_id: reviewId,
+      reported_type: "business_review",
+      reason: "Blocked words detected",
+      description,
+      status: "pending",
+    });
+
+  if (error) {
+    console.error("Auto-report creation error:", error);
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const session = await resolveSessionUser(supabase, req);
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const userId = session.userId;
+
+    const { action, business_id, review_id, rating, content, image_urls, reply, reason, description } = await req.json();
+
+    // SAVE: writes the caller's review of a business, replacing any earlier one
+    if (action === "save") {
+      if (!business_id) {
+        return new Response(
+          JSON.stringify({ error: "Business ID is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        return new Response(
+          JSON.stringify({ error: "Rating must be between 1 and 5 stars" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const text = typeof content === "string" ? content.trim() : "";
+      if (!text) {
+        return new Response(
+          JSON.stringify({ error: "Please write a few words about your experience" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      if (text.length > MAX_REVIEW_LENGTH) {
+        return new Response(
+          JSON.stringify({ error: `Reviews must be ${MAX_REVIEW_LENGTH} characters or less` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const images = image_urls ?? [];
+      if (!Array.isArray(images) || images.length > MAX_REVIEW_IMAGES) {
+        return new Response(
+          JSON.stringify({ error: `A review can have at most ${MAX_REVIEW_IMAGES} photos` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Photos must be the caller's own uploads for this business in the posts bucket
+      const photoPrefix = `reviews/${business_id}/${userId}-`;
+      const isOwnPhoto = (url: unknown) => {
+        const path = typeof url === "string" ? postsBucketPath(supabaseUrl, url) : null;
+        return !!path && path.startsWith(photoPrefix) && !path.split("/").includes("..");
+      };
+      if (!images.every(isOwnPhoto)) {
+        return new Response(
+          JSON.stringify({ error: "Review photos must be uploaded with the review" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: business } = await supabase
+        .from("businesses")
+        .select("id, owner_id, is_disabled")
+        .eq("id", business_id)
+        .maybeSingle();
+
+      if (!business || business.is_disabled) {
+        return new Response(
+          JSON.stringify({ error: "Business not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (business.owner_id === userId) {
+        return new Response(
+          JSON.stringify({ error: "You cannot review your own business" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const flagged = await containsBlockedWords(supabase, text);
+
+      const { data: review, error: saveError } = await supabase
+        .from("business_reviews")
+        .upsert(
+          { business_id, user_id: userId, rating, content: text, image_urls: images },
+          { onConflict: "business_id,user_id" }
+        )
+        .select("*")
+        .single();
+
+      if (saveError) {
+        console.error("Save review error:", saveError);
+        return new Response(
+          JSON.stringify({ error: "Failed to save review" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (flagged) {
+        await autoReport(
+          supabase,
+          review.id,
+          "This review was automatically flagged for containing blocked/monitored words."
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, review }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!review_id) {
+      return new Response(
+        JSON.stringify({ error: "Review ID is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: review, error: fetchError } = await supabase
+      .from("business_reviews")
+      .select("id, user_id, business_id, businesses:business_id (owner_id)")
+      .eq("id", review_id)
+      .maybeSingle();
+
+    if (fetchError || !review) {
+      return new Response(
+        JSON.stringify({ error: "Review not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const ownerId = (review.businesses as { owner_id: string | null } | null)?.owner_id;
+
+    // DELETE: only the reviewer; moderators go through admin-manage
+    if (action === "delete") {
+      if (review.user_id !== userId) {
+        return new Response(
+          JSON.stringify({ error: "You can only delete your own review" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error: deleteError } = await supabase
+        .from("business_reviews")
+        .delete()
+        .eq("id", review_id);
+
+      if (deleteError) {
+        console.error("Delete review error:", deleteError);
+        return new Response(
+          JSON.stringify({ error: "Failed to delete review" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // REPLY: the business owner's public answer; an empty reply removes it
+    if (action === "reply") {
+      if (ownerId !== userId) {
+        return new Response(
+          JSON.stringify({ error: "Only the business owner can reply to reviews" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const text = typeof reply === "string" ? reply.trim() : "";
+      if (text.length > MAX_REPLY_LENGTH) {
+        return new Response(
+          JSON.stringify({ error: `Replies must be ${MAX_REPLY_LENGTH} characters or less` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const flagged = text ? await containsBlockedWords(supabase, text) : false;
+
+      const { data: updated, error: replyError } = await supabase
+        .from("business_reviews")
+        .update({
+          owner_reply: text || null,
+          owner_replied_at: text ? new Date().toISOString() : null,
+        })
+        .eq("id", review_id)
+        .select("*")
+        .single();
+
+      if (replyError) {
+        console.error("Review reply error:", replyError);
+        return new Response(
+          JSON.stringify({ error: "Failed to save reply" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (flagged) {
+        await autoReport(
+          supabase,
+          review_id,
+          "The business owner's reply to this review was automatically flagged for containing blocked/monitored words."
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, review: updated }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // REPORT
+    if (action === "report") {
+      if (!reason) {
+        return new Response(
+          JSON.stringify({ error: "Reason is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (review.user_id === userId) {
+        return new Response(
+          JSON.stringify({ error: "You cannot report your own review" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: existingReport } = await supabase
+        .from("reports")
+        .select("id")
+        .eq("reporter_id", userId)
+        .eq("reported_id", review_id)
+        .eq("reported_type", "business_review")
+        .maybeSingle();
+
+      if (existingReport) {
+        return new Response(
+          JSON.stringify({ error: "You have already reported this review" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error: reportError } = await supabase
+        .from("reports")
+        .insert({
+          reporter_id: userId,
+          reported_id: review_id,
+          reported_type: "business_review",
+          reason,
+          description: description || null,
+        });
+
+      if (reportError) {
+        console.error("Review report error:", reportError);
+        return new Response(
+          JSON.stringify({ error: "Failed to submit report" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, message: "Report submitted successfully" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Invalid action" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Manage business reviews error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,9 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser, suspendedErrorBody } from "../_shared/session.ts";
+import { pinFields } from "../_shared/geoPoint.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
 };
 
 serve(async (req) => {
@@ -18,22 +20,25 @@ serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
     
-    const { action, user_id, business_id, ...updateData } = await req.json();
-
-    console.log("Manage business - action:", action, "user:", user_id, "business:", business_id);
-
-    if (!user_id) {
+    // Resolve the caller from the session instead of trusting the request body
+    const session = await resolveSessionUser(supabase, req, { allowSuspended: true });
+    if (session.error) {
       return new Response(
-        JSON.stringify({ error: "User ID is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+    const user_id = session.userId;
+
+    const { action, business_id, ...updateData } = await req.json();
+
+    console.log("Manage business - action:", action, "user:", user_id, "business:", business_id);
 
     // Handle list action - returns user's businesses with all statuses (bypasses RLS)
     if (action === "list") {
       const { data: businesses, error: listError } = await supabase
         .from("businesses")
-        .select("id, name, description, category, logo_url, location, approval_status, owner_id")
+        .select("id, name, description, category, logo_url, location, district_id, local_body_id, ward_id, latitude, longitude, geo_pinned, approval_status, owner_id")
         .eq("owner_id", user_id)
         .order("created_at", { ascending: false });
 
@@ -67,6 +72,14 @@ serve(async (req) => {
       );
     }
 
+    // Suspended owners can still list their businesses but not change them
+    if (session.suspension) {
+      return new Response(
+        JSON.stringify(suspendedErrorBody(session.suspension)),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     if (!business_id) {
       return new Response(
         JSON.stringify({ error: "Business ID is required" }),
@@ -119,6 +132,7 @@ serve(async (req) => {
     if (action === "update") {
       const allowedFields = [
         'name', 'description', 'category', 'location', 
+        'district_id', 'local_body_id', 'ward_id',
         'logo_url', 'cover_image_url', 'website_url', 
         'instagram_link', 'youtube_link'
       ];
@@ -130,6 +144,15 @@ serve(async (req) => {
         }
       }
 
+      const pin = pinFields(updateData.latitude, updateData.longitude);
+      if ("error" in pin) {
+        return new Response(
+          JSON.stringify({ error: pin.error }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      Object.assign(updates, pin.fields);
+
       const { data: updatedBusiness, error: updateError } = await supabase
         .from("businesses")
         .update(updates)
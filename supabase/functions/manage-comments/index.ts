@@ -0,0 +1,242 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser } from "../_shared/session.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+};
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const session = await resolveSessionUser(supabase, req);
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const userId = session.userId;
+
+    const { action, comment_id, reason, description } = await req.json();
+
+    if (!comment_id) {
+      return new Response(
+        JSON.stringify({ error: "Comment ID is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: comment, error: fetchError } = await supabase
+      .from("comments")
+      .select("id, user_id, post_id")
+      .eq("id", comment_id)
+      .maybeSingle();
+
+    if (fetchError || !comment) {
+      return new Response(
+        JSON.stringify({ error: "Comment not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // TOGGLE LIKE
+    if (action === "toggle_like") {
+      // Comments on a post in the trash can't be liked
+      const { data: post } = await supabase
+        .from("posts")
+        .select("id")
+        .eq("id", comment.post_id)
+        .is("deleted_at", null)
+        .maybeSingle();
+
+      if (!post) {
+        return new Response(
+          JSON.stringify({ error: "Post not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: existingLike, error: checkError } = await supabase
+        .from("comment_likes")
+        .select("id")
+        .eq("comment_id", comment_id)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (checkError) {
+        console.error("Check comment like error:", checkError);
+        return new Response(
+          JSON.stringify({ error: "Failed to check like status" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (existingLike) {
+        const { error: deleteError } = await supabase
+          .from("comment_likes")
+          .delete()
+          .eq("id", existingLike.id);
+
+        if (deleteError) {
+          console.error("Delete comment like error:", deleteError);
+          return new Response(
+            JSON.stringify({ error: "Failed to unlike comment" }),
+            { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        return new Response(
+          JSON.stringify({ success: true, liked: false }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error: insertError } = await supabase
+        .from("comment_likes")
+        .insert({ comment_id, user_id: userId });
+
+      if (insertError) {
+        console.error("Insert comment like error:", insertError);
+        return new Response(
+          JSON.stringify({ error: "Failed to like comment" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      return new Response(
+        JSON.stringify({ success: true, liked: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // DELETE (comment author, post owner or moderator); replies go with it
+    if (action === "delete") {
+      let allowed = comment.user_id === userId;
+
+      if (!allowed && comment.post_id) {
+        const { data: post } = await supabase
+          .from("posts")
+          .select("user_id")
+          .eq("id", comment.post_id)
+          .maybeSingle();
+        allowed = post?.user_id === userId;
+      }
+
+      let asModerator = false;
+      if (!allowed) {
+        const { data: isModerator } = await supabase
+          .rpc("has_any_admin_role", { _user_id: userId });
+        allowed = asModerator = isModerator === true;
+      }
+
+      if (!allowed) {
+        return new Response(
+          JSON.stringify({ error: "Not authorized to delete this comment" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error: deleteError } = await supabase
+        .from("comments")
+        .delete()
+        .eq("id", comment_id);
+
+      if (deleteError) {
+        console.error("Delete comment error:", deleteError);
+        return new Response(
+          JSON.stringify({ error: "Failed to delete comment" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (asModerator) {
+        await supabase.from("admin_activity_logs").insert({
+          admin_id: userId,
+          action: "Deleted comment",
+          target_type: "comment",
+          target_id: comment_id,
+          details: { post_id: comment.post_id, author_id: comment.user_id },
+        });
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // REPORT
+    if (action === "report") {
+      if (!reason) {
+        return new Response(
+          JSON.stringify({ error: "Reason is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (comment.user_id === userId) {
+        return new Response(
+          JSON.stringify({ error: "You cannot report your own comment" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: existingReport } = await supabase
+        .from("reports")
+        .select("id")
+        .eq("reporter_id", userId)
+        .eq("reported_id", comment_id)
+        .eq("reported_type", "comment")
+        .maybeSingle();
+
+      if (existingReport) {
+        return new Response(
+          JSON.stringify({ error: "You have already reported this comment" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error: reportError } = await supabase
+        .from("reports")
+        .insert({
+          reporter_id: userId,
+          reported_id: comment_id,
+          reported_type: "comment",
+          reason,
+          description: description || null,
+        });
+
+      if (reportError) {
+        console.error("Comment report error:", reportError);
+        return new Response(
+          JSON.stringify({ error: "Failed to submit report" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, message: "Report submitted successfully" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Invalid action" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Manage comments error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,4 +1,6 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { rejectIfSuspended } from "../_shared/session.ts";
+import { indexTagsAndMentions } from "../_shared/tags.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -44,7 +46,13 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { action, community_id, name, description, cover_image_url, discussion_id, member_user_id, target_user_id, permission } = await req.json();
+    const { action, community_id, name, description, cover_image_url, district_id, local_body_id, ward_id, discussion_id, content, member_user_id, target_user_id, permission } = await req.json();
+
+    // Suspended users can still browse communities but not change anything
+    if (action !== "list") {
+      const suspended = await rejectIfSuspended(supabase, userId, corsHeaders);
+      if (suspended) return suspended;
+    }
 
     // LIST communities (including pending ones for the creator)
     if (action === "list") {
@@ -116,6 +124,9 @@ Deno.serve(async (req) => {
           name: name.trim(),
           description: description?.trim() || null,
           cover_image_url: cover_image_url || null,
+          district_id: district_id || null,
+          local_body_id: local_body_id || null,
+          ward_id: ward_id || null,
           created_by: userId,
           approval_status: 'pending', // Require admin approval
         })
@@ -172,14 +183,22 @@ Deno.serve(async (req) => {
         );
       }
 
+      const updates: Record<string, unknown> = {
+        name: name?.trim(),
+        description: description?.trim() || null,
+        cover_image_url: cover_image_url || null,
+        updated_at: new Date().toISOString(),
+      };
+      // The area is only changed when the caller sends it
+      if (district_id !== undefined || local_body_id !== undefined || ward_id !== undefined) {
+        updates.district_id = district_id || null;
+        updates.local_body_id = local_body_id || null;
+        updates.ward_id = ward_id || null;
+      }
+
       const { error: updateError } = await supabase
         .from("communities")
-        .update({
-          name: name?.trim(),
-          description: description?.trim() || null,
-          cover_image_url: cover_image_url || null,
-          updated_at: new Date().toISOString(),
-        })
+        .update(updates)
         .eq("id", community_id);
 
       if (updateError) {
@@ -298,6 +317,56 @@ Deno.serve(async (req) => {
       );
     }
 
+    // POST discussion (members only)
+    if (action === "post_discussion") {
+      const text = typeof content === "string" ? content.trim() : "";
+      if (!community_id || !text) {
+        return new Response(
+          JSON.stringify({ error: "Community ID and content are required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: membership } = await supabase
+        .from("community_members")
+        .select("id")
+        .eq("community_id", community_id)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (!membership) {
+        return new Response(
+          JSON.stringify({ error: "Join the community to participate in discussions" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: discussion, error: postError } = await supabase
+        .from("community_discussions")
+        .insert({
+          community_id,
+          user_id: userId,
+          content: text,
+        })
+        .select()
+        .single();
+
+      if (postError) {
+        console.error("Post discussion error:", postError);
+        return new Response(
+          JSON.stringify({ error: postError.message }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      await indexTagsAndMentions(supabase, { discussion_id: discussion.id }, userId, text);
+
+      return new Response(
+        JSON.stringify({ success: true, discussion }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // DELETE discussion
     if (action === "delete_discussion") {
       if (!discussion_id) {
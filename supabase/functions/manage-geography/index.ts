@@ -0,0 +1,235 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+};
+
+// Admin edits to the district → block → local body → ward tables. Reads go
+// straight to the tables, which everyone can select from.
+const TABLES: Record<string, { table: string; label: string }> = {
+  districts: { table: "geo_districts", label: "district" },
+  blocks: { table: "geo_blocks", label: "block" },
+  local_bodies: { table: "geo_local_bodies", label: "local body" },
+  wards: { table: "geo_wards", label: "ward" },
+};
+
+const BODY_TYPES = ["grama_panchayath", "municipality", "corporation"];
+
+const EDITOR_ROLES = ["super_admin", "category_manager"];
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const sessionToken = req.headers.get("x-session-token");
+    if (!sessionToken) {
+      return new Response(
+        JSON.stringify({ error: "Missing session token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: session } = await supabase
+      .from("user_sessions")
+      .select("user_id")
+      .eq("session_token", sessionToken)
+      .eq("is_active", true)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+
+    if (!session) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired session" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: roles } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", session.user_id);
+
+    if (!roles?.some((r) => EDITOR_ROLES.includes(r.role))) {
+      return new Response(
+        JSON.stringify({ error: "Admin access required" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { action, entity, id, values = {} } = await req.json();
+    const target = TABLES[entity];
+
+    if (!target) {
+      return new Response(
+        JSON.stringify({ error: "Unknown entity" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // SAVE: insert when there is no id, update otherwise
+    if (action === "save") {
+      // The districts are fixed; only their names can change
+      if (entity === "districts" && !id) {
+        return new Response(
+          JSON.stringify({ error: "Districts cannot be added" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const nameEn = typeof values.name_en === "string" ? values.name_en.trim() : "";
+      if (!nameEn) {
+        return new Response(
+          JSON.stringify({ error: "English name is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const row: Record<string, unknown> = {
+        name_en: nameEn,
+        name_ml: typeof values.name_ml === "string" && values.name_ml.trim() ? values.name_ml.trim() : null,
+      };
+
+      if (entity === "blocks" && !id) {
+        row.district_id = values.district_id;
+      }
+
+      if (entity === "local_bodies") {
+        const bodyType = values.body_type || "grama_panchayath";
+        if (!BODY_TYPES.includes(bodyType)) {
+          return new Response(
+            JSON.stringify({ error: "Invalid local body type" }),
+            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        row.body_type = bodyType;
+        // Municipalities and corporations are not part of a block
+        row.block_id = bodyType === "grama_panchayath" ? values.block_id || null : null;
+        if (!id) row.district_id = values.district_id;
+
+        // The centre businesses without a pin are placed at; both or neither
+        const hasCentre = values.latitude != null && values.latitude !== "" &&
+          values.longitude != null && values.longitude !== "";
+        const latitude = Number(values.latitude);
+        const longitude = Number(values.longitude);
+        if (hasCentre && (!Number.isFinite(latitude) || !Number.isFinite(longitude) ||
+            Math.abs(latitude) > 90 || Math.abs(longitude) > 180)) {
+          return new Response(
+            JSON.stringify({ error: "Invalid centre coordinates" }),
+            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        row.latitude = hasCentre ? latitude : null;
+        row.longitude = hasCentre ? longitude : null;
+      }
+
+      if (entity === "wards") {
+        const wardNumber = Number(values.ward_number);
+        if (!Number.isInteger(wardNumber) || wardNumber < 1) {
+          return new Response(
+            JSON.stringify({ error: "Ward number must be a positive whole number" }),
+            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        row.ward_number = wardNumber;
+        if (!id) row.local_body_id = values.local_body_id;
+      }
+
+      const query = id
+        ? supabase.from(target.table).update(row).eq("id", id)
+        : supabase.from(target.table).insert(row);
+      const { data: saved, error } = await query.select("*").maybeSingle();
+
+      if (error) {
+        console.error(`Error saving ${target.label}:`, error);
+        const message = error.code === "23505"
+          ? entity === "wards"
+            ? "That ward number is already in use"
+            : `A ${target.label} with that name already exists`
+          : error.code === "23503" || error.code === "23502"
+            ? "The district, block or local body it belongs to was not found"
+            : null;
+        return new Response(
+          JSON.stringify({ error: message || "Internal server error" }),
+          { status: message ? 400 : 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!saved) {
+        return new Response(
+          JSON.stringify({ error: `The ${target.label} was not found` }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      await supabase.from("admin_activity_logs").insert({
+        admin_id: session.user_id,
+        action: `${id ? "Updated" : "Added"} ${target.label}: ${saved.name_en}`,
+        target_type: "geography",
+        target_id: saved.id,
+        details: { entity, values: row },
+      });
+
+      return new Response(
+        JSON.stringify({ success: true, [entity]: saved }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // DELETE: wards go with their local body; profiles, businesses,
+    // communities and jobs pointing at a deleted row lose that ID
+    if (action === "delete") {
+      if (!id || entity === "districts") {
+        return new Response(
+          JSON.stringify({ error: entity === "districts" ? "Districts cannot be deleted" : "ID is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: deleted, error } = await supabase
+        .from(target.table)
+        .delete()
+        .eq("id", id)
+        .select("id, name_en")
+        .maybeSingle();
+
+      if (error) {
+        console.error(`Error deleting ${target.label}:`, error);
+        throw error;
+      }
+
+      if (deleted) {
+        await supabase.from("admin_activity_logs").insert({
+          admin_id: session.user_id,
+          action: `Deleted ${target.label}: ${deleted.name_en}`,
+          target_type: "geography",
+          target_id: id,
+          details: { entity },
+        });
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Invalid action" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("manage-geography error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { rejectIfSuspended } from "../_shared/session.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -32,6 +33,12 @@ serve(async (req) => {
     const body = await req.json();
     const { action } = body;
 
+    // Suspended users can still browse jobs but not post, edit or apply
+    if (userId && !["list", "my_jobs", "get"].includes(action)) {
+      const suspended = await rejectIfSuspended(supabase, userId, corsHeaders);
+      if (suspended) return suspended;
+    }
+
     let result;
 
     switch (action) {
@@ -191,13 +198,23 @@ serve(async (req) => {
         if (userId && job.creator_id === userId) {
           const { data: apps } = await supabase
             .from("job_applications")
-            .select(`
-              *,
-              profiles:applicant_id (id, full_name, username, avatar_url, mobile_number, email)
-            `)
+            .select("*")
             .eq("job_id", job_id)
             .order("created_at", { ascending: false });
-          applications = apps || [];
+
+          // Applicant contact details follow each applicant's privacy settings
+          const applicantIds = (apps || []).map((app) => app.applicant_id).filter(Boolean);
+          const { data: applicants } = applicantIds.length > 0
+            ? await supabase.rpc("get_public_profiles", { p_ids: applicantIds })
+              .setHeader("x-session-token", sessionToken ?? "")
+              .select("id, full_name, username, avatar_url, mobile_number, email")
+            : { data: [] };
+          const applicantsById = new Map((applicants || []).map((p: { id: string }) => [p.id, p]));
+
+          applications = (apps || []).map((app) => ({
+            ...app,
+            profiles: applicantsById.get(app.applicant_id) || null,
+          }));
         }
 
         result = {
@@ -219,7 +236,7 @@ serve(async (req) => {
           );
         }
 
-        const { title, description, conditions, location, max_applications, expires_at } = body;
+        const { title, description, conditions, location, district_id, local_body_id, ward_id, max_applications, expires_at } = body;
 
         if (!title?.trim() || !description?.trim()) {
           return new Response(
@@ -236,6 +253,9 @@ serve(async (req) => {
             description: description.trim(),
             conditions: conditions?.trim() || null,
             location: location?.trim() || null,
+            district_id: district_id || null,
+            local_body_id: local_body_id || null,
+            ward_id: ward_id || null,
             max_applications: max_applications || null,
             expires_at: expires_at || null,
             status: "open",
@@ -281,7 +301,7 @@ serve(async (req) => {
         }
 
         // Filter allowed update fields
-        const allowedFields = ["title", "description", "conditions", "location", "max_applications", "expires_at", "status"];
+        const allowedFields = ["title", "description", "conditions", "location", "district_id", "local_body_id", "ward_id", "max_applications", "expires_at", "status"];
         const filteredUpdates: Record<string, any> = {};
         for (const key of allowedFields) {
           if (key in updates) {
@@ -0,0 +1,156 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser } from "../_shared/session.ts";
+import { NOTIFICATION_CATEGORIES, NOTIFICATION_CHANNELS } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+};
+
+const DEFAULT_PREFERENCES = {
+  channels: {},
+  quiet_hours_enabled: false,
+  quiet_hours_start: "22:00",
+  quiet_hours_end: "07:00",
+  timezone: "Asia/Kolkata",
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Keeps only known categories/channels with boolean values
+function sanitizeChannels(input: unknown): Record<string, Record<string, boolean>> | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return null;
+
+  const result: Record<string, Record<string, boolean>> = {};
+  for (const category of NOTIFICATION_CATEGORIES) {
+    const value = (input as Record<string, unknown>)[category];
+    if (!value || typeof value !== "object") continue;
+
+    for (const channel of NOTIFICATION_CHANNELS) {
+      const enabled = (value as Record<string, unknown>)[channel];
+      if (typeof enabled === "boolean") {
+        result[category] = { ...result[category], [channel]: enabled };
+      }
+    }
+  }
+  return result;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Delivery settings only affect the user, so they stay available while suspended
+    const session = await resolveSessionUser(supabase, req, { allowSuspended: true });
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const user_id = session.userId;
+
+    const { action, preferences } = await req.json();
+
+    if (action === "get") {
+      const { data, error } = await supabase
+        .from("notification_preferences")
+        .select("channels, quiet_hours_enabled, quiet_hours_start, quiet_hours_end, timezone")
+        .eq("user_id", user_id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Get preferences error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to load preferences" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const result = data
+        ? {
+            ...data,
+            // TIME columns come back as HH:MM:SS
+            quiet_hours_start: data.quiet_hours_start.slice(0, 5),
+            quiet_hours_end: data.quiet_hours_end.slice(0, 5),
+          }
+        : DEFAULT_PREFERENCES;
+
+      return new Response(
+        JSON.stringify({ success: true, preferences: result }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    } else if (action === "update") {
+      const channels = sanitizeChannels(preferences?.channels);
+      const { quiet_hours_enabled, quiet_hours_start, quiet_hours_end, timezone } = preferences ?? {};
+
+      if (
+        !channels ||
+        typeof quiet_hours_enabled !== "boolean" ||
+        !TIME_PATTERN.test(quiet_hours_start ?? "") ||
+        !TIME_PATTERN.test(quiet_hours_end ?? "")
+      ) {
+        return new Response(
+          JSON.stringify({ error: "Invalid preferences" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (typeof timezone !== "string" || !isValidTimezone(timezone)) {
+        return new Response(
+          JSON.stringify({ error: "Invalid timezone" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error } = await supabase
+        .from("notification_preferences")
+        .upsert(
+          { user_id, channels, quiet_hours_enabled, quiet_hours_start, quiet_hours_end, timezone },
+          { onConflict: "user_id" }
+        );
+
+      if (error) {
+        console.error("Update preferences error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to save preferences" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Invalid action" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Manage notification preferences error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,139 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser, suspendedErrorBody } from "../_shared/session.ts";
+import { purgeDate, purgePosts } from "../_shared/postTrash.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+};
+
+const READ_ACTIONS = ["list"];
+
+// Same shape the feed selects, so trashed posts preview with PostCard
+const POST_SELECT = `
+  *,
+  profiles:user_id (id, full_name, username, avatar_url, is_verified),
+  businesses:business_id (id, name, logo_url),
+  post_likes (user_id),
+  comments (id),
+  post_images (image_url, alt_text, position, width, height)
+`;
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const session = await resolveSessionUser(supabase, req, { allowSuspended: true });
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const user_id = session.userId;
+
+    const { action, post_id } = await req.json();
+
+    // Suspended users can still see their trash but not change it
+    if (session.suspension && !READ_ACTIONS.includes(action)) {
+      return new Response(
+        JSON.stringify(suspendedErrorBody(session.suspension)),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "list") {
+      const { data, error } = await supabase
+        .from("posts")
+        .select(POST_SELECT)
+        .eq("user_id", user_id)
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false });
+
+      if (error) {
+        console.error("List trash error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to load trash" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const posts = (data || []).map((post) => ({ ...post, purge_at: purgeDate(post.deleted_at) }));
+
+      return new Response(
+        JSON.stringify({ success: true, posts }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action !== "restore" && action !== "delete_forever") {
+      return new Response(
+        JSON.stringify({ error: "Invalid action" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!post_id) {
+      return new Response(
+        JSON.stringify({ error: "Post ID is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: post } = await supabase
+      .from("posts")
+      .select("id, user_id, deleted_at")
+      .eq("id", post_id)
+      .maybeSingle();
+
+    if (!post || post.user_id !== user_id || !post.deleted_at) {
+      return new Response(
+        JSON.stringify({ error: "Post not found in trash" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "restore") {
+      const { error } = await supabase
+        .from("posts")
+        .update({ deleted_at: null })
+        .eq("id", post_id);
+
+      if (error) {
+        console.error("Restore post error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to restore post" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // delete_forever: skip the rest of the retention period
+    await purgePosts(supabase, supabaseUrl, [post_id]);
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Manage post trash error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,107 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser } from "../_shared/session.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+};
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Delivery settings only affect the user, so they stay available while suspended
+    const session = await resolveSessionUser(supabase, req, { allowSuspended: true });
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const user_id = session.userId;
+
+    const { action, endpoint, p256dh, auth } = await req.json();
+
+    if (!endpoint || typeof endpoint !== "string" || !endpoint.startsWith("https://")) {
+      return new Response(
+        JSON.stringify({ error: "A valid push endpoint is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "subscribe") {
+      if (!p256dh || !auth) {
+        return new Response(
+          JSON.stringify({ error: "Subscription keys are required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // A browser has one endpoint; drop it from any account previously signed in there
+      await supabase
+        .from("push_subscriptions")
+        .delete()
+        .eq("endpoint", endpoint)
+        .neq("user_id", user_id);
+
+      const { error } = await supabase
+        .from("push_subscriptions")
+        .upsert(
+          { user_id, endpoint, p256dh, auth, updated_at: new Date().toISOString() },
+          { onConflict: "user_id,endpoint" }
+        );
+
+      if (error) {
+        console.error("Subscribe error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to save subscription" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    } else if (action === "unsubscribe") {
+      const { error } = await supabase
+        .from("push_subscriptions")
+        .delete()
+        .eq("user_id", user_id)
+        .eq("endpoint", endpoint);
+
+      if (error) {
+        console.error("Unsubscribe error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to remove subscription" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Invalid action" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Manage push subscriptions error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,341 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser, suspendedErrorBody } from "../_shared/session.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+};
+
+const MAX_COLLECTION_NAME_LENGTH = 50;
+const READ_ACTIONS = ["list_ids", "list", "list_collections"];
+
+// Same shape the feed selects, so saved posts render with PostCard
+const POST_SELECT = `
+  *,
+  profiles:user_id (id, full_name, username, avatar_url, is_verified),
+  businesses:business_id (id, name, logo_url),
+  post_likes (user_id),
+  comments (id),
+  post_images (image_url, alt_text, position, width, height)
+`;
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const session = await resolveSessionUser(supabase, req, { allowSuspended: true });
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const user_id = session.userId;
+
+    const { action, post_id, saved_id, collection_id, name } = await req.json();
+
+    // Suspended users can still browse what they saved but not change it
+    if (session.suspension && !READ_ACTIONS.includes(action)) {
+      return new Response(
+        JSON.stringify(suspendedErrorBody(session.suspension)),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A collection passed in must belong to the caller
+    const ownsCollection = async (id: string) => {
+      const { data } = await supabase
+        .from("saved_collections")
+        .select("id")
+        .eq("id", id)
+        .eq("user_id", user_id)
+        .maybeSingle();
+      return !!data;
+    };
+
+    if (action === "list_ids") {
+      const { data, error } = await supabase
+        .from("saved_posts")
+        .select("post_id")
+        .eq("user_id", user_id)
+        .not("post_id", "is", null);
+
+      if (error) {
+        console.error("List saved ids error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to load saved posts" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, post_ids: (data || []).map((row) => row.post_id) }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    } else if (action === "list") {
+      // collection_id: a collection's id, "unsorted" for saves outside any
+      // collection, or omitted for everything
+      let query = supabase
+        .from("saved_posts")
+        .select("id, post_id, collection_id, created_at")
+        .eq("user_id", user_id)
+        .order("created_at", { ascending: false });
+
+      if (collection_id === "unsorted") {
+        query = query.is("collection_id", null);
+      } else if (collection_id) {
+        query = query.eq("collection_id", collection_id);
+      }
+
+      const { data: saved, error } = await query;
+
+      if (error) {
+        console.error("List saved posts error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to load saved posts" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const postIds = (saved || []).map((row) => row.post_id).filter(Boolean);
+      const postsById = new Map();
+
+      if (postIds.length > 0) {
+        const { data: posts, error: postsError } = await supabase
+          .from("posts")
+          .select(POST_SELECT)
+          .in("id", postIds)
+          .is("deleted_at", null);
+
+        if (postsError) {
+          console.error("Load saved posts error:", postsError);
+          return new Response(
+            JSON.stringify({ error: "Failed to load saved posts" }),
+            { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        (posts || []).forEach((post) => postsById.set(post.id, post));
+      }
+
+      // Posts that are gone (trashed included) or no longer visible to the
+      // saver come back as placeholders so the entry can still be removed
+      const items = (saved || []).map((row) => {
+        const post = row.post_id ? postsById.get(row.post_id) : null;
+
+        if (!post) {
+          return { ...row, post: null, unavailable: "deleted" };
+        }
+        if (post.status !== "active" && post.user_id !== user_id) {
+          return { ...row, post: null, unavailable: "hidden" };
+        }
+        return { ...row, post, unavailable: null };
+      });
+
+      return new Response(
+        JSON.stringify({ success: true, items }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    } else if (action === "save") {
+      if (!post_id) {
+        return new Response(
+          JSON.stringify({ error: "Post ID is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (collection_id && !(await ownsCollection(collection_id))) {
+        return new Response(
+          JSON.stringify({ error: "Collection not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: post } = await supabase
+        .from("posts")
+        .select("id")
+        .eq("id", post_id)
+        .is("deleted_at", null)
+        .maybeSingle();
+
+      if (!post) {
+        return new Response(
+          JSON.stringify({ error: "Post not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Saving an already saved post moves it to the given collection
+      const { error } = await supabase
+        .from("saved_posts")
+        .upsert(
+          { user_id, post_id, collection_id: collection_id || null },
+          { onConflict: "user_id,post_id" }
+        );
+
+      if (error) {
+        console.error("Save post error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to save post" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, saved: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    } else if (action === "unsave") {
+      if (!post_id && !saved_id) {
+        return new Response(
+          JSON.stringify({ error: "Post ID is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Placeholders for deleted posts have no post_id, so they are removed by id
+      let query = supabase.from("saved_posts").delete().eq("user_id", user_id);
+      query = saved_id ? query.eq("id", saved_id) : query.eq("post_id", post_id);
+
+      const { error } = await query;
+
+      if (error) {
+        console.error("Unsave post error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to remove saved post" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, saved: false }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    } else if (action === "list_collections") {
+      const [{ data: collections, error }, { data: saved }] = await Promise.all([
+        supabase
+          .from("saved_collections")
+          .select("id, name, created_at")
+          .eq("user_id", user_id)
+          .order("name"),
+        supabase
+          .from("saved_posts")
+          .select("collection_id")
+          .eq("user_id", user_id),
+      ]);
+
+      if (error) {
+        console.error("List collections error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to load collections" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const counts: Record<string, number> = {};
+      (saved || []).forEach((row) => {
+        const key = row.collection_id || "unsorted";
+        counts[key] = (counts[key] || 0) + 1;
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          collections: (collections || []).map((c) => ({ ...c, post_count: counts[c.id] || 0 })),
+          total_count: (saved || []).length,
+          unsorted_count: counts.unsorted || 0,
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    } else if (action === "create_collection" || action === "rename_collection") {
+      const trimmed = typeof name === "string" ? name.trim() : "";
+      if (!trimmed || trimmed.length > MAX_COLLECTION_NAME_LENGTH) {
+        return new Response(
+          JSON.stringify({ error: `Collection name must be 1-${MAX_COLLECTION_NAME_LENGTH} characters` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const result = action === "create_collection"
+        ? await supabase
+            .from("saved_collections")
+            .insert({ user_id, name: trimmed })
+            .select("id, name, created_at")
+            .single()
+        : await supabase
+            .from("saved_collections")
+            .update({ name: trimmed })
+            .eq("id", collection_id)
+            .eq("user_id", user_id)
+            .select("id, name, created_at")
+            .maybeSingle();
+
+      if (result.error) {
+        // Unique violation on (user_id, lower(name))
+        if (result.error.code === "23505") {
+          return new Response(
+            JSON.stringify({ error: "You already have a collection with that name" }),
+            { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        console.error("Save collection error:", result.error);
+        return new Response(
+          JSON.stringify({ error: "Failed to save collection" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!result.data) {
+        return new Response(
+          JSON.stringify({ error: "Collection not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, collection: result.data }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    } else if (action === "delete_collection") {
+      // Saved posts in the collection stay saved, just unsorted
+      const { error } = await supabase
+        .from("saved_collections")
+        .delete()
+        .eq("id", collection_id)
+        .eq("user_id", user_id);
+
+      if (error) {
+        console.error("Delete collection error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to delete collection" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Invalid action" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Manage saved posts error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,132 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser, revokeSessions } from "../_shared/session.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
+};
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Suspended users can still review and sign out their devices
+    const session = await resolveSessionUser(supabase, req, { allowSuspended: true });
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const user_id = session.userId;
+    const currentToken = req.headers.get("x-session-token");
+
+    const { action, session_id } = await req.json();
+
+    if (action === "list") {
+      const { data: sessions, error } = await supabase
+        .from("user_sessions")
+        .select("id, session_token, user_agent, created_at, updated_at, expires_at")
+        .eq("user_id", user_id)
+        .eq("is_active", true)
+        .gt("expires_at", new Date().toISOString())
+        .order("updated_at", { ascending: false, nullsFirst: false });
+
+      if (error) {
+        console.error("List sessions error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to load sessions" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Never send tokens back to the client, only whether a row is this session
+      const result = (sessions || []).map(({ session_token, ...rest }) => ({
+        ...rest,
+        last_refreshed_at: rest.updated_at || rest.created_at,
+        is_current: session_token === currentToken,
+      }));
+
+      return new Response(
+        JSON.stringify({ success: true, sessions: result }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    else if (action === "revoke") {
+      if (!session_id) {
+        return new Response(
+          JSON.stringify({ error: "Session ID is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: revoked, error } = await supabase
+        .from("user_sessions")
+        .update({ is_active: false })
+        .eq("id", session_id)
+        .eq("user_id", user_id)
+        .select("id")
+        .maybeSingle();
+
+      if (error) {
+        console.error("Revoke session error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to sign out session" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!revoked) {
+        return new Response(
+          JSON.stringify({ error: "Session not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    else if (action === "revoke_others") {
+      const { error } = await revokeSessions(supabase, user_id, currentToken);
+
+      if (error) {
+        console.error("Revoke other sessions error:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to sign out other sessions" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    else {
+      return new Response(
+        JSON.stringify({ error: "Invalid action" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+  } catch (error) {
+    console.error("Manage sessions error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { rejectIfSuspended } from "../_shared/session.ts";
+import { itemReference } from "../_shared/catalog.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -57,6 +59,12 @@ serve(async (req) => {
     const body = await req.json();
     const { action } = body;
 
+    // Suspended users can still read their conversations but not send
+    if (!["get_conversations", "get_messages", "mark_read"].includes(action)) {
+      const suspended = await rejectIfSuspended(supabase, userId, corsHeaders);
+      if (suspended) return suspended;
+    }
+
     // GET CONVERSATIONS
     if (action === "get_conversations") {
       const { data: conversations, error } = await supabase
@@ -67,6 +75,17 @@ serve(async (req) => {
 
       if (error) throw error;
 
+      // Other participants, as this user is allowed to see them
+      const otherUserIds = (conversations || [])
+        .map((conv) => conv.participant_one === userId ? conv.participant_two : conv.participant_one)
+        .filter(Boolean);
+      const { data: otherUsers } = otherUserIds.length > 0
+        ? await supabase.rpc("get_public_profiles", { p_ids: otherUserIds })
+          .setHeader("x-session-token", sessionToken)
+          .select("id, full_name, username, avatar_url, is_online")
+        : { data: [] };
+      const otherUsersById = new Map((otherUsers || []).map((u: { id: string }) => [u.id, u]));
+
       // Enrich with other user data and last message
       const enrichedConversations = await Promise.all(
         (conversations || []).map(async (conv) => {
@@ -76,12 +95,6 @@ serve(async (req) => {
 
           if (!otherUserId) return { ...conv, other_user: null };
 
-          const { data: userData } = await supabase
-            .from("profiles")
-            .select("id, full_name, username, avatar_url, is_online")
-            .eq("id", otherUserId)
-            .single();
-
           // Get last message
           const { data: lastMsg } = await supabase
             .from("messages")
@@ -101,7 +114,7 @@ serve(async (req) => {
 
           return {
             ...conv,
-            other_user: userData,
+            other_user: otherUsersById.get(otherUserId) || null,
             last_message: lastMsg?.content,
             unread_count: count || 0,
           };
@@ -157,7 +170,7 @@ serve(async (req) => {
 
     // SEND MESSAGE
     if (action === "send_message") {
-      const { conversation_id, content } = body;
+      const { conversation_id, content, catalog_item_id } = body;
 
       if (!content?.trim()) {
         return new Response(
@@ -181,6 +194,27 @@ serve(async (req) => {
         );
       }
 
+      // An enquiry about a catalog item of a business owned by either
+      // participant carries a snapshot of the item for the chat card
+      let item_reference = null;
+      if (catalog_item_id) {
+        const { data: item } = await supabase
+          .from("business_catalog_items")
+          .select("id, business_id, name, price_min, price_max, unit, image_urls, businesses:business_id (name, owner_id)")
+          .eq("id", catalog_item_id)
+          .maybeSingle();
+
+        const business = item?.businesses as { name: string; owner_id: string | null } | null;
+        if (!item || !business?.owner_id ||
+            ![conv.participant_one, conv.participant_two].includes(business.owner_id)) {
+          return new Response(
+            JSON.stringify({ error: "Catalog item not found" }),
+            { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        item_reference = itemReference(item, business.name);
+      }
+
       // Insert message
       const { data: message, error } = await supabase
         .from("messages")
@@ -188,6 +222,7 @@ serve(async (req) => {
           conversation_id,
           sender_id: userId,
           content: content.trim(),
+          item_reference,
         })
         .select()
         .single();
@@ -1,25 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hashPassword, verifyPassword } from "../_shared/password.ts";
+import { getActiveSuspension, resolveSessionUser, revokeSessions, suspendedErrorBody } from "../_shared/session.ts";
+import { checkThrottle, clearFailures, getClientIp, lockedMessage, recordFailure } from "../_shared/throttle.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
 };
 
-// Simple password hashing using Web Crypto API
-async function hashPassword(password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
-  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
-}
-
-async function verifyPassword(password: string, hash: string): Promise<boolean> {
-  const passwordHash = await hashPassword(password);
-  return passwordHash === hash;
-}
-
 // Generate a simple session token
 function generateSessionToken(): string {
   const array = new Uint8Array(32);
@@ -56,6 +45,9 @@ serve(async (req) => {
       username,
       date_of_birth,
       session_token,
+      current_password,
+      new_password,
+      new_mobile_number,
     } = body ?? {};
 
     // Admin session validation (used by the admin panel route guard)
@@ -121,6 +113,150 @@ serve(async (req) => {
       );
     }
 
+    // Suspension status for the signed-in user (drives the in-app banner)
+    if (action === "account_status") {
+      const session = await resolveSessionUser(supabase, req, { allowSuspended: true });
+      if (session.error) {
+        return new Response(
+          JSON.stringify({ error: session.error, suspension: session.suspension }),
+          { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, suspension: session.suspension }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Account changes for a signed-in user; both require the current password
+    if (action === "change_password" || action === "change_mobile") {
+      const session = await resolveSessionUser(supabase, req);
+      if (session.error) {
+        return new Response(
+          JSON.stringify({ error: session.error, suspension: session.suspension }),
+          { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      const user_id = session.userId;
+
+      if (!current_password) {
+        return new Response(
+          JSON.stringify({ error: "Current password is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: credentials, error: credError } = await supabase
+        .from("user_credentials")
+        .select("id, mobile_number, password_hash")
+        .eq("id", user_id)
+        .maybeSingle();
+
+      if (credError || !credentials) {
+        console.error("Credential lookup error:", credError);
+        return new Response(
+          JSON.stringify({ error: "Account not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Guessing the current password counts against the same sign-in limiter
+      const clientIp = getClientIp(req);
+      const throttle = await checkThrottle(supabase, "signin", credentials.mobile_number, clientIp);
+      if (throttle.locked) {
+        return new Response(
+          JSON.stringify({
+            error: lockedMessage(throttle),
+            retry_after: throttle.retryAfter,
+            locked_until: throttle.lockedUntil,
+          }),
+          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": String(throttle.retryAfter) } }
+        );
+      }
+
+      const passwordCheck = await verifyPassword(current_password, credentials.password_hash);
+      if (!passwordCheck.valid) {
+        await recordFailure(supabase, "signin", credentials.mobile_number, clientIp);
+        return new Response(
+          JSON.stringify({ error: "Current password is incorrect" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (action === "change_password") {
+        if (!new_password || new_password.length < 6) {
+          return new Response(
+            JSON.stringify({ error: "New password must be at least 6 characters" }),
+            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        const { error: updateError } = await supabase
+          .from("user_credentials")
+          .update({ password_hash: await hashPassword(new_password) })
+          .eq("id", user_id);
+
+        if (updateError) {
+          console.error("Password update error:", updateError);
+          return new Response(
+            JSON.stringify({ error: "Failed to change password" }),
+            { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        // Sign out every other device; this one keeps its session
+        const { error: revokeError } = await revokeSessions(supabase, user_id, req.headers.get("x-session-token"));
+        if (revokeError) {
+          console.error("Session revoke error:", revokeError);
+        }
+
+        return new Response(
+          JSON.stringify({ success: true, message: "Password changed. Other devices have been signed out." }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // change_mobile
+      if (!new_mobile_number || !/^[0-9]{10}$/.test(new_mobile_number)) {
+        return new Response(
+          JSON.stringify({ error: "Please enter a valid 10-digit mobile number" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (new_mobile_number === credentials.mobile_number) {
+        return new Response(
+          JSON.stringify({ error: "This is already your mobile number" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error: changeError } = await supabase.rpc("change_mobile_number", {
+        p_user_id: user_id,
+        p_new_mobile: new_mobile_number,
+      });
+
+      if (changeError) {
+        if (changeError.message?.includes("mobile_number_taken")) {
+          return new Response(
+            JSON.stringify({ error: "This mobile number is already registered" }),
+            { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        console.error("Mobile number change error:", changeError);
+        return new Response(
+          JSON.stringify({ error: "Failed to change mobile number" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, mobile_number: new_mobile_number }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Mobile auth requires mobile_number + password
     if (!mobile_number || !password) {
       return new Response(
@@ -228,6 +364,7 @@ serve(async (req) => {
         .insert({
           user_id: credentials.id,
           session_token: sessionToken,
+          user_agent: req.headers.get("user-agent"),
           expires_at: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days
         });
 
@@ -254,6 +391,20 @@ serve(async (req) => {
     }
     
     else if (action === "signin") {
+      const clientIp = getClientIp(req);
+
+      const throttle = await checkThrottle(supabase, "signin", mobile_number, clientIp);
+      if (throttle.locked) {
+        return new Response(
+          JSON.stringify({
+            error: lockedMessage(throttle),
+            retry_after: throttle.retryAfter,
+            locked_until: throttle.lockedUntil,
+          }),
+          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": String(throttle.retryAfter) } }
+        );
+      }
+
       // Get user credentials
       const { data: credentials, error: credError } = await supabase
         .from("user_credentials")
@@ -261,22 +412,60 @@ serve(async (req) => {
         .eq("mobile_number", mobile_number)
         .maybeSingle();
 
-      if (!credentials || credError) {
+      // Verify password (unknown numbers count as failures too)
+      const passwordCheck = credentials && !credError
+        ? await verifyPassword(password, credentials.password_hash)
+        : { valid: false, needsRehash: false };
+
+      if (!passwordCheck.valid) {
+        const failure = await recordFailure(supabase, "signin", mobile_number, clientIp);
+        if (failure.locked) {
+          return new Response(
+            JSON.stringify({
+              error: lockedMessage(failure),
+              retry_after: failure.retryAfter,
+              locked_until: failure.lockedUntil,
+            }),
+            { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": String(failure.retryAfter) } }
+          );
+        }
+
         return new Response(
           JSON.stringify({ error: "Invalid mobile number or password" }),
           { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
-      // Verify password
-      const isValid = await verifyPassword(password, credentials.password_hash);
-      if (!isValid) {
+      await clearFailures(supabase, "signin", mobile_number);
+
+      const { suspension, error: suspensionError } = await getActiveSuspension(supabase, credentials.id);
+      if (suspensionError) {
+        console.error("Suspension lookup error:", suspensionError);
+        return new Response(
+          JSON.stringify({ error: "Failed to verify account status" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (suspension) {
         return new Response(
-          JSON.stringify({ error: "Invalid mobile number or password" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          JSON.stringify(suspendedErrorBody(suspension)),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
+      // Transparently upgrade legacy SHA-256 hashes now that we know the password
+      if (passwordCheck.needsRehash) {
+        const { error: rehashError } = await supabase
+          .from("user_credentials")
+          .update({ password_hash: await hashPassword(password) })
+          .eq("id", credentials.id);
+
+        if (rehashError) {
+          console.error("Password rehash error:", rehashError);
+        }
+      }
+
       // Get profile
       const { data: profile } = await supabase
         .from("profiles")
@@ -303,6 +492,7 @@ serve(async (req) => {
         .insert({
           user_id: credentials.id,
           session_token: sessionToken,
+          user_agent: req.headers.get("user-agent"),
           expires_at: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days
         });
 
@@ -1,18 +1,39 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hashPassword } from "../_shared/password.ts";
+import { revokeSessions } from "../_shared/session.ts";
+import { getSmsSender } from "../_shared/sms.ts";
+import { checkThrottle, clearFailures, getClientIp, lockedMessage, recordFailure } from "../_shared/throttle.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Simple password hashing using Web Crypto API
-async function hashPassword(password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
-  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+const OTP_TTL_MINUTES = 10;
+const OTP_MAX_ATTEMPTS = 5;
+const OTP_RESEND_COOLDOWN_SECONDS = 60;
+const OTP_MAX_REQUESTS_PER_HOUR = 3;
+const RESET_TOKEN_TTL_MINUTES = 15;
+
+async function sha256Hex(value: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// 6-digit numeric code
+function generateOtpCode(): string {
+  const array = new Uint32Array(1);
+  crypto.getRandomValues(array);
+  return (array[0] % 1000000).toString().padStart(6, "0");
+}
+
+function generateResetToken(): string {
+  const array = new Uint8Array(32);
+  crypto.getRandomValues(array);
+  return Array.from(array, (b) => b.toString(16).padStart(2, "0")).join("");
 }
 
 serve(async (req) => {
@@ -35,89 +56,266 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const { action, mobile_number, date_of_birth, new_password } = await req.json();
+    const { action, mobile_number, otp_code, reset_token, new_password } = await req.json();
+
+    if (!mobile_number || !/^[0-9]{10}$/.test(mobile_number)) {
+      return new Response(
+        JSON.stringify({ error: "Please enter a valid 10-digit mobile number" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "request_otp") {
+      // Rate limit per mobile number: short resend cooldown plus an hourly cap
+      const windowStart = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      const { data: recentOtps, error: recentError } = await supabase
+        .from("password_reset_otps")
+        .select("created_at")
+        .eq("mobile_number", mobile_number)
+        .gte("created_at", windowStart)
+        .order("created_at", { ascending: false });
 
-    if (action === "verify_identity") {
-      // Validate inputs
-      if (!mobile_number || !/^[0-9]{10}$/.test(mobile_number)) {
+      if (recentError) {
+        console.error("OTP lookup error:", recentError);
         return new Response(
-          JSON.stringify({ error: "Please enter a valid 10-digit mobile number" }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          JSON.stringify({ error: "Failed to send code" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (recentOtps && recentOtps.length > 0) {
+        const lastSentAt = new Date(recentOtps[0].created_at).getTime();
+        const waitSeconds = Math.ceil((lastSentAt + OTP_RESEND_COOLDOWN_SECONDS * 1000 - Date.now()) / 1000);
+        if (waitSeconds > 0) {
+          return new Response(
+            JSON.stringify({ error: `Please wait ${waitSeconds} seconds before requesting another code`, retry_after: waitSeconds }),
+            { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+      }
+
+      if (recentOtps && recentOtps.length >= OTP_MAX_REQUESTS_PER_HOUR) {
+        return new Response(
+          JSON.stringify({ error: "Too many codes requested. Please try again in an hour." }),
+          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: credentials } = await supabase
+        .from("user_credentials")
+        .select("id")
+        .eq("mobile_number", mobile_number)
+        .maybeSingle();
+
+      // Invalidate any earlier codes for this number
+      await supabase
+        .from("password_reset_otps")
+        .update({ is_used: true })
+        .eq("mobile_number", mobile_number)
+        .eq("is_used", false);
+
+      // Record a row even for unknown numbers so they are rate limited too
+      const code = generateOtpCode();
+
+      const { error: insertError } = await supabase
+        .from("password_reset_otps")
+        .insert({
+          mobile_number,
+          otp_code: await sha256Hex(`${mobile_number}:${code}`),
+          expires_at: new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000).toISOString(),
+          // Codes for unknown numbers are never sent and can never be verified
+          is_used: !credentials,
+        });
+
+      if (insertError) {
+        console.error("OTP insert error:", insertError);
+        return new Response(
+          JSON.stringify({ error: "Failed to send code" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
-      if (!date_of_birth) {
+      if (credentials) {
+        try {
+          await getSmsSender().send(
+            mobile_number,
+            `Your password reset code is ${code}. It expires in ${OTP_TTL_MINUTES} minutes. Do not share it with anyone.`
+          );
+        } catch (smsError) {
+          console.error("SMS delivery error:", smsError);
+          return new Response(
+            JSON.stringify({ error: "Failed to send code. Please try again later." }),
+            { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+      } else {
+        console.log("Password reset requested for unregistered mobile:", mobile_number);
+      }
+
+      // Same response whether or not the number is registered
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: "If this number is registered, a verification code has been sent.",
+          expires_in: OTP_TTL_MINUTES * 60,
+          resend_after: OTP_RESEND_COOLDOWN_SECONDS,
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    else if (action === "verify_identity") {
+      if (!otp_code || !/^[0-9]{6}$/.test(otp_code)) {
         return new Response(
-          JSON.stringify({ error: "Date of birth is required" }),
+          JSON.stringify({ error: "Please enter the 6-digit code" }),
           { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
-      console.log(`Verifying identity for mobile: ${mobile_number}, dob: ${date_of_birth}`);
+      const clientIp = getClientIp(req);
 
-      // Check if mobile number exists and get the user profile
-      const { data: profile, error: profileError } = await supabase
-        .from("profiles")
-        .select("id, date_of_birth, mobile_number")
+      const throttle = await checkThrottle(supabase, "password_reset", mobile_number, clientIp);
+      if (throttle.locked) {
+        return new Response(
+          JSON.stringify({
+            error: lockedMessage(throttle),
+            retry_after: throttle.retryAfter,
+            locked_until: throttle.lockedUntil,
+          }),
+          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": String(throttle.retryAfter) } }
+        );
+      }
+
+      const { data: otp, error: otpError } = await supabase
+        .from("password_reset_otps")
+        .select("id, otp_code, expires_at")
         .eq("mobile_number", mobile_number)
+        .eq("is_used", false)
+        .is("verified_at", null)
+        .gt("expires_at", new Date().toISOString())
+        .order("created_at", { ascending: false })
+        .limit(1)
         .maybeSingle();
 
-      if (profileError) {
-        console.error("Profile lookup error:", profileError);
+      if (otpError) {
+        console.error("OTP lookup error:", otpError);
         return new Response(
-          JSON.stringify({ error: "Failed to verify identity" }),
+          JSON.stringify({ error: "Failed to verify code" }),
           { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
-      if (!profile) {
-        console.log("No account found with mobile:", mobile_number);
+      if (!otp) {
+        await recordFailure(supabase, "password_reset", mobile_number, clientIp);
+        return new Response(
+          JSON.stringify({ error: "Code expired or not found. Please request a new code." }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Use up an attempt before comparing, atomically, so parallel guesses
+      // cannot get past OTP_MAX_ATTEMPTS
+      const { data: attempts, error: attemptError } = await supabase
+        .rpc("claim_otp_attempt", { p_otp_id: otp.id, p_max_attempts: OTP_MAX_ATTEMPTS });
+
+      if (attemptError) {
+        console.error("OTP attempt error:", attemptError);
         return new Response(
-          JSON.stringify({ error: "No account found with this mobile number" }),
-          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          JSON.stringify({ error: "Failed to verify code" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
-      // Check if profile has date_of_birth
-      if (!profile.date_of_birth) {
-        console.log("User does not have date of birth set:", profile.id);
+      if (attempts === null) {
+        await recordFailure(supabase, "password_reset", mobile_number, clientIp);
         return new Response(
-          JSON.stringify({ error: "Password reset is not available. Please contact support." }),
+          JSON.stringify({ error: "Too many incorrect attempts. Please request a new code." }),
           { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
-      // Compare dates (normalize both to YYYY-MM-DD format)
-      const storedDOB = profile.date_of_birth.split('T')[0]; // Handle if it's a datetime
-      const providedDOB = date_of_birth.split('T')[0];
-
-      console.log(`Comparing DOB - stored: ${storedDOB}, provided: ${providedDOB}`);
+      const codeHash = await sha256Hex(`${mobile_number}:${otp_code}`);
+
+      if (codeHash !== otp.otp_code) {
+        const exhausted = attempts >= OTP_MAX_ATTEMPTS;
+        if (exhausted) {
+          await supabase
+            .from("password_reset_otps")
+            .update({ is_used: true })
+            .eq("id", otp.id);
+        }
+
+        const failure = await recordFailure(supabase, "password_reset", mobile_number, clientIp);
+        if (failure.locked) {
+          return new Response(
+            JSON.stringify({
+              error: lockedMessage(failure),
+              retry_after: failure.retryAfter,
+              locked_until: failure.lockedUntil,
+            }),
+            { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": String(failure.retryAfter) } }
+          );
+        }
 
-      if (storedDOB !== providedDOB) {
-        console.log("DOB mismatch for user:", profile.id);
         return new Response(
-          JSON.stringify({ error: "Mobile number and date of birth do not match our records" }),
+          JSON.stringify({
+            error: exhausted
+              ? "Too many incorrect attempts. Please request a new code."
+              : "Incorrect code",
+            attempts_remaining: OTP_MAX_ATTEMPTS - attempts,
+          }),
           { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
-      console.log("Identity verified successfully for user:", profile.id);
+      await clearFailures(supabase, "password_reset", mobile_number);
+
+      // Exchange the code for a single-use reset token
+      const resetToken = generateResetToken();
+      // Only one request gets a token, even if the right code is sent twice
+      const { data: verified, error: updateError } = await supabase
+        .from("password_reset_otps")
+        .update({
+          verified_at: new Date().toISOString(),
+          reset_token_hash: await sha256Hex(resetToken),
+          expires_at: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000).toISOString(),
+        })
+        .eq("id", otp.id)
+        .eq("is_used", false)
+        .is("verified_at", null)
+        .select("id")
+        .maybeSingle();
+
+      if (updateError) {
+        console.error("OTP update error:", updateError);
+        return new Response(
+          JSON.stringify({ error: "Failed to verify code" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!verified) {
+        return new Response(
+          JSON.stringify({ error: "Code expired or not found. Please request a new code." }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
 
       return new Response(
         JSON.stringify({
           success: true,
-          message: "Identity verified successfully",
+          message: "Code verified successfully",
           verified: true,
-          user_id: profile.id,
+          reset_token: resetToken,
         }),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
     else if (action === "reset_password") {
-      if (!mobile_number || !date_of_birth || !new_password) {
+      if (!reset_token || !new_password) {
         return new Response(
-          JSON.stringify({ error: "Mobile number, date of birth, and new password are required" }),
+          JSON.stringify({ error: "Mobile number, reset token, and new password are required" }),
           { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
@@ -129,32 +327,44 @@ serve(async (req) => {
         );
       }
 
-      console.log(`Resetting password for mobile: ${mobile_number}`);
-
-      // Verify identity again before resetting
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("id, date_of_birth, mobile_number")
+      const { data: otp } = await supabase
+        .from("password_reset_otps")
+        .select("id")
         .eq("mobile_number", mobile_number)
+        .eq("reset_token_hash", await sha256Hex(reset_token))
+        .eq("is_used", false)
+        .not("verified_at", "is", null)
+        .gt("expires_at", new Date().toISOString())
         .maybeSingle();
 
-      if (!profile || !profile.date_of_birth) {
+      if (!otp) {
         return new Response(
-          JSON.stringify({ error: "Identity verification failed" }),
+          JSON.stringify({ error: "Reset session expired. Please start again." }),
           { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
-      const storedDOB = profile.date_of_birth.split('T')[0];
-      const providedDOB = date_of_birth.split('T')[0];
+      // Consume the token before changing the password so it cannot be replayed
+      await supabase
+        .from("password_reset_otps")
+        .update({ is_used: true })
+        .eq("id", otp.id);
 
-      if (storedDOB !== providedDOB) {
+      const { data: credentials } = await supabase
+        .from("user_credentials")
+        .select("id")
+        .eq("mobile_number", mobile_number)
+        .maybeSingle();
+
+      if (!credentials) {
         return new Response(
-          JSON.stringify({ error: "Identity verification failed" }),
+          JSON.stringify({ error: "Reset session expired. Please start again." }),
           { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
+      console.log(`Resetting password for user: ${credentials.id}`);
+
       // Hash new password
       const passwordHash = await hashPassword(new_password);
 
@@ -162,7 +372,7 @@ serve(async (req) => {
       const { error: updateError } = await supabase
         .from("user_credentials")
         .update({ password_hash: passwordHash, updated_at: new Date().toISOString() })
-        .eq("mobile_number", mobile_number);
+        .eq("id", credentials.id);
 
       if (updateError) {
         console.error("Password update error:", updateError);
@@ -173,12 +383,9 @@ serve(async (req) => {
       }
 
       // Invalidate all sessions for this user
-      await supabase
-        .from("user_sessions")
-        .update({ is_active: false })
-        .eq("user_id", profile.id);
+      await revokeSessions(supabase, credentials.id);
 
-      console.log("Password reset successfully for user:", profile.id);
+      console.log("Password reset successfully for user:", credentials.id);
 
       return new Response(
         JSON.stringify({
@@ -0,0 +1,64 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { purgePosts, TRASH_RETENTION_DAYS } from "../_shared/postTrash.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Posts purged per run; anything left over goes on the next run
+const BATCH_SIZE = 200;
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Called by the purge-trashed-posts cron job
+    const authHeader = req.headers.get("authorization") ?? "";
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data: expired, error } = await supabase
+      .from("posts")
+      .select("id")
+      .lt("deleted_at", cutoff)
+      .order("deleted_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      console.error("Load trashed posts error:", error);
+      return new Response(
+        JSON.stringify({ error: "Failed to load trashed posts" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const purged = await purgePosts(supabase, supabaseUrl, (expired || []).map((post) => post.id));
+    console.log("Purged trashed posts:", purged);
+
+    return new Response(
+      JSON.stringify({ success: true, purged }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Purge trashed posts error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,103 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+import { notificationUrl } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface NotificationEmailRequest {
+  user_id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  data: Record<string, string>;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only deliver_notification() in the database calls this
+    if (req.headers.get("authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const resendApiKey = Deno.env.get("RESEND_API_KEY");
+    if (!resendApiKey) {
+      console.error("RESEND_API_KEY not configured");
+      return new Response(
+        JSON.stringify({ error: "Email service not configured" }),
+        { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { user_id, type, title, body, data }: NotificationEmailRequest = await req.json();
+
+    if (!user_id || !title) {
+      return new Response(
+        JSON.stringify({ error: "user_id and title are required" }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("email, email_verified, full_name")
+      .eq("id", user_id)
+      .maybeSingle();
+
+    // Only verified addresses receive notification email
+    if (!profile?.email || !profile.email_verified) {
+      return new Response(
+        JSON.stringify({ success: true, skipped: true }),
+        { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const siteUrl = Deno.env.get("SITE_URL");
+    const link = siteUrl ? `${siteUrl.replace(/\/$/, "")}${notificationUrl(type, data ?? {})}` : null;
+
+    await new Resend(resendApiKey).emails.send({
+      from: "Siragugal <onboarding@resend.dev>",
+      to: [profile.email],
+      subject: title,
+      html: `
+        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
+          <h2 style="color: #1a1a1a; font-size: 20px; margin: 0 0 12px;">${escapeHtml(title)}</h2>
+          ${body ? `<p style="color: #333333; font-size: 16px; line-height: 1.6;">${escapeHtml(body)}</p>` : ""}
+          ${link ? `<p><a href="${escapeHtml(link)}" style="color: #2563eb;">Open Siragugal</a></p>` : ""}
+          <hr style="border: none; border-top: 1px solid #eeeeee; margin: 24px 0;">
+          <p style="color: #999999; font-size: 12px;">You can turn off these emails in Settings &rarr; Notifications.</p>
+        </div>
+      `,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error("Error in send-notification-email:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+};
+
+serve(handler);
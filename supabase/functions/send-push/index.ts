@@ -0,0 +1,131 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isGoneStatus, sendWebPush, type VapidKeys } from "../_shared/webpush.ts";
+import { notificationUrl } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the database trigger (or an operator) may send pushes
+    const authHeader = req.headers.get("authorization") ?? "";
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const vapidPublicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+    const vapidPrivateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+    if (!vapidPublicKey || !vapidPrivateKey) {
+      console.error("VAPID keys are not configured");
+      return new Response(
+        JSON.stringify({ error: "Push not configured" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const vapid: VapidKeys = {
+      publicKey: vapidPublicKey,
+      privateKey: vapidPrivateKey,
+      subject: Deno.env.get("VAPID_SUBJECT") ?? "mailto:admin@samrambhak.com",
+    };
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Sent by deliver_notification() in the database, or by an operator with an
+    // explicit url
+    const { user_id, type, title, body, data, group_key, url } = await req.json();
+
+    if (!user_id || !title) {
+      return new Response(
+        JSON.stringify({ error: "user_id and title are required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const message = {
+      userId: user_id as string,
+      title: title as string,
+      body: (body ?? null) as string | null,
+      url: url ?? (type ? notificationUrl(type, data ?? {}) : "/notifications"),
+      // Collapsed notifications replace each other on the device too
+      tag: type && group_key ? `${type}:${group_key}` : undefined,
+    };
+
+    const { data: subscriptions, error: subError } = await supabase
+      .from("push_subscriptions")
+      .select("id, endpoint, p256dh, auth")
+      .eq("user_id", message.userId);
+
+    if (subError) {
+      console.error("Subscription lookup error:", subError);
+      return new Response(
+        JSON.stringify({ error: "Failed to load subscriptions" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const payload = JSON.stringify({
+      title: message.title,
+      body: message.body,
+      url: message.url,
+      tag: message.tag,
+    });
+
+    let sent = 0;
+    const expired: string[] = [];
+
+    await Promise.all((subscriptions || []).map(async (subscription) => {
+      try {
+        const response = await sendWebPush(subscription, payload, vapid);
+        await response.body?.cancel();
+
+        if (response.ok) {
+          sent++;
+        } else if (isGoneStatus(response.status)) {
+          expired.push(subscription.id);
+        } else {
+          console.error("Push rejected:", response.status, subscription.endpoint);
+        }
+      } catch (pushError) {
+        console.error("Push delivery error:", pushError);
+      }
+    }));
+
+    // Drop subscriptions the push service no longer recognises
+    if (expired.length > 0) {
+      const { error: pruneError } = await supabase
+        .from("push_subscriptions")
+        .delete()
+        .in("id", expired);
+
+      if (pruneError) {
+        console.error("Subscription prune error:", pruneError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, sent, pruned: expired.length }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Send push error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,8 +1,9 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { resolveSessionUser } from '../_shared/session.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-session-token',
 };
 
 Deno.serve(async (req) => {
@@ -17,14 +18,17 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { user_id, following_id, action } = await req.json();
-
-    if (!user_id) {
+    // Resolve the caller from the session instead of trusting the request body
+    const session = await resolveSessionUser(supabase, req);
+    if (session.error) {
       return new Response(
-        JSON.stringify({ error: 'user_id is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
+    const user_id = session.userId;
+
+    const { following_id, action } = await req.json();
 
     if (!following_id) {
       return new Response(
@@ -80,22 +84,7 @@ Deno.serve(async (req) => {
         );
       }
 
-      // Create notification for the person being followed
-      const { data: followerProfile } = await supabase
-        .from('profiles')
-        .select('full_name, username')
-        .eq('id', user_id)
-        .maybeSingle();
-
-      const followerName = followerProfile?.full_name || followerProfile?.username || 'Someone';
-
-      await supabase.from('notifications').insert({
-        user_id: following_id,
-        type: 'follow',
-        title: 'New follower',
-        body: `${followerName} started following you!`,
-        data: { follower_id: user_id },
-      });
+      // The followed user is notified by the notify_follow trigger
 
       return new Response(
         JSON.stringify({ success: true, message: 'Followed successfully', is_following: true }),
@@ -1,9 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser } from "../_shared/session.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
 };
 
 serve(async (req) => {
@@ -18,17 +19,42 @@ serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
     
-    const { user_id, post_id } = await req.json();
+    // Resolve the liker from the session instead of trusting the request body
+    const session = await resolveSessionUser(supabase, req);
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const user_id = session.userId;
+
+    const { post_id } = await req.json();
 
     console.log("Toggle like - user:", user_id, "post:", post_id);
 
-    if (!user_id || !post_id) {
+    if (!post_id) {
       return new Response(
-        JSON.stringify({ error: "User ID and Post ID are required" }),
+        JSON.stringify({ error: "Post ID is required" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
+    // Posts in the trash can't be liked
+    const { data: post } = await supabase
+      .from("posts")
+      .select("id")
+      .eq("id", post_id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (!post) {
+      return new Response(
+        JSON.stringify({ error: "Post not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Check if like already exists
     const { data: existingLike, error: checkError } = await supabase
       .from("post_likes")
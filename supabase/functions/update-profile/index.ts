@@ -1,9 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser, suspendedErrorBody } from "../_shared/session.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
 };
 
 serve(async (req) => {
@@ -18,21 +19,36 @@ serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
     
-    const { user_id, ...updates } = await req.json();
+    // Resolve the caller from the session instead of trusting the request body
+    const session = await resolveSessionUser(supabase, req, { allowSuspended: true });
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const user_id = session.userId;
+
+    // A user_id in the body is ignored; the session decides whose profile this is
+    const { user_id: _ignored, ...updates } = await req.json();
 
     console.log("Updating profile for user:", user_id);
 
-    if (!user_id) {
+    // Presence updates (is_online/last_seen) are allowed while suspended
+    const presenceOnly = Object.keys(updates).every((key) => key === "is_online" || key === "last_seen");
+    if (!presenceOnly && session.suspension) {
       return new Response(
-        JSON.stringify({ error: "User ID is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify(suspendedErrorBody(session.suspension)),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
     // Build update object with only allowed fields
     const allowedFields = [
       'full_name', 'username', 'avatar_url', 'bio', 'location',
-      'is_online', 'last_seen', 'show_email', 'show_mobile', 'show_location'
+      'district_id', 'local_body_id', 'ward_id',
+      'is_online', 'last_seen', 'show_email', 'show_mobile', 'show_location',
+      'show_date_of_birth'
     ];
     
     const updateData: Record<string, any> = {};
@@ -1,9 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionUser } from "../_shared/session.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-session-token",
 };
 
 serve(async (req) => {
@@ -12,13 +13,28 @@ serve(async (req) => {
   }
 
   try {
+    // Create Supabase client with service role for storage access
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // The avatar always belongs to the session user, never to an id in the form
+    const session = await resolveSessionUser(supabase, req);
+    if (session.error) {
+      return new Response(
+        JSON.stringify({ error: session.error, suspension: session.suspension }),
+        { status: session.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const userId = session.userId;
+
     const formData = await req.formData();
     const file = formData.get("file") as File;
-    const userId = formData.get("user_id") as string;
 
-    if (!file || !userId) {
+    if (!file) {
       return new Response(
-        JSON.stringify({ error: "File and user_id are required" }),
+        JSON.stringify({ error: "File is required" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -40,12 +56,6 @@ serve(async (req) => {
       );
     }
 
-    // Create Supabase client with service role for storage access
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
-    );
-
     // Verify user exists in profiles table
     const { data: profile, error: profileError } = await supabase
       .from("profiles")
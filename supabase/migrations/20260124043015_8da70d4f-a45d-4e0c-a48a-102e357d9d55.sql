@@ -0,0 +1,56 @@
+-- OTP-based password reset
+-- Codes are stored hashed, verified with limited attempts, and exchanged for a
+-- single-use reset token that authorizes the actual password change.
+ALTER TABLE public.password_reset_otps
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS reset_token_hash TEXT;
+
+-- otp_code now holds a SHA-256 hash of the code, never the code itself
+COMMENT ON COLUMN public.password_reset_otps.otp_code IS 'SHA-256 hash of the mobile number and OTP code';
+
+-- Any codes issued before this change were stored in plain text
+UPDATE public.password_reset_otps SET is_used = true WHERE is_used = false;
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_otps_mobile_created
+ON public.password_reset_otps(mobile_number, created_at DESC);
+
+-- Keep rows for an hour after they stop being usable so request rate limits
+-- still see them, then delete
+CREATE OR REPLACE FUNCTION public.cleanup_expired_otps()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM public.password_reset_otps
+  WHERE created_at < now() - interval '1 hour'
+    AND (expires_at < now() OR is_used = true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Schedule the cleanup every 30 minutes
+SELECT cron.schedule(
+  'cleanup-expired-otps',
+  '*/30 * * * *',
+  $$SELECT public.cleanup_expired_otps()$$
+);
+
+-- Counts a guess against a code before it is checked. The increment and the
+-- limit check are one statement, so parallel guesses cannot all read the same
+-- count. Returns the attempts used including this one, or NULL when the code
+-- is spent, verified, expired or out of attempts.
+CREATE OR REPLACE FUNCTION public.claim_otp_attempt(p_otp_id UUID, p_max_attempts INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.password_reset_otps
+  SET attempts = attempts + 1
+  WHERE id = p_otp_id
+    AND NOT is_used
+    AND verified_at IS NULL
+    AND expires_at > now()
+    AND attempts < p_max_attempts
+  RETURNING attempts
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_otp_attempt(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
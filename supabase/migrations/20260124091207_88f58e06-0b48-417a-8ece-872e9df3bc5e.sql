@@ -0,0 +1,129 @@
+-- Brute-force protection for sign-in and password reset
+-- Failed attempts are counted per mobile number and per client IP. Past a
+-- free allowance each further failure locks the key for an exponentially
+-- growing period (30s, 1m, 2m, ... capped at 1 hour).
+CREATE TABLE public.auth_throttles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('signin', 'password_reset')),
+  key_type TEXT NOT NULL CHECK (key_type IN ('mobile', 'ip')),
+  key_value TEXT NOT NULL,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (scope, key_type, key_value)
+);
+
+CREATE INDEX idx_auth_throttles_locked_until ON public.auth_throttles(locked_until);
+
+-- Only edge functions (service role) read or write throttles
+ALTER TABLE public.auth_throttles ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_auth_throttles_updated_at
+BEFORE UPDATE ON public.auth_throttles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Returns the latest locked_until among the given keys, or NULL when none is locked
+CREATE OR REPLACE FUNCTION public.check_auth_throttle(p_scope TEXT, p_mobile TEXT, p_ip TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT max(locked_until)
+  FROM public.auth_throttles
+  WHERE scope = p_scope
+    AND locked_until > now()
+    AND (
+      (key_type = 'mobile' AND key_value = p_mobile)
+      OR (key_type = 'ip' AND key_value = p_ip)
+    );
+$$;
+
+-- Counts a failure against the mobile number and IP and returns the resulting
+-- lock expiry (NULL while still within the free allowance)
+CREATE OR REPLACE FUNCTION public.record_auth_failure(p_scope TEXT, p_mobile TEXT, p_ip TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _key RECORD;
+  _count INTEGER;
+  _free INTEGER;
+  _locked_until TIMESTAMP WITH TIME ZONE;
+  _result TIMESTAMP WITH TIME ZONE;
+BEGIN
+  FOR _key IN
+    SELECT * FROM (VALUES ('mobile', p_mobile, 5), ('ip', p_ip, 20)) AS k(key_type, key_value, free_attempts)
+    WHERE k.key_value IS NOT NULL AND k.key_value <> ''
+  LOOP
+    -- Failures older than a day no longer count
+    INSERT INTO public.auth_throttles (scope, key_type, key_value, failed_count, last_failed_at)
+    VALUES (p_scope, _key.key_type, _key.key_value, 1, now())
+    ON CONFLICT (scope, key_type, key_value) DO UPDATE
+    SET failed_count = CASE
+          WHEN auth_throttles.last_failed_at < now() - interval '24 hours' THEN 1
+          ELSE auth_throttles.failed_count + 1
+        END,
+        last_failed_at = now()
+    RETURNING failed_count INTO _count;
+
+    _free := _key.free_attempts;
+    IF _count >= _free THEN
+      _locked_until := now() + LEAST(
+        interval '30 seconds' * power(2, LEAST(_count - _free, 10)),
+        interval '1 hour'
+      );
+      UPDATE public.auth_throttles
+      SET locked_until = _locked_until
+      WHERE scope = p_scope AND key_type = _key.key_type AND key_value = _key.key_value;
+
+      _result := GREATEST(_result, _locked_until);
+    END IF;
+  END LOOP;
+
+  RETURN _result;
+END;
+$$;
+
+-- A successful attempt clears the mobile number's history. The IP history is
+-- kept so one valid account cannot be used to reset guessing from that IP.
+CREATE OR REPLACE FUNCTION public.clear_auth_failures(p_scope TEXT, p_mobile TEXT)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.auth_throttles
+  WHERE scope = p_scope AND key_type = 'mobile' AND key_value = p_mobile;
+$$;
+
+-- Drop rows that are neither locked nor recent enough to count
+CREATE OR REPLACE FUNCTION public.cleanup_auth_throttles()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.auth_throttles
+  WHERE last_failed_at < now() - interval '24 hours'
+    AND (locked_until IS NULL OR locked_until < now());
+$$;
+
+SELECT cron.schedule(
+  'cleanup-auth-throttles',
+  '15 * * * *',
+  $$SELECT public.cleanup_auth_throttles()$$
+);
+
+-- Throttle functions are SECURITY DEFINER; keep them out of reach of the
+-- public API so clients cannot clear or inflate lockouts directly
+REVOKE EXECUTE ON FUNCTION public.check_auth_throttle(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_auth_failure(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.clear_auth_failures(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cleanup_auth_throttles() FROM PUBLIC, anon, authenticated;
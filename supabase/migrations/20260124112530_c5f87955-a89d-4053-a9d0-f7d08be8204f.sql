@@ -0,0 +1,7 @@
+-- Record the client that created each session so users can tell their
+-- devices apart in Settings
+ALTER TABLE public.user_sessions
+ADD COLUMN IF NOT EXISTS user_agent TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_active
+ON public.user_sessions(user_id, is_active);
@@ -0,0 +1,43 @@
+-- Move an account to a new mobile number.
+-- Credentials and profile are updated in one transaction; the unique indexes
+-- on both tables still guard against a concurrent registration of the number.
+CREATE OR REPLACE FUNCTION public.change_mobile_number(p_user_id UUID, p_new_mobile TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_new_mobile IS NULL OR p_new_mobile !~ '^[0-9]{10}$' THEN
+    RAISE EXCEPTION 'invalid_mobile_number';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.user_credentials
+    WHERE mobile_number = p_new_mobile AND id <> p_user_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE trim(mobile_number) = p_new_mobile AND id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'mobile_number_taken';
+  END IF;
+
+  UPDATE public.user_credentials
+  SET mobile_number = p_new_mobile
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'account_not_found';
+  END IF;
+
+  UPDATE public.profiles
+  SET mobile_number = p_new_mobile
+  WHERE id = p_user_id;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'mobile_number_taken';
+END;
+$$;
+
+-- Only edge functions may call this
+REVOKE EXECUTE ON FUNCTION public.change_mobile_number(UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,349 @@
+-- Notification fan-out
+-- Activity on a user's content creates a notification through
+-- create_notification(). Events sharing a group_key (e.g. likes on one post)
+-- collapse into the recipient's existing unread notification, so the body
+-- reads "Anu and 4 others liked your post" instead of five separate rows.
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS group_key TEXT,
+ADD COLUMN IF NOT EXISTS actor_ids UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_unread_group
+ON public.notifications(user_id, type, group_key)
+WHERE is_read = false;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+ON public.notifications(user_id, created_at DESC);
+
+-- Creates or collapses a notification. p_action is the verb phrase that
+-- follows the actor's name ("liked your post"); without an actor it is used
+-- as the whole body. Returns NULL when the recipient is the actor.
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_actor_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_action TEXT,
+  p_data JSONB DEFAULT '{}'::jsonb,
+  p_group_key TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_name TEXT;
+  _existing RECORD;
+  _actor_ids UUID[];
+  _others INTEGER;
+  _body TEXT;
+  _id UUID;
+BEGIN
+  IF p_user_id IS NULL OR p_user_id = p_actor_id THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_actor_id IS NOT NULL THEN
+    SELECT COALESCE(NULLIF(full_name, ''), username, 'Someone') INTO _actor_name
+    FROM public.profiles
+    WHERE id = p_actor_id;
+    _actor_name := COALESCE(_actor_name, 'Someone');
+  END IF;
+
+  IF p_group_key IS NOT NULL THEN
+    SELECT id, actor_ids INTO _existing
+    FROM public.notifications
+    WHERE user_id = p_user_id
+      AND type = p_type
+      AND group_key = p_group_key
+      AND is_read = false
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF FOUND THEN
+      _actor_ids := _existing.actor_ids;
+      IF p_actor_id IS NOT NULL AND NOT (p_actor_id = ANY(_actor_ids)) THEN
+        _actor_ids := array_append(_actor_ids, p_actor_id);
+      END IF;
+
+      _others := GREATEST(cardinality(_actor_ids) - 1, 0);
+      _body := CASE
+        WHEN _actor_name IS NULL THEN p_action
+        WHEN _others = 0 THEN _actor_name || ' ' || p_action
+        WHEN _others = 1 THEN _actor_name || ' and 1 other ' || p_action
+        ELSE _actor_name || ' and ' || _others || ' others ' || p_action
+      END;
+
+      -- Surface the collapsed entry as the latest activity
+      UPDATE public.notifications
+      SET title = p_title,
+          body = _body,
+          data = COALESCE(data, '{}'::jsonb) || p_data,
+          actor_ids = _actor_ids,
+          created_at = now()
+      WHERE id = _existing.id;
+
+      RETURN _existing.id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, data, group_key, actor_ids)
+  VALUES (
+    p_user_id,
+    p_type,
+    p_title,
+    CASE WHEN _actor_name IS NULL THEN p_action ELSE _actor_name || ' ' || p_action END,
+    p_data,
+    p_group_key,
+    CASE WHEN p_actor_id IS NULL THEN '{}'::uuid[] ELSE ARRAY[p_actor_id] END
+  )
+  RETURNING id INTO _id;
+
+  RETURN _id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, UUID, TEXT, TEXT, TEXT, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Likes
+CREATE OR REPLACE FUNCTION public.notify_post_like()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.create_notification(
+    (SELECT user_id FROM public.posts WHERE id = NEW.post_id),
+    NEW.user_id,
+    'like',
+    'New like',
+    'liked your post',
+    jsonb_build_object('post_id', NEW.post_id, 'liker_id', NEW.user_id),
+    'post:' || NEW.post_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_post_like_trigger
+AFTER INSERT ON public.post_likes
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_post_like();
+
+-- Comments
+CREATE OR REPLACE FUNCTION public.notify_post_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.create_notification(
+    (SELECT user_id FROM public.posts WHERE id = NEW.post_id),
+    NEW.user_id,
+    'comment',
+    'New comment',
+    'commented on your post',
+    jsonb_build_object('post_id', NEW.post_id, 'comment_id', NEW.id, 'commenter_id', NEW.user_id),
+    'post:' || NEW.post_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_post_comment_trigger
+AFTER INSERT ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_post_comment();
+
+-- Follows (previously inserted directly by toggle-follow)
+CREATE OR REPLACE FUNCTION public.notify_follow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.create_notification(
+    NEW.following_id,
+    NEW.follower_id,
+    'follow',
+    'New follower',
+    'started following you',
+    jsonb_build_object('follower_id', NEW.follower_id),
+    'followers'
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_follow_trigger
+AFTER INSERT ON public.follows
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_follow();
+
+-- Direct messages: one entry per conversation until it is read
+CREATE OR REPLACE FUNCTION public.notify_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _recipient UUID;
+BEGIN
+  SELECT CASE WHEN participant_one = NEW.sender_id THEN participant_two ELSE participant_one END
+  INTO _recipient
+  FROM public.conversations
+  WHERE id = NEW.conversation_id;
+
+  PERFORM public.create_notification(
+    _recipient,
+    NEW.sender_id,
+    'message',
+    'New message',
+    'sent you a message',
+    jsonb_build_object('conversation_id', NEW.conversation_id, 'message_id', NEW.id, 'sender_id', NEW.sender_id),
+    'conversation:' || NEW.conversation_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_message_trigger
+AFTER INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_message();
+
+-- Community discussions and polls go to every other member
+CREATE OR REPLACE FUNCTION public.notify_community_discussion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _community_name TEXT;
+  _member UUID;
+BEGIN
+  SELECT name INTO _community_name FROM public.communities WHERE id = NEW.community_id;
+
+  FOR _member IN
+    SELECT user_id FROM public.community_members
+    WHERE community_id = NEW.community_id AND user_id IS NOT NULL AND user_id <> NEW.user_id
+  LOOP
+    PERFORM public.create_notification(
+      _member,
+      NEW.user_id,
+      'community_discussion',
+      COALESCE(_community_name, 'Community'),
+      'posted in ' || COALESCE(_community_name, 'a community'),
+      jsonb_build_object('community_id', NEW.community_id, 'discussion_id', NEW.id, 'poster_id', NEW.user_id),
+      'community:' || NEW.community_id
+    );
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_community_discussion_trigger
+AFTER INSERT ON public.community_discussions
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_community_discussion();
+
+CREATE OR REPLACE FUNCTION public.notify_community_poll()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _community_name TEXT;
+  _member UUID;
+BEGIN
+  SELECT name INTO _community_name FROM public.communities WHERE id = NEW.community_id;
+
+  FOR _member IN
+    SELECT user_id FROM public.community_members
+    WHERE community_id = NEW.community_id AND user_id IS NOT NULL AND user_id <> NEW.created_by
+  LOOP
+    PERFORM public.create_notification(
+      _member,
+      NEW.created_by,
+      'community_poll',
+      COALESCE(_community_name, 'Community'),
+      'started a poll in ' || COALESCE(_community_name, 'a community'),
+      jsonb_build_object('community_id', NEW.community_id, 'poll_id', NEW.id, 'poster_id', NEW.created_by),
+      'community:' || NEW.community_id
+    );
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_community_poll_trigger
+AFTER INSERT ON public.community_polls
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_community_poll();
+
+-- Business follows go to the business owner
+CREATE OR REPLACE FUNCTION public.notify_business_follow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _business RECORD;
+BEGIN
+  SELECT owner_id, name INTO _business FROM public.businesses WHERE id = NEW.business_id;
+
+  PERFORM public.create_notification(
+    _business.owner_id,
+    NEW.user_id,
+    'business_follow',
+    'New business follower',
+    'started following ' || COALESCE(_business.name, 'your business'),
+    jsonb_build_object('business_id', NEW.business_id, 'follower_id', NEW.user_id),
+    'business:' || NEW.business_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_business_follow_trigger
+AFTER INSERT ON public.business_follows
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_business_follow();
+
+-- Job applications go to the job poster
+CREATE OR REPLACE FUNCTION public.notify_job_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job RECORD;
+BEGIN
+  SELECT creator_id, title INTO _job FROM public.jobs WHERE id = NEW.job_id;
+
+  PERFORM public.create_notification(
+    _job.creator_id,
+    NEW.applicant_id,
+    'job_application',
+    'New job application',
+    'applied for ' || COALESCE(_job.title, 'your job'),
+    jsonb_build_object('job_id', NEW.job_id, 'application_id', NEW.id, 'applicant_id', NEW.applicant_id),
+    'job:' || NEW.job_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_job_application_trigger
+AFTER INSERT ON public.job_applications
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_job_application();
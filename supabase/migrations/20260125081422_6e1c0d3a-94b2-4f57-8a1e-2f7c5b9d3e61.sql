@@ -0,0 +1,51 @@
+-- Web Push delivery
+-- Each new notification (and each time a collapsed one is bumped) is handed
+-- to the send-push edge function through pg_net. The function URL and the
+-- service role key are read from Vault secrets 'project_url' and
+-- 'service_role_key'; without them no push is attempted.
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_endpoint
+ON public.push_subscriptions(endpoint);
+
+CREATE OR REPLACE FUNCTION public.dispatch_push_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_url TEXT;
+  _service_key TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.push_subscriptions WHERE user_id = NEW.user_id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT decrypted_secret INTO _project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO _service_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF _project_url IS NULL OR _service_key IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Asynchronous; a failed push never blocks the notification itself
+  PERFORM net.http_post(
+    url := rtrim(_project_url, '/') || '/functions/v1/send-push',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || _service_key
+    ),
+    body := jsonb_build_object('notification_id', NEW.id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.dispatch_push_notification() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER dispatch_push_notification_trigger
+AFTER INSERT OR UPDATE OF created_at ON public.notifications
+FOR EACH ROW
+EXECUTE FUNCTION public.dispatch_push_notification();
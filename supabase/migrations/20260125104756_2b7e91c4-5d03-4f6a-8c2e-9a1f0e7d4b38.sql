@@ -0,0 +1,364 @@
+-- Notification preferences
+-- Each user can turn in-app, push and email delivery on or off per category.
+-- channels holds overrides only, e.g. {"likes": {"push": false}}; anything
+-- missing falls back to in-app and push on, email off. Quiet hours hold push
+-- delivery until the window ends in the user's timezone.
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  channels JSONB NOT NULL DEFAULT '{}'::jsonb,
+  quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false,
+  quiet_hours_start TIME NOT NULL DEFAULT '22:00',
+  quiet_hours_end TIME NOT NULL DEFAULT '07:00',
+  timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Read and written through the manage-notification-preferences edge function
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_notification_preferences_updated_at
+BEFORE UPDATE ON public.notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Pushes held back during quiet hours, sent once release_at passes
+CREATE TABLE public.held_push_notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  group_key TEXT,
+  payload JSONB NOT NULL,
+  release_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.held_push_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_held_push_notifications_release ON public.held_push_notifications(release_at);
+CREATE INDEX idx_held_push_notifications_user ON public.held_push_notifications(user_id, type, group_key);
+
+-- Maps a notification type to the preference category that controls it.
+-- NULL means the type is not user-configurable (e.g. moderation notices).
+CREATE OR REPLACE FUNCTION public.notification_category(p_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_type = 'like' THEN 'likes'
+    WHEN p_type = 'comment' THEN 'comments'
+    WHEN p_type = 'follow' THEN 'follows'
+    WHEN p_type = 'message' THEN 'messages'
+    WHEN p_type LIKE 'community_%' THEN 'community'
+    WHEN p_type LIKE 'job_%' THEN 'jobs'
+    WHEN p_type LIKE 'business_%' THEN 'business'
+    ELSE NULL
+  END;
+$$;
+
+-- p_channel is 'in_app', 'push' or 'email'
+CREATE OR REPLACE FUNCTION public.notification_channel_enabled(p_user_id UUID, p_type TEXT, p_channel TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _category TEXT := public.notification_category(p_type);
+  _value JSONB;
+BEGIN
+  IF _category IS NULL THEN
+    RETURN p_channel <> 'email';
+  END IF;
+
+  SELECT channels -> _category -> p_channel INTO _value
+  FROM public.notification_preferences
+  WHERE user_id = p_user_id;
+
+  IF _value IS NULL OR jsonb_typeof(_value) <> 'boolean' THEN
+    RETURN p_channel <> 'email';
+  END IF;
+
+  RETURN _value::text::boolean;
+END;
+$$;
+
+-- When the user is inside their quiet hours, returns the moment they end;
+-- otherwise NULL
+CREATE OR REPLACE FUNCTION public.quiet_hours_release_at(p_user_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _prefs RECORD;
+  _local TIMESTAMP;
+  _local_time TIME;
+  _release TIMESTAMP;
+BEGIN
+  SELECT quiet_hours_enabled, quiet_hours_start, quiet_hours_end, timezone INTO _prefs
+  FROM public.notification_preferences
+  WHERE user_id = p_user_id;
+
+  IF NOT FOUND OR NOT _prefs.quiet_hours_enabled OR _prefs.quiet_hours_start = _prefs.quiet_hours_end THEN
+    RETURN NULL;
+  END IF;
+
+  _local := now() AT TIME ZONE _prefs.timezone;
+  _local_time := _local::time;
+
+  IF _prefs.quiet_hours_start < _prefs.quiet_hours_end THEN
+    -- Same-day window, e.g. 13:00-15:00
+    IF _local_time < _prefs.quiet_hours_start OR _local_time >= _prefs.quiet_hours_end THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    -- Overnight window, e.g. 22:00-07:00
+    IF _local_time < _prefs.quiet_hours_start AND _local_time >= _prefs.quiet_hours_end THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  _release := _local::date + _prefs.quiet_hours_end;
+  IF _release <= _local THEN
+    _release := _release + interval '1 day';
+  END IF;
+
+  RETURN _release AT TIME ZONE _prefs.timezone;
+END;
+$$;
+
+-- Posts a JSON body to an edge function with the service role key from Vault.
+-- Does nothing when the secrets are not configured.
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(p_function TEXT, p_body JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_url TEXT;
+  _service_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO _project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO _service_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF _project_url IS NULL OR _service_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := rtrim(_project_url, '/') || '/functions/v1/' || p_function,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || _service_key
+    ),
+    body := p_body
+  );
+END;
+$$;
+
+-- Sends push and email for a notification according to the recipient's
+-- preferences. Push inside quiet hours is held; a newer notification in the
+-- same group replaces the held one. Email goes out only for new rows
+-- (p_send_email), so collapsing "X and N others" into an existing row does
+-- not send the same email again.
+CREATE OR REPLACE FUNCTION public.deliver_notification(
+  p_user_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_body TEXT,
+  p_data JSONB,
+  p_group_key TEXT,
+  p_send_email BOOLEAN DEFAULT true
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payload JSONB;
+  _release_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  _payload := jsonb_build_object(
+    'user_id', p_user_id,
+    'type', p_type,
+    'title', p_title,
+    'body', p_body,
+    'data', COALESCE(p_data, '{}'::jsonb),
+    'group_key', p_group_key
+  );
+
+  IF public.notification_channel_enabled(p_user_id, p_type, 'push')
+    AND EXISTS (SELECT 1 FROM public.push_subscriptions WHERE user_id = p_user_id)
+  THEN
+    _release_at := public.quiet_hours_release_at(p_user_id);
+
+    IF _release_at IS NULL THEN
+      PERFORM public.invoke_edge_function('send-push', _payload);
+    ELSE
+      IF p_group_key IS NOT NULL THEN
+        DELETE FROM public.held_push_notifications
+        WHERE user_id = p_user_id AND type = p_type AND group_key = p_group_key;
+      END IF;
+
+      INSERT INTO public.held_push_notifications (user_id, type, group_key, payload, release_at)
+      VALUES (p_user_id, p_type, p_group_key, _payload, _release_at);
+    END IF;
+  END IF;
+
+  IF p_send_email AND public.notification_channel_enabled(p_user_id, p_type, 'email') THEN
+    PERFORM public.invoke_edge_function('send-notification-email', _payload);
+  END IF;
+END;
+$$;
+
+-- Sends pushes whose quiet hours have ended
+CREATE OR REPLACE FUNCTION public.release_held_push_notifications()
+RETURNS void AS $$
+DECLARE
+  _held RECORD;
+BEGIN
+  FOR _held IN
+    DELETE FROM public.held_push_notifications
+    WHERE release_at <= now()
+    RETURNING payload
+  LOOP
+    PERFORM public.invoke_edge_function('send-push', _held.payload);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+SELECT cron.schedule(
+  'release-held-push-notifications',
+  '*/5 * * * *',
+  $$SELECT public.release_held_push_notifications()$$
+);
+
+-- In-app notifications respect the in_app preference; when it is off the
+-- notification is still offered to push and email without creating a row.
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_actor_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_action TEXT,
+  p_data JSONB DEFAULT '{}'::jsonb,
+  p_group_key TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_name TEXT;
+  _existing RECORD;
+  _actor_ids UUID[];
+  _others INTEGER;
+  _body TEXT;
+  _id UUID;
+BEGIN
+  IF p_user_id IS NULL OR p_user_id = p_actor_id THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_actor_id IS NOT NULL THEN
+    SELECT COALESCE(NULLIF(full_name, ''), username, 'Someone') INTO _actor_name
+    FROM public.profiles
+    WHERE id = p_actor_id;
+    _actor_name := COALESCE(_actor_name, 'Someone');
+  END IF;
+
+  IF NOT public.notification_channel_enabled(p_user_id, p_type, 'in_app') THEN
+    PERFORM public.deliver_notification(
+      p_user_id,
+      p_type,
+      p_title,
+      CASE WHEN _actor_name IS NULL THEN p_action ELSE _actor_name || ' ' || p_action END,
+      p_data,
+      p_group_key
+    );
+    RETURN NULL;
+  END IF;
+
+  IF p_group_key IS NOT NULL THEN
+    SELECT id, actor_ids INTO _existing
+    FROM public.notifications
+    WHERE user_id = p_user_id
+      AND type = p_type
+      AND group_key = p_group_key
+      AND is_read = false
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF FOUND THEN
+      _actor_ids := _existing.actor_ids;
+      IF p_actor_id IS NOT NULL AND NOT (p_actor_id = ANY(_actor_ids)) THEN
+        _actor_ids := array_append(_actor_ids, p_actor_id);
+      END IF;
+
+      _others := GREATEST(cardinality(_actor_ids) - 1, 0);
+      _body := CASE
+        WHEN _actor_name IS NULL THEN p_action
+        WHEN _others = 0 THEN _actor_name || ' ' || p_action
+        WHEN _others = 1 THEN _actor_name || ' and 1 other ' || p_action
+        ELSE _actor_name || ' and ' || _others || ' others ' || p_action
+      END;
+
+      -- Surface the collapsed entry as the latest activity
+      UPDATE public.notifications
+      SET title = p_title,
+          body = _body,
+          data = COALESCE(data, '{}'::jsonb) || p_data,
+          actor_ids = _actor_ids,
+          created_at = now()
+      WHERE id = _existing.id;
+
+      RETURN _existing.id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, data, group_key, actor_ids)
+  VALUES (
+    p_user_id,
+    p_type,
+    p_title,
+    CASE WHEN _actor_name IS NULL THEN p_action ELSE _actor_name || ' ' || p_action END,
+    p_data,
+    p_group_key,
+    CASE WHEN p_actor_id IS NULL THEN '{}'::uuid[] ELSE ARRAY[p_actor_id] END
+  )
+  RETURNING id INTO _id;
+
+  RETURN _id;
+END;
+$$;
+
+-- Rows that are created or collapsed go out through deliver_notification;
+-- a collapse refreshes the push but does not email again
+CREATE OR REPLACE FUNCTION public.dispatch_push_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.deliver_notification(
+    NEW.user_id, NEW.type, NEW.title, NEW.body, NEW.data, NEW.group_key, TG_OP = 'INSERT'
+  );
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notification_channel_enabled(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.quiet_hours_release_at(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.invoke_edge_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.deliver_notification(UUID, TEXT, TEXT, TEXT, JSONB, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_held_push_notifications() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,35 @@
+-- Saved posts (bookmarks) with optional named collections
+CREATE TABLE public.saved_collections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT saved_collections_name_length CHECK (char_length(btrim(name)) BETWEEN 1 AND 50)
+);
+
+CREATE UNIQUE INDEX idx_saved_collections_user_name ON public.saved_collections(user_id, lower(name));
+
+-- post_id is cleared rather than cascaded when a post is deleted, so the
+-- saved list can show a placeholder instead of silently losing the entry
+CREATE TABLE public.saved_posts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  post_id UUID REFERENCES public.posts(id) ON DELETE SET NULL,
+  collection_id UUID REFERENCES public.saved_collections(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, post_id)
+);
+
+CREATE INDEX idx_saved_posts_user_created ON public.saved_posts(user_id, created_at DESC);
+CREATE INDEX idx_saved_posts_collection ON public.saved_posts(collection_id);
+
+-- Saves are private; both tables are only accessed through the
+-- manage-saved-posts edge function
+ALTER TABLE public.saved_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_posts ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_saved_collections_updated_at
+BEFORE UPDATE ON public.saved_collections
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
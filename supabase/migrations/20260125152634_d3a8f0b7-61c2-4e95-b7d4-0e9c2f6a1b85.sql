@@ -0,0 +1,123 @@
+-- Suspension enforcement
+-- Edge functions reject suspended users with the reason and expiry. Some
+-- writes still go straight from the client (community discussions, polls,
+-- job applications, follows), so content tables also refuse rows authored
+-- by a suspended user.
+CREATE INDEX IF NOT EXISTS idx_user_suspensions_active
+ON public.user_suspensions(user_id)
+WHERE lifted_at IS NULL;
+
+-- Lifts suspensions whose expiry has passed. lifted_by stays NULL to mark
+-- the lift as automatic.
+CREATE OR REPLACE FUNCTION public.lift_expired_suspensions()
+RETURNS void AS $$
+BEGIN
+  UPDATE public.user_suspensions
+  SET lifted_at = now()
+  WHERE lifted_at IS NULL
+    AND COALESCE(is_permanent, false) = false
+    AND expires_at IS NOT NULL
+    AND expires_at <= now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+SELECT cron.schedule(
+  'lift-expired-suspensions',
+  '*/15 * * * *',
+  $$SELECT public.lift_expired_suspensions()$$
+);
+
+CREATE OR REPLACE FUNCTION public.enforce_not_suspended()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+  _suspension RECORD;
+BEGIN
+  -- TG_ARGV[0] names the column holding the acting user
+  _user_id := (to_jsonb(NEW) ->> TG_ARGV[0])::uuid;
+  IF _user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT reason, expires_at, COALESCE(is_permanent, false) OR expires_at IS NULL AS permanent
+  INTO _suspension
+  FROM public.user_suspensions
+  WHERE user_id = _user_id
+    AND lifted_at IS NULL
+    AND (COALESCE(is_permanent, false) OR expires_at IS NULL OR expires_at > now())
+  ORDER BY (COALESCE(is_permanent, false) OR expires_at IS NULL) DESC, expires_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION '%', CASE
+      WHEN _suspension.permanent THEN 'Your account has been suspended. Reason: ' || _suspension.reason
+      ELSE 'Your account is suspended until ' || to_char(_suspension.expires_at AT TIME ZONE 'UTC', 'DD Mon YYYY HH24:MI "UTC"') || '. Reason: ' || _suspension.reason
+    END
+    USING ERRCODE = 'P0001', HINT = 'account_suspended';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_not_suspended_posts
+BEFORE INSERT ON public.posts
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('user_id');
+
+CREATE TRIGGER enforce_not_suspended_comments
+BEFORE INSERT ON public.comments
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('user_id');
+
+CREATE TRIGGER enforce_not_suspended_post_likes
+BEFORE INSERT ON public.post_likes
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('user_id');
+
+CREATE TRIGGER enforce_not_suspended_messages
+BEFORE INSERT ON public.messages
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('sender_id');
+
+CREATE TRIGGER enforce_not_suspended_follows
+BEFORE INSERT ON public.follows
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('follower_id');
+
+CREATE TRIGGER enforce_not_suspended_business_follows
+BEFORE INSERT ON public.business_follows
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('user_id');
+
+CREATE TRIGGER enforce_not_suspended_businesses
+BEFORE INSERT ON public.businesses
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('owner_id');
+
+CREATE TRIGGER enforce_not_suspended_communities
+BEFORE INSERT ON public.communities
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('created_by');
+
+CREATE TRIGGER enforce_not_suspended_community_discussions
+BEFORE INSERT ON public.community_discussions
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('user_id');
+
+CREATE TRIGGER enforce_not_suspended_community_polls
+BEFORE INSERT ON public.community_polls
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('created_by');
+
+CREATE TRIGGER enforce_not_suspended_community_poll_votes
+BEFORE INSERT ON public.community_poll_votes
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('user_id');
+
+CREATE TRIGGER enforce_not_suspended_jobs
+BEFORE INSERT ON public.jobs
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('creator_id');
+
+CREATE TRIGGER enforce_not_suspended_job_applications
+BEFORE INSERT ON public.job_applications
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('applicant_id');
+
+CREATE TRIGGER enforce_not_suspended_reports
+BEFORE INSERT ON public.reports
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('reporter_id');
+
+REVOKE EXECUTE ON FUNCTION public.lift_expired_suspensions() FROM PUBLIC, anon, authenticated;
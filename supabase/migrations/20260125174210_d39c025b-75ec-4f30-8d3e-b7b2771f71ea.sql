@@ -0,0 +1,119 @@
+-- Contact privacy
+-- email, mobile_number, location and date_of_birth are no longer readable
+-- straight from the profiles table. Clients read profiles through the
+-- public_profiles view (or get_public_profiles()), which blanks each field
+-- unless its show_* flag is on or the viewer is the owner or an admin. The
+-- viewer is resolved from the request's x-session-token header.
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS show_date_of_birth BOOLEAN DEFAULT false;
+
+-- The user behind the current PostgREST request, from its x-session-token
+-- header. Always one row; both columns are null/false for anonymous callers.
+CREATE OR REPLACE FUNCTION public.request_viewer()
+RETURNS TABLE (viewer_id UUID, is_admin BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.user_id, COALESCE(public.has_any_admin_role(s.user_id), false)
+  FROM (SELECT NULLIF(current_setting('request.headers', true), '')::json ->> 'x-session-token' AS token) h
+  LEFT JOIN public.user_sessions s
+    ON s.session_token = h.token
+   AND s.is_active = true
+   AND s.expires_at > now()
+  LIMIT 1
+$$;
+
+-- A plain view rather than a plpgsql loop, so PostgREST's filters, order and
+-- limit reach the profiles table instead of running over every profile. The
+-- hidden fields are CASE expressions, so filtering on them only ever sees the
+-- visible value. email_verification_token is not exposed at all.
+CREATE OR REPLACE VIEW public.public_profiles AS
+SELECT
+  p.id,
+  p.full_name,
+  p.username,
+  p.avatar_url,
+  p.bio,
+  p.role,
+  p.is_online,
+  p.is_verified,
+  p.last_seen,
+  p.created_at,
+  p.updated_at,
+  p.email_verified,
+  p.email_verification_sent_at,
+  p.show_email,
+  p.show_mobile,
+  p.show_location,
+  p.show_date_of_birth,
+  p.is_blocked,
+  p.blocked_at,
+  p.blocked_by,
+  p.chat_disabled,
+  CASE WHEN viewer.is_admin OR p.id = viewer.viewer_id OR COALESCE(p.show_email, false)
+    THEN p.email END AS email,
+  CASE WHEN viewer.is_admin OR p.id = viewer.viewer_id OR COALESCE(p.show_mobile, false)
+    THEN p.mobile_number END AS mobile_number,
+  -- Location has always been shown unless turned off
+  CASE WHEN viewer.is_admin OR p.id = viewer.viewer_id OR COALESCE(p.show_location, true)
+    THEN p.location END AS location,
+  CASE WHEN viewer.is_admin OR p.id = viewer.viewer_id OR COALESCE(p.show_date_of_birth, false)
+    THEN p.date_of_birth END AS date_of_birth
+FROM public.profiles p
+CROSS JOIN public.request_viewer() viewer;
+
+GRANT SELECT ON public.public_profiles TO anon, authenticated;
+
+-- For callers that page by id. Plain SQL, so it is inlined like the view.
+CREATE OR REPLACE FUNCTION public.get_public_profiles(p_ids UUID[] DEFAULT NULL)
+RETURNS SETOF public.public_profiles
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT * FROM public.public_profiles
+  WHERE p_ids IS NULL OR id = ANY(p_ids)
+$$;
+
+-- Signup still needs to know whether a number is taken
+CREATE OR REPLACE FUNCTION public.is_mobile_registered(p_mobile_number TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE trim(mobile_number) = trim(p_mobile_number)
+  )
+$$;
+
+-- Column-level grants: the private columns are left out, so selecting them
+-- (or *) with the anon key fails. New profile columns must be added here to
+-- be readable from the client.
+REVOKE SELECT ON public.profiles FROM anon, authenticated;
+GRANT SELECT (
+  id,
+  full_name,
+  username,
+  avatar_url,
+  bio,
+  role,
+  is_online,
+  is_verified,
+  last_seen,
+  created_at,
+  updated_at,
+  email_verified,
+  email_verification_sent_at,
+  show_email,
+  show_mobile,
+  show_location,
+  show_date_of_birth,
+  is_blocked,
+  blocked_at,
+  blocked_by,
+  chat_disabled
+) ON public.profiles TO anon, authenticated;
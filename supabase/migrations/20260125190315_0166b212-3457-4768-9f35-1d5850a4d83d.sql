@@ -0,0 +1,30 @@
+-- Home feed
+-- The client pages through get_feed_posts() with a (created_at, id) keyset
+-- cursor. Kept as a plain SQL function so PostgREST's order/limit and the
+-- cursor filter are inlined into the query and served from the index below.
+CREATE INDEX IF NOT EXISTS idx_posts_feed
+ON public.posts(created_at DESC, id DESC)
+WHERE status = 'active';
+
+-- With p_following_of set, only posts by that user, the people they follow
+-- and the businesses they follow. Follows are public, so taking the user id
+-- directly leaks nothing.
+CREATE OR REPLACE FUNCTION public.get_feed_posts(p_following_of UUID DEFAULT NULL)
+RETURNS SETOF public.posts
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p.*
+  FROM public.posts p
+  WHERE p.status = 'active'
+    AND (
+      p_following_of IS NULL
+      OR p.user_id = p_following_of
+      OR p.user_id IN (
+        SELECT f.following_id FROM public.follows f WHERE f.follower_id = p_following_of
+      )
+      OR p.business_id IN (
+        SELECT bf.business_id FROM public.business_follows bf WHERE bf.user_id = p_following_of
+      )
+    )
+$$;
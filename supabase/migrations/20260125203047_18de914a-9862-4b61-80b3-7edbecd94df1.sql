@@ -0,0 +1,127 @@
+-- Trending posts
+-- Scores are recomputed every 10 minutes for active posts from the last
+-- 7 days. Each row also carries the area (from the business location, else
+-- the author's when they show their location) and the business category, so
+-- trending can be filtered globally, per district/panchayath or per category.
+
+-- Pulls the district and panchayath out of a free-text location written as
+-- "Place, Panchayath, District, Country" by the location picker
+CREATE OR REPLACE FUNCTION public.parse_location_area(
+  p_location TEXT,
+  OUT district TEXT,
+  OUT panchayath TEXT
+)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _parts TEXT[];
+  _i INTEGER;
+BEGIN
+  IF p_location IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT array_agg(trim(part) ORDER BY ord) INTO _parts
+  FROM unnest(string_to_array(p_location, ',')) WITH ORDINALITY AS t(part, ord)
+  WHERE trim(part) <> '';
+
+  FOR _i IN 1..COALESCE(array_length(_parts, 1), 0) LOOP
+    IF lower(_parts[_i]) IN (
+      'thiruvananthapuram', 'kollam', 'pathanamthitta', 'alappuzha', 'kottayam',
+      'idukki', 'ernakulam', 'thrissur', 'palakkad', 'malappuram',
+      'kozhikode', 'wayanad', 'kannur', 'kasaragod'
+    ) THEN
+      district := initcap(_parts[_i]);
+      -- The first part is the place; anything between it and the district is the panchayath
+      IF _i >= 3 THEN
+        panchayath := array_to_string(_parts[2:_i - 1], ', ');
+      END IF;
+      RETURN;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE TABLE public.trending_posts (
+  post_id UUID PRIMARY KEY REFERENCES public.posts(id) ON DELETE CASCADE,
+  score DOUBLE PRECISION NOT NULL,
+  likes_count INTEGER NOT NULL DEFAULT 0,
+  comments_count INTEGER NOT NULL DEFAULT 0,
+  district TEXT,
+  panchayath TEXT,
+  business_category public.business_category,
+  computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_trending_posts_score ON public.trending_posts(score DESC);
+CREATE INDEX idx_trending_posts_district ON public.trending_posts(district, score DESC);
+CREATE INDEX idx_trending_posts_panchayath ON public.trending_posts(panchayath, score DESC);
+CREATE INDEX idx_trending_posts_category ON public.trending_posts(business_category, score DESC);
+
+ALTER TABLE public.trending_posts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Trending posts are viewable by everyone" ON public.trending_posts
+  FOR SELECT USING (true);
+
+-- Engagement (likes x2, comments x3) decayed by age in hours, gravity 1.5
+CREATE OR REPLACE FUNCTION public.refresh_trending_posts()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.trending_posts t
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = t.post_id
+      AND p.status = 'active'
+      AND p.created_at > now() - INTERVAL '7 days'
+  );
+
+  INSERT INTO public.trending_posts (
+    post_id, score, likes_count, comments_count, district, panchayath, business_category, computed_at
+  )
+  SELECT
+    p.id,
+    (l.cnt * 2 + c.cnt * 3 + 1)
+      / power(GREATEST(EXTRACT(EPOCH FROM now() - p.created_at) / 3600, 0) + 2, 1.5),
+    l.cnt,
+    c.cnt,
+    area.district,
+    area.panchayath,
+    b.category,
+    now()
+  FROM public.posts p
+  LEFT JOIN public.businesses b ON b.id = p.business_id
+  LEFT JOIN public.profiles pr ON pr.id = p.user_id
+  CROSS JOIN LATERAL (SELECT count(*) AS cnt FROM public.post_likes WHERE post_id = p.id) l
+  CROSS JOIN LATERAL (SELECT count(*) AS cnt FROM public.comments WHERE post_id = p.id) c
+  -- trending_posts is public, so an author who hides their location adds no area
+  CROSS JOIN LATERAL public.parse_location_area(COALESCE(
+    NULLIF(trim(b.location), ''),
+    CASE WHEN COALESCE(pr.show_location, true) THEN pr.location END
+  )) area
+  WHERE p.status = 'active'
+    AND p.created_at > now() - INTERVAL '7 days'
+  ON CONFLICT (post_id) DO UPDATE SET
+    score = EXCLUDED.score,
+    likes_count = EXCLUDED.likes_count,
+    comments_count = EXCLUDED.comments_count,
+    district = EXCLUDED.district,
+    panchayath = EXCLUDED.panchayath,
+    business_category = EXCLUDED.business_category,
+    computed_at = EXCLUDED.computed_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_trending_posts() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'refresh-trending-posts',
+  '*/10 * * * *',
+  $$SELECT public.refresh_trending_posts()$$
+);
+
+SELECT public.refresh_trending_posts();
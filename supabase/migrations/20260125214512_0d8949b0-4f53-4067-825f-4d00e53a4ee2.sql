@@ -0,0 +1,145 @@
+-- Hashtags and mentions
+-- create-post, create-comment and manage-community parse #tags and
+-- @usernames out of the text and store them here. Exactly one of post_id,
+-- comment_id and discussion_id is set, so rows go away with their source.
+CREATE TABLE public.hashtag_uses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tag TEXT NOT NULL CHECK (tag = lower(tag) AND char_length(tag) BETWEEN 1 AND 50),
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  discussion_id UUID REFERENCES public.community_discussions(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(post_id, comment_id, discussion_id) = 1)
+);
+
+CREATE UNIQUE INDEX idx_hashtag_uses_post ON public.hashtag_uses(post_id, tag) WHERE post_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_hashtag_uses_comment ON public.hashtag_uses(comment_id, tag) WHERE comment_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_hashtag_uses_discussion ON public.hashtag_uses(discussion_id, tag) WHERE discussion_id IS NOT NULL;
+CREATE INDEX idx_hashtag_uses_tag ON public.hashtag_uses(tag, created_at DESC);
+
+ALTER TABLE public.hashtag_uses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Hashtag uses are viewable by everyone" ON public.hashtag_uses
+  FOR SELECT USING (true);
+
+CREATE TABLE public.mentions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  mentioned_user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  discussion_id UUID REFERENCES public.community_discussions(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(post_id, comment_id, discussion_id) = 1)
+);
+
+CREATE UNIQUE INDEX idx_mentions_post ON public.mentions(post_id, mentioned_user_id) WHERE post_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_mentions_comment ON public.mentions(comment_id, mentioned_user_id) WHERE comment_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_mentions_discussion ON public.mentions(discussion_id, mentioned_user_id) WHERE discussion_id IS NOT NULL;
+CREATE INDEX idx_mentions_mentioned_user ON public.mentions(mentioned_user_id, created_at DESC);
+
+-- Only edge functions (service role) read or write mentions
+ALTER TABLE public.mentions ENABLE ROW LEVEL SECURITY;
+
+-- Maps @handles to profile ids, ignoring case
+CREATE OR REPLACE FUNCTION public.resolve_usernames(p_usernames TEXT[])
+RETURNS TABLE (id UUID, username TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.username
+  FROM public.profiles p
+  WHERE lower(p.username) = ANY(SELECT lower(u) FROM unnest(p_usernames) AS u)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_usernames(TEXT[]) FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_username_lower ON public.profiles(lower(username));
+
+-- Tag suggestions for the composer, most used first. "_" is escaped so it
+-- matches literally in the LIKE prefix.
+CREATE OR REPLACE FUNCTION public.search_hashtags(p_prefix TEXT, p_limit INTEGER DEFAULT 8)
+RETURNS TABLE (tag TEXT, uses BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT h.tag, count(*) AS uses
+  FROM public.hashtag_uses h
+  WHERE h.tag LIKE replace(replace(lower(p_prefix), '\', '\\'), '_', '\_') || '%'
+  GROUP BY h.tag
+  ORDER BY uses DESC, h.tag
+  LIMIT LEAST(GREATEST(p_limit, 1), 20)
+$$;
+
+-- Mention notifications. Edits only insert rows for newly added mentions,
+-- so people are not notified twice for the same post.
+CREATE OR REPLACE FUNCTION public.notify_mention()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _post_id UUID := NEW.post_id;
+  _community_id UUID;
+  _where TEXT;
+BEGIN
+  IF NEW.comment_id IS NOT NULL THEN
+    SELECT post_id INTO _post_id FROM public.comments WHERE id = NEW.comment_id;
+    _where := 'a comment';
+  ELSIF NEW.discussion_id IS NOT NULL THEN
+    SELECT community_id INTO _community_id FROM public.community_discussions WHERE id = NEW.discussion_id;
+    _where := 'a community discussion';
+  ELSE
+    _where := 'a post';
+  END IF;
+
+  PERFORM public.create_notification(
+    NEW.mentioned_user_id,
+    NEW.author_id,
+    'mention',
+    'New mention',
+    'mentioned you in ' || _where,
+    jsonb_strip_nulls(jsonb_build_object(
+      'post_id', _post_id,
+      'comment_id', NEW.comment_id,
+      'discussion_id', NEW.discussion_id,
+      'community_id', _community_id,
+      'mentioner_id', NEW.author_id
+    )),
+    'mention:' || COALESCE(NEW.post_id, NEW.comment_id, NEW.discussion_id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_mention_trigger
+AFTER INSERT ON public.mentions
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_mention();
+
+-- Mentions get their own preference category
+CREATE OR REPLACE FUNCTION public.notification_category(p_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_type = 'like' THEN 'likes'
+    WHEN p_type = 'comment' THEN 'comments'
+    WHEN p_type = 'mention' THEN 'mentions'
+    WHEN p_type = 'follow' THEN 'follows'
+    WHEN p_type = 'message' THEN 'messages'
+    WHEN p_type LIKE 'community_%' THEN 'community'
+    WHEN p_type LIKE 'job_%' THEN 'jobs'
+    WHEN p_type LIKE 'business_%' THEN 'business'
+    ELSE NULL
+  END;
+$$;
+
+-- Discussions are posted through manage-community so their tags and
+-- mentions get indexed; the client-side insert policy is no longer used
+DROP POLICY IF EXISTS "Community members can create discussions" ON public.community_discussions;
@@ -0,0 +1,21 @@
+-- Multi-image posts
+-- Up to 10 ordered images per post, each with alt text. posts.image_url is
+-- still set to the first image so older readers (share previews, trending,
+-- admin lists) keep working, and posts created before this have no rows here.
+CREATE TABLE public.post_images (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  image_url TEXT NOT NULL,
+  alt_text TEXT CHECK (char_length(alt_text) <= 500),
+  position SMALLINT NOT NULL CHECK (position BETWEEN 0 AND 9),
+  width INTEGER,
+  height INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (post_id, position)
+);
+
+ALTER TABLE public.post_images ENABLE ROW LEVEL SECURITY;
+
+-- Written by the create-post edge function only
+CREATE POLICY "Post images are viewable by everyone" ON public.post_images
+  FOR SELECT USING (true);
@@ -0,0 +1,79 @@
+-- Editable posts and comments
+-- edited_at marks content edits only; updated_at also moves on moderation
+-- changes. Each edit stores the text it replaced in content_revisions, which
+-- moderators read through admin-manage.
+ALTER TABLE public.posts ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.comments ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.content_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  -- The content as it was before this edit
+  content TEXT,
+  edited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(post_id, comment_id) = 1)
+);
+
+CREATE INDEX idx_content_revisions_post ON public.content_revisions(post_id, created_at DESC) WHERE post_id IS NOT NULL;
+CREATE INDEX idx_content_revisions_comment ON public.content_revisions(comment_id, created_at DESC) WHERE comment_id IS NOT NULL;
+
+-- Service role only: earlier versions may hold text the author took back
+ALTER TABLE public.content_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Saves an edit and the revision it replaces in one transaction. The row is
+-- locked first, so concurrent edits each record the text they actually
+-- replaced, and a failed update leaves no revision behind.
+CREATE OR REPLACE FUNCTION public.edit_post_content(p_post_id UUID, p_editor UUID, p_content TEXT)
+RETURNS SETOF public.posts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous TEXT;
+BEGIN
+  SELECT content INTO v_previous FROM public.posts WHERE id = p_post_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.content_revisions (post_id, content, edited_by)
+  VALUES (p_post_id, v_previous, p_editor);
+
+  RETURN QUERY
+  UPDATE public.posts
+  SET content = p_content, edited_at = now()
+  WHERE id = p_post_id
+  RETURNING *;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.edit_comment_content(p_comment_id UUID, p_editor UUID, p_content TEXT)
+RETURNS SETOF public.comments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous TEXT;
+BEGIN
+  SELECT content INTO v_previous FROM public.comments WHERE id = p_comment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.content_revisions (comment_id, content, edited_by)
+  VALUES (p_comment_id, v_previous, p_editor);
+
+  RETURN QUERY
+  UPDATE public.comments
+  SET content = p_content, edited_at = now()
+  WHERE id = p_comment_id
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.edit_post_content(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.edit_comment_content(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
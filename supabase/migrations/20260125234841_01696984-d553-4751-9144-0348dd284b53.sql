@@ -0,0 +1,126 @@
+-- Threaded comment replies and comment likes
+-- Replies go one level deep: replying to a reply attaches to its top-level
+-- comment. Deleting a comment removes its replies with it, so the post's
+-- comment count (all rows in comments) stays accurate.
+ALTER TABLE public.comments
+  ADD COLUMN parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_comments_parent ON public.comments(parent_id) WHERE parent_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.normalize_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _parent RECORD;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, post_id, parent_id INTO _parent FROM public.comments WHERE id = NEW.parent_id;
+
+  IF NOT FOUND OR _parent.post_id IS DISTINCT FROM NEW.post_id THEN
+    RAISE EXCEPTION 'Parent comment not found on this post';
+  END IF;
+
+  NEW.parent_id := COALESCE(_parent.parent_id, _parent.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_comment_parent_trigger
+BEFORE INSERT ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_comment_parent();
+
+CREATE TABLE public.comment_likes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  comment_id UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (comment_id, user_id)
+);
+
+CREATE INDEX idx_comment_likes_user ON public.comment_likes(user_id);
+
+ALTER TABLE public.comment_likes ENABLE ROW LEVEL SECURITY;
+
+-- Written by the manage-comments edge function only
+CREATE POLICY "Comment likes are viewable by everyone" ON public.comment_likes
+  FOR SELECT USING (true);
+
+CREATE TRIGGER enforce_not_suspended_comment_likes
+BEFORE INSERT ON public.comment_likes
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('user_id');
+
+-- Replies also notify the author of the comment being replied to
+CREATE OR REPLACE FUNCTION public.notify_post_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _post_owner UUID := (SELECT user_id FROM public.posts WHERE id = NEW.post_id);
+  _parent_author UUID;
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO _parent_author FROM public.comments WHERE id = NEW.parent_id;
+
+    PERFORM public.create_notification(
+      _parent_author,
+      NEW.user_id,
+      'comment',
+      'New reply',
+      'replied to your comment',
+      jsonb_build_object('post_id', NEW.post_id, 'comment_id', NEW.id, 'commenter_id', NEW.user_id),
+      'comment:' || NEW.parent_id
+    );
+  END IF;
+
+  -- The post owner already heard about it if they wrote the parent comment
+  IF _parent_author IS DISTINCT FROM _post_owner THEN
+    PERFORM public.create_notification(
+      _post_owner,
+      NEW.user_id,
+      'comment',
+      'New comment',
+      'commented on your post',
+      jsonb_build_object('post_id', NEW.post_id, 'comment_id', NEW.id, 'commenter_id', NEW.user_id),
+      'post:' || NEW.post_id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_comment_like()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _comment RECORD;
+BEGIN
+  SELECT user_id, post_id INTO _comment FROM public.comments WHERE id = NEW.comment_id;
+
+  PERFORM public.create_notification(
+    _comment.user_id,
+    NEW.user_id,
+    'like',
+    'New like',
+    'liked your comment',
+    jsonb_build_object('post_id', _comment.post_id, 'comment_id', NEW.comment_id, 'liker_id', NEW.user_id),
+    'comment:' || NEW.comment_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_comment_like_trigger
+AFTER INSERT ON public.comment_likes
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_comment_like();
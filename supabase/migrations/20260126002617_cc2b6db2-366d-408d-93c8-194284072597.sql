@@ -0,0 +1,23 @@
+-- Post trash
+-- Deleting a post moves it to the author's trash by setting deleted_at. It
+-- can be restored for 30 days, after which purge-trashed-posts removes it
+-- together with its files in the posts bucket. This is independent of the
+-- moderator hide (status = 'hidden'): a hidden post that is trashed and
+-- restored comes back hidden.
+ALTER TABLE public.posts ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_posts_deleted_at ON public.posts(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Trashed posts are only reachable through the author's trash
+DROP POLICY "Posts are viewable by everyone" ON public.posts;
+
+CREATE POLICY "Posts are viewable by everyone unless trashed" ON public.posts
+  FOR SELECT USING (deleted_at IS NULL);
+
+-- Storage objects can only be removed through the Storage API, so the purge
+-- runs in an edge function
+SELECT cron.schedule(
+  'purge-trashed-posts',
+  '30 3 * * *',
+  $$SELECT public.invoke_edge_function('purge-trashed-posts', '{}'::jsonb)$$
+);
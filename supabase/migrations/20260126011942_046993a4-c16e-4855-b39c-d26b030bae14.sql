@@ -0,0 +1,45 @@
+-- Link preview cache
+-- The link-preview edge function stores OpenGraph/Twitter card metadata per
+-- URL. Failed fetches are cached too, for a shorter time, so a dead link is
+-- not refetched on every render. fetched_by records who caused each fetch, so
+-- the function can cap how many uncached links one user makes it fetch.
+CREATE TABLE public.link_previews (
+  url TEXT NOT NULL PRIMARY KEY,
+  -- Where the last redirect landed
+  final_url TEXT,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  site_name TEXT,
+  content_type TEXT,
+  status TEXT NOT NULL DEFAULT 'ok' CHECK (status IN ('ok', 'error')),
+  error TEXT,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  fetched_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX idx_link_previews_expires ON public.link_previews(expires_at);
+CREATE INDEX idx_link_previews_fetched_by ON public.link_previews(fetched_by, fetched_at DESC);
+
+-- Service role only; clients go through link-preview
+ALTER TABLE public.link_previews ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.cleanup_expired_link_previews()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.link_previews WHERE expires_at < now() - INTERVAL '1 day';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cleanup_expired_link_previews() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'cleanup-expired-link-previews',
+  '15 4 * * *',
+  $$SELECT public.cleanup_expired_link_previews()$$
+);
@@ -0,0 +1,439 @@
+-- Kerala administrative geography
+-- district → block → local body (grama panchayath, municipality or
+-- corporation) → ward, with English and Malayalam names. Grama panchayaths
+-- belong to a block; municipalities and corporations report straight to the
+-- district. Everyone can read these tables; admins edit them through
+-- manage-geography.
+CREATE TABLE public.geo_districts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name_en TEXT NOT NULL UNIQUE,
+  name_ml TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.geo_blocks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  district_id UUID NOT NULL REFERENCES public.geo_districts(id),
+  name_en TEXT NOT NULL,
+  name_ml TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (district_id, name_en),
+  -- Target of the local body foreign key, which keeps both in one district
+  UNIQUE (id, district_id)
+);
+
+CREATE TABLE public.geo_local_bodies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  district_id UUID NOT NULL REFERENCES public.geo_districts(id),
+  block_id UUID,
+  body_type TEXT NOT NULL DEFAULT 'grama_panchayath'
+    CHECK (body_type IN ('grama_panchayath', 'municipality', 'corporation')),
+  name_en TEXT NOT NULL,
+  name_ml TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (district_id, body_type, name_en),
+  FOREIGN KEY (block_id, district_id) REFERENCES public.geo_blocks(id, district_id) ON DELETE SET NULL (block_id),
+  CHECK (body_type = 'grama_panchayath' OR block_id IS NULL)
+);
+
+CREATE INDEX idx_geo_local_bodies_block ON public.geo_local_bodies(block_id);
+
+CREATE TABLE public.geo_wards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  local_body_id UUID NOT NULL REFERENCES public.geo_local_bodies(id) ON DELETE CASCADE,
+  ward_number INTEGER NOT NULL CHECK (ward_number > 0),
+  name_en TEXT NOT NULL,
+  name_ml TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (local_body_id, ward_number)
+);
+
+ALTER TABLE public.geo_districts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.geo_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.geo_local_bodies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.geo_wards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Districts are viewable by everyone" ON public.geo_districts
+  FOR SELECT USING (true);
+CREATE POLICY "Blocks are viewable by everyone" ON public.geo_blocks
+  FOR SELECT USING (true);
+CREATE POLICY "Local bodies are viewable by everyone" ON public.geo_local_bodies
+  FOR SELECT USING (true);
+CREATE POLICY "Wards are viewable by everyone" ON public.geo_wards
+  FOR SELECT USING (true);
+
+CREATE TRIGGER update_geo_districts_updated_at BEFORE UPDATE ON public.geo_districts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_geo_blocks_updated_at BEFORE UPDATE ON public.geo_blocks
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_geo_local_bodies_updated_at BEFORE UPDATE ON public.geo_local_bodies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_geo_wards_updated_at BEFORE UPDATE ON public.geo_wards
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed data: the districts, every corporation and municipality, and the
+-- grama panchayaths the old location picker offered. Blocks, the remaining
+-- panchayaths and wards are added by admins.
+INSERT INTO public.geo_districts (name_en, name_ml) VALUES
+  ('Thiruvananthapuram', 'തിരുവനന്തപുരം'),
+  ('Kollam', 'കൊല്ലം'),
+  ('Pathanamthitta', 'പത്തനംതിട്ട'),
+  ('Alappuzha', 'ആലപ്പുഴ'),
+  ('Kottayam', 'കോട്ടയം'),
+  ('Idukki', 'ഇടുക്കി'),
+  ('Ernakulam', 'എറണാകുളം'),
+  ('Thrissur', 'തൃശ്ശൂർ'),
+  ('Palakkad', 'പാലക്കാട്'),
+  ('Malappuram', 'മലപ്പുറം'),
+  ('Kozhikode', 'കോഴിക്കോട്'),
+  ('Wayanad', 'വയനാട്'),
+  ('Kannur', 'കണ്ണൂർ'),
+  ('Kasaragod', 'കാസർഗോഡ്');
+
+INSERT INTO public.geo_local_bodies (district_id, body_type, name_en, name_ml)
+SELECT d.id, 'corporation', v.name_en, v.name_ml
+FROM (VALUES
+  ('Thiruvananthapuram', 'Thiruvananthapuram', 'തിരുവനന്തപുരം'),
+  ('Kollam', 'Kollam', 'കൊല്ലം'),
+  ('Ernakulam', 'Kochi', 'കൊച്ചി'),
+  ('Thrissur', 'Thrissur', 'തൃശ്ശൂർ'),
+  ('Kozhikode', 'Kozhikode', 'കോഴിക്കോട്'),
+  ('Kannur', 'Kannur', 'കണ്ണൂർ')
+) AS v(district, name_en, name_ml)
+JOIN public.geo_districts d ON d.name_en = v.district;
+
+INSERT INTO public.geo_local_bodies (district_id, body_type, name_en)
+SELECT d.id, 'municipality', v.name_en
+FROM (VALUES
+  ('Thiruvananthapuram', 'Neyyattinkara'), ('Thiruvananthapuram', 'Nedumangad'),
+  ('Thiruvananthapuram', 'Attingal'), ('Thiruvananthapuram', 'Varkala'),
+  ('Kollam', 'Punalur'), ('Kollam', 'Karunagappally'), ('Kollam', 'Paravur'), ('Kollam', 'Kottarakkara'),
+  ('Pathanamthitta', 'Pathanamthitta'), ('Pathanamthitta', 'Thiruvalla'),
+  ('Pathanamthitta', 'Adoor'), ('Pathanamthitta', 'Pandalam'),
+  ('Alappuzha', 'Alappuzha'), ('Alappuzha', 'Cherthala'), ('Alappuzha', 'Kayamkulam'),
+  ('Alappuzha', 'Mavelikara'), ('Alappuzha', 'Chengannur'), ('Alappuzha', 'Haripad'),
+  ('Kottayam', 'Kottayam'), ('Kottayam', 'Changanassery'), ('Kottayam', 'Pala'),
+  ('Kottayam', 'Vaikom'), ('Kottayam', 'Ettumanoor'), ('Kottayam', 'Erattupetta'),
+  ('Idukki', 'Thodupuzha'), ('Idukki', 'Kattappana'),
+  ('Ernakulam', 'Aluva'), ('Ernakulam', 'Angamaly'), ('Ernakulam', 'Eloor'),
+  ('Ernakulam', 'Kalamassery'), ('Ernakulam', 'Kothamangalam'), ('Ernakulam', 'Koothattukulam'),
+  ('Ernakulam', 'Maradu'), ('Ernakulam', 'Muvattupuzha'), ('Ernakulam', 'North Paravur'),
+  ('Ernakulam', 'Perumbavoor'), ('Ernakulam', 'Piravom'), ('Ernakulam', 'Thrikkakara'),
+  ('Ernakulam', 'Thripunithura'),
+  ('Thrissur', 'Chalakudy'), ('Thrissur', 'Chavakkad'), ('Thrissur', 'Guruvayur'),
+  ('Thrissur', 'Irinjalakuda'), ('Thrissur', 'Kodungallur'), ('Thrissur', 'Kunnamkulam'),
+  ('Thrissur', 'Wadakkanchery'),
+  ('Palakkad', 'Palakkad'), ('Palakkad', 'Ottapalam'), ('Palakkad', 'Shoranur'),
+  ('Palakkad', 'Chittur-Thathamangalam'), ('Palakkad', 'Pattambi'), ('Palakkad', 'Cherpulassery'),
+  ('Palakkad', 'Mannarkkad'),
+  ('Malappuram', 'Malappuram'), ('Malappuram', 'Manjeri'), ('Malappuram', 'Perinthalmanna'),
+  ('Malappuram', 'Ponnani'), ('Malappuram', 'Tirur'), ('Malappuram', 'Kottakkal'),
+  ('Malappuram', 'Nilambur'), ('Malappuram', 'Tanur'), ('Malappuram', 'Valanchery'),
+  ('Malappuram', 'Kondotty'), ('Malappuram', 'Parappanangadi'), ('Malappuram', 'Tirurangadi'),
+  ('Kozhikode', 'Vatakara'), ('Kozhikode', 'Koyilandy'), ('Kozhikode', 'Ramanattukara'),
+  ('Kozhikode', 'Feroke'), ('Kozhikode', 'Mukkam'), ('Kozhikode', 'Koduvally'), ('Kozhikode', 'Payyoli'),
+  ('Wayanad', 'Kalpetta'), ('Wayanad', 'Sulthan Bathery'), ('Wayanad', 'Mananthavady'),
+  ('Kannur', 'Thalassery'), ('Kannur', 'Payyanur'), ('Kannur', 'Taliparamba'),
+  ('Kannur', 'Mattannur'), ('Kannur', 'Kuthuparamba'), ('Kannur', 'Iritty'),
+  ('Kannur', 'Anthoor'), ('Kannur', 'Sreekandapuram'), ('Kannur', 'Panoor'),
+  ('Kasaragod', 'Kasaragod'), ('Kasaragod', 'Kanhangad'), ('Kasaragod', 'Nileshwaram')
+) AS v(district, name_en)
+JOIN public.geo_districts d ON d.name_en = v.district;
+
+INSERT INTO public.geo_local_bodies (district_id, body_type, name_en)
+SELECT d.id, 'grama_panchayath', v.name_en
+FROM (VALUES
+  ('Thiruvananthapuram', 'Venganoor'),
+  ('Kollam', 'Chavara'), ('Kollam', 'Oachira'), ('Kollam', 'Kundara'),
+  ('Pathanamthitta', 'Ranni'), ('Pathanamthitta', 'Kozhencherry'),
+  ('Idukki', 'Adimali'), ('Idukki', 'Munnar'), ('Idukki', 'Nedumkandam'),
+  ('Wayanad', 'Panamaram'),
+  ('Kasaragod', 'Manjeshwaram'), ('Kasaragod', 'Cheruvathur')
+) AS v(district, name_en)
+JOIN public.geo_districts d ON d.name_en = v.district;
+
+INSERT INTO public.geo_local_bodies (district_id, body_type, name_en, name_ml)
+SELECT d.id, 'grama_panchayath', v.name_en, v.name_ml
+FROM (VALUES
+  ('A.R.Nagar', 'എ.ആർ.നഗർ'),
+  ('Alamkodu', 'ആലംകോട്'),
+  ('Aliparambu', 'ആലിപ്പറമ്പ്'),
+  ('Amarambalam', 'അമരമ്പലം'),
+  ('Anakkayam', 'ആനക്കയം'),
+  ('Angadipuram', 'അങ്ങാടിപ്പുറം'),
+  ('Areekkode', 'അരീക്കോട്'),
+  ('Athavanadu', 'ആതവനാട്'),
+  ('Chaliyar', 'ചാലിയാർ'),
+  ('Cheekkode', 'ചീക്കോട്'),
+  ('Chelambra', 'ചേലമ്പ്ര'),
+  ('Cheriyamundam', 'ചെറിയമുണ്ടം'),
+  ('Cherukavu', 'ചെറുകാവ്'),
+  ('Chokkadu', 'ചോക്കാട്'),
+  ('Chunkathara', 'ചുങ്കത്തറ'),
+  ('Edakkara', 'എടക്കര'),
+  ('Edappal', 'എടപ്പാൾ'),
+  ('Edappatta', 'എടപ്പറ്റ'),
+  ('Edarikkode', 'എടരിക്കോട്'),
+  ('Edavanna', 'എടവണ്ണ'),
+  ('Edayur', 'എടയൂർ'),
+  ('Elamkulam', 'ഏലംകുളം'),
+  ('Irimbiliyam', 'ഇരിമ്പിളിയം'),
+  ('Kaladi', 'കാലടി'),
+  ('Kalikavu', 'കാളികാവ്'),
+  ('Kalpakanchery', 'കൽപകഞ്ചേരി'),
+  ('Kannamangalam', 'കണ്ണമംഗലം'),
+  ('Karulai', 'കരുളായി'),
+  ('Karuvarakkund', 'കരുവാരക്കുണ്ട്'),
+  ('Kavannoor', 'കെ അവണ്ണൂർ'),
+  ('Keezhattur', 'കീഴാറ്റൂർ'),
+  ('Keezhuparambu', 'കീഴുപറമ്പ്'),
+  ('Kodoor', 'കോഡൂർ'),
+  ('Koottilangadi', 'കൂട്ടിലങ്ങാടി'),
+  ('Kuruva', 'കുറുവ'),
+  ('Kuttippuram', 'കുറ്റിപ്പുറം'),
+  ('Kuzhimanna', 'കുഴിമണ്ണ'),
+  ('Makkaraparambu', 'മക്കരപറമ്പ്'),
+  ('Mambad', 'മമ്പാട്'),
+  ('Mangalam', 'മംഗളം'),
+  ('Mankada', 'മങ്കട'),
+  ('Marakkara', 'മാറാക്കര'),
+  ('Maranchery', 'മാറഞ്ചേരി'),
+  ('Melattur', 'മേലാറ്റൂർ'),
+  ('Moonniyur', 'മൂണ്ണിയൂർ'),
+  ('Moorkkanadu', 'മൂർക്കനാട്'),
+  ('Morayur', 'മൊറയൂർ'),
+  ('Muthedam', 'മുത്തേടം'),
+  ('Muthuvallur', 'മുതുവല്ലൂർ'),
+  ('Nannambra', 'നന്നമ്പ്ര'),
+  ('Nannamukku', 'നന്നംമുക്ക്'),
+  ('Niramaruthur', 'നിറമരുതൂർ'),
+  ('Orakam', 'ഒരകം'),
+  ('Othukkungal', 'ഒതുക്കുങ്ങൽ'),
+  ('Ozhur', 'ഒഴൂർ'),
+  ('Pallikkal', 'പള്ളിക്കൽ'),
+  ('Pandikkad', 'പാണ്ടിക്കാട്'),
+  ('Parappur', 'പറപ്പൂർ'),
+  ('Perumanna Klari', 'പെരുമണ്ണ ക്ലാരി'),
+  ('Perumpadappu', 'പെരുമ്പടപ്പ്'),
+  ('Peruvallur', 'പെരുവള്ളൂർ'),
+  ('Ponmala', 'പൊന്മള'),
+  ('Ponmundam', 'പൊന്മുണ്ടം'),
+  ('Porur', 'പോരൂർ'),
+  ('Pothukallu', 'പോത്തുകല്ല്'),
+  ('Pukkottur', 'പുക്കോട്ടൂർ'),
+  ('Pulamanthol', 'പുലാമന്തോൾ'),
+  ('Pulikkal', 'പുളിക്കൽ'),
+  ('Pulpatta', 'പുൽപ്പറ്റ'),
+  ('Purathur', 'പുറത്തൂർ'),
+  ('Puzhakkatteeri', 'പുഴക്കാട്ടീരി'),
+  ('Thalakkadu', 'തലക്കാട്'),
+  ('Thanalur', 'താനാളൂർ'),
+  ('Thavannur', 'തവന്നൂർ'),
+  ('Thazhakkode', 'താഴക്കോട്'),
+  ('Thenhippalam', 'തേഞ്ഞിപ്പലം'),
+  ('Thennala', 'തെന്നല'),
+  ('Thirunavaya', 'തിരുനാവായ'),
+  ('Thiruvali', 'തിരുവാലി'),
+  ('Thrikkalangodu', 'തൃക്കലങ്ങോട്'),
+  ('Thriprangode', 'തൃപ്രങ്ങോട്'),
+  ('Thuvoor', 'തുവൂർ'),
+  ('Urgantteeri', 'ഊർഗന്തീരി'),
+  ('Valavannur', 'വളവന്നൂർ'),
+  ('Vallikkunnu', 'വള്ളിക്കുന്ന്'),
+  ('Vattakkulam', 'വട്ടക്കുളം'),
+  ('Vazhakkad', 'വാഴക്കാട്'),
+  ('Vazhayaur', 'വാഴയൂർ'),
+  ('Vazhikkadavu', 'വഴിക്കടവ്'),
+  ('Veliyankode', 'വെളിയങ്കോട്'),
+  ('Vengara', 'വേങ്ങര'),
+  ('Vettom', 'വെട്ടം'),
+  ('Vettathur', 'വെട്ടത്തൂർ'),
+  ('Wandoor', 'വണ്ടൂർ')
+) AS v(name_en, name_ml)
+CROSS JOIN public.geo_districts d
+WHERE d.name_en = 'Malappuram';
+
+-- Structured location on the things people search by place. The free-text
+-- location column stays as the display string.
+ALTER TABLE public.profiles
+  ADD COLUMN district_id UUID REFERENCES public.geo_districts(id) ON DELETE SET NULL,
+  ADD COLUMN local_body_id UUID REFERENCES public.geo_local_bodies(id) ON DELETE SET NULL,
+  ADD COLUMN ward_id UUID REFERENCES public.geo_wards(id) ON DELETE SET NULL;
+
+ALTER TABLE public.businesses
+  ADD COLUMN district_id UUID REFERENCES public.geo_districts(id) ON DELETE SET NULL,
+  ADD COLUMN local_body_id UUID REFERENCES public.geo_local_bodies(id) ON DELETE SET NULL,
+  ADD COLUMN ward_id UUID REFERENCES public.geo_wards(id) ON DELETE SET NULL;
+
+ALTER TABLE public.communities
+  ADD COLUMN district_id UUID REFERENCES public.geo_districts(id) ON DELETE SET NULL,
+  ADD COLUMN local_body_id UUID REFERENCES public.geo_local_bodies(id) ON DELETE SET NULL,
+  ADD COLUMN ward_id UUID REFERENCES public.geo_wards(id) ON DELETE SET NULL;
+
+ALTER TABLE public.jobs
+  ADD COLUMN district_id UUID REFERENCES public.geo_districts(id) ON DELETE SET NULL,
+  ADD COLUMN local_body_id UUID REFERENCES public.geo_local_bodies(id) ON DELETE SET NULL,
+  ADD COLUMN ward_id UUID REFERENCES public.geo_wards(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_profiles_district ON public.profiles(district_id);
+CREATE INDEX idx_profiles_local_body ON public.profiles(local_body_id);
+CREATE INDEX idx_businesses_district ON public.businesses(district_id);
+CREATE INDEX idx_businesses_local_body ON public.businesses(local_body_id);
+CREATE INDEX idx_communities_district ON public.communities(district_id);
+CREATE INDEX idx_communities_local_body ON public.communities(local_body_id);
+CREATE INDEX idx_jobs_district ON public.jobs(district_id);
+CREATE INDEX idx_jobs_local_body ON public.jobs(local_body_id);
+
+-- The most specific ID wins: a ward fills in its local body, a local body
+-- its district, so the three never disagree
+CREATE OR REPLACE FUNCTION public.sync_geo_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.ward_id IS NOT NULL THEN
+    SELECT local_body_id INTO NEW.local_body_id FROM public.geo_wards WHERE id = NEW.ward_id;
+  END IF;
+
+  IF NEW.local_body_id IS NOT NULL THEN
+    SELECT district_id INTO NEW.district_id FROM public.geo_local_bodies WHERE id = NEW.local_body_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_profiles_geo_location
+  BEFORE INSERT OR UPDATE OF district_id, local_body_id, ward_id ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.sync_geo_location();
+CREATE TRIGGER sync_businesses_geo_location
+  BEFORE INSERT OR UPDATE OF district_id, local_body_id, ward_id ON public.businesses
+  FOR EACH ROW EXECUTE FUNCTION public.sync_geo_location();
+CREATE TRIGGER sync_communities_geo_location
+  BEFORE INSERT OR UPDATE OF district_id, local_body_id, ward_id ON public.communities
+  FOR EACH ROW EXECUTE FUNCTION public.sync_geo_location();
+CREATE TRIGGER sync_jobs_geo_location
+  BEFORE INSERT OR UPDATE OF district_id, local_body_id, ward_id ON public.jobs
+  FOR EACH ROW EXECUTE FUNCTION public.sync_geo_location();
+
+-- The profile location IDs are as private as the location string: not
+-- granted to clients, and blanked by public_profiles with it. New columns go
+-- at the end, as CREATE OR REPLACE VIEW requires.
+CREATE OR REPLACE VIEW public.public_profiles AS
+SELECT
+  p.id,
+  p.full_name,
+  p.username,
+  p.avatar_url,
+  p.bio,
+  p.role,
+  p.is_online,
+  p.is_verified,
+  p.last_seen,
+  p.created_at,
+  p.updated_at,
+  p.email_verified,
+  p.email_verification_sent_at,
+  p.show_email,
+  p.show_mobile,
+  p.show_location,
+  p.show_date_of_birth,
+  p.is_blocked,
+  p.blocked_at,
+  p.blocked_by,
+  p.chat_disabled,
+  CASE WHEN viewer.is_admin OR p.id = viewer.viewer_id OR COALESCE(p.show_email, false)
+    THEN p.email END AS email,
+  CASE WHEN viewer.is_admin OR p.id = viewer.viewer_id OR COALESCE(p.show_mobile, false)
+    THEN p.mobile_number END AS mobile_number,
+  CASE WHEN viewer.is_admin OR p.id = viewer.viewer_id OR COALESCE(p.show_location, true)
+    THEN p.location END AS location,
+  CASE WHEN viewer.is_admin OR p.id = viewer.viewer_id OR COALESCE(p.show_date_of_birth, false)
+    THEN p.date_of_birth END AS date_of_birth,
+  CASE WHEN viewer.is_admin OR p.id = viewer.viewer_id OR COALESCE(p.show_location, true)
+    THEN p.district_id END AS district_id,
+  CASE WHEN viewer.is_admin OR p.id = viewer.viewer_id OR COALESCE(p.show_location, true)
+    THEN p.local_body_id END AS local_body_id,
+  CASE WHEN viewer.is_admin OR p.id = viewer.viewer_id OR COALESCE(p.show_location, true)
+    THEN p.ward_id END AS ward_id
+FROM public.profiles p
+CROSS JOIN public.request_viewer() viewer;
+
+-- One-time mapping of the existing free-text locations. The local body is
+-- looked for in the panchayath part of "Place, Panchayath, District,
+-- Country" first and then in the place, in either the plain English form
+-- or the old picker's "English (Malayalam)" form.
+CREATE FUNCTION public.match_geo_location(
+  p_location TEXT,
+  OUT district_id UUID,
+  OUT local_body_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _area RECORD;
+  _place TEXT := trim(split_part(p_location, ',', 1));
+  _district_id UUID;
+BEGIN
+  SELECT * INTO _area FROM public.parse_location_area(p_location);
+  IF _area.district IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT d.id INTO _district_id FROM public.geo_districts d WHERE lower(d.name_en) = lower(_area.district);
+  district_id := _district_id;
+
+  SELECT lb.id INTO local_body_id
+  FROM public.geo_local_bodies lb
+  CROSS JOIN LATERAL unnest(ARRAY[
+    _area.panchayath,
+    CASE WHEN lower(_place) <> lower(_area.district) THEN _place END
+  ]) WITH ORDINALITY AS c(name, ord)
+  WHERE lb.district_id = _district_id
+    AND lower(trim(c.name)) IN (lower(lb.name_en), lower(lb.name_en || ' (' || lb.name_ml || ')'))
+  ORDER BY c.ord
+  LIMIT 1;
+END;
+$$;
+
+UPDATE public.profiles p
+SET district_id = m.district_id, local_body_id = m.local_body_id
+FROM (
+  SELECT id, (public.match_geo_location(location)).*
+  FROM public.profiles
+  WHERE location IS NOT NULL
+) m
+WHERE p.id = m.id AND m.district_id IS NOT NULL;
+
+UPDATE public.businesses b
+SET district_id = m.district_id, local_body_id = m.local_body_id
+FROM (
+  SELECT id, (public.match_geo_location(location)).*
+  FROM public.businesses
+  WHERE location IS NOT NULL
+) m
+WHERE b.id = m.id AND m.district_id IS NOT NULL;
+
+UPDATE public.jobs j
+SET district_id = m.district_id, local_body_id = m.local_body_id
+FROM (
+  SELECT id, (public.match_geo_location(location)).*
+  FROM public.jobs
+  WHERE location IS NOT NULL
+) m
+WHERE j.id = m.id AND m.district_id IS NOT NULL;
+
+-- Communities never had a location; a business community takes its business's
+UPDATE public.communities c
+SET district_id = b.district_id, local_body_id = b.local_body_id
+FROM public.businesses b
+WHERE c.business_id = b.id AND b.district_id IS NOT NULL;
+
+DROP FUNCTION public.match_geo_location(TEXT);
@@ -0,0 +1,70 @@
+-- Local discovery: the home feed can be limited to posts from the viewer's
+-- panchayath or district. A business post belongs to the business's area;
+-- any other post to its author's, but only when the author shows their
+-- location. Businesses, communities and jobs are filtered on the client,
+-- since their location IDs are readable by everyone.
+
+-- Profile location IDs are not granted to clients, so the author check runs
+-- as the owner. It answers nothing for authors who hide their location.
+CREATE OR REPLACE FUNCTION public.profile_in_area(
+  p_user_id UUID,
+  p_district_id UUID,
+  p_local_body_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles pr
+    WHERE pr.id = p_user_id
+      AND COALESCE(pr.show_location, true)
+      AND (p_district_id IS NULL OR pr.district_id = p_district_id)
+      AND (p_local_body_id IS NULL OR pr.local_body_id = p_local_body_id)
+  )
+$$;
+
+-- The new arguments change the signature, so the old one has to go first
+DROP FUNCTION IF EXISTS public.get_feed_posts(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_feed_posts(
+  p_following_of UUID DEFAULT NULL,
+  p_district_id UUID DEFAULT NULL,
+  p_local_body_id UUID DEFAULT NULL
+)
+RETURNS SETOF public.posts
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p.*
+  FROM public.posts p
+  WHERE p.status = 'active'
+    AND (
+      p_following_of IS NULL
+      OR p.user_id = p_following_of
+      OR p.user_id IN (
+        SELECT f.following_id FROM public.follows f WHERE f.follower_id = p_following_of
+      )
+      OR p.business_id IN (
+        SELECT bf.business_id FROM public.business_follows bf WHERE bf.user_id = p_following_of
+      )
+    )
+    AND (
+      (p_district_id IS NULL AND p_local_body_id IS NULL)
+      OR (
+        p.business_id IS NOT NULL
+        AND p.business_id IN (
+          SELECT b.id FROM public.businesses b
+          WHERE (p_district_id IS NULL OR b.district_id = p_district_id)
+            AND (p_local_body_id IS NULL OR b.local_body_id = p_local_body_id)
+        )
+      )
+      OR (
+        p.business_id IS NULL
+        AND public.profile_in_area(p.user_id, p_district_id, p_local_body_id)
+      )
+    )
+$$;
@@ -0,0 +1,167 @@
+-- Businesses get a point on the map: a pin the owner drops, or failing that
+-- the centre of their panchayath/municipality. search_businesses_nearby()
+-- measures distances in the database so PostgREST can order and page by them.
+
+-- Centres are filled in by admins from the Locations page; the corporations
+-- are seeded with their city centres
+ALTER TABLE public.geo_local_bodies
+  ADD COLUMN latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  ADD CONSTRAINT geo_local_bodies_point_complete CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+UPDATE public.geo_local_bodies lb
+SET latitude = v.latitude, longitude = v.longitude
+FROM (VALUES
+  ('Thiruvananthapuram', 8.5241, 76.9366),
+  ('Kollam', 8.8932, 76.6141),
+  ('Kochi', 9.9312, 76.2673),
+  ('Thrissur', 10.5276, 76.2144),
+  ('Kozhikode', 11.2588, 75.7804),
+  ('Kannur', 11.8745, 75.3704)
+) AS v(name_en, latitude, longitude)
+WHERE lb.body_type = 'corporation' AND lb.name_en = v.name_en;
+
+-- geo_pinned marks a point the owner placed; otherwise the point follows the
+-- local body's centre
+ALTER TABLE public.businesses
+  ADD COLUMN latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  ADD COLUMN geo_pinned BOOLEAN NOT NULL DEFAULT false,
+  ADD CONSTRAINT businesses_point_complete CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+CREATE INDEX idx_businesses_point ON public.businesses(latitude, longitude)
+WHERE latitude IS NOT NULL;
+
+-- Fires after sync_businesses_geo_location (triggers run in name order), so
+-- the local body is already settled
+CREATE OR REPLACE FUNCTION public.sync_business_point()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.geo_pinned AND NEW.latitude IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.geo_pinned := false;
+  NEW.latitude := NULL;
+  NEW.longitude := NULL;
+
+  IF NEW.local_body_id IS NOT NULL THEN
+    SELECT latitude, longitude INTO NEW.latitude, NEW.longitude
+    FROM public.geo_local_bodies
+    WHERE id = NEW.local_body_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_businesses_point
+  BEFORE INSERT OR UPDATE OF district_id, local_body_id, ward_id, latitude, longitude, geo_pinned
+  ON public.businesses
+  FOR EACH ROW EXECUTE FUNCTION public.sync_business_point();
+
+-- Moving a local body's centre moves the businesses that sit on it
+CREATE OR REPLACE FUNCTION public.move_local_body_businesses()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.businesses
+  SET latitude = NEW.latitude, longitude = NEW.longitude
+  WHERE local_body_id = NEW.id AND NOT geo_pinned;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER move_local_body_businesses
+  AFTER UPDATE OF latitude, longitude ON public.geo_local_bodies
+  FOR EACH ROW
+  WHEN (OLD.latitude IS DISTINCT FROM NEW.latitude OR OLD.longitude IS DISTINCT FROM NEW.longitude)
+  EXECUTE FUNCTION public.move_local_body_businesses();
+
+-- Existing businesses start on their local body's centre
+UPDATE public.businesses b
+SET latitude = lb.latitude, longitude = lb.longitude
+FROM public.geo_local_bodies lb
+WHERE lb.id = b.local_body_id AND lb.latitude IS NOT NULL;
+
+-- Great-circle distance in kilometres (haversine). least() guards asin()
+-- against rounding just past 1 for antipodal points.
+CREATE OR REPLACE FUNCTION public.distance_km(
+  p_lat1 DOUBLE PRECISION,
+  p_lng1 DOUBLE PRECISION,
+  p_lat2 DOUBLE PRECISION,
+  p_lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT 2 * 6371.0088 * asin(least(1, sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2)
+    + cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+  )))
+$$;
+
+-- Businesses with a point, nearest first once the client orders by
+-- distance_km. A plain SQL function, so RLS applies and PostgREST's
+-- order/range/filters are inlined. With a radius, a bounding box on the
+-- point index narrows the rows before the exact distance is checked.
+CREATE OR REPLACE FUNCTION public.search_businesses_nearby(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_radius_km DOUBLE PRECISION DEFAULT NULL,
+  p_category public.business_category DEFAULT NULL,
+  p_query TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  category public.business_category,
+  logo_url TEXT,
+  location TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  geo_pinned BOOLEAN,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    b.id,
+    b.name,
+    b.description,
+    b.category,
+    b.logo_url,
+    b.location,
+    b.latitude,
+    b.longitude,
+    b.geo_pinned,
+    public.distance_km(p_latitude, p_longitude, b.latitude, b.longitude) AS distance_km
+  FROM public.businesses b
+  WHERE b.latitude IS NOT NULL
+    AND COALESCE(b.is_disabled, false) = false
+    AND (p_category IS NULL OR b.category = p_category)
+    AND (
+      NULLIF(trim(p_query), '') IS NULL
+      OR b.name ILIKE '%' || trim(p_query) || '%'
+      OR b.description ILIKE '%' || trim(p_query) || '%'
+    )
+    AND (
+      p_radius_km IS NULL
+      OR (
+        b.latitude BETWEEN p_latitude - p_radius_km / 111.32 AND p_latitude + p_radius_km / 111.32
+        AND b.longitude BETWEEN p_longitude - p_radius_km / (111.32 * cos(radians(p_latitude)))
+                            AND p_longitude + p_radius_km / (111.32 * cos(radians(p_latitude)))
+        AND public.distance_km(p_latitude, p_longitude, b.latitude, b.longitude) <= p_radius_km
+      )
+    )
+$$;
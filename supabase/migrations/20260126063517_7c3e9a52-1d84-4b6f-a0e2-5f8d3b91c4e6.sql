@@ -0,0 +1,205 @@
+-- Star reviews of businesses, one per customer per business, with a public
+-- reply from the owner. businesses.rating_average/rating_count are kept in
+-- step by a trigger so cards can show them without counting reviews.
+
+CREATE TABLE public.business_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 2000),
+  image_urls TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(image_urls) <= 4),
+  owner_reply TEXT CHECK (char_length(owner_reply) <= 1000),
+  owner_replied_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (business_id, user_id)
+);
+
+CREATE INDEX idx_business_reviews_business ON public.business_reviews(business_id, created_at DESC);
+CREATE INDEX idx_business_reviews_user ON public.business_reviews(user_id);
+
+ALTER TABLE public.business_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Written by the manage-business-reviews edge function only
+CREATE POLICY "Business reviews are viewable by everyone" ON public.business_reviews
+  FOR SELECT USING (true);
+
+CREATE TRIGGER update_business_reviews_updated_at
+  BEFORE UPDATE OF rating, content, image_urls ON public.business_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER enforce_not_suspended_business_reviews
+BEFORE INSERT ON public.business_reviews
+FOR EACH ROW EXECUTE FUNCTION public.enforce_not_suspended('user_id');
+
+-- Rating summary shown on business cards and the profile header
+ALTER TABLE public.businesses
+  ADD COLUMN rating_average NUMERIC(3, 2),
+  ADD COLUMN rating_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.refresh_business_rating(p_business_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.businesses b
+  SET rating_average = s.average, rating_count = s.total
+  FROM (
+    SELECT round(avg(rating), 2) AS average, count(*)::INTEGER AS total
+    FROM public.business_reviews
+    WHERE business_id = p_business_id
+  ) s
+  WHERE b.id = p_business_id;
+$$;
+
+-- Recounted rather than adjusted, so the summary can't drift from the rows
+CREATE OR REPLACE FUNCTION public.sync_business_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_business_rating(OLD.business_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.business_id <> OLD.business_id) THEN
+    PERFORM public.refresh_business_rating(NEW.business_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_business_rating_trigger
+AFTER INSERT OR DELETE OR UPDATE OF rating, business_id ON public.business_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_business_rating();
+
+-- Distance search cards show the rating too; the return type changes, so
+-- the function is dropped and re-created
+DROP FUNCTION IF EXISTS public.search_businesses_nearby(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, public.business_category, TEXT);
+
+CREATE OR REPLACE FUNCTION public.search_businesses_nearby(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_radius_km DOUBLE PRECISION DEFAULT NULL,
+  p_category public.business_category DEFAULT NULL,
+  p_query TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  category public.business_category,
+  logo_url TEXT,
+  location TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  geo_pinned BOOLEAN,
+  rating_average NUMERIC,
+  rating_count INTEGER,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    b.id,
+    b.name,
+    b.description,
+    b.category,
+    b.logo_url,
+    b.location,
+    b.latitude,
+    b.longitude,
+    b.geo_pinned,
+    b.rating_average,
+    b.rating_count,
+    public.distance_km(p_latitude, p_longitude, b.latitude, b.longitude) AS distance_km
+  FROM public.businesses b
+  WHERE b.latitude IS NOT NULL
+    AND COALESCE(b.is_disabled, false) = false
+    AND (p_category IS NULL OR b.category = p_category)
+    AND (
+      NULLIF(trim(p_query), '') IS NULL
+      OR b.name ILIKE '%' || trim(p_query) || '%'
+      OR b.description ILIKE '%' || trim(p_query) || '%'
+    )
+    AND (
+      p_radius_km IS NULL
+      OR (
+        b.latitude BETWEEN p_latitude - p_radius_km / 111.32 AND p_latitude + p_radius_km / 111.32
+        AND b.longitude BETWEEN p_longitude - p_radius_km / (111.32 * cos(radians(p_latitude)))
+                            AND p_longitude + p_radius_km / (111.32 * cos(radians(p_latitude)))
+        AND public.distance_km(p_latitude, p_longitude, b.latitude, b.longitude) <= p_radius_km
+      )
+    )
+$$;
+
+-- New reviews go to the business owner
+CREATE OR REPLACE FUNCTION public.notify_business_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _business RECORD;
+BEGIN
+  SELECT owner_id, name INTO _business FROM public.businesses WHERE id = NEW.business_id;
+
+  PERFORM public.create_notification(
+    _business.owner_id,
+    NEW.user_id,
+    'business_review',
+    'New review',
+    'reviewed ' || COALESCE(_business.name, 'your business'),
+    jsonb_build_object('business_id', NEW.business_id, 'review_id', NEW.id, 'rating', NEW.rating),
+    'business_review:' || NEW.business_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_business_review_trigger
+AFTER INSERT ON public.business_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_business_review();
+
+-- The owner's reply goes to the reviewer
+CREATE OR REPLACE FUNCTION public.notify_business_review_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _business RECORD;
+BEGIN
+  SELECT owner_id, name INTO _business FROM public.businesses WHERE id = NEW.business_id;
+
+  PERFORM public.create_notification(
+    NEW.user_id,
+    _business.owner_id,
+    'business_review_reply',
+    'Reply to your review',
+    'replied to your review of ' || COALESCE(_business.name, 'their business'),
+    jsonb_build_object('business_id', NEW.business_id, 'review_id', NEW.id),
+    NULL
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_business_review_reply_trigger
+AFTER UPDATE OF owner_reply ON public.business_reviews
+FOR EACH ROW
+WHEN (NEW.owner_reply IS NOT NULL AND OLD.owner_reply IS NULL)
+EXECUTE FUNCTION public.notify_business_review_reply();
+
+-- Reviews can be reported like posts and comments
+ALTER TABLE public.reports DROP CONSTRAINT IF EXISTS reports_reported_type_check;
+ALTER TABLE public.reports ADD CONSTRAINT reports_reported_type_check
+  CHECK (reported_type IN ('post', 'user', 'business', 'community', 'comment', 'business_review'));
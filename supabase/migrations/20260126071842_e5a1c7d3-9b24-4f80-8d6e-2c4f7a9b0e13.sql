@@ -0,0 +1,42 @@
+-- What a business sells: products and services with a price or price range,
+-- grouped by the owner's own categories. Customers enquire about an item in
+-- chat; the message carries a snapshot of the item so the card still reads
+-- right after the item is edited or removed.
+
+CREATE TABLE public.business_catalog_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL DEFAULT 'product' CHECK (item_type IN ('product', 'service')),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 120),
+  description TEXT CHECK (char_length(description) <= 2000),
+  category TEXT CHECK (char_length(category) <= 60),
+  -- No price means "price on request"; a max makes it a range
+  price_min NUMERIC(12, 2) CHECK (price_min >= 0),
+  price_max NUMERIC(12, 2),
+  unit TEXT CHECK (char_length(unit) <= 30),
+  image_urls TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(image_urls) <= 6),
+  availability TEXT NOT NULL DEFAULT 'available'
+    CHECK (availability IN ('available', 'unavailable', 'on_request')),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT business_catalog_items_price_range CHECK (
+    price_max IS NULL OR (price_min IS NOT NULL AND price_max >= price_min)
+  )
+);
+
+CREATE INDEX idx_business_catalog_items_business ON public.business_catalog_items(business_id, position, created_at);
+
+ALTER TABLE public.business_catalog_items ENABLE ROW LEVEL SECURITY;
+
+-- Written by the manage-business-catalog edge function only
+CREATE POLICY "Catalog items are viewable by everyone" ON public.business_catalog_items
+  FOR SELECT USING (true);
+
+CREATE TRIGGER update_business_catalog_items_updated_at
+  BEFORE UPDATE ON public.business_catalog_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Set by the messaging edge function from the item row, never by the client
+ALTER TABLE public.messages
+  ADD COLUMN item_reference JSONB;
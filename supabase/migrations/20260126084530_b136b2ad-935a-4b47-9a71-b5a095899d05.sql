@@ -0,0 +1,76 @@
+-- Trending areas from the location IDs
+-- trending_posts carried district/panchayath names parsed out of the free-text
+-- location. Rows now carry the district and local body IDs instead: the
+-- business's when it has them, else the author's when they show their location.
+
+ALTER TABLE public.trending_posts
+  DROP COLUMN district,
+  DROP COLUMN panchayath,
+  ADD COLUMN district_id UUID REFERENCES public.geo_districts(id) ON DELETE SET NULL,
+  ADD COLUMN local_body_id UUID REFERENCES public.geo_local_bodies(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_trending_posts_district ON public.trending_posts(district_id, score DESC);
+CREATE INDEX idx_trending_posts_local_body ON public.trending_posts(local_body_id, score DESC);
+
+-- Engagement (likes x2, comments x3) decayed by age in hours, gravity 1.5.
+-- Posts in the trash drop out like hidden ones.
+CREATE OR REPLACE FUNCTION public.refresh_trending_posts()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.trending_posts t
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = t.post_id
+      AND p.status = 'active'
+      AND p.deleted_at IS NULL
+      AND p.created_at > now() - INTERVAL '7 days'
+  );
+
+  INSERT INTO public.trending_posts (
+    post_id, score, likes_count, comments_count, district_id, local_body_id, business_category, computed_at
+  )
+  SELECT
+    p.id,
+    (l.cnt * 2 + c.cnt * 3 + 1)
+      / power(GREATEST(EXTRACT(EPOCH FROM now() - p.created_at) / 3600, 0) + 2, 1.5),
+    l.cnt,
+    c.cnt,
+    area.district_id,
+    area.local_body_id,
+    b.category,
+    now()
+  FROM public.posts p
+  LEFT JOIN public.businesses b ON b.id = p.business_id
+  LEFT JOIN public.profiles pr ON pr.id = p.user_id
+  CROSS JOIN LATERAL (SELECT count(*) AS cnt FROM public.post_likes WHERE post_id = p.id) l
+  CROSS JOIN LATERAL (SELECT count(*) AS cnt FROM public.comments WHERE post_id = p.id) c
+  -- trending_posts is public, so an author who hides their location adds no area
+  CROSS JOIN LATERAL (
+    SELECT
+      CASE WHEN b.district_id IS NOT NULL THEN b.district_id
+           WHEN COALESCE(pr.show_location, true) THEN pr.district_id END AS district_id,
+      CASE WHEN b.district_id IS NOT NULL THEN b.local_body_id
+           WHEN COALESCE(pr.show_location, true) THEN pr.local_body_id END AS local_body_id
+  ) area
+  WHERE p.status = 'active'
+    AND p.deleted_at IS NULL
+    AND p.created_at > now() - INTERVAL '7 days'
+  ON CONFLICT (post_id) DO UPDATE SET
+    score = EXCLUDED.score,
+    likes_count = EXCLUDED.likes_count,
+    comments_count = EXCLUDED.comments_count,
+    district_id = EXCLUDED.district_id,
+    local_body_id = EXCLUDED.local_body_id,
+    business_category = EXCLUDED.business_category,
+    computed_at = EXCLUDED.computed_at;
+END;
+$$;
+
+SELECT public.refresh_trending_posts();
+
+-- Nothing parses free-text locations any more
+DROP FUNCTION public.parse_location_area(TEXT);